@@ -9,6 +9,7 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { useAuth } from "@/hooks/use-auth";
 import { useBranding } from "@/hooks/use-branding";
+import { useMandant } from "@/hooks/use-mandant";
 import { Skeleton } from "@/components/ui/skeleton";
 import LandingPage from "@/pages/landing";
 import LoginPage from "@/pages/login";
@@ -16,6 +17,7 @@ import Dashboard from "@/pages/dashboard";
 import InvoicesPage from "@/pages/invoices";
 import CustomersPage from "@/pages/customers";
 import DunningRulesPage from "@/pages/dunning-rules";
+import DunningProposalsPage from "@/pages/dunning-proposals";
 import DunningTemplatesPage from "@/pages/dunning-templates";
 import SettingsIndexPage from "@/pages/settings/index";
 import BhbSettingsPage from "@/pages/settings/bhb";
@@ -24,6 +26,8 @@ import CompanySettingsPage from "@/pages/settings/company";
 import BrandingSettingsPage from "@/pages/settings/branding";
 import LandingSettingsPage from "@/pages/settings/landing";
 import SyncSettingsPage from "@/pages/settings/sync";
+import SyncLogPage from "@/pages/settings/sync-log";
+import MandantsSettingsPage from "@/pages/settings/mandants";
 import UsersPage from "@/pages/users";
 import DebugPage from "@/pages/debug";
 import NotFound from "@/pages/not-found";
@@ -35,6 +39,8 @@ function BrandingProvider({ children }: { children: React.ReactNode }) {
 
 function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
   const { branding } = useBranding();
+  const { user } = useAuth();
+  const { currentMandant } = useMandant(!!user && user.role !== "customer");
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
@@ -59,7 +65,8 @@ function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
             </div>
             <ThemeToggle />
           </header>
-          <main className="flex-1 min-h-0 overflow-auto p-6 flex flex-col">
+          {/* Remount pages on a mandant switch so no form keeps the previous mandant's data */}
+          <main key={currentMandant?.id} className="flex-1 min-h-0 overflow-auto p-6 flex flex-col">
             {children}
           </main>
         </div>
@@ -136,6 +143,9 @@ function AuthenticatedRoutes() {
         <Route path="/dunning-rules">
           <InternalRoute component={DunningRulesPage} />
         </Route>
+        <Route path="/dunning-proposals">
+          <InternalRoute component={DunningProposalsPage} />
+        </Route>
         <Route path="/dunning-templates">
           <AdminRoute component={DunningTemplatesPage} />
         </Route>
@@ -160,6 +170,12 @@ function AuthenticatedRoutes() {
         <Route path="/settings/sync">
           <AdminRoute component={SyncSettingsPage} />
         </Route>
+        <Route path="/settings/sync/logs/:id">
+          <AdminRoute component={SyncLogPage} />
+        </Route>
+        <Route path="/settings/mandants">
+          <AdminRoute component={MandantsSettingsPage} />
+        </Route>
         <Route path="/users">
           <AdminRoute component={UsersPage} />
         </Route>
@@ -10,6 +10,7 @@ import {
   LogOut,
   Building2,
   UserCog,
+  ClipboardCheck,
 } from "lucide-react";
 import {
   Sidebar,
@@ -25,7 +26,9 @@ import {
 } from "@/components/ui/sidebar";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAuth } from "@/hooks/use-auth";
+import { useMandant } from "@/hooks/use-mandant";
 
 interface BrandingConfig {
   companyName: string;
@@ -67,6 +70,12 @@ const allNavItems = [
     icon: AlertTriangle,
     roles: ["admin", "user", "viewer"],
   },
+  {
+    title: "Mahnvorschläge",
+    url: "/dunning-proposals",
+    icon: ClipboardCheck,
+    roles: ["admin", "user", "viewer"],
+  },
   {
     title: "Mahnvorlagen",
     url: "/dunning-templates",
@@ -98,6 +107,9 @@ export function AppSidebar() {
   
   const userRole = user?.role || "customer";
   const navItems = allNavItems.filter(item => item.roles.includes(userRole));
+  const { mandants, currentMandant, canSwitch, switchMandant, isSwitching } = useMandant(
+    !!user && userRole !== "customer"
+  );
 
   const getInitials = () => {
     if (user?.displayName) {
@@ -133,6 +145,28 @@ export function AppSidebar() {
             <span className="text-xs text-muted-foreground">{branding?.companyTagline || "Rechnungen & Zahlungen"}</span>
           </div>
         </div>
+        {canSwitch ? (
+          <Select
+            value={currentMandant?.id}
+            onValueChange={(mandantId) => switchMandant(mandantId)}
+            disabled={isSwitching}
+          >
+            <SelectTrigger className="mt-3" data-testid="select-mandant">
+              <SelectValue placeholder="Mandant wählen" />
+            </SelectTrigger>
+            <SelectContent>
+              {mandants.map((mandant) => (
+                <SelectItem key={mandant.id} value={mandant.id}>
+                  {mandant.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : currentMandant && mandants.length > 0 && (
+          <p className="mt-3 text-xs text-muted-foreground truncate" data-testid="text-current-mandant">
+            Mandant: {currentMandant.name}
+          </p>
+        )}
       </SidebarHeader>
       <SidebarContent>
         <SidebarGroup>
@@ -0,0 +1,273 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { History, Plus, Trash2, Upload, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { EzbBaseRate } from "@shared/schema";
+
+export interface BaseRatesResponse {
+  rates: EzbBaseRate[];
+  currentPeriodStart: string;
+  currentPeriodCovered: boolean;
+  currentRate: number;
+  fallbackRate: number;
+}
+
+function formatValidFrom(validFrom: string): string {
+  return format(new Date(`${validFrom}T00:00:00`), "dd.MM.yyyy", { locale: de });
+}
+
+export function BaseRateHistoryCard() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [year, setYear] = useState(String(new Date().getFullYear()));
+  const [half, setHalf] = useState<"01" | "07">(new Date().getMonth() < 6 ? "01" : "07");
+  const [ratePercent, setRatePercent] = useState("");
+
+  const { data, isLoading } = useQuery<BaseRatesResponse>({
+    queryKey: ["/api/settings/base-rates"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/settings/base-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/settings/interest"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (body: { validFrom: string; ratePercent: number }) =>
+      apiRequest("POST", "/api/settings/base-rates", body),
+    onSuccess: () => {
+      invalidate();
+      setRatePercent("");
+      toast({ title: "Basiszinssatz gespeichert" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler beim Speichern", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/settings/base-rates/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Basiszinssatz gelöscht" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler beim Löschen", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/settings/base-rates/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Import fehlgeschlagen");
+      }
+
+      return response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      invalidate();
+      toast({ title: "Import abgeschlossen", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import fehlgeschlagen", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleAdd = () => {
+    const rate = parseFloat(ratePercent.replace(",", "."));
+    if (!/^\d{4}$/.test(year) || isNaN(rate)) {
+      toast({ title: "Ungültiger Wert", description: "Bitte Jahr und Zinssatz prüfen.", variant: "destructive" });
+      return;
+    }
+    addMutation.mutate({ validFrom: `${year}-${half}-01`, ratePercent: rate });
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importMutation.mutate(file);
+    }
+    event.target.value = "";
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const rates = [...(data?.rates || [])].reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
+            <History className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-lg">Basiszinssatz-Historie</CardTitle>
+            <CardDescription>
+              Zinsen werden je Zeitraum mit dem jeweils gültigen Basiszinssatz berechnet
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {data && !data.currentPeriodCovered && (
+          <div className="flex items-center gap-2 p-3 rounded-md bg-yellow-500/10 border border-yellow-500/20">
+            <AlertTriangle className="h-5 w-5 text-yellow-600" />
+            <p className="text-sm text-yellow-600">
+              Für das aktuelle Halbjahr (ab {formatValidFrom(data.currentPeriodStart)}) ist kein Basiszinssatz hinterlegt.
+              Es wird {data.currentRate.toFixed(2)}% verwendet.
+            </p>
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="base-rate-year">Jahr</Label>
+            <Input
+              id="base-rate-year"
+              type="number"
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              data-testid="input-base-rate-year"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Gültig ab</Label>
+            <Select value={half} onValueChange={(value) => setHalf(value as "01" | "07")}>
+              <SelectTrigger data-testid="select-base-rate-half">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="01">1. Januar</SelectItem>
+                <SelectItem value="07">1. Juli</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="base-rate-percent">Basiszinssatz (%)</Label>
+            <Input
+              id="base-rate-percent"
+              placeholder="2,27"
+              value={ratePercent}
+              onChange={(e) => setRatePercent(e.target.value)}
+              data-testid="input-base-rate-percent"
+            />
+          </div>
+          <Button
+            onClick={handleAdd}
+            disabled={addMutation.isPending}
+            data-testid="button-add-base-rate"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Hinzufügen
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleFileChange}
+            data-testid="input-base-rate-csv"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-base-rates"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {importMutation.isPending ? "Importiere..." : "Bundesbank-CSV importieren"}
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Zeitreihe BBK01.SU0115 von der Bundesbank-Website als CSV herunterladen
+          </p>
+        </div>
+
+        {rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Noch keine Basiszinssätze hinterlegt. Bis dahin wird {data?.fallbackRate.toFixed(2)}% verwendet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Gültig ab</TableHead>
+                <TableHead className="text-right">Basiszinssatz</TableHead>
+                <TableHead className="text-right">Privatkunden (+5)</TableHead>
+                <TableHead className="text-right">Geschäftskunden (+9)</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map((rate) => {
+                const value = parseFloat(rate.ratePercent);
+                return (
+                  <TableRow key={rate.id} data-testid={`row-base-rate-${rate.id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {formatValidFrom(rate.validFrom)}
+                        {rate.validFrom === data?.currentPeriodStart && (
+                          <Badge variant="outline" className="text-xs">Aktuell</Badge>
+                        )}
+                        {rate.validFrom > (data?.currentPeriodStart || "") && (
+                          <Badge variant="secondary" className="text-xs">Zukünftig</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{value.toFixed(2)}%</TableCell>
+                    <TableCell className="text-right tabular-nums">{(value + 5).toFixed(2)}%</TableCell>
+                    <TableCell className="text-right tabular-nums">{(value + 9).toFixed(2)}%</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(rate.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-base-rate-${rate.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SchedulePreview {
+  valid: boolean;
+  message?: string;
+  nextRuns: string[];
+}
+
+interface CronScheduleFieldProps {
+  id: string;
+  label: string;
+  description: string;
+  value: string;
+  onChange: (value: string) => void;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+}
+
+// Wait for typing to settle before asking the server for a preview
+const PREVIEW_DELAY_MS = 400;
+
+export function CronScheduleField({
+  id,
+  label,
+  description,
+  value,
+  onChange,
+  quietHoursStart,
+  quietHoursEnd,
+}: CronScheduleFieldProps) {
+  const [expression, setExpression] = useState(value.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setExpression(value.trim()), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [value]);
+
+  const { data: preview } = useQuery<SchedulePreview>({
+    queryKey: ["/api/config/sync/preview", expression, quietHoursStart, quietHoursEnd],
+    queryFn: async () => {
+      const params = new URLSearchParams({ expression, quietHoursStart, quietHoursEnd });
+      const res = await fetch(`/api/config/sync/preview?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Vorschau konnte nicht geladen werden");
+      return res.json();
+    },
+    enabled: expression.length > 0,
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-sm font-medium">{label}</Label>
+      <p className="text-xs text-muted-foreground">{description}</p>
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="leer = deaktiviert"
+        className="font-mono max-w-xs"
+        data-testid={`input-${id}`}
+      />
+      {!expression ? (
+        <p className="text-xs text-muted-foreground">Deaktiviert</p>
+      ) : preview && !preview.valid ? (
+        <p className="text-xs text-red-500" data-testid={`text-${id}-error`}>{preview.message}</p>
+      ) : preview && preview.nextRuns.length === 0 ? (
+        <p className="text-xs text-yellow-600">Keine Ausführung außerhalb der Ruhezeiten</p>
+      ) : preview ? (
+        <p className="text-xs text-muted-foreground" data-testid={`text-${id}-preview`}>
+          Nächste Läufe:{" "}
+          {preview.nextRuns
+            .map((run) => format(new Date(run), "EEE dd.MM. HH:mm", { locale: de }))
+            .join(" · ")}
+        </p>
+      ) : null}
+    </div>
+  );
+}
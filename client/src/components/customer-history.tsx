@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DEBTOR_SYNC_FIELD_LABELS } from "@/components/debtor-sync-conflicts";
+import type { CustomerChange } from "@shared/schema";
+
+interface CustomerChangeEntry extends CustomerChange {
+  changedByName?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  ...DEBTOR_SYNC_FIELD_LABELS,
+  debtorPostingaccountNumber: "Debitorennummer",
+  isActive: "Aktiv",
+  customerType: "Kundentyp",
+  paymentTermDays: "Zahlungsziel (Tage)",
+};
+
+const VALUE_LABELS: Record<string, Record<string, string>> = {
+  isActive: { true: "Ja", false: "Nein" },
+  customerType: { consumer: "Privatkunde", business: "Geschäftskunde" },
+};
+
+function formatValue(field: string, value: string | null) {
+  if (value === null) return <span className="text-muted-foreground italic">leer</span>;
+  return VALUE_LABELS[field]?.[value] || value;
+}
+
+export function CustomerHistory({ customerId }: { customerId: string }) {
+  const { data: changes, isLoading } = useQuery<CustomerChangeEntry[]>({
+    queryKey: ["/api/customers", customerId, "history"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!changes?.length) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-8 text-center text-muted-foreground">
+        <History className="h-8 w-8" />
+        <p className="text-sm">Noch keine Änderungen aufgezeichnet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2" data-testid="list-customer-history">
+      {changes.map((change) => (
+        <div key={change.id} className="p-3 border rounded-md text-sm space-y-1" data-testid={`history-entry-${change.id}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{FIELD_LABELS[change.field] || change.field}</span>
+            <span className="text-xs text-muted-foreground">
+              {format(new Date(change.changedAt), "dd.MM.yyyy HH:mm", { locale: de })}
+            </span>
+          </div>
+          <p className="break-all">
+            <span className="line-through text-muted-foreground">{formatValue(change.field, change.oldValue)}</span>
+            {" → "}
+            <span>{formatValue(change.field, change.newValue)}</span>
+          </p>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="outline" className="text-xs">
+              {change.source === "bhb_sync" ? "BHB-Sync" : "Benutzer"}
+            </Badge>
+            <span>{change.changedByName || change.changedBy}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
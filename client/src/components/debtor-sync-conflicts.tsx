@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { AlertTriangle, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { DebtorSyncConflict, DebtorSyncField, DebtorSyncValues } from "@shared/schema";
+
+type Resolution = "portal" | "bhb";
+
+export interface DebtorSyncState {
+  locallyChanged: { id: string; fields: DebtorSyncField[] }[];
+  conflicts: {
+    id: string;
+    debtorPostingaccountNumber: number;
+    displayName: string;
+    conflict: DebtorSyncConflict;
+    portalValues: DebtorSyncValues;
+    syncedValues: DebtorSyncValues | null;
+  }[];
+}
+
+export const DEBTOR_SYNC_FIELD_LABELS: Record<DebtorSyncField, string> = {
+  displayName: "Name",
+  emailContact: "E-Mail",
+  contactPersonName: "Ansprechpartner",
+  street: "Straße",
+  additionalAddressline: "Adresszusatz",
+  zip: "PLZ",
+  city: "Ort",
+  country: "Land",
+  salesTaxIdEu: "USt-IdNr.",
+  uidCh: "UID (CH)",
+  iban: "IBAN",
+  bic: "BIC",
+};
+
+interface DebtorSyncConflictsProps {
+  canEdit: boolean;
+}
+
+function invalidateSyncState() {
+  queryClient.invalidateQueries({ queryKey: ["/api/customers/sync-state"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+}
+
+export function DebtorSyncConflicts({ canEdit }: DebtorSyncConflictsProps) {
+  const { toast } = useToast();
+  // Chosen side per customer and field; unset fields default to the portal value
+  const [resolutions, setResolutions] = useState<Record<string, Partial<Record<DebtorSyncField, Resolution>>>>({});
+
+  const { data: syncState, isLoading } = useQuery<DebtorSyncState>({
+    queryKey: ["/api/customers/sync-state"],
+  });
+
+  const pushMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<{ message: string; failed: number; errors?: string[] }>("POST", "/api/sync/debtors/push");
+    },
+    onSuccess: (data) => {
+      invalidateSyncState();
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-logs"] });
+      toast({
+        title: data.failed > 0 ? "Übertragung teilweise fehlgeschlagen" : "Zu BHB übertragen",
+        description: data.message,
+        variant: data.failed > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Übertragung fehlgeschlagen", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, fields }: { id: string; fields: DebtorSyncField[] }) => {
+      const chosen = resolutions[id] || {};
+      const payload: Partial<Record<DebtorSyncField, Resolution>> = {};
+      fields.forEach((field) => {
+        payload[field] = chosen[field] || "portal";
+      });
+      return apiRequest("POST", `/api/customers/${id}/sync-conflict/resolve`, { resolutions: payload });
+    },
+    onSuccess: (_data, { id }) => {
+      invalidateSyncState();
+      setResolutions((prev) => {
+        const copy = { ...prev };
+        delete copy[id];
+        return copy;
+      });
+      toast({ title: "Konflikt gelöst", description: "Im Portal behaltene Werte werden beim nächsten Übertragen an BHB gesendet." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setResolution = (id: string, field: DebtorSyncField, value: Resolution) => {
+    setResolutions((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const chooseAll = (id: string, fields: DebtorSyncField[], value: Resolution) => {
+    const all: Partial<Record<DebtorSyncField, Resolution>> = {};
+    fields.forEach((field) => {
+      all[field] = value;
+    });
+    setResolutions((prev) => ({ ...prev, [id]: all }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-24 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const changedCount = syncState?.locallyChanged.length || 0;
+  const conflicts = syncState?.conflicts || [];
+  const pushableCount = syncState?.locallyChanged.filter((c) => !conflicts.some((conflict) => conflict.id === c.id)).length || 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle>Lokale Änderungen</CardTitle>
+              <CardDescription>
+                {changedCount === 0
+                  ? "Alle Debitoren entsprechen dem Stand in BHB."
+                  : `${changedCount} Debitoren wurden im Portal geändert und noch nicht zu BHB übertragen.`}
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button
+                onClick={() => pushMutation.mutate()}
+                disabled={pushMutation.isPending || pushableCount === 0}
+                data-testid="button-push-debtors"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {pushMutation.isPending ? "Wird übertragen..." : `Alle lokal geänderten übertragen (${pushableCount})`}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        {conflicts.length > 0 && (
+          <CardContent>
+            <div className="flex items-center gap-2 p-3 rounded-md bg-yellow-500/10 border border-yellow-500/20">
+              <AlertTriangle className="h-4 w-4 text-yellow-600 shrink-0" />
+              <p className="text-sm">
+                {conflicts.length} Debitoren wurden im Portal und in BHB geändert. Sie werden erst übertragen, wenn der Konflikt gelöst ist.
+              </p>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {conflicts.map(({ id, debtorPostingaccountNumber, displayName, conflict, portalValues, syncedValues }) => (
+        <Card key={id} data-testid={`card-sync-conflict-${id}`}>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base">
+                  {displayName} <span className="text-muted-foreground font-normal">· Nr. {debtorPostingaccountNumber}</span>
+                </CardTitle>
+                <CardDescription>
+                  Konflikt erkannt am {format(new Date(conflict.detectedAt), "dd.MM.yyyy HH:mm", { locale: de })}
+                </CardDescription>
+              </div>
+              {canEdit && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => chooseAll(id, conflict.fields, "portal")}>
+                    Alle aus Portal
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => chooseAll(id, conflict.fields, "bhb")}>
+                    Alle aus BHB
+                  </Button>
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-[140px_1fr_1fr] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Feld</span>
+              <span>Portal</span>
+              <span>BHB</span>
+            </div>
+            {conflict.fields.map((field) => (
+              <div key={field} className="grid grid-cols-[140px_1fr] gap-2 items-start text-sm">
+                <div>
+                  <p className="font-medium">{DEBTOR_SYNC_FIELD_LABELS[field]}</p>
+                  {syncedValues && (
+                    <p className="text-xs text-muted-foreground" title="Stand beim letzten Abgleich">
+                      vorher: {syncedValues[field] || "–"}
+                    </p>
+                  )}
+                </div>
+                <RadioGroup
+                  className="grid-cols-2"
+                  value={resolutions[id]?.[field] || "portal"}
+                  onValueChange={(value) => setResolution(id, field, value as Resolution)}
+                  disabled={!canEdit}
+                >
+                  {(["portal", "bhb"] as const).map((side) => (
+                    <div key={side} className="flex items-start gap-2">
+                      <RadioGroupItem
+                        value={side}
+                        id={`${id}-${field}-${side}`}
+                        className="mt-0.5"
+                        data-testid={`radio-conflict-${field}-${side}-${id}`}
+                      />
+                      <Label htmlFor={`${id}-${field}-${side}`} className="font-normal break-all cursor-pointer">
+                        {(side === "portal" ? portalValues[field] : conflict.bhbValues[field]) || (
+                          <span className="text-muted-foreground">leer</span>
+                        )}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            ))}
+            {canEdit && (
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={() => resolveMutation.mutate({ id, fields: conflict.fields })}
+                  disabled={resolveMutation.isPending}
+                  data-testid={`button-resolve-conflict-${id}`}
+                >
+                  Auswahl übernehmen
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Mail, Play, Save } from "lucide-react";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface DunningRunResult {
+  startedAt: string;
+  finishedAt?: string;
+  mode: "manual" | "auto";
+  skippedReason?: string;
+  customersEvaluated: number;
+  emailsSent: number;
+  emailsFailed: number;
+  proposalsCreated: number;
+  capReached: boolean;
+  skipped: { customerId: string; displayName: string; reason: string }[];
+  errors: string[];
+}
+
+interface DunningRunConfig {
+  enabled: boolean;
+  requireApproval: boolean;
+  windowStart: string;
+  windowEnd: string;
+  maxEmailsPerRun: number;
+  lastResult: DunningRunResult | null;
+}
+
+export function DunningRunConfigCard() {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(false);
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [windowStart, setWindowStart] = useState("08:00");
+  const [windowEnd, setWindowEnd] = useState("18:00");
+  const [maxEmails, setMaxEmails] = useState("50");
+
+  const { data: config, isLoading } = useQuery<DunningRunConfig>({
+    queryKey: ["/api/config/dunning-run"],
+  });
+
+  useEffect(() => {
+    if (config) {
+      setEnabled(config.enabled);
+      setRequireApproval(config.requireApproval);
+      setWindowStart(config.windowStart);
+      setWindowEnd(config.windowEnd);
+      setMaxEmails(String(config.maxEmailsPerRun));
+    }
+  }, [config]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Omit<DunningRunConfig, "lastResult">) => {
+      return apiRequest("POST", "/api/config/dunning-run", data);
+    },
+    onSuccess: (data: any) => {
+      toast({ title: "Gespeichert", description: data.message });
+      queryClient.invalidateQueries({ queryKey: ["/api/config/dunning-run"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const runNowMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/dunning/run");
+    },
+    onSuccess: (data: any) => {
+      toast({ title: "Mahnlauf abgeschlossen", description: data.message });
+      queryClient.invalidateQueries({ queryKey: ["/api/config/dunning-run"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Mahnlauf-Fehler", description: error.message, variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: ["/api/config/dunning-run"] });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      enabled,
+      requireApproval,
+      windowStart,
+      windowEnd,
+      maxEmailsPerRun: parseInt(maxEmails, 10) || 1,
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const lastResult = config?.lastResult;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Automatischer Mahnlauf
+        </CardTitle>
+        <CardDescription>
+          Zum Zeitplan „Mahnlauf“ werden fällige Mahnstufen automatisch versendet
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="dunning-run-enabled" className="text-base font-medium">
+              Mahnlauf aktivieren
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Kunden können in den Mahnregeln einzeln ausgenommen werden
+            </p>
+          </div>
+          <Switch
+            id="dunning-run-enabled"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            data-testid="switch-dunning-run-enabled"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="dunning-run-approval" className="text-base font-medium">
+              Freigabe erforderlich
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Der automatische Lauf erstellt nur Mahnvorschläge, die vor dem Versand freigegeben werden müssen
+            </p>
+          </div>
+          <Switch
+            id="dunning-run-approval"
+            checked={requireApproval}
+            onCheckedChange={setRequireApproval}
+            data-testid="switch-dunning-run-approval"
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3 pt-2 border-t">
+          <div className="space-y-2">
+            <Label htmlFor="dunning-window-start">Zeitfenster von</Label>
+            <Input
+              id="dunning-window-start"
+              type="time"
+              value={windowStart}
+              onChange={(e) => setWindowStart(e.target.value)}
+              data-testid="input-dunning-window-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dunning-window-end">Zeitfenster bis</Label>
+            <Input
+              id="dunning-window-end"
+              type="time"
+              value={windowEnd}
+              onChange={(e) => setWindowEnd(e.target.value)}
+              data-testid="input-dunning-window-end"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dunning-max-emails">Max. E-Mails pro Lauf</Label>
+            <Input
+              id="dunning-max-emails"
+              type="number"
+              min={1}
+              value={maxEmails}
+              onChange={(e) => setMaxEmails(e.target.value)}
+              data-testid="input-dunning-max-emails"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-4">
+          <Button
+            onClick={handleSave}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-dunning-run-config"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? "Speichern..." : "Speichern"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => runNowMutation.mutate()}
+            disabled={runNowMutation.isPending}
+            data-testid="button-run-dunning-now"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            {runNowMutation.isPending ? "Mahnlauf läuft..." : "Mahnlauf jetzt starten"}
+          </Button>
+        </div>
+
+        {lastResult && (
+          <div className="text-sm space-y-1 pt-2 border-t" data-testid="dunning-run-last-result">
+            <div className="font-medium">
+              Letzter Lauf: {format(new Date(lastResult.startedAt), "dd.MM.yyyy HH:mm", { locale: de })}
+              {" "}({lastResult.mode === "auto" ? "Automatisch" : "Manuell"})
+            </div>
+            {lastResult.skippedReason ? (
+              <div className="text-muted-foreground">Übersprungen: {lastResult.skippedReason}</div>
+            ) : lastResult.proposalsCreated > 0 ? (
+              <div className="text-muted-foreground">
+                {lastResult.customersEvaluated} Kunden geprüft, {lastResult.proposalsCreated} Mahnvorschläge erstellt
+              </div>
+            ) : (
+              <div className="text-muted-foreground">
+                {lastResult.customersEvaluated} Kunden geprüft,{" "}
+                <span className="text-green-600">{lastResult.emailsSent} gesendet</span>
+                {lastResult.emailsFailed > 0 && (
+                  <>, <span className="text-red-500">{lastResult.emailsFailed} fehlgeschlagen</span></>
+                )}
+                {lastResult.skipped.length > 0 && <>, {lastResult.skipped.length} übersprungen</>}
+                {lastResult.capReached && <> (Limit erreicht)</>}
+              </div>
+            )}
+            {lastResult.errors.slice(0, 5).map((error, index) => (
+              <div key={index} className="text-xs text-red-500">{error}</div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
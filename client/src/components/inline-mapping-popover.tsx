@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Link2 } from "lucide-react";
+import { Link2, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Popover,
@@ -12,12 +12,31 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import type { PortalCustomer } from "@shared/schema";
 
+export interface DebtorSuggestion {
+  debtorPostingaccountNumber: number;
+  displayName: string;
+  confidence: number;
+  reasons: string[];
+}
+
+// Mirrors DEFAULT_AUTO_APPLY_CONFIDENCE on the server
+export const DEFAULT_AUTO_APPLY_THRESHOLD = 0.9;
+
 interface InlineMappingPopoverProps {
   counterpartyName: string;
+  autoApplyThreshold?: number;
   onMappingCreated?: () => void;
 }
 
-export function InlineMappingPopover({ counterpartyName, onMappingCreated }: InlineMappingPopoverProps) {
+export function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)} %`;
+}
+
+export function InlineMappingPopover({
+  counterpartyName,
+  autoApplyThreshold = DEFAULT_AUTO_APPLY_THRESHOLD,
+  onMappingCreated,
+}: InlineMappingPopoverProps) {
   const [open, setOpen] = useState(false);
   const [selectedDebtor, setSelectedDebtor] = useState<number | null>(null);
   const { toast } = useToast();
@@ -28,22 +47,40 @@ export function InlineMappingPopover({ counterpartyName, onMappingCreated }: Inl
     enabled: open,
   });
 
+  const { data: suggestions, isLoading: suggestionsLoading } = useQuery<DebtorSuggestion[]>({
+    queryKey: ["/api/counterparty-mappings/suggestions", counterpartyName],
+    queryFn: async () => {
+      const params = new URLSearchParams({ counterpartyName });
+      const res = await fetch(`/api/counterparty-mappings/suggestions?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Vorschläge konnten nicht geladen werden");
+      return res.json();
+    },
+    enabled: open,
+  });
+
   const debtorOptions = (customers || []).map((c) => ({
     id: c.id,
     debtorPostingaccountNumber: c.debtorPostingaccountNumber,
     displayName: c.displayName || `Debitor ${c.debtorPostingaccountNumber}`,
   }));
 
+  const invalidateMappingQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/counterparty-mappings"] });
+  };
+
   const createMappingMutation = useMutation({
-    mutationFn: async (data: { counterpartyName: string; debtorPostingaccountNumber: number; updateBhbName: boolean }) => {
-      const res = await apiRequest("POST", "/api/counterparty-mappings", data) as Response;
-      return res.json();
+    mutationFn: async (debtorPostingaccountNumber: number) => {
+      await apiRequest("POST", "/api/counterparty-mappings", {
+        counterpartyName,
+        debtorPostingaccountNumber,
+        updateBhb: false,
+      });
+      return apiRequest<{ applied: number }>("POST", "/api/counterparty-mappings/apply");
     },
-    onSuccess: () => {
-      toast({ title: "Zuordnung erstellt" });
-      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/counterparty-mappings"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/unmatched-counterparties"] });
+    onSuccess: (data) => {
+      toast({ title: "Zuordnung erstellt", description: `${data.applied} Rechnungen zugeordnet` });
+      invalidateMappingQueries();
       setOpen(false);
       setSelectedDebtor(null);
       onMappingCreated?.();
@@ -53,22 +90,38 @@ export function InlineMappingPopover({ counterpartyName, onMappingCreated }: Inl
     },
   });
 
+  const autoApplyMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<{ message: string }>("POST", "/api/counterparty-mappings/auto-apply", {
+        threshold: autoApplyThreshold,
+      });
+    },
+    onSuccess: (data) => {
+      toast({ title: "Sichere Vorschläge übernommen", description: data.message });
+      invalidateMappingQueries();
+      setOpen(false);
+      onMappingCreated?.();
+    },
+    onError: () => {
+      toast({ title: "Fehler beim Übernehmen der Vorschläge", variant: "destructive" });
+    },
+  });
+
   const handleSubmit = () => {
     if (!selectedDebtor) return;
-    createMappingMutation.mutate({
-      counterpartyName,
-      debtorPostingaccountNumber: selectedDebtor,
-      updateBhbName: false,
-    });
+    createMappingMutation.mutate(selectedDebtor);
   };
 
+  const isPending = createMappingMutation.isPending || autoApplyMutation.isPending;
+
   return (
     <Popover open={open} onOpenChange={setOpen}>
       <PopoverTrigger asChild>
-        <Button 
-          variant="ghost" 
-          size="sm" 
+        <Button
+          variant="ghost"
+          size="sm"
           className="h-6 px-2 text-xs text-muted-foreground hover:text-foreground"
+          data-testid="button-inline-mapping"
         >
           <Link2 className="h-3 w-3 mr-1" />
           Zuordnen
@@ -82,30 +135,77 @@ export function InlineMappingPopover({ counterpartyName, onMappingCreated }: Inl
               {counterpartyName}
             </p>
           </div>
+          <div>
+            <p className="text-xs text-muted-foreground mb-1">Vorschläge:</p>
+            {suggestionsLoading ? (
+              <p className="text-xs text-muted-foreground">Wird geladen...</p>
+            ) : !suggestions || suggestions.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Keine ähnlichen Debitoren gefunden</p>
+            ) : (
+              <div className="space-y-1">
+                {suggestions.map((suggestion) => (
+                  <Button
+                    key={suggestion.debtorPostingaccountNumber}
+                    variant="outline"
+                    size="sm"
+                    className="w-full h-auto py-1.5 justify-between text-left"
+                    title={suggestion.reasons.join(", ")}
+                    disabled={isPending}
+                    onClick={() => createMappingMutation.mutate(suggestion.debtorPostingaccountNumber)}
+                    data-testid={`button-suggestion-${suggestion.debtorPostingaccountNumber}`}
+                  >
+                    <span className="truncate text-xs">
+                      {suggestion.displayName}
+                      <span className="text-muted-foreground"> · Nr. {suggestion.debtorPostingaccountNumber}</span>
+                    </span>
+                    <span
+                      className={`ml-2 text-xs font-mono ${suggestion.confidence >= autoApplyThreshold ? "text-green-600" : "text-amber-600"}`}
+                    >
+                      {formatConfidence(suggestion.confidence)}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
           <div>
             <p className="text-xs text-muted-foreground mb-1">Debitor zuweisen:</p>
-            <DebtorCombobox 
+            <DebtorCombobox
               debtors={debtorOptions}
-              value={selectedDebtor} 
-              onValueChange={setSelectedDebtor} 
+              value={selectedDebtor}
+              onValueChange={setSelectedDebtor}
               className="w-full"
             />
           </div>
-          <div className="flex justify-end gap-2">
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={() => setOpen(false)}
-            >
-              Abbrechen
-            </Button>
+          <div className="flex items-center justify-between gap-2">
             <Button
+              variant="ghost"
               size="sm"
-              disabled={!selectedDebtor || createMappingMutation.isPending}
-              onClick={handleSubmit}
+              className="px-2 text-xs"
+              title={`Alle Vorschläge ab ${formatConfidence(autoApplyThreshold)} ohne Rückfrage übernehmen`}
+              disabled={isPending}
+              onClick={() => autoApplyMutation.mutate()}
+              data-testid="button-auto-apply-suggestions"
             >
-              Zuordnen
+              <Sparkles className="h-3 w-3 mr-1" />
+              Alle sicheren
             </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOpen(false)}
+              >
+                Abbrechen
+              </Button>
+              <Button
+                size="sm"
+                disabled={!selectedDebtor || isPending}
+                onClick={handleSubmit}
+              >
+                Zuordnen
+              </Button>
+            </div>
           </div>
         </div>
       </PopoverContent>
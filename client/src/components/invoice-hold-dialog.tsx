@@ -0,0 +1,127 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { BhbReceiptsCache } from "@shared/schema";
+
+type HoldInvoice = Pick<BhbReceiptsCache, "id" | "invoiceNumber" | "onHold" | "holdReason" | "holdUntil" | "holdOwner">;
+
+interface InvoiceHoldDialogProps {
+  invoice: HoldInvoice | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function toDateInput(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toISOString().slice(0, 10) : "";
+}
+
+export function InvoiceHoldDialog({ invoice, open, onOpenChange }: InvoiceHoldDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [reason, setReason] = useState("");
+  const [until, setUntil] = useState("");
+  const [owner, setOwner] = useState("");
+
+  useEffect(() => {
+    if (open && invoice) {
+      setReason(invoice.holdReason || "");
+      setUntil(toDateInput(invoice.holdUntil));
+      setOwner(invoice.holdOwner || user?.displayName || "");
+    }
+  }, [open, invoice, user]);
+
+  const holdMutation = useMutation({
+    mutationFn: async (onHold: boolean) => {
+      if (!invoice) return null;
+      return await apiRequest("PATCH", `/api/invoices/${invoice.id}`, onHold
+        ? { onHold, holdReason: reason, holdUntil: until || null, holdOwner: owner || null }
+        : { onHold });
+    },
+    onSuccess: (_data, onHold) => {
+      toast({
+        title: onHold ? "Mahnsperre gesetzt" : "Mahnsperre aufgehoben",
+        description: onHold
+          ? "Die Rechnung wird bis auf Weiteres nicht gemahnt."
+          : "Die Rechnung wird wieder in Mahnläufen berücksichtigt.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Mahnsperre {invoice?.invoiceNumber ? `für ${invoice.invoiceNumber}` : ""}</DialogTitle>
+          <DialogDescription>
+            Bestrittene oder geklärte Rechnungen werden weder gemahnt noch verzinst, solange die Sperre gilt.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="hold-reason">Grund</Label>
+            <Textarea
+              id="hold-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="z. B. Kunde bestreitet Leistung, Reklamation offen"
+              data-testid="input-hold-reason"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="hold-until">Gesperrt bis</Label>
+              <Input
+                id="hold-until"
+                type="date"
+                value={until}
+                onChange={(e) => setUntil(e.target.value)}
+                data-testid="input-hold-until"
+              />
+              <p className="text-xs text-muted-foreground">Leer lassen für unbefristet</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hold-owner">Zuständig</Label>
+              <Input
+                id="hold-owner"
+                value={owner}
+                onChange={(e) => setOwner(e.target.value)}
+                data-testid="input-hold-owner"
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          {invoice?.onHold && (
+            <Button
+              variant="outline"
+              onClick={() => holdMutation.mutate(false)}
+              disabled={holdMutation.isPending}
+              data-testid="button-lift-hold"
+            >
+              Sperre aufheben
+            </Button>
+          )}
+          <Button
+            onClick={() => holdMutation.mutate(true)}
+            disabled={holdMutation.isPending || !reason.trim()}
+            data-testid="button-save-hold"
+          >
+            {invoice?.onHold ? "Speichern" : "Mahnsperre setzen"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 import { Badge } from "@/components/ui/badge";
-import { Check, Clock, AlertTriangle, AlertCircle } from "lucide-react";
+import { Check, Clock, AlertTriangle, AlertCircle, Ban } from "lucide-react";
 
-type PaymentStatus = "paid" | "unpaid" | "overdue" | "urgent";
+type PaymentStatus = "paid" | "unpaid" | "overdue" | "urgent" | "cancelled";
 
 interface PaymentStatusBadgeProps {
   status: PaymentStatus;
@@ -28,6 +28,11 @@ const statusConfig: Record<PaymentStatus, { label: string; variant: "default" |
     variant: "destructive",
     icon: AlertCircle,
   },
+  cancelled: {
+    label: "Storniert",
+    variant: "outline",
+    icon: Ban,
+  },
 };
 
 export function PaymentStatusBadge({ status }: PaymentStatusBadgeProps) {
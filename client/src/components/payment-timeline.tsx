@@ -0,0 +1,75 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { ReceiptPayment, ReceiptPaymentSource } from "@shared/schema";
+
+const SOURCE_LABELS: Record<ReceiptPaymentSource, string> = {
+  bhb: "laut BHB",
+  sync: "beim Abgleich erkannt",
+  initial: "bereits bei Übernahme bezahlt",
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("de-DE", { style: "currency", currency: "EUR" }).format(amount);
+}
+
+interface PaymentTimelineProps {
+  payments: ReceiptPayment[];
+  // Shown as the trigger; the sum of payments may differ for invoices synced before payments were recorded
+  paidAmount: number;
+  testId?: string;
+}
+
+export function PaymentTimeline({ payments, paidAmount, testId }: PaymentTimelineProps) {
+  if (payments.length === 0) {
+    return <>{paidAmount > 0 ? formatCurrency(paidAmount) : "-"}</>;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="underline decoration-dotted underline-offset-4 hover:text-foreground"
+          title="Zahlungsverlauf anzeigen"
+          data-testid={testId}
+        >
+          {formatCurrency(paidAmount)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <p className="text-sm font-medium mb-3">Zahlungsverlauf</p>
+        <ol className="relative border-l pl-4 space-y-3">
+          {payments.map((payment) => {
+            const amount = parseFloat(payment.amount) || 0;
+            return (
+              <li key={payment.id} className="text-sm">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background ${
+                    amount < 0 ? "border-red-500" : "border-green-600"
+                  }`}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <span>
+                    {payment.paymentDate
+                      ? new Date(payment.paymentDate).toLocaleDateString("de-DE")
+                      : "Datum unbekannt"}
+                  </span>
+                  <span className={`font-mono tabular-nums ${amount < 0 ? "text-red-600 dark:text-red-400" : ""}`}>
+                    {amount < 0 ? "−" : ""}
+                    {formatCurrency(Math.abs(amount))}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {amount < 0 ? "Rückbuchung, " : ""}
+                  {SOURCE_LABELS[payment.source as ReceiptPaymentSource] || payment.source}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+        <p className="text-xs text-muted-foreground mt-3">
+          Verzugszinsen auf gezahlte Beträge laufen nur bis zum Zahlungsdatum.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -31,7 +31,10 @@ interface OverdueInvoice {
   daysOverdue: number;
   interestRate: number;
   interestAmount: number;
+  interestPaid: number;
+  costsPaid: number;
   feeAmount: number;
+  lumpSumAmount: number;
   totalWithInterest: number;
 }
 
@@ -52,7 +55,12 @@ interface PreviewResponse {
       offenerBetrag: number;
       zinsen: number;
       gebuehren: number;
+      pauschale: number;
       gesamt: number;
+      zahlungen: number;
+      zahlungenAufKosten: number;
+      zahlungenAufZinsen: number;
+      zahlungenAufHauptforderung: number;
     };
   };
 }
@@ -159,6 +167,9 @@ export function SendDunningDialog({ open, onOpenChange, customer, initialStage =
   const totalOpen = overdueInvoices?.reduce((sum, inv) => sum + inv.amountOpen, 0) || 0;
   const totalInterest = overdueInvoices?.reduce((sum, inv) => sum + inv.interestAmount, 0) || 0;
   const totalFees = overdueInvoices?.reduce((sum, inv) => sum + inv.feeAmount, 0) || 0;
+  const totalLumpSum = overdueInvoices?.reduce((sum, inv) => sum + (inv.lumpSumAmount || 0), 0) || 0;
+  const totalInterestPaid = overdueInvoices?.reduce((sum, inv) => sum + (inv.interestPaid || 0), 0) || 0;
+  const totalCostsPaid = overdueInvoices?.reduce((sum, inv) => sum + (inv.costsPaid || 0), 0) || 0;
 
   const formatCurrency = (value: number) => 
     new Intl.NumberFormat("de-DE", { style: "currency", currency: "EUR" }).format(value);
@@ -281,13 +292,26 @@ export function SendDunningDialog({ open, onOpenChange, customer, initialStage =
                           </td>
                         </tr>
                       ))}
+                      {totalLumpSum > 0 && (
+                        <tr className="border-t">
+                          <td className="p-3" colSpan={6}>Verzugspauschale (§ 288 Abs. 5 BGB)</td>
+                          <td className="p-3 text-right">{formatCurrency(totalLumpSum)}</td>
+                        </tr>
+                      )}
                       <tr className="border-t bg-muted font-medium">
                         <td className="p-3" colSpan={3}>Gesamt</td>
                         <td className="p-3 text-right">{formatCurrency(totalOpen)}</td>
                         <td className="p-3 text-right">{formatCurrency(totalInterest)}</td>
                         <td className="p-3 text-right">{formatCurrency(totalFees)}</td>
-                        <td className="p-3 text-right">{formatCurrency(totalOpen + totalInterest + totalFees)}</td>
+                        <td className="p-3 text-right">{formatCurrency(totalOpen + totalInterest + totalFees + totalLumpSum)}</td>
                       </tr>
+                      {(totalInterestPaid > 0 || totalCostsPaid > 0) && (
+                        <tr className="border-t text-xs text-muted-foreground">
+                          <td className="p-3" colSpan={7} data-testid="text-payment-allocation">
+                            Teilzahlungen nach § 367 BGB bereits angerechnet: {formatCurrency(totalCostsPaid)} auf Kosten, {formatCurrency(totalInterestPaid)} auf Zinsen
+                          </td>
+                        </tr>
+                      )}
                     </tbody>
                   </table>
                 </div>
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Square } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SyncProgress {
+  syncLogId: string;
+  phase: "invoices" | "debtors" | "finished" | "cancelled" | "error";
+  fetched: number;
+  processed: number;
+  created: number;
+  updated: number;
+  errors: number;
+  message?: string;
+}
+
+const PHASE_LABELS: Record<SyncProgress["phase"], string> = {
+  invoices: "Rechnungen werden synchronisiert",
+  debtors: "Debitoren werden synchronisiert",
+  finished: "Abgeschlossen",
+  cancelled: "Abgebrochen",
+  error: "Fehler",
+};
+
+const TERMINAL_PHASES: SyncProgress["phase"][] = ["finished", "cancelled", "error"];
+
+interface SyncProgressPanelProps {
+  syncLogId: string;
+  onFinished: () => void;
+}
+
+export function SyncProgressPanel({ syncLogId, onFinished }: SyncProgressPanelProps) {
+  const { toast } = useToast();
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+
+  useEffect(() => {
+    const source = new EventSource(`/api/sync-logs/${syncLogId}/progress`, { withCredentials: true });
+
+    source.onmessage = (event) => {
+      const data: SyncProgress = JSON.parse(event.data);
+      setProgress(data);
+      if (TERMINAL_PHASES.includes(data.phase)) {
+        source.close();
+        onFinished();
+      }
+    };
+    // The server closes the stream when the run ends; do not let the browser reconnect
+    source.onerror = () => source.close();
+
+    return () => source.close();
+  }, [syncLogId]);
+
+  const cancelMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/sync-logs/${syncLogId}/cancel`),
+    onSuccess: () => {
+      toast({ title: "Sync wird abgebrochen" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Abbrechen fehlgeschlagen", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isRunning = !progress || !TERMINAL_PHASES.includes(progress.phase);
+  const percent = progress && progress.fetched > 0
+    ? Math.min(100, Math.round((progress.processed / progress.fetched) * 100))
+    : 0;
+
+  const counters = [
+    { label: "Abgerufen", value: progress?.fetched ?? 0 },
+    { label: "Verarbeitet", value: progress?.processed ?? 0 },
+    { label: "Neu", value: progress?.created ?? 0, className: "text-green-600" },
+    { label: "Aktualisiert", value: progress?.updated ?? 0, className: "text-blue-600" },
+    { label: "Fehler", value: progress?.errors ?? 0, className: progress?.errors ? "text-red-500" : undefined },
+  ];
+
+  return (
+    <Card data-testid={`card-sync-progress-${syncLogId}`}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {isRunning && <Loader2 className="h-5 w-5 animate-spin" />}
+              Laufender Sync
+            </CardTitle>
+            <CardDescription>
+              {progress ? PHASE_LABELS[progress.phase] : "Verbinde..."}
+              {progress?.message ? ` – ${progress.message}` : ""}
+            </CardDescription>
+          </div>
+          {isRunning && (
+            <Button
+              variant="outline"
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending || cancelMutation.isSuccess}
+              data-testid="button-cancel-sync"
+            >
+              <Square className="h-4 w-4 mr-2" />
+              Abbrechen
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={percent} />
+        <div className="grid grid-cols-5 gap-4 text-center">
+          {counters.map((counter) => (
+            <div key={counter.label}>
+              <div className={`text-lg font-semibold tabular-nums ${counter.className || ""}`}>{counter.value}</div>
+              <div className="text-xs text-muted-foreground">{counter.label}</div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Mandant } from "@shared/schema";
+
+interface MandantState {
+  mandants: Mandant[];
+  currentMandantId: string | null;
+  canSwitch: boolean;
+}
+
+export function useMandant(enabled = true) {
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useQuery<MandantState>({
+    queryKey: ["/api/mandants"],
+    enabled,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: async (mandantId: string) => {
+      return apiRequest<{ currentMandantId: string }>("POST", "/api/mandants/current", { mandantId });
+    },
+    onSuccess: () => {
+      // Every list in the portal belongs to the previous mandant
+      queryClient.invalidateQueries();
+    },
+  });
+
+  const currentMandant = data?.mandants.find((mandant) => mandant.id === data.currentMandantId);
+
+  return {
+    mandants: data?.mandants || [],
+    currentMandant,
+    canSwitch: data?.canSwitch || false,
+    isLoading,
+    switchMandant: switchMutation.mutate,
+    isSwitching: switchMutation.isPending,
+  };
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Users, Plus, Search, Pencil, Trash2, Mail, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown, Upload, CheckCircle2, AlertCircle, Clock, Link as LinkIcon, EyeOff, Eye, ChevronLeft, ChevronRight, ChevronDown, ChevronRight as ChevronRightIcon, FileText, Printer } from "lucide-react";
+import { Users, Plus, Search, Pencil, Trash2, Mail, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown, Upload, CheckCircle2, AlertCircle, Clock, Link as LinkIcon, EyeOff, Eye, ChevronLeft, ChevronRight, ChevronDown, ChevronRight as ChevronRightIcon, FileText, Printer, Sparkles } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -15,6 +15,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { DebtorCombobox } from "@/components/debtor-combobox";
+import { DebtorSyncConflicts, type DebtorSyncState } from "@/components/debtor-sync-conflicts";
+import { CustomerHistory } from "@/components/customer-history";
+import { DEFAULT_AUTO_APPLY_THRESHOLD, formatConfidence, type DebtorSuggestion } from "@/components/inline-mapping-popover";
 import {
   Table,
   TableBody,
@@ -377,6 +380,7 @@ interface CounterpartyMapping {
 interface UnmatchedCounterparty {
   counterpartyName: string;
   count: number;
+  suggestions: DebtorSuggestion[];
 }
 
 interface CounterpartyException {
@@ -516,7 +520,7 @@ export default function CustomersPage() {
     queryKey: ["/api/customers"],
   });
 
-  const { data: openInvoiceStats } = useQuery<Record<number, { count: number; totalOpen: number; overdueCount: number }>>({
+  const { data: openInvoiceStats } = useQuery<Record<number, { count: number; totalOpen: number; openCredit: number; overdueCount: number }>>({
     queryKey: ["/api/customers/open-invoice-stats"],
   });
 
@@ -524,6 +528,10 @@ export default function CustomersPage() {
     queryKey: ["/api/counterparty-mappings"],
   });
 
+  const { data: syncState } = useQuery<DebtorSyncState>({
+    queryKey: ["/api/customers/sync-state"],
+  });
+
   const { data: unmatchedCounterparties } = useQuery<UnmatchedCounterparty[]>({
     queryKey: ["/api/counterparty-mappings", "unmatched"],
   });
@@ -557,30 +565,17 @@ export default function CustomersPage() {
     },
   });
 
-  // Auto-suggest matching debtors when names match exactly
-  const normalizeForComparison = (name: string) => 
-    name.toLowerCase().trim().replace(/\s+/g, " ");
-
-  const getExactMatchDebtor = (counterpartyName: string) => {
-    if (!customers) return null;
-    const normalizedCounterparty = normalizeForComparison(counterpartyName);
-    return customers.find(c => normalizeForComparison(c.displayName) === normalizedCounterparty);
-  };
-
-  // Auto-populate suggestions for exact matches when data loads (using useEffect to avoid render-cycle issues)
+  // Preselect the best suggestion when it is confident enough (using useEffect to avoid render-cycle issues)
   const [autoSuggestionsApplied, setAutoSuggestionsApplied] = useState(false);
   
   useEffect(() => {
-    if (customers && unmatchedCounterparties && !autoSuggestionsApplied && mappings) {
+    if (unmatchedCounterparties && !autoSuggestionsApplied && mappings) {
       const suggestions: Record<string, number> = {};
       unmatchedCounterparties.forEach(item => {
         const existingMapping = mappings.find(m => m.counterpartyName === item.counterpartyName);
-        if (!existingMapping) {
-          const normalizedCounterparty = normalizeForComparison(item.counterpartyName);
-          const matchedDebtor = customers.find(c => normalizeForComparison(c.displayName) === normalizedCounterparty);
-          if (matchedDebtor) {
-            suggestions[item.counterpartyName] = matchedDebtor.debtorPostingaccountNumber;
-          }
+        const [best] = item.suggestions;
+        if (!existingMapping && best && best.confidence >= DEFAULT_AUTO_APPLY_THRESHOLD) {
+          suggestions[item.counterpartyName] = best.debtorPostingaccountNumber;
         }
       });
       if (Object.keys(suggestions).length > 0) {
@@ -588,7 +583,10 @@ export default function CustomersPage() {
       }
       setAutoSuggestionsApplied(true);
     }
-  }, [customers, unmatchedCounterparties, mappings, autoSuggestionsApplied]);
+  }, [unmatchedCounterparties, mappings, autoSuggestionsApplied]);
+
+  const getSelectedSuggestion = (item: UnmatchedCounterparty) =>
+    item.suggestions.find(s => s.debtorPostingaccountNumber === selectedMapping[item.counterpartyName]);
 
   const filteredUnmatched = unmatchedCounterparties?.filter((item) => {
     if (!mappingSearch) return true;
@@ -672,6 +670,23 @@ export default function CustomersPage() {
     },
   });
 
+  const autoApplySuggestionsMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<{ message: string; applied: number }>("POST", "/api/counterparty-mappings/auto-apply", {
+        threshold: DEFAULT_AUTO_APPLY_THRESHOLD,
+      });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/counterparty-mappings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/counterparty-mappings", "unmatched"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: data.message });
+    },
+    onError: () => {
+      toast({ title: "Fehler beim Übernehmen der Vorschläge", variant: "destructive" });
+    },
+  });
+
   const handleCreateMapping = (counterpartyName: string) => {
     const debtorNumber = selectedMapping[counterpartyName];
     if (!debtorNumber) return;
@@ -721,6 +736,7 @@ export default function CustomersPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers/sync-state"] });
       setEditingCustomer(null);
       resetForm();
       toast({
@@ -758,11 +774,12 @@ export default function CustomersPage() {
 
   const syncMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/sync/customers");
-      return res as { created: number; updated: number; total: number; message: string };
+      const res = await apiRequest("POST", "/api/sync/customers-v2");
+      return res as { created: number; updated: number; unchanged: number; message: string };
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-logs"] });
       toast({
         title: "Synchronisation abgeschlossen",
         description: data.message,
@@ -784,6 +801,7 @@ export default function CustomersPage() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers/sync-state"] });
       toast({
         title: "Zu BHB übertragen",
         description: data.message,
@@ -1032,6 +1050,14 @@ export default function CustomersPage() {
               <Badge variant="secondary" className="ml-2">{unmatchedCounterparties?.length}</Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="abgleich" data-testid="tab-abgleich">
+            BHB-Abgleich
+            {(syncState?.conflicts.length || 0) > 0 ? (
+              <Badge variant="destructive" className="ml-2">{syncState?.conflicts.length}</Badge>
+            ) : (syncState?.locallyChanged.length || 0) > 0 ? (
+              <Badge variant="secondary" className="ml-2">{syncState?.locallyChanged.length}</Badge>
+            ) : null}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="liste" className="flex-1 min-h-0 flex-col mt-4 overflow-hidden">
@@ -1169,19 +1195,26 @@ export default function CustomersPage() {
                       <TableCell>
                         {(() => {
                           const stats = openInvoiceStats?.[customer.debtorPostingaccountNumber];
-                          if (!stats || stats.count === 0) {
+                          if (!stats || (stats.count === 0 && stats.openCredit === 0)) {
                             return <span className="text-muted-foreground text-sm">-</span>;
                           }
                           return (
                             <div className="flex flex-col gap-0.5">
-                              <div className="flex items-center gap-1.5">
-                                <Badge variant={stats.overdueCount > 0 ? "destructive" : "secondary"} className="text-xs">
-                                  {stats.count} Rechnung{stats.count !== 1 ? "en" : ""}
-                                </Badge>
-                              </div>
-                              <span className="text-xs font-medium">
+                              {stats.count > 0 && (
+                                <div className="flex items-center gap-1.5">
+                                  <Badge variant={stats.overdueCount > 0 ? "destructive" : "secondary"} className="text-xs">
+                                    {stats.count} Rechnung{stats.count !== 1 ? "en" : ""}
+                                  </Badge>
+                                </div>
+                              )}
+                              <span className={`text-xs font-medium ${stats.totalOpen <= 0 ? "text-green-600 dark:text-green-400" : ""}`}>
                                 {new Intl.NumberFormat("de-DE", { style: "currency", currency: "EUR" }).format(stats.totalOpen)}
                               </span>
+                              {stats.openCredit > 0 && (
+                                <span className="text-xs text-muted-foreground" data-testid={`text-open-credit-${customer.id}`}>
+                                  abzgl. {new Intl.NumberFormat("de-DE", { style: "currency", currency: "EUR" }).format(stats.openCredit)} Gutschriften
+                                </span>
+                              )}
                               {stats.overdueCount > 0 && (
                                 <span className="text-xs text-red-600 dark:text-red-400">
                                   {stats.overdueCount} überfällig
@@ -1351,6 +1384,18 @@ export default function CustomersPage() {
                   </CardDescription>
                 </div>
                 <div className="flex flex-col sm:flex-row gap-2 items-center">
+                  {canEdit && (
+                    <Button
+                      variant="outline"
+                      onClick={() => autoApplySuggestionsMutation.mutate()}
+                      disabled={autoApplySuggestionsMutation.isPending || !unmatchedCounterparties?.length}
+                      title={`Alle eindeutigen Vorschläge ab ${formatConfidence(DEFAULT_AUTO_APPLY_THRESHOLD)} zuordnen`}
+                      data-testid="button-auto-apply-suggestions"
+                    >
+                      <Sparkles className="h-4 w-4 mr-2" />
+                      Sichere Vorschläge übernehmen
+                    </Button>
+                  )}
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
@@ -1390,7 +1435,7 @@ export default function CustomersPage() {
                 <p className="text-sm text-muted-foreground mb-4">
                   Wählen Sie einen Debitor und klicken Sie auf das Verknüpfungs-Symbol - die Zuordnung wird sofort gespeichert.
                   Mit "Ignorieren" blenden Sie irrelevante Einträge aus.
-                  <span className="text-green-600 dark:text-green-400 ml-2">Bei 100% Namensübereinstimmung wird der Debitor automatisch vorgeschlagen.</span>
+                  <span className="text-green-600 dark:text-green-400 ml-2">Vorschläge ab {formatConfidence(DEFAULT_AUTO_APPLY_THRESHOLD)} Übereinstimmung werden automatisch vorausgewählt.</span>
                 </p>
               )}
               <div className="border rounded-md overflow-auto max-h-[500px]">
@@ -1408,6 +1453,7 @@ export default function CustomersPage() {
                 <TableBody>
                   {paginatedUnmatched?.map((item) => {
                     const existingMapping = mappings?.find((m) => m.counterpartyName === item.counterpartyName);
+                    const selectedSuggestion = getSelectedSuggestion(item);
                     const isExpanded = expandedCounterparty === item.counterpartyName;
                     return (
                       <React.Fragment key={item.counterpartyName}>
@@ -1437,6 +1483,7 @@ export default function CustomersPage() {
                               {existingMapping.debtorPostingaccountNumber} - {existingMapping.customerName}
                             </Badge>
                           ) : canEdit ? (
+                            <div className="space-y-1">
                             <div className="flex items-center gap-2">
                               <DebtorCombobox
                                 debtors={customers?.map((c) => ({
@@ -1449,12 +1496,39 @@ export default function CustomersPage() {
                                   setSelectedMapping((prev) => ({ ...prev, [item.counterpartyName]: val }))
                                 }
                               />
-                              {getExactMatchDebtor(item.counterpartyName) && selectedMapping[item.counterpartyName] && (
-                                <Badge variant="outline" className="text-green-600 border-green-600 text-xs whitespace-nowrap">
-                                  100% Match
+                              {selectedSuggestion && (
+                                <Badge
+                                  variant="outline"
+                                  className={`text-xs whitespace-nowrap ${selectedSuggestion.confidence >= DEFAULT_AUTO_APPLY_THRESHOLD ? "text-green-600 border-green-600" : "text-amber-600 border-amber-600"}`}
+                                  title={selectedSuggestion.reasons.join(", ")}
+                                  data-testid={`badge-suggestion-confidence-${item.counterpartyName}`}
+                                >
+                                  {formatConfidence(selectedSuggestion.confidence)} Match
                                 </Badge>
                               )}
                             </div>
+                            {item.suggestions.length > 0 && (
+                              <div className="flex flex-wrap gap-1">
+                                {item.suggestions
+                                  .filter((s) => s.debtorPostingaccountNumber !== selectedMapping[item.counterpartyName])
+                                  .map((s) => (
+                                    <Button
+                                      key={s.debtorPostingaccountNumber}
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-6 px-2 text-xs text-muted-foreground"
+                                      title={s.reasons.join(", ")}
+                                      onClick={() =>
+                                        setSelectedMapping((prev) => ({ ...prev, [item.counterpartyName]: s.debtorPostingaccountNumber }))
+                                      }
+                                      data-testid={`button-suggestion-${s.debtorPostingaccountNumber}`}
+                                    >
+                                      {s.displayName} ({formatConfidence(s.confidence)})
+                                    </Button>
+                                  ))}
+                              </div>
+                            )}
+                            </div>
                           ) : (
                             <span className="text-muted-foreground">-</span>
                           )}
@@ -1650,6 +1724,10 @@ export default function CustomersPage() {
           )}
           </div>
         </TabsContent>
+
+        <TabsContent value="abgleich" className="flex-1 min-h-0 flex-col mt-4 overflow-auto">
+          <DebtorSyncConflicts canEdit={canEdit} />
+        </TabsContent>
       </Tabs>
 
       <Dialog open={!!editingCustomer} onOpenChange={(open) => !open && setEditingCustomer(null)}>
@@ -1660,16 +1738,27 @@ export default function CustomersPage() {
               Bearbeiten Sie die Daten des Debitors {editingCustomer?.displayName}.
             </DialogDescription>
           </DialogHeader>
-          <CustomerForm
-            formData={formData}
-            setFormData={setFormData}
-            editingCustomer={editingCustomer}
-            onSubmit={handleSubmit}
-            onCancel={handleCancel}
-            onBhbSync={handleBhbSync}
-            isSubmitting={updateMutation.isPending}
-            isBhbSyncing={bhbSyncMutation.isPending}
-          />
+          <Tabs defaultValue="stammdaten">
+            <TabsList>
+              <TabsTrigger value="stammdaten" data-testid="tab-customer-form">Stammdaten</TabsTrigger>
+              <TabsTrigger value="verlauf" data-testid="tab-customer-history">Verlauf</TabsTrigger>
+            </TabsList>
+            <TabsContent value="stammdaten">
+              <CustomerForm
+                formData={formData}
+                setFormData={setFormData}
+                editingCustomer={editingCustomer}
+                onSubmit={handleSubmit}
+                onCancel={handleCancel}
+                onBhbSync={handleBhbSync}
+                isSubmitting={updateMutation.isPending}
+                isBhbSyncing={bhbSyncMutation.isPending}
+              />
+            </TabsContent>
+            <TabsContent value="verlauf">
+              {editingCustomer && <CustomerHistory customerId={editingCustomer.id} />}
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
 
@@ -15,10 +15,13 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import type { BaseRatesResponse } from "@/components/base-rate-history";
 import type { BhbReceiptsCache, PortalCustomer } from "@shared/schema";
 
 interface DashboardStats {
   totalOpenAmount: number;
+  openCreditAmount?: number;
   overdueAmount: number;
   overdueCount: number;
   totalInvoices: number;
@@ -69,6 +72,8 @@ function formatDate(date: string | Date | null | undefined): string {
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const isInternalUser = !!user && user.role !== "customer";
   
   const { data: stats, isLoading: statsLoading } = useQuery<DashboardStats>({
     queryKey: ["/api/dashboard/stats"],
@@ -82,6 +87,11 @@ export default function Dashboard() {
     queryKey: ["/api/dashboard/top-debtors"],
   });
 
+  const { data: baseRates } = useQuery<BaseRatesResponse>({
+    queryKey: ["/api/settings/base-rates"],
+    enabled: isInternalUser,
+  });
+
   const navigateToInvoices = (filter: string, value?: string) => {
     const params = new URLSearchParams();
     if (filter === "status") {
@@ -103,6 +113,26 @@ export default function Dashboard() {
         </p>
       </div>
 
+      {baseRates && !baseRates.currentPeriodCovered && (
+        <div
+          className="flex items-center gap-3 p-4 rounded-md bg-yellow-500/10 border border-yellow-500/20"
+          data-testid="banner-base-rate-missing"
+        >
+          <AlertTriangle className="h-5 w-5 text-yellow-600 shrink-0" />
+          <p className="text-sm text-yellow-600 flex-1">
+            Für das aktuelle Halbjahr ist kein Basiszinssatz hinterlegt. Verzugszinsen werden mit{" "}
+            {baseRates.currentRate.toFixed(2)}% Basiszins berechnet.
+          </p>
+          {user?.role === "admin" && (
+            <Link href="/settings/company">
+              <Button variant="outline" size="sm" data-testid="button-base-rate-settings">
+                Basiszinssatz pflegen
+              </Button>
+            </Link>
+          )}
+        </div>
+      )}
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {statsLoading ? (
           <>
@@ -132,7 +162,10 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <p className="text-2xl font-bold tabular-nums">{formatCurrency(stats?.totalOpenAmount || 0)}</p>
-                <p className="text-xs text-muted-foreground mt-1">{stats?.totalInvoices || 0} offene Rechnungen</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {stats?.totalInvoices || 0} offene Rechnungen
+                  {stats?.openCreditAmount ? `, abzgl. ${formatCurrency(stats.openCreditAmount)} Gutschriften` : ""}
+                </p>
               </CardContent>
             </Card>
 
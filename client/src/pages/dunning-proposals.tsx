@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ClipboardCheck, Check, X, Send, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { DunningLevelBadge } from "@/components/dunning-level-badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PortalCustomer, DunningProposal } from "@shared/schema";
+
+interface DunningProposalWithCustomer extends DunningProposal {
+  customer?: PortalCustomer;
+}
+
+type ProposalStatus = "pending" | "approved" | "rejected" | "sent" | "failed";
+
+const statusConfig: Record<ProposalStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: "Offen", variant: "outline" },
+  approved: { label: "Freigegeben", variant: "secondary" },
+  rejected: { label: "Abgelehnt", variant: "outline" },
+  sent: { label: "Gesendet", variant: "default" },
+  failed: { label: "Fehlgeschlagen", variant: "destructive" },
+};
+
+function formatCurrency(amount: string | null) {
+  if (!amount) return "-";
+  return new Intl.NumberFormat("de-DE", { style: "currency", currency: "EUR" }).format(parseFloat(amount));
+}
+
+export default function DunningProposalsPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canEdit = user?.role === "admin" || user?.role === "user";
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const { data: proposals, isLoading } = useQuery<DunningProposalWithCustomer[]>({
+    queryKey: ["/api/dunning-proposals"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/dunning-proposals"] });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/dunning-proposals/generate"),
+    onSuccess: (data: any) => {
+      setSelectedIds(new Set());
+      invalidate();
+      toast({ title: "Probelauf abgeschlossen", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: (data: { ids: string[]; status: "pending" | "approved" | "rejected" }) =>
+      apiRequest("POST", "/api/dunning-proposals/status", data),
+    onSuccess: () => {
+      setSelectedIds(new Set());
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/dunning-proposals/send-approved"),
+    onSuccess: (data: any) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: "Versand abgeschlossen", description: data.message });
+    },
+    onError: (error: Error) => {
+      invalidate();
+      toast({ title: "Versand fehlgeschlagen", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const filteredProposals = proposals?.filter(
+    (p) => statusFilter === "all" || p.status === statusFilter
+  ) || [];
+  const decidableProposals = filteredProposals.filter(
+    (p) => p.status === "pending" || p.status === "approved" || p.status === "rejected"
+  );
+  const approvedCount = proposals?.filter((p) => p.status === "approved").length || 0;
+  const allSelected = decidableProposals.length > 0 && decidableProposals.every((p) => selectedIds.has(p.id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(decidableProposals.map((p) => p.id)) : new Set());
+  };
+
+  const totals = filteredProposals.reduce(
+    (sum, p) => ({
+      open: sum.open + (parseFloat(p.amountOpen || "0") || 0),
+      total: sum.total + (parseFloat(p.totalAmount || "0") || 0),
+    }),
+    { open: 0, total: 0 }
+  );
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      <div className="flex-shrink-0 pb-4 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight">Mahnvorschläge</h1>
+          <p className="text-muted-foreground mt-1">
+            Probelauf prüfen und einzelne Mahnungen vor dem Versand freigeben
+          </p>
+        </div>
+        {canEdit && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => generateMutation.mutate()}
+              disabled={generateMutation.isPending}
+              data-testid="button-generate-proposals"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${generateMutation.isPending ? "animate-spin" : ""}`} />
+              Probelauf starten
+            </Button>
+            <Button
+              onClick={() => sendMutation.mutate()}
+              disabled={sendMutation.isPending || approvedCount === 0}
+              data-testid="button-send-approved"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {sendMutation.isPending ? "Wird gesendet..." : `Freigegebene senden (${approvedCount})`}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card className="flex-1 flex flex-col min-h-0">
+        <CardHeader className="flex-shrink-0">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg">Vorschläge</CardTitle>
+              <CardDescription>
+                {filteredProposals.length} Vorschläge · Offen {formatCurrency(String(totals.open))} · Gesamt inkl. Zinsen und Gebühren {formatCurrency(String(totals.total))}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {canEdit && selectedIds.size > 0 && (
+                <>
+                  <Button
+                    size="sm"
+                    onClick={() => statusMutation.mutate({ ids: Array.from(selectedIds), status: "approved" })}
+                    disabled={statusMutation.isPending}
+                    data-testid="button-bulk-approve"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    {selectedIds.size} freigeben
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => statusMutation.mutate({ ids: Array.from(selectedIds), status: "rejected" })}
+                    disabled={statusMutation.isPending}
+                    data-testid="button-bulk-reject"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    {selectedIds.size} ablehnen
+                  </Button>
+                </>
+              )}
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-44" data-testid="select-proposal-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Alle Status</SelectItem>
+                  {(Object.keys(statusConfig) as ProposalStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>{statusConfig[status].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="flex-1 min-h-0 overflow-auto">
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : filteredProposals.length === 0 ? (
+            <EmptyState
+              icon={ClipboardCheck}
+              title="Keine Mahnvorschläge"
+              description="Starten Sie einen Probelauf, um zu sehen, welche Debitoren gemahnt würden."
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {canEdit && (
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => toggleAll(checked === true)}
+                        data-testid="checkbox-select-all-proposals"
+                      />
+                    </TableHead>
+                  )}
+                  <TableHead>Debitor</TableHead>
+                  <TableHead>Stufe</TableHead>
+                  <TableHead className="text-right">Rechnungen</TableHead>
+                  <TableHead className="text-right">Offen</TableHead>
+                  <TableHead className="text-right">Zinsen</TableHead>
+                  <TableHead className="text-right">Gebühren</TableHead>
+                  <TableHead className="text-right">Gesamt</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canEdit && <TableHead className="text-right">Aktion</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredProposals.map((proposal) => {
+                  const status = statusConfig[proposal.status as ProposalStatus] || statusConfig.pending;
+                  const isDecidable = ["pending", "approved", "rejected"].includes(proposal.status);
+                  return (
+                    <TableRow key={proposal.id} data-testid={`row-proposal-${proposal.id}`}>
+                      {canEdit && (
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(proposal.id)}
+                            onCheckedChange={(checked) => toggleSelected(proposal.id, checked === true)}
+                            disabled={!isDecidable}
+                            data-testid={`checkbox-proposal-${proposal.id}`}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <div className="font-medium">{proposal.customer?.displayName || "-"}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Nr. {proposal.customer?.debtorPostingaccountNumber} · {proposal.recipientEmail}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <DunningLevelBadge level={proposal.stage as any} />
+                      </TableCell>
+                      <TableCell className="text-right">{proposal.invoiceCount}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(proposal.amountOpen)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(proposal.interestAmount)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(proposal.feeAmount)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(proposal.totalAmount)}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                        {proposal.sentAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {format(new Date(proposal.sentAt), "dd.MM.yyyy HH:mm", { locale: de })}
+                          </div>
+                        )}
+                        {proposal.errorMessage && (
+                          <div className="text-xs text-red-500 mt-1">{proposal.errorMessage}</div>
+                        )}
+                      </TableCell>
+                      {canEdit && (
+                        <TableCell className="text-right">
+                          {isDecidable && (
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => statusMutation.mutate({ ids: [proposal.id], status: "approved" })}
+                                disabled={statusMutation.isPending || proposal.status === "approved"}
+                                data-testid={`button-approve-${proposal.id}`}
+                              >
+                                <Check className="h-4 w-4 text-green-600" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => statusMutation.mutate({ ids: [proposal.id], status: "rejected" })}
+                                disabled={statusMutation.isPending || proposal.status === "rejected"}
+                                data-testid={`button-reject-${proposal.id}`}
+                              >
+                                <X className="h-4 w-4 text-red-500" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -53,6 +53,9 @@ export default function DunningRulesPage() {
     graceDays: number;
     interestRatePercent: string;
     useLegalRate: boolean;
+    autoDunningEnabled: boolean;
+    lumpSumEnabled: boolean;
+    lumpSumAmount: string;
     stages: DunningStages;
   } | null>(null);
   const { toast } = useToast();
@@ -97,6 +100,9 @@ export default function DunningRulesPage() {
         graceDays: existingRules.graceDays,
         interestRatePercent: existingRules.interestRatePercent.toString(),
         useLegalRate: existingRules.useLegalRate,
+        autoDunningEnabled: existingRules.autoDunningEnabled,
+        lumpSumEnabled: existingRules.lumpSumEnabled,
+        lumpSumAmount: existingRules.lumpSumAmount.toString(),
         stages: existingRules.stages as DunningStages,
       });
     } else {
@@ -104,6 +110,9 @@ export default function DunningRulesPage() {
         graceDays: 0,
         interestRatePercent: "5.00",
         useLegalRate: false,
+        autoDunningEnabled: true,
+        lumpSumEnabled: false,
+        lumpSumAmount: "40.00",
         stages: { ...defaultStages },
       });
     }
@@ -365,6 +374,59 @@ export default function DunningRulesPage() {
                   </div>
                 </div>
 
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="autoDunningEnabled">Automatischer Mahnlauf</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Fällige Mahnstufen werden für diesen Debitor automatisch versendet
+                    </p>
+                  </div>
+                  <Switch
+                    id="autoDunningEnabled"
+                    checked={editingRules.autoDunningEnabled}
+                    onCheckedChange={(checked) =>
+                      setEditingRules({ ...editingRules, autoDunningEnabled: checked })
+                    }
+                    data-testid="switch-auto-dunning"
+                  />
+                </div>
+
+                <div className="rounded-md border p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="lumpSumEnabled">Verzugspauschale (§ 288 Abs. 5 BGB)</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Einmal je Rechnung ab der 1. Mahnung, nur bei Geschäftskunden
+                      </p>
+                    </div>
+                    <Switch
+                      id="lumpSumEnabled"
+                      checked={editingRules.lumpSumEnabled}
+                      onCheckedChange={(checked) =>
+                        setEditingRules({ ...editingRules, lumpSumEnabled: checked })
+                      }
+                      data-testid="switch-lump-sum"
+                    />
+                  </div>
+                  {editingRules.lumpSumEnabled && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id="lumpSumAmount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={editingRules.lumpSumAmount}
+                        onChange={(e) =>
+                          setEditingRules({ ...editingRules, lumpSumAmount: e.target.value })
+                        }
+                        className="max-w-32"
+                        data-testid="input-lump-sum-amount"
+                      />
+                      <span className="text-sm text-muted-foreground">€ je Rechnung</span>
+                    </div>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <Label>Mahnstufen</Label>
                   <Accordion type="single" collapsible className="w-full">
@@ -23,10 +23,14 @@ interface DunningTemplate {
   textBody: string | null;
   isDefault: boolean;
   isActive: boolean;
+  mandantId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Shared templates (no mandant) are available to every mandant
+type DunningTemplateInput = Partial<DunningTemplate> & { shared?: boolean };
+
 const stageLabels: Record<string, string> = {
   reminder: "Zahlungserinnerung",
   dunning1: "1. Mahnung",
@@ -52,7 +56,7 @@ export default function DunningTemplatesPage() {
   });
 
   const createMutation = useMutation({
-    mutationFn: (data: Partial<DunningTemplate>) => 
+    mutationFn: (data: DunningTemplateInput) => 
       apiRequest("POST", "/api/dunning-templates", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/dunning-templates"] });
@@ -65,7 +69,7 @@ export default function DunningTemplatesPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<DunningTemplate> }) =>
+    mutationFn: ({ id, data }: { id: string; data: DunningTemplateInput }) =>
       apiRequest("PATCH", `/api/dunning-templates/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/dunning-templates"] });
@@ -179,6 +183,9 @@ export default function DunningTemplatesPage() {
                               {!template.isActive && (
                                 <Badge variant="outline" className="text-xs">Inaktiv</Badge>
                               )}
+                              {template.mandantId === null && (
+                                <Badge variant="outline" className="text-xs">Alle Mandanten</Badge>
+                              )}
                             </div>
                             <div className="text-sm text-muted-foreground">
                               Betreff: {template.subject}
@@ -265,7 +272,7 @@ function TemplateDialog({
   open: boolean;
   onOpenChange: (open: boolean) => void;
   template?: DunningTemplate;
-  onSave: (data: Partial<DunningTemplate>) => void;
+  onSave: (data: DunningTemplateInput) => void;
   isPending: boolean;
 }) {
   const [name, setName] = useState(template?.name || "");
@@ -275,12 +282,13 @@ function TemplateDialog({
   const [textBody, setTextBody] = useState(template?.textBody || "");
   const [isDefault, setIsDefault] = useState(template?.isDefault || false);
   const [isActive, setIsActive] = useState(template?.isActive !== false);
+  const [shared, setShared] = useState(template ? template.mandantId === null : false);
 
   const handleSave = () => {
     if (!name || !stage || !subject || !htmlBody) {
       return;
     }
-    onSave({ name, stage, subject, htmlBody, textBody, isDefault, isActive });
+    onSave({ name, stage, subject, htmlBody, textBody, isDefault, isActive, shared });
   };
 
   return (
@@ -376,8 +384,9 @@ function TemplateDialog({
                     {"  {{formatDate this.receiptDate}}"} - Rechnungsdatum<br/>
                     {"  {{formatDate this.dueDate}}"} - Fälligkeitsdatum<br/>
                     {"  {{this.daysOverdue}}"} - Tage überfällig<br/>
-                    {"  {{formatCurrency this.amountOpen}}"} - Offener Betrag<br/>
-                    {"  {{formatCurrency this.interestAmount}}"} - Zinsen<br/>
+                    {"  {{formatCurrency this.amountOpen}}"} - Offene Hauptforderung<br/>
+                    {"  {{formatCurrency this.interestAmount}}"} - Offene Zinsen<br/>
+                    {"  {{formatCurrency this.interestPaid}}"} - Bereits gezahlte Zinsen<br/>
                     {"  {{formatCurrency this.feeAmount}}"} - Mahngebühr<br/>
                     {"  {{formatCurrency this.totalWithInterest}}"} - Gesamt<br/>
                     {"{{/each}}"}
@@ -389,7 +398,12 @@ function TemplateDialog({
                     {"{{formatCurrency summe.offenerBetrag}}"} - Offener Betrag gesamt<br/>
                     {"{{formatCurrency summe.zinsen}}"} - Zinsen gesamt<br/>
                     {"{{formatCurrency summe.gebuehren}}"} - Gebühren gesamt<br/>
-                    {"{{formatCurrency summe.gesamt}}"} - Gesamtsumme
+                    {"{{formatCurrency summe.pauschale}}"} - Verzugspauschale gesamt<br/>
+                    {"{{formatCurrency summe.gesamt}}"} - Gesamtsumme<br/>
+                    {"{{formatCurrency summe.zahlungen}}"} - Teilzahlungen gesamt<br/>
+                    {"{{formatCurrency summe.zahlungenAufKosten}}"} - davon auf Kosten (§ 367 BGB)<br/>
+                    {"{{formatCurrency summe.zahlungenAufZinsen}}"} - davon auf Zinsen<br/>
+                    {"{{formatCurrency summe.zahlungenAufHauptforderung}}"} - davon auf Hauptforderung
                   </code>
                 </div>
                 <div>
@@ -421,6 +435,10 @@ function TemplateDialog({
               <Switch id="isActive" checked={isActive} onCheckedChange={setIsActive} />
               <Label htmlFor="isActive">Aktiv</Label>
             </div>
+            <div className="flex items-center gap-2">
+              <Switch id="shared" checked={shared} onCheckedChange={setShared} data-testid="switch-template-shared" />
+              <Label htmlFor="shared">Für alle Mandanten</Label>
+            </div>
           </div>
         </div>
         <DialogFooter>
@@ -1,8 +1,9 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useSearch } from "wouter";
-import { FileText, Search, Filter, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown, Download } from "lucide-react";
+import { FileText, Search, Filter, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown, Download, PauseCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -21,16 +22,31 @@ import { DunningLevelBadge } from "@/components/dunning-level-badge";
 import { MultiSelectFilter } from "@/components/multi-select-filter";
 import { DataTableSkeleton } from "@/components/data-table-skeleton";
 import { EmptyState } from "@/components/empty-state";
-import type { BhbReceiptsCache, PortalCustomer } from "@shared/schema";
+import { InlineMappingPopover } from "@/components/inline-mapping-popover";
+import { PaymentTimeline } from "@/components/payment-timeline";
+import { Badge } from "@/components/ui/badge";
+import { InvoiceHoldDialog } from "@/components/invoice-hold-dialog";
+import type { BhbReceiptsCache, DebtorMatchStrategy, PortalCustomer, ReceiptPayment } from "@shared/schema";
 
 interface Invoice extends BhbReceiptsCache {
   customer?: PortalCustomer;
+  payments: ReceiptPayment[];
   effectiveDueDate?: string | Date | null;
   dunningLevel: string;
+  dueDunningLevel: string;
   daysOverdue: number;
+  holdActive: boolean; // Mahnsperre in place and not yet expired
   calculatedInterest: number;
 }
 
+const MATCH_STRATEGY_LABELS: Record<DebtorMatchStrategy, string> = {
+  postingaccount: "Kontonummer",
+  mapping: "Zuordnung",
+  name: "Namensabgleich",
+};
+
+const DUNNING_ORDER: Record<string, number> = { none: 0, reminder: 1, dunning1: 2, dunning2: 3, dunning3: 4 };
+
 type SortColumn = "invoiceNumber" | "debtor" | "receiptDate" | "dueDate" | "amountTotal" | "amountPaid" | "amountOpen" | "interest" | "daysOverdue" | "status" | "dunningLevel";
 type SortDirection = "asc" | "desc";
 
@@ -90,8 +106,22 @@ const STATUS_OPTIONS = [
   { value: "unpaid", label: "Offen" },
   { value: "overdue", label: "Überfällig" },
   { value: "paid", label: "Bezahlt" },
+  { value: "cancelled", label: "Storniert" },
+];
+
+const HOLD_OPTIONS = [
+  { value: "on_hold", label: "Mit Mahnsperre" },
+  { value: "not_on_hold", label: "Ohne Mahnsperre" },
 ];
 
+function formatHoldTitle(invoice: Invoice): string {
+  return [
+    invoice.holdReason,
+    invoice.holdUntil ? `bis ${formatDate(invoice.holdUntil)}` : "unbefristet",
+    invoice.holdOwner ? `zuständig: ${invoice.holdOwner}` : null,
+  ].filter(Boolean).join(" · ");
+}
+
 const DUNNING_OPTIONS = [
   { value: "none", label: "Keine Mahnung" },
   { value: "reminder", label: "Erinnerung" },
@@ -102,10 +132,13 @@ const DUNNING_OPTIONS = [
 
 export default function InvoicesPage() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const searchString = useSearch();
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilters, setStatusFilters] = useState<string[]>([]);
   const [dunningFilters, setDunningFilters] = useState<string[]>([]);
+  const [holdFilters, setHoldFilters] = useState<string[]>([]);
+  const [holdInvoice, setHoldInvoice] = useState<Invoice | null>(null);
   const [debtorFilters, setDebtorFilters] = useState<string[]>([]);
   const [overdueAgeFilter, setOverdueAgeFilter] = useState<string | null>(null);
   const [sortColumn, setSortColumn] = useState<SortColumn>("dueDate");
@@ -231,8 +264,8 @@ export default function InvoicesPage() {
       }
       
       if (statusFilters.length > 0) {
-        const invoiceStatus = invoice.paymentStatus === "paid" 
-          ? "paid" 
+        const invoiceStatus = invoice.paymentStatus === "paid" || invoice.paymentStatus === "cancelled"
+          ? invoice.paymentStatus
           : invoice.daysOverdue > 0 
             ? "overdue" 
             : "unpaid";
@@ -242,6 +275,8 @@ export default function InvoicesPage() {
       const invoiceDunning = invoice.dunningLevel || "none";
       if (dunningFilters.length > 0 && !dunningFilters.includes(invoiceDunning)) return false;
       
+      if (holdFilters.length > 0 && !holdFilters.includes(invoice.holdActive ? "on_hold" : "not_on_hold")) return false;
+      
       if (debtorFilters.length > 0) {
         const debtorNum = invoice.debtorPostingaccountNumber?.toString() || "";
         if (!debtorFilters.includes(debtorNum)) return false;
@@ -270,15 +305,13 @@ export default function InvoicesPage() {
       let bVal: string | number;
       
       const getStatusOrder = (inv: Invoice): number => {
+        if (inv.paymentStatus === "cancelled") return 3;
         if (inv.paymentStatus === "paid") return 2;
         if (inv.daysOverdue > 0) return 0;
         return 1;
       };
       
-      const getDunningOrder = (level: string): number => {
-        const order: Record<string, number> = { none: 0, reminder: 1, dunning1: 2, dunning2: 3, dunning3: 4 };
-        return order[level] ?? 0;
-      };
+      const getDunningOrder = (level: string): number => DUNNING_ORDER[level] ?? 0;
       
       switch (sortColumn) {
         case "invoiceNumber":
@@ -465,6 +498,14 @@ export default function InvoicesPage() {
                 storageKey="invoice-dunning-filter"
                 className="w-full sm:w-40"
               />
+              <MultiSelectFilter
+                options={HOLD_OPTIONS}
+                selected={holdFilters}
+                onChange={setHoldFilters}
+                placeholder="Mahnsperre"
+                storageKey="invoice-hold-filter"
+                className="w-full sm:w-40"
+              />
               <MultiSelectFilter
                 options={debtorOptions}
                 selected={debtorFilters}
@@ -592,6 +633,11 @@ export default function InvoicesPage() {
                     <TableRow key={invoice.id} data-testid={`row-invoice-${invoice.id}`}>
                       <TableCell className="font-mono text-sm">
                         {invoice.invoiceNumber || "-"}
+                        {invoice.receiptType === "credit_note" && (
+                          <Badge variant="outline" className="ml-2 font-sans text-xs" data-testid={`badge-credit-note-${invoice.id}`}>
+                            Gutschrift
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div>
@@ -601,8 +647,20 @@ export default function InvoicesPage() {
                           {getDebtorNumber(invoice) && (
                             <p className="text-xs text-muted-foreground">
                               Nr. {getDebtorNumber(invoice)}
+                              {invoice.debtorMatchStrategy && (
+                                <span
+                                  className={invoice.debtorMatchStrategy === "name" ? "text-amber-600" : undefined}
+                                  title="Wie die Rechnung dem Debitor zugeordnet wurde"
+                                  data-testid={`text-match-strategy-${invoice.id}`}
+                                >
+                                  {" · "}{MATCH_STRATEGY_LABELS[invoice.debtorMatchStrategy as DebtorMatchStrategy] || invoice.debtorMatchStrategy}
+                                </span>
+                              )}
                             </p>
                           )}
+                          {!getDebtorNumber(invoice) && user?.role === "admin" && (invoice.rawJson as any)?.counterparty && (
+                            <InlineMappingPopover counterpartyName={(invoice.rawJson as any).counterparty} />
+                          )}
                         </div>
                       </TableCell>
                       <TableCell className="text-sm">
@@ -615,15 +673,20 @@ export default function InvoicesPage() {
                         {formatCurrency(invoice.amountTotal)}
                       </TableCell>
                       <TableCell className="text-right font-mono tabular-nums text-sm text-muted-foreground">
-                        {(() => {
-                          const total = parseFloat(String(invoice.amountTotal || 0));
-                          const open = parseFloat(String(invoice.amountOpen || 0));
-                          const paid = total - open;
-                          return paid > 0 ? formatCurrency(paid) : "-";
-                        })()}
+                        <PaymentTimeline
+                          payments={invoice.payments || []}
+                          paidAmount={parseFloat(String(invoice.amountTotal || 0)) - parseFloat(String(invoice.amountOpen || 0))}
+                          testId={`button-payments-${invoice.id}`}
+                        />
                       </TableCell>
                       <TableCell className="text-right font-mono tabular-nums font-medium">
-                        {formatCurrency(invoice.amountOpen)}
+                        {invoice.receiptType === "credit_note" ? (
+                          <span className="text-green-600 dark:text-green-400" title="Wird mit offenen Rechnungen verrechnet">
+                            −{formatCurrency(invoice.amountOpen)}
+                          </span>
+                        ) : (
+                          formatCurrency(invoice.amountOpen)
+                        )}
                       </TableCell>
                       <TableCell className="text-right font-mono tabular-nums text-sm">
                         {invoice.calculatedInterest > 0 ? (
@@ -635,7 +698,7 @@ export default function InvoicesPage() {
                         )}
                       </TableCell>
                       <TableCell className="text-right font-mono tabular-nums text-sm">
-                        {invoice.paymentStatus === "paid" ? (
+                        {invoice.paymentStatus === "paid" || invoice.paymentStatus === "cancelled" || invoice.receiptType === "credit_note" ? (
                           "-"
                         ) : invoice.daysOverdue > 0 ? (
                           <span className="text-red-600 dark:text-red-400">
@@ -652,8 +715,8 @@ export default function InvoicesPage() {
                       <TableCell>
                         <PaymentStatusBadge
                           status={
-                            invoice.paymentStatus === "paid"
-                              ? "paid"
+                            invoice.paymentStatus === "paid" || invoice.paymentStatus === "cancelled"
+                              ? invoice.paymentStatus
                               : invoice.daysOverdue > 0
                               ? "overdue"
                               : "unpaid"
@@ -661,9 +724,44 @@ export default function InvoicesPage() {
                         />
                       </TableCell>
                       <TableCell>
-                        <DunningLevelBadge level={invoice.dunningLevel as any || "none"} />
+                        <div className="flex flex-col items-start gap-1">
+                          <DunningLevelBadge level={invoice.dunningLevel as any || "none"} />
+                          {invoice.holdActive && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs border-amber-500/50 text-amber-700 dark:text-amber-400"
+                              title={formatHoldTitle(invoice)}
+                              data-testid={`badge-hold-${invoice.id}`}
+                            >
+                              Mahnsperre
+                            </Badge>
+                          )}
+                          {invoice.lastDunningSentAt && (
+                            <span className="text-xs text-muted-foreground" data-testid={`text-dunning-sent-${invoice.id}`}>
+                              gesendet {new Date(invoice.lastDunningSentAt).toLocaleDateString("de-DE")}
+                            </span>
+                          )}
+                          {invoice.paymentStatus !== "paid" && invoice.paymentStatus !== "cancelled" &&
+                            (DUNNING_ORDER[invoice.dueDunningLevel] || 0) > (DUNNING_ORDER[invoice.dunningLevel] || 0) && (
+                            <div className="flex items-center gap-1 text-xs text-muted-foreground" data-testid={`text-dunning-due-${invoice.id}`}>
+                              <span>fällig:</span>
+                              <DunningLevelBadge level={invoice.dueDunningLevel as any} />
+                            </div>
+                          )}
+                        </div>
                       </TableCell>
-                      <TableCell className="text-right">
+                      <TableCell className="text-right whitespace-nowrap">
+                        {user?.role !== "customer" && invoice.paymentStatus !== "paid" && invoice.paymentStatus !== "cancelled" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHoldInvoice(invoice)}
+                            title={invoice.holdActive ? "Mahnsperre bearbeiten" : "Mahnsperre setzen"}
+                            data-testid={`button-hold-${invoice.id}`}
+                          >
+                            <PauseCircle className={`h-4 w-4 ${invoice.holdActive ? "text-amber-600" : ""}`} />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -776,12 +874,12 @@ export default function InvoicesPage() {
               icon={FileText}
               title="Keine Rechnungen gefunden"
               description={
-                searchQuery || statusFilters.length > 0 || dunningFilters.length > 0 || debtorFilters.length > 0
+                searchQuery || statusFilters.length > 0 || dunningFilters.length > 0 || holdFilters.length > 0 || debtorFilters.length > 0
                   ? "Versuchen Sie, Ihre Filterkriterien anzupassen."
                   : "Es wurden noch keine Rechnungen aus BuchhaltungsButler synchronisiert."
               }
               action={
-                !searchQuery && statusFilters.length === 0 && dunningFilters.length === 0 && debtorFilters.length === 0
+                !searchQuery && statusFilters.length === 0 && dunningFilters.length === 0 && holdFilters.length === 0 && debtorFilters.length === 0
                   ? {
                       label: "Jetzt synchronisieren",
                       onClick: () => refetch(),
@@ -792,6 +890,12 @@ export default function InvoicesPage() {
           )}
         </CardContent>
       </Card>
+
+      <InvoiceHoldDialog
+        invoice={holdInvoice}
+        open={holdInvoice !== null}
+        onOpenChange={(open) => !open && setHoldInvoice(null)}
+      />
     </div>
   );
 }
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { ArrowLeft, TestTube, Server, Save, Check, X, Eye, EyeOff, Key, RefreshCw } from "lucide-react";
+import { ArrowLeft, TestTube, Server, Save, Check, X, Eye, EyeOff, Key, RefreshCw, AlertTriangle } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -24,8 +24,23 @@ interface BhbConfig {
   hasApiKey?: boolean;
   hasApiClient?: boolean;
   hasApiSecret?: boolean;
+  circuit?: BhbCircuitState;
 }
 
+interface BhbCircuitState {
+  state: "closed" | "open" | "half-open";
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+const CIRCUIT_LABELS: Record<BhbCircuitState["state"], string> = {
+  closed: "Erreichbar",
+  open: "Gesperrt",
+  "half-open": "Wird erneut geprüft",
+};
+
 export default function BhbSettingsPage() {
   const [testResult, setTestResult] = useState<BhbTestResult | null>(null);
   const [showPasswords, setShowPasswords] = useState({
@@ -43,7 +58,10 @@ export default function BhbSettingsPage() {
 
   const { data: bhbConfig } = useQuery<BhbConfig>({
     queryKey: ["/api/settings/bhb"],
+    // Follow the circuit breaker until BHB is reachable again
+    refetchInterval: (query) => (query.state.data?.circuit && query.state.data.circuit.state !== "closed" ? 15000 : false),
   });
+  const circuit = bhbConfig?.circuit;
 
   const saveCredentialsMutation = useMutation({
     mutationFn: (data: typeof credentials) => apiRequest("POST", "/api/settings/bhb", data),
@@ -78,17 +96,25 @@ export default function BhbSettingsPage() {
       setTestResult({ success: false, message: error.message || "Verbindungstest fehlgeschlagen" });
       toast({ title: "Fehler", description: error.message, variant: "destructive" });
     },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/bhb"] });
+    },
   });
 
   const syncMutation = useMutation({
-    mutationFn: () => apiRequest("POST", "/api/sync/receipts"),
-    onSuccess: () => {
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/sync/invoices-v2");
+      return res as { message: string };
+    },
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/settings/bhb"] });
-      toast({ title: "Synchronisation abgeschlossen", description: "Die Rechnungen wurden erfolgreich synchronisiert." });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-logs"] });
+      toast({ title: "Synchronisation abgeschlossen", description: data.message });
     },
     onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/bhb"] });
       toast({ title: "Synchronisation fehlgeschlagen", description: error.message, variant: "destructive" });
     },
   });
@@ -272,6 +298,36 @@ export default function BhbSettingsPage() {
               </p>
             )}
 
+            {circuit && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                API-Status:
+                <Badge
+                  variant={circuit.state === "closed" ? "outline" : circuit.state === "open" ? "destructive" : "secondary"}
+                  data-testid="badge-bhb-circuit"
+                >
+                  {CIRCUIT_LABELS[circuit.state]}
+                </Badge>
+                {circuit.state === "closed" && circuit.consecutiveFailures > 0 && (
+                  <span>{circuit.consecutiveFailures} fehlgeschlagene Anfrage(n) in Folge</span>
+                )}
+              </div>
+            )}
+
+            {circuit && circuit.state !== "closed" && (
+              <div
+                className="flex items-center gap-2 p-3 rounded-md bg-yellow-500/10 border border-yellow-500/20"
+                data-testid="banner-bhb-circuit-open"
+              >
+                <AlertTriangle className="h-4 w-4 text-yellow-600 shrink-0" />
+                <p className="text-sm">
+                  Nach {circuit.consecutiveFailures} fehlgeschlagenen Anfragen werden BHB-Aufrufe vorübergehend
+                  ausgesetzt
+                  {circuit.retryAt && ` (erneuter Versuch ab ${new Date(circuit.retryAt).toLocaleTimeString("de-DE")})`}.
+                  {circuit.lastError && ` Letzter Fehler: ${circuit.lastError}`}
+                </p>
+              </div>
+            )}
+
             {testResult && (
               <div
                 className={`p-4 rounded-md ${
@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BaseRateHistoryCard } from "@/components/base-rate-history";
 
 interface CompanyConfig {
   name: string;
@@ -75,6 +76,7 @@ export default function CompanySettingsPage() {
     mutationFn: (data: { ezbBaseRate: number }) => apiRequest("POST", "/api/settings/interest", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings/interest"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/base-rates"] });
       toast({ title: "Basiszinssatz gespeichert", description: "Der EZB-Basiszinssatz wurde aktualisiert." });
     },
     onError: (error: Error) => {
@@ -260,7 +262,7 @@ export default function CompanySettingsPage() {
                 <span className="flex items-center text-muted-foreground">%</span>
               </div>
               <p className="text-xs text-muted-foreground">
-                Aktueller Basiszinssatz der EZB. Wird halbjährlich angepasst (1. Januar und 1. Juli).
+                Basiszinssatz für das laufende Halbjahr. Wird halbjährlich angepasst (1. Januar und 1. Juli).
               </p>
             </div>
 
@@ -291,6 +293,8 @@ export default function CompanySettingsPage() {
           </div>
         </CardContent>
       </Card>
+
+      <BaseRateHistoryCard />
     </div>
   );
 }
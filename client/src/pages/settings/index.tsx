@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { Link } from "wouter";
-import { Server, Mail, Building2, Paintbrush, ChevronRight, Layout, RefreshCw, Download, Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import { Server, Mail, Building2, Paintbrush, ChevronRight, Layout, RefreshCw, Download, Loader2, CheckCircle, AlertCircle, Landmark } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -23,9 +23,17 @@ interface ConfigStatus {
   graph: boolean;
   company: boolean;
   branding: boolean;
+  mandants: boolean;
 }
 
 const settingsSections = [
+  {
+    title: "Mandanten",
+    description: "Gesellschaften mit eigenem BHB-Konto verwalten",
+    icon: Landmark,
+    href: "/settings/mandants",
+    configKey: "mandants" as const,
+  },
   {
     title: "BuchhaltungsButler API",
     description: "Verbindung zur BHB-Buchhaltungssoftware konfigurieren",
@@ -100,12 +108,17 @@ export default function SettingsIndexPage() {
     queryKey: ["/api/config/branding"],
   });
 
+  const { data: mandants } = useQuery<{ id: string }[]>({
+    queryKey: ["/api/admin/mandants"],
+  });
+
   const configStatus: ConfigStatus = {
     bhb: bhbConfig?.isConfigured || false,
     smtp: smtpConfig?.isConfigured || graphConfig?.isConfigured || false,
     graph: graphConfig?.isConfigured || false,
     company: !!companyConfig?.name,
     branding: !!brandingConfig?.companyName,
+    mandants: !!mandants?.length,
   };
 
   const updateMutation = useMutation({
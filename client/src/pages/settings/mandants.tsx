@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ArrowLeft, Landmark, Plus, Save } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useMandant } from "@/hooks/use-mandant";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Mandant } from "@shared/schema";
+
+function invalidateMandants() {
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/mandants"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/mandants"] });
+}
+
+export default function MandantsSettingsPage() {
+  const [newName, setNewName] = useState("");
+  // Edited names per mandant, unsaved
+  const [names, setNames] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const { currentMandant } = useMandant();
+
+  const { data: mandants, isLoading } = useQuery<Mandant[]>({
+    queryKey: ["/api/admin/mandants"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (name: string) => apiRequest<Mandant>("POST", "/api/mandants", { name }),
+    onSuccess: (mandant) => {
+      invalidateMandants();
+      setNewName("");
+      toast({
+        title: "Mandant angelegt",
+        description: `Wechseln Sie in der Seitenleiste zu "${mandant.name}", um BHB-Zugang und Firmendaten einzurichten.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: { name?: string; isActive?: boolean } }) =>
+      apiRequest<Mandant>("PATCH", `/api/mandants/${id}`, data),
+    onSuccess: (mandant) => {
+      invalidateMandants();
+      setNames((prev) => {
+        const copy = { ...prev };
+        delete copy[mandant.id];
+        return copy;
+      });
+      toast({ title: "Mandant gespeichert" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href="/settings">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">Mandanten</h1>
+          <p className="text-muted-foreground">
+            Gesellschaften mit eigenem BHB-Konto verwalten
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
+              <Landmark className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Mandanten</CardTitle>
+              <CardDescription>
+                BHB-Zugang, Firmendaten, Bankverbindung und Mahnvorlagen werden je Mandant gepflegt.
+                Der Mandant wird in der Seitenleiste gewechselt.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2" data-testid="list-mandants">
+              {mandants?.map((mandant) => {
+                const name = names[mandant.id] ?? mandant.name;
+                const isCurrent = mandant.id === currentMandant?.id;
+                return (
+                  <div key={mandant.id} className="flex items-center gap-3 p-3 border rounded-md" data-testid={`row-mandant-${mandant.id}`}>
+                    <Input
+                      value={name}
+                      onChange={(e) => setNames((prev) => ({ ...prev, [mandant.id]: e.target.value }))}
+                      className="max-w-xs"
+                      data-testid={`input-mandant-name-${mandant.id}`}
+                    />
+                    {name !== mandant.name && (
+                      <Button
+                        size="sm"
+                        onClick={() => updateMutation.mutate({ id: mandant.id, data: { name } })}
+                        disabled={updateMutation.isPending || !name.trim()}
+                        data-testid={`button-save-mandant-${mandant.id}`}
+                      >
+                        <Save className="h-4 w-4 mr-2" />
+                        Speichern
+                      </Button>
+                    )}
+                    <div className="flex-1" />
+                    {isCurrent && <Badge variant="outline">Aktuell gewählt</Badge>}
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={mandant.isActive}
+                        onCheckedChange={(isActive) => updateMutation.mutate({ id: mandant.id, data: { isActive } })}
+                        disabled={updateMutation.isPending || (isCurrent && mandant.isActive)}
+                        data-testid={`switch-mandant-active-${mandant.id}`}
+                      />
+                      <span className="text-sm text-muted-foreground">{mandant.isActive ? "Aktiv" : "Inaktiv"}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="Name des neuen Mandanten"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="max-w-xs"
+              data-testid="input-new-mandant"
+            />
+            <Button
+              onClick={() => createMutation.mutate(newName)}
+              disabled={createMutation.isPending || !newName.trim()}
+              data-testid="button-create-mandant"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Mandant anlegen
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Inaktive Mandanten werden nicht mehr automatisch synchronisiert und gemahnt und sind nicht auswählbar.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { de } from "date-fns/locale";
+import { ArrowLeft, FileSearch } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DEBTOR_SYNC_FIELD_LABELS } from "@/components/debtor-sync-conflicts";
+import type { SyncLog, SyncLogRecord, SyncRecordAction } from "@shared/schema";
+
+interface SyncLogDetail extends SyncLog {
+  recordCounts: { entityType: string; action: string; count: number }[];
+}
+
+interface SyncConfig {
+  recordRetentionDays: number;
+}
+
+type EntityFilter = "all" | "invoices" | "debtors";
+type ActionFilter = "all" | SyncRecordAction;
+
+const ENTITY_LABELS: Record<string, string> = {
+  invoices: "Rechnungen",
+  debtors: "Debitoren",
+  both: "Rechnungen & Debitoren",
+};
+
+const ACTION_LABELS: Record<SyncRecordAction, string> = {
+  created: "Neu",
+  updated: "Aktualisiert",
+  cancelled: "Storniert",
+  conflict: "Konflikt",
+  invalid: "Ungültig",
+  error: "Fehler",
+};
+
+const ACTION_CLASSES: Record<SyncRecordAction, string> = {
+  created: "text-green-600 border-green-600/30",
+  updated: "text-blue-600 border-blue-600/30",
+  cancelled: "text-amber-600 border-amber-600/30",
+  conflict: "text-amber-600 border-amber-600/30",
+  invalid: "text-red-500 border-red-500/30",
+  error: "text-red-500 border-red-500/30",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  ...DEBTOR_SYNC_FIELD_LABELS,
+  debtorPostingaccountNumber: "Debitorennummer",
+  invoiceNumber: "Rechnungsnummer",
+  receiptType: "Belegart",
+  amountOpen: "Offener Betrag",
+  paymentStatus: "Zahlungsstatus",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  success: "Erfolgreich",
+  partial: "Teilweise",
+  error: "Fehler",
+  running: "Läuft",
+  cancelled: "Abgebrochen",
+  skipped: "Übersprungen",
+};
+
+function formatValue(value: string | null) {
+  return value === null ? <span className="text-muted-foreground italic">leer</span> : value;
+}
+
+export default function SyncLogPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const [entityFilter, setEntityFilter] = useState<EntityFilter>("all");
+  const [actionFilter, setActionFilter] = useState<ActionFilter>("all");
+
+  const { data: syncLog, isLoading: logLoading } = useQuery<SyncLogDetail>({
+    queryKey: ["/api/sync-logs", id],
+  });
+
+  const { data: syncConfig } = useQuery<SyncConfig>({
+    queryKey: ["/api/config/sync"],
+  });
+
+  const { data: records, isLoading: recordsLoading } = useQuery<SyncLogRecord[]>({
+    queryKey: ["/api/sync-logs", id, "records", entityFilter, actionFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (entityFilter !== "all") params.set("entityType", entityFilter);
+      if (actionFilter !== "all") params.set("action", actionFilter);
+      const response = await fetch(`/api/sync-logs/${id}/records?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Sync-Details konnten nicht geladen werden");
+      return response.json();
+    },
+    enabled: !!syncLog,
+  });
+
+  const countFor = (entityType: EntityFilter, action: ActionFilter) =>
+    (syncLog?.recordCounts || [])
+      .filter((c) => (entityType === "all" || c.entityType === entityType) && (action === "all" || c.action === action))
+      .reduce((sum, c) => sum + c.count, 0);
+
+  if (logLoading) {
+    return (
+      <div className="flex-1 overflow-auto space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!syncLog) {
+    return (
+      <div className="flex-1 overflow-auto space-y-6">
+        <p className="text-muted-foreground">Sync-Log nicht gefunden.</p>
+        <Button variant="outline" onClick={() => setLocation("/settings/sync")}>
+          Zurück zur Übersicht
+        </Button>
+      </div>
+    );
+  }
+
+  const duration = syncLog.finishedAt
+    ? Math.round((new Date(syncLog.finishedAt).getTime() - new Date(syncLog.startedAt).getTime()) / 1000)
+    : null;
+
+  return (
+    <div className="flex-1 overflow-auto space-y-6">
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setLocation("/settings/sync")}
+          data-testid="button-back-sync"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl font-semibold">
+            Sync {ENTITY_LABELS[syncLog.entityType] || syncLog.entityType}
+            {syncLog.direction === "push" && " · Portal → BHB"}
+          </h1>
+          <p className="text-muted-foreground">
+            {format(new Date(syncLog.startedAt), "dd.MM.yyyy HH:mm:ss", { locale: de })}
+            {duration !== null && ` · Dauer ${duration} s`}
+            {" · "}
+            {syncLog.mode === "auto" ? "Automatisch" : "Manuell"}
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Zusammenfassung
+            <Badge variant={syncLog.status === "error" ? "destructive" : "outline"}>
+              {STATUS_LABELS[syncLog.status] || syncLog.status}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm" data-testid="sync-log-summary">
+            <div>
+              <p className="text-muted-foreground">Abgerufen</p>
+              <p className="text-lg font-medium">{syncLog.pulledCount || 0}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Neu</p>
+              <p className="text-lg font-medium text-green-600">{syncLog.createdCount || 0}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Aktualisiert</p>
+              <p className="text-lg font-medium text-blue-600">{syncLog.updatedCount || 0}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Unverändert</p>
+              <p className="text-lg font-medium">{syncLog.unchangedCount || 0}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Fehler</p>
+              <p className="text-lg font-medium text-red-500">{syncLog.errorCount || 0}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle>Datensätze</CardTitle>
+              <CardDescription>
+                Neue, geänderte, stornierte und fehlerhafte Datensätze dieses Laufs; unveränderte werden nicht aufgeführt
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={entityFilter} onValueChange={(value) => setEntityFilter(value as EntityFilter)}>
+                <SelectTrigger className="w-44" data-testid="select-record-entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Alle Typen ({countFor("all", actionFilter)})</SelectItem>
+                  <SelectItem value="invoices">Rechnungen ({countFor("invoices", actionFilter)})</SelectItem>
+                  <SelectItem value="debtors">Debitoren ({countFor("debtors", actionFilter)})</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={actionFilter} onValueChange={(value) => setActionFilter(value as ActionFilter)}>
+                <SelectTrigger className="w-44" data-testid="select-record-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Alle Aktionen ({countFor(entityFilter, "all")})</SelectItem>
+                  {(Object.keys(ACTION_LABELS) as SyncRecordAction[]).map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {ACTION_LABELS[action]} ({countFor(entityFilter, action)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {recordsLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !records?.length ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-center text-muted-foreground">
+              <FileSearch className="h-8 w-8" />
+              <p className="text-sm">
+                Keine Datensätze für diese Auswahl.
+                {syncConfig?.recordRetentionDays &&
+                  ` Details werden ${syncConfig.recordRetentionDays} Tage aufbewahrt.`}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2" data-testid="list-sync-log-records">
+              {records.map((record) => {
+                const action = record.action as SyncRecordAction;
+                return (
+                  <div key={record.id} className="p-3 border rounded-md text-sm space-y-1" data-testid={`sync-record-${record.id}`}>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={`text-xs ${ACTION_CLASSES[action] || ""}`}>
+                        {ACTION_LABELS[action] || record.action}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {record.entityType === "invoices" ? "Rechnung" : "Debitor"}
+                      </span>
+                      <span className="font-medium truncate">{record.label || record.recordKey || "–"}</span>
+                      {record.label && record.recordKey && record.label !== record.recordKey && (
+                        <span className="text-xs text-muted-foreground truncate">{record.recordKey}</span>
+                      )}
+                    </div>
+                    {record.changes && record.changes.length > 0 && (
+                      <div className="grid grid-cols-[160px_1fr] gap-x-2 gap-y-0.5 pl-1">
+                        {record.changes.map((change) => (
+                          <div key={change.field} className="contents">
+                            <span className="text-muted-foreground">{FIELD_LABELS[change.field] || change.field}</span>
+                            <span className="break-all">
+                              <span className="line-through text-muted-foreground">{formatValue(change.oldValue)}</span>
+                              {" → "}
+                              {formatValue(change.newValue)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {record.message && (
+                      <p className={action === "error" || action === "invalid" ? "text-red-500" : "text-muted-foreground"}>
+                        {record.message}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
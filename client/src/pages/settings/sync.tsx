@@ -9,14 +9,44 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { ArrowLeft, RefreshCw, Clock, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { DunningRunConfigCard } from "@/components/dunning-run-config";
+import { SyncProgressPanel } from "@/components/sync-progress-panel";
+import { CronScheduleField } from "@/components/cron-schedule-field";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, RefreshCw, Clock, CheckCircle, XCircle, AlertCircle, AlertTriangle, Lock } from "lucide-react";
 import { useState, useEffect } from "react";
 import { format } from "date-fns";
 import { de } from "date-fns/locale";
 
+type ScheduledJob = "invoiceSync" | "debtorSync" | "dunningRun" | "cleanup";
+
 interface SyncConfig {
-  intervalMinutes: number;
   enabled: boolean;
+  schedules: Record<ScheduledJob, string>;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  nextRuns: Partial<Record<ScheduledJob, string | null>>;
+  fullSyncHours: number;
+  recordRetentionDays: number;
+  lastFullSync: string | null;
+}
+
+const SCHEDULED_JOBS: { job: ScheduledJob; label: string; description: string }[] = [
+  { job: "invoiceSync", label: "Rechnungs-Sync", description: "Ruft neue und geänderte Rechnungen aus BHB ab" },
+  { job: "debtorSync", label: "Debitoren-Sync", description: "Gleicht die Debitoren mit BHB ab" },
+  { job: "dunningRun", label: "Mahnlauf", description: "Startet den automatischen Mahnlauf (Zeitfenster und Freigabe gelten weiterhin)" },
+  { job: "cleanup", label: "Bereinigung", description: "Beendet hängende Syncs, löscht Sync-Protokolle älter als 90 Tage und abgelaufene Sync-Details" },
+];
+
+const EMPTY_SCHEDULES: Record<ScheduledJob, string> = { invoiceSync: "", debtorSync: "", dunningRun: "", cleanup: "" };
+
+interface SyncLockInfo {
+  entityType: "invoices" | "debtors";
+  syncLogId: string;
+  lockedBy: string;
+  holderName: string;
+  acquiredAt: string;
+  stale: boolean;
 }
 
 interface SyncLog {
@@ -37,11 +67,43 @@ interface SyncLog {
   details?: unknown;
 }
 
+function getCancelledInvoices(log: SyncLog): { count: number; invoices: string[] } {
+  const invoices = (log.details as { invoices?: { cancelledCount?: number; cancelledInvoices?: string[] } } | undefined)?.invoices;
+  return { count: invoices?.cancelledCount || 0, invoices: invoices?.cancelledInvoices || [] };
+}
+
+interface InvalidRecord {
+  entityType: "invoices" | "debtors";
+  record: string;
+  issues: string[];
+}
+
+function getInvalidRecords(log: SyncLog): { count: number; records: InvalidRecord[] } {
+  const errors = log.errors as { invalidCount?: number; invalidRecords?: InvalidRecord[] } | null | undefined;
+  return { count: errors?.invalidCount || 0, records: errors?.invalidRecords || [] };
+}
+
+interface DebtorSyncDetails {
+  pulledCount: number;
+  pages?: { offset: number; count: number }[];
+  pageLimitReached?: boolean;
+  conflictCount?: number;
+  errors?: string[];
+}
+
+function getDebtorSyncDetails(log: SyncLog): DebtorSyncDetails | undefined {
+  return (log.details as { debtors?: DebtorSyncDetails } | undefined)?.debtors;
+}
+
 export default function SyncSettingsPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [enabled, setEnabled] = useState(false);
-  const [selectedInterval, setSelectedInterval] = useState<string>("60");
+  const [schedules, setSchedules] = useState<Record<ScheduledJob, string>>(EMPTY_SCHEDULES);
+  const [quietHoursStart, setQuietHoursStart] = useState("");
+  const [quietHoursEnd, setQuietHoursEnd] = useState("");
+  const [fullSyncHours, setFullSyncHours] = useState<string>("24");
+  const [recordRetentionDays, setRecordRetentionDays] = useState<string>("30");
 
   const { data: syncConfig, isLoading: configLoading } = useQuery<SyncConfig>({
     queryKey: ["/api/config/sync"],
@@ -50,16 +112,44 @@ export default function SyncSettingsPage() {
   useEffect(() => {
     if (syncConfig) {
       setEnabled(syncConfig.enabled);
-      setSelectedInterval(String(syncConfig.intervalMinutes || 60));
+      setSchedules(syncConfig.schedules);
+      setQuietHoursStart(syncConfig.quietHoursStart);
+      setQuietHoursEnd(syncConfig.quietHoursEnd);
+      setFullSyncHours(String(syncConfig.fullSyncHours || 24));
+      setRecordRetentionDays(String(syncConfig.recordRetentionDays || 30));
     }
   }, [syncConfig]);
 
   const { data: syncLogs, isLoading: logsLoading } = useQuery<SyncLog[]>({
     queryKey: ["/api/sync-logs"],
+    // Keep looking for running entries (e.g. started by the scheduler) while one is active
+    refetchInterval: (query) => (query.state.data?.some((log) => log.status === "running") ? 5000 : false),
   });
 
+  const runningSyncLog = syncLogs?.find((log) => log.status === "running");
+
+  const { data: syncLocks } = useQuery<SyncLockInfo[]>({
+    queryKey: ["/api/sync/locks"],
+    refetchInterval: (query) => (query.state.data?.length ? 5000 : false),
+  });
+  const isLocked = (entityType: SyncLockInfo["entityType"]) =>
+    syncLocks?.some((lock) => lock.entityType === entityType && !lock.stale) ?? false;
+
+  // Logs come newest first; invoice-only runs carry no debtor pages
+  const lastDebtorSync = syncLogs
+    ?.filter((log) => log.status === "success")
+    .map(getDebtorSyncDetails)
+    .find((details) => details?.pages?.length);
+
   const saveMutation = useMutation({
-    mutationFn: async (config: { enabled: boolean; intervalMinutes: number }) => {
+    mutationFn: async (config: {
+      enabled: boolean;
+      schedules: Record<ScheduledJob, string>;
+      quietHoursStart: string;
+      quietHoursEnd: string;
+      fullSyncHours?: number;
+      recordRetentionDays?: number;
+    }) => {
       return apiRequest("POST", "/api/config/sync", config);
     },
     onSuccess: (data: any) => {
@@ -72,28 +162,44 @@ export default function SyncSettingsPage() {
   });
 
   const syncNowMutation = useMutation({
-    mutationFn: async (type: "invoices" | "debtors") => {
-      const endpoint = type === "invoices" ? "/api/sync/invoices-v2" : "/api/sync/customers-v2";
-      return apiRequest("POST", endpoint);
+    mutationFn: async (type: "invoices" | "invoices-full" | "debtors") => {
+      if (type === "debtors") {
+        return apiRequest("POST", "/api/sync/customers-v2");
+      }
+      return apiRequest("POST", "/api/sync/invoices-v2", { full: type === "invoices-full" });
+    },
+    onMutate: () => {
+      // The request blocks until the sync is done; pick up its log entry to stream progress
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/sync-logs"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/sync/locks"] });
+      }, 1000);
     },
     onSuccess: (data: any) => {
       toast({ 
         title: "Synchronisation abgeschlossen", 
-        description: `${data.created} erstellt, ${data.updated} aktualisiert, ${data.unchanged} unverändert` 
+        description: `${data.created} erstellt, ${data.updated} aktualisiert, ${data.unchanged} unverändert${data.cancelled ? `, ${data.cancelled} storniert` : ""}` 
       });
       queryClient.invalidateQueries({ queryKey: ["/api/sync-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync/locks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
     },
     onError: (error: Error) => {
       toast({ title: "Sync-Fehler", description: error.message, variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync/locks"] });
     },
   });
 
   const handleSave = () => {
     saveMutation.mutate({ 
       enabled, 
-      intervalMinutes: parseInt(selectedInterval, 10) 
+      schedules,
+      quietHoursStart,
+      quietHoursEnd,
+      fullSyncHours: parseInt(fullSyncHours, 10),
+      recordRetentionDays: parseInt(recordRetentionDays, 10),
     });
   };
 
@@ -101,7 +207,9 @@ export default function SyncSettingsPage() {
     setEnabled(checked);
     saveMutation.mutate({ 
       enabled: checked, 
-      intervalMinutes: parseInt(selectedInterval, 10) 
+      schedules,
+      quietHoursStart,
+      quietHoursEnd,
     });
   };
 
@@ -109,6 +217,8 @@ export default function SyncSettingsPage() {
     switch (status) {
       case "success":
         return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case "partial":
+        return <AlertCircle className="h-4 w-4 text-amber-500" />;
       case "error":
         return <XCircle className="h-4 w-4 text-red-500" />;
       case "running":
@@ -121,13 +231,19 @@ export default function SyncSettingsPage() {
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
       success: "default",
+      partial: "secondary",
       error: "destructive",
       running: "secondary",
+      cancelled: "outline",
+      skipped: "outline",
     };
     const labels: Record<string, string> = {
       success: "Erfolgreich",
+      partial: "Teilweise",
       error: "Fehler",
       running: "Läuft",
+      cancelled: "Abgebrochen",
+      skipped: "Übersprungen",
     };
     return <Badge variant={variants[status] || "outline"}>{labels[status] || status}</Badge>;
   };
@@ -167,7 +283,7 @@ export default function SyncSettingsPage() {
             Automatische Synchronisation
           </CardTitle>
           <CardDescription>
-            Aktivieren Sie die automatische Synchronisation und wählen Sie das Intervall
+            Zeitpläne als Cron-Ausdruck (Minute Stunde Tag Monat Wochentag), z.B. „0 6,13 * * 1-5“ für werktags um 6 und 13 Uhr
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -177,7 +293,7 @@ export default function SyncSettingsPage() {
                 Auto-Sync aktivieren
               </Label>
               <p className="text-sm text-muted-foreground">
-                Rechnungen und Debitoren werden automatisch mit BHB synchronisiert
+                Die geplanten Jobs werden zu den angegebenen Zeiten ausgeführt
               </p>
             </div>
             <Switch
@@ -191,33 +307,89 @@ export default function SyncSettingsPage() {
 
           {enabled && (
             <div className="space-y-3 pt-2 border-t">
-              <Label className="text-sm font-medium">Sync-Intervall</Label>
+              {SCHEDULED_JOBS.map(({ job, label, description }) => (
+                <CronScheduleField
+                  key={job}
+                  id={`schedule-${job}`}
+                  label={label}
+                  description={description}
+                  value={schedules[job]}
+                  onChange={(value) => setSchedules((current) => ({ ...current, [job]: value }))}
+                  quietHoursStart={quietHoursStart}
+                  quietHoursEnd={quietHoursEnd}
+                />
+              ))}
+              <Label className="text-sm font-medium">Ruhezeiten</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={quietHoursStart}
+                  onChange={(e) => setQuietHoursStart(e.target.value)}
+                  className="w-32"
+                  data-testid="input-quiet-hours-start"
+                />
+                <span className="text-muted-foreground">bis</span>
+                <Input
+                  type="time"
+                  value={quietHoursEnd}
+                  onChange={(e) => setQuietHoursEnd(e.target.value)}
+                  className="w-32"
+                  data-testid="input-quiet-hours-end"
+                />
+                <span className="text-xs text-muted-foreground">
+                  In diesem Zeitraum wird kein Job ausgeführt (leer = keine Ruhezeiten)
+                </span>
+              </div>
+              <Label className="text-sm font-medium">Vollabgleich der Rechnungen</Label>
               <div className="flex items-center gap-4">
                 <Select
-                  value={selectedInterval}
-                  onValueChange={setSelectedInterval}
+                  value={fullSyncHours}
+                  onValueChange={setFullSyncHours}
                 >
-                  <SelectTrigger className="w-48" data-testid="select-sync-interval">
+                  <SelectTrigger className="w-48" data-testid="select-full-sync-hours">
                     <SelectValue placeholder="Intervall wählen" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="15">Alle 15 Minuten</SelectItem>
-                    <SelectItem value="30">Alle 30 Minuten</SelectItem>
-                    <SelectItem value="60">Stündlich</SelectItem>
-                    <SelectItem value="120">Alle 2 Stunden</SelectItem>
-                    <SelectItem value="360">Alle 6 Stunden</SelectItem>
-                    <SelectItem value="720">Alle 12 Stunden</SelectItem>
-                    <SelectItem value="1440">Täglich</SelectItem>
+                    <SelectItem value="6">Alle 6 Stunden</SelectItem>
+                    <SelectItem value="12">Alle 12 Stunden</SelectItem>
+                    <SelectItem value="24">Täglich</SelectItem>
+                    <SelectItem value="168">Wöchentlich</SelectItem>
                   </SelectContent>
                 </Select>
-                <Button 
-                  onClick={handleSave} 
-                  disabled={saveMutation.isPending}
-                  data-testid="button-save-sync-config"
+                <span className="text-xs text-muted-foreground">
+                  Dazwischen werden nur geänderte Rechnungen abgerufen
+                  {syncConfig?.lastFullSync && (
+                    <> · zuletzt {format(new Date(syncConfig.lastFullSync), "dd.MM.yyyy HH:mm", { locale: de })}</>
+                  )}
+                </span>
+              </div>
+              <Label className="text-sm font-medium">Sync-Details aufbewahren</Label>
+              <div className="flex items-center gap-4">
+                <Select
+                  value={recordRetentionDays}
+                  onValueChange={setRecordRetentionDays}
                 >
-                  {saveMutation.isPending ? "Speichern..." : "Speichern"}
-                </Button>
+                  <SelectTrigger className="w-48" data-testid="select-record-retention-days">
+                    <SelectValue placeholder="Dauer wählen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="7">7 Tage</SelectItem>
+                    <SelectItem value="14">14 Tage</SelectItem>
+                    <SelectItem value="30">30 Tage</SelectItem>
+                    <SelectItem value="90">90 Tage</SelectItem>
+                  </SelectContent>
+                </Select>
+                <span className="text-xs text-muted-foreground">
+                  Geänderte Felder je Datensatz; ältere Details löscht die Bereinigung, das Protokoll selbst bleibt 90 Tage erhalten
+                </span>
               </div>
+              <Button 
+                onClick={handleSave} 
+                disabled={saveMutation.isPending}
+                data-testid="button-save-sync-config"
+              >
+                {saveMutation.isPending ? "Speichern..." : "Speichern"}
+              </Button>
             </div>
           )}
 
@@ -225,11 +397,23 @@ export default function SyncSettingsPage() {
             <div className={`h-2 w-2 rounded-full ${enabled ? "bg-green-500" : "bg-muted"}`} />
             <span className={enabled ? "text-green-600" : "text-muted-foreground"}>
               {enabled 
-                ? `Automatischer Sync aktiv (alle ${selectedInterval} Min.)`
-                : "Automatischer Sync deaktiviert"
+                ? "Automatische Ausführung aktiv"
+                : "Automatische Ausführung deaktiviert"
               }
             </span>
           </div>
+          {syncConfig?.enabled && (
+            <div className="grid gap-1 text-xs text-muted-foreground sm:grid-cols-2" data-testid="text-next-runs">
+              {SCHEDULED_JOBS.map(({ job, label }) => {
+                const nextRun = syncConfig.nextRuns[job];
+                return (
+                  <span key={job}>
+                    {label}: {nextRun ? format(new Date(nextRun), "EEE dd.MM.yyyy HH:mm", { locale: de }) : "deaktiviert"}
+                  </span>
+                );
+              })}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -246,16 +430,25 @@ export default function SyncSettingsPage() {
         <CardContent className="flex gap-4">
           <Button
             onClick={() => syncNowMutation.mutate("invoices")}
-            disabled={syncNowMutation.isPending}
+            disabled={syncNowMutation.isPending || isLocked("invoices")}
             variant="outline"
             data-testid="button-sync-invoices"
           >
             <RefreshCw className={`h-4 w-4 mr-2 ${syncNowMutation.isPending ? "animate-spin" : ""}`} />
             Rechnungen synchronisieren
           </Button>
+          <Button
+            onClick={() => syncNowMutation.mutate("invoices-full")}
+            disabled={syncNowMutation.isPending || isLocked("invoices")}
+            variant="outline"
+            data-testid="button-sync-invoices-full"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${syncNowMutation.isPending ? "animate-spin" : ""}`} />
+            Vollabgleich Rechnungen
+          </Button>
           <Button
             onClick={() => syncNowMutation.mutate("debtors")}
-            disabled={syncNowMutation.isPending}
+            disabled={syncNowMutation.isPending || isLocked("debtors")}
             variant="outline"
             data-testid="button-sync-debtors"
           >
@@ -265,11 +458,54 @@ export default function SyncSettingsPage() {
         </CardContent>
       </Card>
 
+      <DunningRunConfigCard />
+
+      {runningSyncLog && (
+        <SyncProgressPanel
+          key={runningSyncLog.id}
+          syncLogId={runningSyncLog.id}
+          onFinished={() => {
+            queryClient.invalidateQueries({ queryKey: ["/api/sync-logs"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/sync/locks"] });
+          }}
+        />
+      )}
+
+      {syncLocks?.map((lock) => (
+        <div
+          key={lock.entityType}
+          className="flex items-center gap-2 p-3 rounded-md bg-muted border"
+          data-testid={`banner-sync-lock-${lock.entityType}`}
+        >
+          <Lock className="h-4 w-4 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            {lock.entityType === "invoices" ? "Rechnungs" : "Debitoren"}-Sync gesperrt durch{" "}
+            <span className="font-medium text-foreground">{lock.holderName}</span> seit{" "}
+            {format(new Date(lock.acquiredAt), "dd.MM.yyyy HH:mm", { locale: de })}
+            {lock.stale && " – keine Rückmeldung mehr, die Sperre wird beim nächsten Sync übernommen"}
+          </p>
+        </div>
+      ))}
+
+      {lastDebtorSync?.pageLimitReached && (
+        <div
+          className="flex items-center gap-2 p-3 rounded-md bg-yellow-500/10 border border-yellow-500/20"
+          data-testid="banner-debtor-page-limit"
+        >
+          <AlertTriangle className="h-5 w-5 text-yellow-600" />
+          <p className="text-sm text-yellow-600">
+            Beim letzten Debitoren-Sync lieferte BHB volle Seiten ohne weitere Debitoren
+            ({lastDebtorSync.pulledCount} Debitoren auf {lastDebtorSync.pages?.length} Seiten).
+            Möglicherweise wurden nicht alle Debitoren übernommen.
+          </p>
+        </div>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Sync-Protokoll</CardTitle>
           <CardDescription>
-            Die letzten Synchronisierungen mit dem BHB-System
+            Die letzten Synchronisierungen mit dem BHB-System, für Details auf einen Eintrag klicken
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -286,7 +522,8 @@ export default function SyncSettingsPage() {
               {syncLogs.slice(0, 10).map((log) => (
                 <div
                   key={log.id}
-                  className="flex items-center justify-between p-3 border rounded-md"
+                  className="flex items-center justify-between p-3 border rounded-md cursor-pointer hover:bg-muted/50 transition-colors"
+                  onClick={() => setLocation(`/settings/sync/logs/${log.id}`)}
                   data-testid={`sync-log-${log.id}`}
                 >
                   <div className="flex items-center gap-3">
@@ -301,6 +538,11 @@ export default function SyncSettingsPage() {
                         <Badge variant="outline" className="text-xs">
                           {log.mode === "auto" ? "Automatisch" : "Manuell"}
                         </Badge>
+                        {log.direction === "push" && (
+                          <Badge variant="outline" className="text-xs" data-testid={`badge-sync-push-${log.id}`}>
+                            Portal → BHB
+                          </Badge>
+                        )}
                         {getStatusBadge(log.status)}
                       </div>
                       <div className="text-xs text-muted-foreground">
@@ -309,18 +551,96 @@ export default function SyncSettingsPage() {
                     </div>
                   </div>
                   <div className="text-right text-sm">
-                    {log.status === "success" && (
+                    {log.status === "success" && log.direction === "push" && (
+                      <div className="text-muted-foreground">
+                        <span className="text-blue-600">{log.updatedCount || 0} übertragen</span>
+                        {(log.errorCount || 0) > 0 && (
+                          <>
+                            {" / "}
+                            <span
+                              className="text-red-500"
+                              title={getDebtorSyncDetails(log)?.errors?.join("\n")}
+                              data-testid={`text-sync-push-failed-${log.id}`}
+                            >
+                              {log.errorCount} fehlgeschlagen
+                            </span>
+                          </>
+                        )}
+                        {(getDebtorSyncDetails(log)?.conflictCount || 0) > 0 && (
+                          <>
+                            {" / "}
+                            <span className="text-amber-600">{getDebtorSyncDetails(log)?.conflictCount} Konflikte übersprungen</span>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    {(log.status === "success" || log.status === "partial") && log.direction !== "push" && (
                       <div className="text-muted-foreground">
                         <span className="text-green-600">{log.createdCount || 0} neu</span>
                         {" / "}
                         <span className="text-blue-600">{log.updatedCount || 0} aktualisiert</span>
                         {" / "}
                         <span>{log.unchangedCount || 0} unverändert</span>
+                        {getCancelledInvoices(log).count > 0 && (
+                          <>
+                            {" / "}
+                            <span
+                              className="text-amber-600"
+                              title={getCancelledInvoices(log).invoices.join(", ")}
+                              data-testid={`text-sync-cancelled-${log.id}`}
+                            >
+                              {getCancelledInvoices(log).count} storniert
+                            </span>
+                          </>
+                        )}
+                        {(getDebtorSyncDetails(log)?.conflictCount || 0) > 0 && (
+                          <>
+                            {" / "}
+                            <span
+                              className="text-amber-600"
+                              title="Im Portal und in BHB geändert, unter Debitoren > BHB-Abgleich prüfen"
+                              data-testid={`text-sync-conflicts-${log.id}`}
+                            >
+                              {getDebtorSyncDetails(log)?.conflictCount} Konflikte
+                            </span>
+                          </>
+                        )}
+                        {log.status === "partial" && (
+                          <>
+                            {" / "}
+                            <span
+                              className="text-red-500"
+                              title="Nicht gespeichert, der nächste Lauf ruft sie erneut ab"
+                              data-testid={`text-sync-errors-${log.id}`}
+                            >
+                              {log.errorCount || 0} Fehler
+                            </span>
+                          </>
+                        )}
+                        {getInvalidRecords(log).count > 0 && (
+                          <>
+                            {" / "}
+                            <span
+                              className="text-red-500"
+                              title={getInvalidRecords(log).records
+                                .map((record) => `${record.entityType === "invoices" ? "Rechnung" : "Debitor"} ${record.record}: ${record.issues.join("; ")}`)
+                                .join("\n")}
+                              data-testid={`text-sync-invalid-${log.id}`}
+                            >
+                              {getInvalidRecords(log).count} ungültig
+                            </span>
+                          </>
+                        )}
                       </div>
                     )}
                     {log.status === "error" && (
                       <span className="text-red-500">Fehler aufgetreten</span>
                     )}
+                    {log.status === "skipped" && (
+                      <span className="text-muted-foreground">
+                        Lief bereits ({(log.details as { lockedByName?: string } | undefined)?.lockedByName || "unbekannt"})
+                      </span>
+                    )}
                   </div>
                 </div>
               ))}
@@ -42,15 +42,20 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import type { Mandant } from "@shared/schema";
 
 interface InternalUser {
   id: string;
   username: string;
   displayName: string | null;
   role: string;
+  mandantId: string | null;
   createdAt: string;
 }
 
+// Select value for users that may work in every mandant
+const ALL_MANDANTS = "all";
+
 const roleLabels: Record<string, string> = {
   admin: "Administrator",
   user: "Mitarbeiter",
@@ -98,6 +103,7 @@ export default function UsersPage() {
     password: "",
     confirmPassword: "",
     role: "user",
+    mandantId: ALL_MANDANTS,
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
@@ -105,8 +111,12 @@ export default function UsersPage() {
     queryKey: ["/api/admin/users"],
   });
 
+  const { data: mandants = [] } = useQuery<Mandant[]>({
+    queryKey: ["/api/admin/mandants"],
+  });
+
   const createMutation = useMutation({
-    mutationFn: async (data: { username: string; password: string; displayName: string; role: string }) => {
+    mutationFn: async (data: { username: string; password: string; displayName: string; role: string; mandantId: string | null }) => {
       return apiRequest("POST", "/api/admin/users", data);
     },
     onSuccess: () => {
@@ -128,7 +138,7 @@ export default function UsersPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: { displayName?: string; role?: string; password?: string } }) => {
+    mutationFn: async ({ id, data }: { id: string; data: { displayName?: string; role?: string; password?: string; mandantId?: string | null } }) => {
       return apiRequest("PATCH", `/api/admin/users/${id}`, data);
     },
     onSuccess: () => {
@@ -179,6 +189,7 @@ export default function UsersPage() {
       password: "",
       confirmPassword: "",
       role: "user",
+      mandantId: ALL_MANDANTS,
     });
     setFormErrors({});
   };
@@ -212,15 +223,17 @@ export default function UsersPage() {
       password: formData.password,
       displayName: formData.displayName.trim() || formData.username.trim(),
       role: formData.role,
+      mandantId: formData.mandantId === ALL_MANDANTS ? null : formData.mandantId,
     });
   };
 
   const handleEdit = () => {
     if (!selectedUser || !validateForm(true)) return;
 
-    const updateData: { displayName?: string; role?: string; password?: string } = {
+    const updateData: { displayName?: string; role?: string; password?: string; mandantId?: string | null } = {
       displayName: formData.displayName.trim() || undefined,
       role: formData.role,
+      mandantId: formData.mandantId === ALL_MANDANTS ? null : formData.mandantId,
     };
 
     if (formData.password) {
@@ -243,6 +256,7 @@ export default function UsersPage() {
       password: "",
       confirmPassword: "",
       role: user.role,
+      mandantId: user.mandantId || ALL_MANDANTS,
     });
     setFormErrors({});
     setIsEditDialogOpen(true);
@@ -309,6 +323,7 @@ export default function UsersPage() {
                 <TableHead>Benutzername</TableHead>
                 <TableHead>Anzeigename</TableHead>
                 <TableHead>Rolle</TableHead>
+                {mandants.length > 1 && <TableHead>Mandant</TableHead>}
                 <TableHead className="text-right">Aktionen</TableHead>
               </TableRow>
             </TableHeader>
@@ -332,6 +347,11 @@ export default function UsersPage() {
                       </span>
                     </Badge>
                   </TableCell>
+                  {mandants.length > 1 && (
+                    <TableCell data-testid={`text-mandant-${user.id}`}>
+                      {mandants.find((m) => m.id === user.mandantId)?.name || "Alle Mandanten"}
+                    </TableCell>
+                  )}
                   <TableCell className="text-right">
                     <div className="flex items-center justify-end gap-2">
                       <Button
@@ -357,7 +377,7 @@ export default function UsersPage() {
               ))}
               {users.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                  <TableCell colSpan={mandants.length > 1 ? 5 : 4} className="text-center text-muted-foreground py-8">
                     Keine Benutzer gefunden
                   </TableCell>
                 </TableRow>
@@ -441,6 +461,30 @@ export default function UsersPage() {
                 </SelectContent>
               </Select>
             </div>
+            {mandants.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="create-mandant">Mandant</Label>
+                <Select
+                  value={formData.mandantId}
+                  onValueChange={(value) => setFormData({ ...formData, mandantId: value })}
+                >
+                  <SelectTrigger id="create-mandant" data-testid="select-mandant">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_MANDANTS}>Alle Mandanten</SelectItem>
+                    {mandants.map((mandant) => (
+                      <SelectItem key={mandant.id} value={mandant.id}>
+                        {mandant.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Beschränkt den Benutzer ab der nächsten Anmeldung auf einen Mandanten; sonst wechselt er in der Seitenleiste.
+                </p>
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="create-password">Passwort</Label>
               <Input
@@ -526,6 +570,30 @@ export default function UsersPage() {
                 </SelectContent>
               </Select>
             </div>
+            {mandants.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="edit-mandant">Mandant</Label>
+                <Select
+                  value={formData.mandantId}
+                  onValueChange={(value) => setFormData({ ...formData, mandantId: value })}
+                >
+                  <SelectTrigger id="edit-mandant" data-testid="select-edit-mandant">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_MANDANTS}>Alle Mandanten</SelectItem>
+                    {mandants.map((mandant) => (
+                      <SelectItem key={mandant.id} value={mandant.id}>
+                        {mandant.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Beschränkt den Benutzer ab der nächsten Anmeldung auf einen Mandanten; sonst wechselt er in der Seitenleiste.
+                </p>
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="edit-password">Neues Passwort (optional)</Label>
               <Input
@@ -88,6 +88,7 @@ declare module "express-session" {
     username: string;
     displayName: string;
     role: string;
+    mandantId: string;
   }
 }
 
@@ -261,6 +262,13 @@ export function registerAuthRoutes(app: Express) {
       req.session.username = user.username;
       req.session.displayName = user.displayName || user.username;
       req.session.role = user.role;
+      // Pinned users always work in their mandant, customers in the mandant of their first customer
+      const mandantId = user.mandantId || (user.role === "customer"
+        ? (await storage.getCustomersForUser(user.id))[0]?.mandantId
+        : null);
+      if (mandantId) {
+        req.session.mandantId = mandantId;
+      }
 
       res.json({
         id: user.id,
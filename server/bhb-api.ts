@@ -0,0 +1,440 @@
+import { z } from "zod";
+import { bhbPost, BhbApiError, type BhbCredentials, type BhbRequestOptions, type BhbResponse } from "./bhb-client";
+
+/**
+ * Typed access to the BHB endpoints the portal uses. Responses are validated with
+ * zod and BHB's field aliases are resolved here, so the rest of the server only
+ * sees normalized records. Records failing validation are returned separately
+ * instead of failing the whole page.
+ */
+
+export interface BhbDebtor {
+  postingaccountNumber: number; // 0 when BHB has no posting account for the debtor
+  name: string | null;
+  email: string | null;
+  contactPerson: string | null;
+  street: string | null;
+  additionalAddressline: string | null;
+  zip: string | null;
+  city: string | null;
+  country: string | null;
+  salesTaxIdEu: string | null;
+  uidCh: string | null;
+  iban: string | null;
+  bic: string | null;
+  raw: Record<string, unknown>;
+}
+
+export interface BhbReceipt {
+  idByCustomer: string;
+  invoiceNumber: string | null;
+  counterpartyName: string | null;
+  debtorNumber: number; // 0 when BHB does not link the receipt to a debtor account
+  date: Date | null;
+  dueDate: Date | null;
+  amount: number; // Signed as delivered, negative for outbound invoices
+  isCreditNote: boolean; // Outbound receipt with the opposite sign of an invoice
+  amountPaid: number; // amount_paid plus amount_paid_fixed
+  payments: BhbPayment[] | null; // Null when BHB sends no payment details for the receipt
+  modifiedAt: Date | null;
+  deleted: boolean;
+  raw: Record<string, unknown>;
+}
+
+export interface BhbPayment {
+  reference: string | null;
+  date: Date | null;
+  amount: number;
+}
+
+export interface BhbReceiptFile {
+  fileContent: string | null; // Base64
+  filename: string | null;
+}
+
+export interface BhbInvalidRecord {
+  record: string; // Posting account, receipt id or position in the page
+  issues: string[];
+}
+
+export interface BhbPage<T> {
+  records: T[];
+  invalid: BhbInvalidRecord[];
+  received: number; // Raw page size, including invalid records, for paging
+}
+
+export interface BhbDebtorUpdate {
+  postingaccountNumber: number;
+  name: string;
+  contactPerson?: string | null;
+  street?: string | null;
+  additionalAddressline?: string | null;
+  zip?: string | null;
+  city?: string | null;
+  country?: string | null;
+  salesTaxIdEu?: string | null;
+  email?: string | null;
+  uidCh?: string | null;
+  iban?: string | null;
+  bic?: string | null;
+}
+
+export interface BhbReceiptQuery {
+  limit: number;
+  offset?: number;
+  paymentStatus?: "paid" | "unpaid";
+  modifiedSince?: string; // "YYYY-MM-DD HH:MM:SS"
+}
+
+// BHB sends most values as strings, sometimes as numbers, and "" for missing values
+const text = z.union([z.string(), z.number()]).nullish()
+  .transform((value) => (value === null || value === undefined || value === "" ? null : String(value)));
+
+const amount = z.union([z.string(), z.number()]).nullish().transform((value, ctx) => {
+  if (value === null || value === undefined || value === "") return 0;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  if (isNaN(parsed)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Ungültiger Betrag "${value}"` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+const date = z.string().nullish().transform((value, ctx) => {
+  if (!value) return null;
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Ungültiges Datum "${value}"` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+const postingaccountNumber = z.union([z.string(), z.number()]).nullish().transform((value, ctx) => {
+  if (value === null || value === undefined || value === "") return 0;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Ungültige Kontonummer "${value}"` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+// Alternative debtor references on receipts are only hints and never invalidate a record
+const debtorReference = z.unknown().transform((value) => {
+  const parsed = parseInt(String(value ?? ""), 10);
+  return parsed > 0 ? parsed : 0;
+});
+
+const flag = z.union([z.string(), z.number(), z.boolean()]).nullish()
+  .transform((value) => value === true || value === 1 || value === "1");
+
+const nestedAccount = z.object({ name: text, postingaccount_number: debtorReference }).passthrough();
+
+const debtorSchema = z.object({
+  postingaccount_number: postingaccountNumber,
+  name: text,
+  email: text,
+  contact_person: text,
+  contactperson: text,
+  street: text,
+  additional_addressline: text,
+  addressline2: text,
+  zip: text,
+  postcode: text,
+  city: text,
+  country: text,
+  sales_tax_id_eu: text,
+  vat_id: text,
+  ustid: text,
+  uid_ch: text,
+  iban: text,
+  bic: text,
+}).passthrough().transform((debtor): Omit<BhbDebtor, "raw"> => ({
+  postingaccountNumber: debtor.postingaccount_number,
+  name: debtor.name,
+  email: debtor.email,
+  contactPerson: debtor.contact_person ?? debtor.contactperson,
+  street: debtor.street,
+  additionalAddressline: debtor.additional_addressline ?? debtor.addressline2,
+  zip: debtor.zip ?? debtor.postcode,
+  city: debtor.city,
+  country: debtor.country,
+  salesTaxIdEu: debtor.sales_tax_id_eu ?? debtor.vat_id ?? debtor.ustid,
+  uidCh: debtor.uid_ch,
+  iban: debtor.iban,
+  bic: debtor.bic,
+}));
+
+const paymentSchema = z.object({
+  id: text,
+  transaction_id: text,
+  date,
+  payment_date: date,
+  booking_date: date,
+  amount,
+}).passthrough().transform((payment): BhbPayment => ({
+  reference: payment.transaction_id ?? payment.id,
+  date: payment.payment_date ?? payment.booking_date ?? payment.date,
+  amount: payment.amount,
+}));
+
+const receiptSchema = z.object({
+  id_by_customer: z.union([z.string().min(1), z.number()]).transform(String),
+  invoicenumber: text,
+  invoice_number: text,
+  // Usually the counterparty name, some accounts deliver an object with the posting account
+  counterparty: z.union([z.string(), nestedAccount]).nullish(),
+  debtor: nestedAccount.nullish().catch(null),
+  counterparty_postingaccount_number: debtorReference,
+  creditor_debtor: debtorReference,
+  debtor_number: debtorReference,
+  date,
+  due_date: date,
+  amount,
+  amount_paid: amount,
+  amount_paid_fixed: amount,
+  // Only some accounts deliver the payments assigned to the receipt; malformed lists are ignored
+  payments: z.array(paymentSchema).nullish().catch(null),
+  transactions: z.array(paymentSchema).nullish().catch(null),
+  date_modified: date.catch(null),
+  deleted: flag,
+}).passthrough().transform((receipt): Omit<BhbReceipt, "raw"> => {
+  const counterparty = typeof receipt.counterparty === "string" ? null : receipt.counterparty;
+  return {
+    idByCustomer: receipt.id_by_customer,
+    invoiceNumber: receipt.invoicenumber ?? receipt.invoice_number,
+    counterpartyName: typeof receipt.counterparty === "string" ? receipt.counterparty || null : counterparty?.name ?? null,
+    debtorNumber:
+      counterparty?.postingaccount_number ||
+      receipt.debtor?.postingaccount_number ||
+      receipt.counterparty_postingaccount_number ||
+      receipt.creditor_debtor ||
+      receipt.debtor_number ||
+      0,
+    date: receipt.date,
+    dueDate: receipt.due_date,
+    amount: receipt.amount,
+    isCreditNote: receipt.amount > 0,
+    amountPaid: receipt.amount_paid + receipt.amount_paid_fixed,
+    payments: receipt.payments ?? receipt.transactions ?? null,
+    modifiedAt: receipt.date_modified,
+    deleted: receipt.deleted,
+  };
+});
+
+const listResponseSchema = z.object({
+  success: z.boolean().nullish(),
+  message: z.string().nullish(),
+  data: z.array(z.unknown()).nullish(),
+}).passthrough();
+
+const receiptFileSchema = z.object({
+  file_content: z.string().nullish(),
+  file: z.string().nullish(),
+  content: z.string().nullish(),
+  document: z.string().nullish(),
+  file_base64: z.string().nullish(),
+  filename: text,
+}).passthrough();
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join(".") || "Datensatz"}: ${issue.message}`);
+}
+
+function getMessage(data: any): string | undefined {
+  return data?.error?.message || data?.message || (typeof data?.error === "string" ? data.error : undefined);
+}
+
+// Keeps the untouched BHB record next to the normalized fields
+type WithRaw<T> = T & { raw: Record<string, unknown> };
+
+function parseRecords<T>(
+  items: unknown[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  offset: number,
+  identify: (item: any) => unknown
+): BhbPage<WithRaw<T>> {
+  const page: BhbPage<WithRaw<T>> = { records: [], invalid: [], received: items.length };
+  items.forEach((item, index) => {
+    const parsed = schema.safeParse(item);
+    if (parsed.success) {
+      page.records.push({ ...parsed.data, raw: item as Record<string, unknown> });
+    } else {
+      page.invalid.push({ record: String(identify(item) || `#${offset + index}`), issues: formatIssues(parsed.error) });
+    }
+  });
+  return page;
+}
+
+/**
+ * Unwraps a list response. Non-OK responses and success=false raise an error,
+ * a malformed envelope is reported as a validation error of the whole response.
+ */
+function parseListResponse(response: BhbResponse, path: string, fallbackMessage: string): unknown[] {
+  if (!response.ok) {
+    console.error(`[bhb] ${path} returned ${response.status}:`, response.data);
+    throw new BhbApiError(`BHB API Fehler: ${response.status} - ${getMessage(response.data) || "Unknown error"}`, response.status);
+  }
+  const envelope = listResponseSchema.safeParse(response.data);
+  if (!envelope.success) {
+    throw new BhbApiError(`Ungültige BHB-Antwort von ${path}: ${formatIssues(envelope.error).join("; ")}`, response.status);
+  }
+  if (envelope.data.success === false) {
+    console.error(`[bhb] ${path} returned success=false:`, response.data);
+    throw new Error(envelope.data.message || fallbackMessage);
+  }
+  return envelope.data.data || [];
+}
+
+export function parseBhbDebtor(item: unknown): BhbDebtor | null {
+  const parsed = debtorSchema.safeParse(item);
+  return parsed.success ? { ...parsed.data, raw: item as Record<string, unknown> } : null;
+}
+
+export function parseBhbReceipt(item: unknown): BhbReceipt | null {
+  const parsed = receiptSchema.safeParse(item);
+  return parsed.success ? { ...parsed.data, raw: item as Record<string, unknown> } : null;
+}
+
+// For cached rawJson; returns 0 when the receipt carries no debtor reference
+export function getReceiptDebtorNumber(raw: unknown): number {
+  return parseBhbReceipt(raw)?.debtorNumber || 0;
+}
+
+export async function getDebtors(
+  credentials: BhbCredentials,
+  params: { limit: number; offset?: number },
+  options: BhbRequestOptions = {}
+): Promise<BhbPage<BhbDebtor>> {
+  const offset = params.offset || 0;
+  const response = await bhbPost(credentials, "/settings/get/debtors", { limit: params.limit, offset }, options);
+  const items = parseListResponse(response, "/settings/get/debtors", "BHB API Fehler beim Abrufen der Debitoren");
+  return parseRecords(items, debtorSchema, offset, (item) => item?.postingaccount_number);
+}
+
+export async function getReceipts(
+  credentials: BhbCredentials,
+  query: BhbReceiptQuery,
+  options: BhbRequestOptions = {}
+): Promise<BhbPage<BhbReceipt>> {
+  const offset = query.offset || 0;
+  const body: Record<string, unknown> = { list_direction: "outbound", limit: query.limit, offset };
+  if (query.paymentStatus) body.payment_status = query.paymentStatus;
+  if (query.modifiedSince) body.date_modified_from = query.modifiedSince;
+
+  const response = await bhbPost(credentials, "/receipts/get", body, options);
+  const items = parseListResponse(response, "/receipts/get", "BHB API Fehler beim Abrufen der Rechnungen");
+  return parseRecords(items, receiptSchema, offset, (item) => item?.id_by_customer || item?.invoicenumber);
+}
+
+/**
+ * Looks up a single receipt. Returns null when BHB no longer knows it (404), so
+ * callers can tell a removed receipt from one a listing merely skipped.
+ */
+export async function getReceipt(
+  credentials: BhbCredentials,
+  idByCustomer: string,
+  options: BhbRequestOptions = {}
+): Promise<BhbReceipt | null> {
+  const path = `/receipts/get/${idByCustomer}`;
+  const response = await bhbPost(credentials, path, {}, options);
+  if (response.status === 404) return null;
+
+  const data = response.data;
+  if (!response.ok || data?.error || data?.success === false) {
+    throw new BhbApiError(getMessage(data) || "Fehler beim Abrufen der Rechnung von BHB", response.status);
+  }
+
+  // Like the file endpoint, the receipt is returned directly, not wrapped in a data array
+  const receipt = parseBhbReceipt(data?.data || data);
+  if (!receipt) {
+    throw new BhbApiError(`Ungültige BHB-Antwort von ${path}`, response.status);
+  }
+  return receipt;
+}
+
+// id_by_customer is a path parameter of this endpoint, not part of the body
+export async function getReceiptFile(
+  credentials: BhbCredentials,
+  idByCustomer: string,
+  options: BhbRequestOptions = {}
+): Promise<BhbReceiptFile> {
+  const path = `/receipts/get/${idByCustomer}`;
+  const response = await bhbPost(credentials, path, { get_file: true }, options);
+  const data = response.data;
+
+  if (!response.ok || data?.error || data?.success === false) {
+    console.error(`[bhb] ${path} failed - Status: ${response.status}, Error code: ${data?.error_code}, Message: ${data?.message}`);
+    throw new BhbApiError(getMessage(data) || "Fehler beim Abrufen der PDF von BHB", response.status);
+  }
+
+  // The receipt is returned directly, not wrapped in a data array
+  const parsed = receiptFileSchema.safeParse(data?.data || data);
+  if (!parsed.success) {
+    throw new BhbApiError(`Ungültige BHB-Antwort von ${path}: ${formatIssues(parsed.error).join("; ")}`, response.status);
+  }
+  const file = parsed.data;
+  return {
+    fileContent: file.file_content || file.file || file.content || file.document || file.file_base64 || null,
+    filename: file.filename,
+  };
+}
+
+/**
+ * Pushes portal master data to BHB. Returns the raw response so callers can map
+ * BHB's status codes to their own messages.
+ */
+export async function updateDebtor(
+  credentials: BhbCredentials,
+  debtor: BhbDebtorUpdate,
+  options: BhbRequestOptions = {}
+): Promise<BhbResponse & { payload: Record<string, string> }> {
+  const payload: Record<string, string> = {
+    type: "debitor",
+    postingaccount_number: debtor.postingaccountNumber.toString(),
+    name: debtor.name,
+  };
+  if (debtor.contactPerson) payload.contact_person_name = debtor.contactPerson;
+  if (debtor.street) payload.street = debtor.street;
+  if (debtor.additionalAddressline) payload.additional_addressline = debtor.additionalAddressline;
+  if (debtor.zip) payload.zip = debtor.zip;
+  if (debtor.city) payload.city = debtor.city;
+  if (debtor.country) payload.country = debtor.country;
+  if (debtor.salesTaxIdEu) payload.sales_tax_id_eu = debtor.salesTaxIdEu;
+  if (debtor.email) payload.email = debtor.email;
+  if (debtor.uidCh) payload.uid_ch = debtor.uidCh;
+  if (debtor.iban) payload.iban = debtor.iban;
+  if (debtor.bic) payload.bic = debtor.bic;
+
+  const response = await bhbPost(credentials, "/settings/update/debtor", payload, options);
+  return { ...response, payload };
+}
+
+// Reason BHB gave for rejecting a debtor update, in the wording shown to users
+export function getDebtorUpdateError(response: BhbResponse): string {
+  const data = response.data || {};
+  if (response.status === 401 || response.status === 403) return "API-Authentifizierung fehlgeschlagen";
+  if (response.status === 404) return "Debitor nicht in BHB gefunden";
+  if (Array.isArray(data.errors)) return data.errors.join(", ");
+  return data.error || data.message || "Unbekannter Fehler";
+}
+
+// Portal customer fields filled from BHB debtor master data
+export function toCustomerFields(debtor: BhbDebtor) {
+  return {
+    displayName: debtor.name || `Debitor ${debtor.postingaccountNumber}`,
+    emailContact: debtor.email,
+    contactPersonName: debtor.contactPerson,
+    street: debtor.street,
+    additionalAddressline: debtor.additionalAddressline,
+    zip: debtor.zip,
+    city: debtor.city,
+    country: debtor.country,
+    salesTaxIdEu: debtor.salesTaxIdEu,
+    uidCh: debtor.uidCh,
+    iban: debtor.iban,
+    bic: debtor.bic,
+    bhbRawJson: debtor.raw,
+  };
+}
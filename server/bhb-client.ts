@@ -0,0 +1,248 @@
+import { storage } from "./storage";
+
+export const DEFAULT_BHB_BASE_URL = "https://webapp.buchhaltungsbutler.de/api/v1";
+
+export interface BhbCredentials {
+  apiKey: string;
+  baseUrl: string;
+  authHeader: string;
+}
+
+export interface BhbResponse<T = any> {
+  status: number;
+  ok: boolean;
+  data: T;
+}
+
+export interface BhbRequestOptions {
+  signal?: AbortSignal; // Caller cancellation, never retried
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface BhbCircuitState {
+  state: "closed" | "open" | "half-open";
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+export class BhbApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly circuitOpen: boolean = false
+  ) {
+    super(message);
+    this.name = "BhbApiError";
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// Rate-limit waits longer than this fail the request instead of blocking a sync
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+// Consecutive failed requests (after retries) that open the circuit
+const FAILURE_THRESHOLD = 5;
+const OPEN_DURATION_MS = 2 * 60 * 1000;
+
+// Shared by all mandants: it tracks the availability of the BHB service, not of one account
+const circuit = {
+  state: "closed" as BhbCircuitState["state"],
+  consecutiveFailures: 0,
+  openedAt: null as Date | null,
+  lastError: null as string | null,
+};
+
+// Set when BHB reports an exhausted quota on a successful response
+let rateLimitedUntil = 0;
+
+export async function getBhbCredentials(): Promise<BhbCredentials | null> {
+  const [apiKey, apiClient, apiSecret, baseUrl] = await Promise.all([
+    storage.getSetting("BHB_API_KEY"),
+    storage.getSetting("BHB_API_CLIENT"),
+    storage.getSetting("BHB_API_SECRET"),
+    storage.getSetting("BHB_BASE_URL"),
+  ]);
+  if (!apiKey || !apiClient || !apiSecret) return null;
+
+  return {
+    apiKey,
+    baseUrl: baseUrl || DEFAULT_BHB_BASE_URL,
+    authHeader: "Basic " + Buffer.from(`${apiClient}:${apiSecret}`).toString("base64"),
+  };
+}
+
+export function getBhbCircuitState(): BhbCircuitState {
+  const retryAt = circuit.openedAt ? new Date(circuit.openedAt.getTime() + OPEN_DURATION_MS) : null;
+  return {
+    state: circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    openedAt: circuit.openedAt?.toISOString() ?? null,
+    retryAt: circuit.state === "closed" ? null : retryAt?.toISOString() ?? null,
+    lastError: circuit.lastError,
+  };
+}
+
+// Also used after credentials change, so a fixed configuration is tried right away
+export function resetBhbCircuit() {
+  circuit.state = "closed";
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+}
+
+function recordFailure(message: string) {
+  circuit.consecutiveFailures++;
+  circuit.lastError = message;
+  if (circuit.state === "half-open" || circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+    if (circuit.state !== "open") {
+      console.warn(`[bhb] Circuit opened after ${circuit.consecutiveFailures} failures: ${message}`);
+    }
+    circuit.state = "open";
+    circuit.openedAt = new Date();
+  }
+}
+
+// After the open period a single trial request decides whether to close again
+function checkCircuit() {
+  if (circuit.state !== "open") return;
+  if (circuit.openedAt && Date.now() - circuit.openedAt.getTime() >= OPEN_DURATION_MS) {
+    circuit.state = "half-open";
+    return;
+  }
+  const retryAt = getBhbCircuitState().retryAt;
+  throw new BhbApiError(
+    `BHB API vorübergehend gesperrt nach wiederholten Fehlern${retryAt ? ` (erneuter Versuch ab ${new Date(retryAt).toLocaleTimeString("de-DE")})` : ""}`,
+    undefined,
+    true
+  );
+}
+
+/**
+ * Reads Retry-After (seconds or HTTP date) or X-RateLimit-Reset (epoch seconds
+ * or seconds from now) and returns the wait in milliseconds, if present.
+ */
+function getRateLimitDelay(headers: Headers): number | null {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const reset = Number(headers.get("x-ratelimit-reset"));
+  if (reset > 0) {
+    return reset > 1e9 ? Math.max(0, reset * 1000 - Date.now()) : reset * 1000;
+  }
+  return null;
+}
+
+function getBackoffDelay(attempt: number): number {
+  const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt + jitter);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * POSTs to the BHB API with the api_key added to the body. Network errors,
+ * timeouts, 429 and 5xx responses are retried with exponential backoff (or the
+ * wait announced by rate-limit headers). Other responses are returned as-is so
+ * callers can keep their endpoint-specific error messages.
+ */
+export async function bhbPost<T = any>(
+  credentials: BhbCredentials,
+  path: string,
+  body: Record<string, unknown> = {},
+  options: BhbRequestOptions = {}
+): Promise<BhbResponse<T>> {
+  checkCircuit();
+
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let lastError = "";
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (rateLimitedUntil > Date.now()) {
+      await sleep(rateLimitedUntil - Date.now(), options.signal);
+    }
+
+    let retryDelay: number | null = null;
+    try {
+      const timeoutSignal = AbortSignal.timeout(timeoutMs);
+      const response = await fetch(`${credentials.baseUrl}${path}`, {
+        method: "POST",
+        headers: {
+          "Authorization": credentials.authHeader,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ api_key: credentials.apiKey, ...body }),
+        signal: options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal,
+      });
+
+      const responseText = await response.text();
+
+      if (isRetryableStatus(response.status)) {
+        lastError = `HTTP ${response.status}`;
+        retryDelay = getRateLimitDelay(response.headers);
+      } else {
+        if (response.headers.get("x-ratelimit-remaining") === "0") {
+          const delay = getRateLimitDelay(response.headers);
+          if (delay) rateLimitedUntil = Date.now() + Math.min(delay, MAX_RETRY_DELAY_MS);
+        }
+
+        let data: any;
+        try {
+          data = JSON.parse(responseText);
+        } catch {
+          console.error(`[bhb] Response from ${path} not JSON: ${responseText.substring(0, 500)}`);
+          recordFailure(`Ungültige Antwort (HTTP ${response.status})`);
+          throw new BhbApiError(`BHB API Fehler: ${response.status} - Invalid response`, response.status);
+        }
+
+        resetBhbCircuit();
+        return { status: response.status, ok: response.ok, data };
+      }
+    } catch (error) {
+      if (error instanceof BhbApiError) throw error;
+      // Cancelled by the caller: stop immediately and do not count against BHB
+      if (options.signal?.aborted) throw error;
+      lastError = error instanceof Error && error.name === "TimeoutError"
+        ? `Zeitüberschreitung nach ${timeoutMs / 1000}s`
+        : `Netzwerkfehler: ${error instanceof Error ? error.message : error}`;
+    }
+
+    if (attempt === maxRetries) break;
+    const delay = retryDelay ?? getBackoffDelay(attempt);
+    if (delay > MAX_RETRY_DELAY_MS) {
+      lastError += ` (Wartezeit ${Math.round(delay / 1000)}s zu lang)`;
+      break;
+    }
+    console.warn(`[bhb] ${path} failed (${lastError}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+    await sleep(delay, options.signal);
+  }
+
+  recordFailure(lastError);
+  const status = Number(lastError.match(/^HTTP (\d+)/)?.[1]) || undefined;
+  throw new BhbApiError(`BHB API Fehler: ${lastError}`, status);
+}
@@ -0,0 +1,246 @@
+/**
+ * Seeded fixture data for the BHB sandbox. The same seed always yields the same
+ * debtors and receipts; dates are relative to the day the sandbox starts, so
+ * there are always invoices that are not yet due, overdue or long overdue.
+ */
+
+export interface SandboxDebtor {
+  postingaccount_number: number;
+  name: string;
+  email: string;
+  contact_person: string;
+  street: string;
+  additional_addressline: string;
+  zip: string;
+  city: string;
+  country: string;
+  sales_tax_id_eu: string;
+  uid_ch: string;
+  iban: string;
+  bic: string;
+  date_modified: string;
+}
+
+export interface SandboxPosition {
+  description: string;
+  quantity: number;
+  unitPrice: number; // Net
+}
+
+export interface SandboxReceipt {
+  id_by_customer: string;
+  invoicenumber: string;
+  counterparty: string;
+  counterparty_postingaccount_number: string; // "" when the receipt is not linked to a debtor
+  date: string;
+  due_date: string;
+  amount: string; // Gross, negative like BHB's outbound invoices, positive for credit notes
+  amount_paid: string;
+  amount_paid_fixed: string;
+  currency: string;
+  deleted: string;
+  date_modified: string;
+  positions: SandboxPosition[];
+  hasFile: boolean;
+}
+
+export interface SandboxData {
+  debtors: SandboxDebtor[];
+  receipts: SandboxReceipt[];
+}
+
+export const SANDBOX_VAT_RATE = 0.19;
+
+const COMPANIES = [
+  ["Müller Bau GmbH", "Thomas Müller", "Hauptstraße 12", "80331", "München"],
+  ["Schmidt & Partner Steuerberatung", "Anna Schmidt", "Lindenallee 4", "10115", "Berlin"],
+  ["Weber Elektrotechnik KG", "Jonas Weber", "Industriestraße 88", "70173", "Stuttgart"],
+  ["Fischer Logistik GmbH", "Sabine Fischer", "Hafenweg 3", "20457", "Hamburg"],
+  ["Becker Gastronomie GmbH", "Markus Becker", "Marktplatz 1", "50667", "Köln"],
+  ["Hoffmann Medien AG", "Julia Hoffmann", "Kaiserstraße 27", "60311", "Frankfurt am Main"],
+  ["Schulz Immobilien GmbH", "Peter Schulz", "Schlossallee 9", "01067", "Dresden"],
+  ["Koch Maschinenbau GmbH", "Andreas Koch", "Werkstraße 15", "90402", "Nürnberg"],
+  ["Richter IT-Service", "Laura Richter", "Bahnhofstraße 44", "04109", "Leipzig"],
+  ["Wolf Sanitär GmbH & Co. KG", "Stefan Wolf", "Gartenweg 2", "30159", "Hannover"],
+  ["Neumann Druckerei GmbH", "Claudia Neumann", "Papiermühle 6", "28195", "Bremen"],
+  ["Zimmermann Holzbau", "Michael Zimmermann", "Waldstraße 31", "79098", "Freiburg im Breisgau"],
+  ["Braun Consulting GmbH", "Katrin Braun", "Königsallee 60", "40212", "Düsseldorf"],
+  ["Krüger Autohaus GmbH", "Frank Krüger", "Ringstraße 100", "24103", "Kiel"],
+  ["Hartmann Praxisbedarf", "Nina Hartmann", "Am Klinikum 5", "69117", "Heidelberg"],
+  ["Alpen Handels AG", "Reto Baumann", "Bahnhofplatz 7", "8001", "Zürich"],
+  ["Donau Reisen GmbH", "Eva Gruber", "Ringstraße 18", "1010", "Wien"],
+  ["Lange Gartenbau", "Tobias Lange", "Feldweg 22", "33602", "Bielefeld"],
+] as const;
+
+const SERVICES: [string, number][] = [
+  ["Beratungsleistung (Std.)", 120],
+  ["Wartungsvertrag monatlich", 450],
+  ["Installation und Inbetriebnahme", 980],
+  ["Materiallieferung", 315.5],
+  ["Softwarelizenz Jahresgebühr", 1490],
+  ["Anfahrtspauschale", 45],
+  ["Projektmanagement (Tag)", 760],
+  ["Schulung vor Ort (Tag)", 890],
+  ["Reparaturarbeiten", 265],
+  ["Entsorgungspauschale", 79],
+];
+
+// Mulberry32: small, fast and good enough for reproducible fixtures
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    chance: (probability: number) => next() < probability,
+    pick: <T>(items: readonly T[]) => items[Math.floor(next() * items.length)],
+  };
+}
+
+function addDays(date: Date, days: number): Date {
+  const copy = new Date(date);
+  copy.setDate(copy.getDate() + days);
+  return copy;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+export function formatBhbDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Format BHB uses for date_modified and expects in date_modified_from
+export function formatBhbDateTime(date: Date): string {
+  return `${formatBhbDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+export function formatAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+export function getGrossAmount(positions: SandboxPosition[]): number {
+  const net = positions.reduce((sum, position) => sum + position.quantity * position.unitPrice, 0);
+  return Math.round(net * (1 + SANDBOX_VAT_RATE) * 100) / 100;
+}
+
+// Looks like an IBAN of the right length; the check digits are not valid
+function toIban(random: ReturnType<typeof createRandom>, country: string): string {
+  const length = country === "DE" ? 18 : country === "CH" ? 17 : 16;
+  const digits = Array.from({ length }, () => random.int(0, 9)).join("");
+  return `${country}${pad(random.int(10, 99))}${digits}`;
+}
+
+export function generateSandboxData(seed: number, today = new Date()): SandboxData {
+  const random = createRandom(seed);
+  const modified = formatBhbDateTime(addDays(today, -1));
+
+  const debtors: SandboxDebtor[] = COMPANIES.map(([name, contact, street, zip, city], index) => {
+    const country = zip.length === 4 ? (city === "Wien" ? "AT" : "CH") : "DE";
+    const domain = name.split(/[\s&]/)[0].toLowerCase().replace(/ä/g, "ae").replace(/ö/g, "oe").replace(/ü/g, "ue");
+    return {
+      postingaccount_number: 10001 + index,
+      name,
+      // Some debtors have no e-mail so dunning runs show the missing-address case
+      email: random.chance(0.85) ? `buchhaltung@${domain}.example` : "",
+      contact_person: contact,
+      street,
+      additional_addressline: random.chance(0.2) ? "Rechnungsabteilung" : "",
+      zip,
+      city,
+      country,
+      sales_tax_id_eu: country === "DE" && random.chance(0.6) ? `DE${random.int(100000000, 999999999)}` : "",
+      uid_ch: country === "CH" ? `CHE-${random.int(100, 999)}.${random.int(100, 999)}.${random.int(100, 999)}` : "",
+      iban: random.chance(0.5) ? toIban(random, country) : "",
+      bic: "",
+      date_modified: modified,
+    };
+  });
+
+  const receipts: SandboxReceipt[] = [];
+  let invoiceCounter = 1;
+
+  for (const debtor of debtors) {
+    const count = random.int(2, 8);
+    for (let i = 0; i < count; i++) {
+      const date = addDays(today, -random.int(1, 240));
+      const dueDate = addDays(date, random.pick([7, 14, 14, 30, 30]));
+      const positions = Array.from({ length: random.int(1, 3) }, () => {
+        const [description, unitPrice] = random.pick(SERVICES);
+        return { description, quantity: random.int(1, 6), unitPrice };
+      });
+      const gross = getGrossAmount(positions);
+
+      // Older invoices are more likely to be settled, recent ones to be open
+      const age = (today.getTime() - date.getTime()) / 86400000;
+      let paid = 0;
+      if (random.chance(age > 120 ? 0.7 : 0.35)) {
+        paid = gross;
+      } else if (random.chance(0.15)) {
+        paid = Math.round(gross * random.pick([0.25, 0.5, 0.75]) * 100) / 100;
+      }
+
+      // A few receipts carry only a differently spelled counterparty name and no debtor link
+      const unlinked = random.chance(0.06);
+      const invoiceNumber = `RE-${date.getFullYear()}-${invoiceCounter.toString().padStart(4, "0")}`;
+
+      receipts.push({
+        id_by_customer: (100000 + invoiceCounter).toString(),
+        invoicenumber: invoiceNumber,
+        counterparty: unlinked ? debtor.name.replace(/\s+(GmbH.*|AG|KG)$/, "") : debtor.name,
+        counterparty_postingaccount_number: unlinked ? "" : debtor.postingaccount_number.toString(),
+        date: formatBhbDate(date),
+        due_date: formatBhbDate(dueDate),
+        amount: formatAmount(-gross),
+        amount_paid: formatAmount(paid),
+        amount_paid_fixed: formatAmount(0),
+        currency: "EUR",
+        deleted: random.chance(0.03) ? "1" : "0",
+        date_modified: modified,
+        positions,
+        hasFile: random.chance(0.95),
+      });
+      invoiceCounter++;
+    }
+  }
+
+  // Credit notes come from their own stream so adding them keeps the invoices above unchanged
+  const creditRandom = createRandom(seed + 1);
+  let creditCounter = 1;
+  for (const invoice of receipts.slice()) {
+    if (invoice.deleted === "1" || !creditRandom.chance(0.08)) continue;
+    const date = addDays(new Date(invoice.date), creditRandom.int(3, 30));
+    if (date > today) continue;
+    const share = creditRandom.pick([0.1, 0.25, 0.5, 1]);
+    const positions = invoice.positions.map((position) => ({
+      description: `Gutschrift: ${position.description}`,
+      quantity: position.quantity,
+      unitPrice: Math.round(position.unitPrice * share * 100) / 100,
+    }));
+    const gross = getGrossAmount(positions);
+    const creditNumber = `GS-${date.getFullYear()}-${creditCounter.toString().padStart(4, "0")}`;
+
+    receipts.push({
+      ...invoice,
+      id_by_customer: (200000 + creditCounter).toString(),
+      invoicenumber: creditNumber,
+      date: formatBhbDate(date),
+      due_date: formatBhbDate(date),
+      amount: formatAmount(gross),
+      // Settled credit notes have been paid out or offset in the books
+      amount_paid: formatAmount(creditRandom.chance(0.4) ? gross : 0),
+      positions,
+    });
+    creditCounter++;
+  }
+
+  receipts.sort((a, b) => a.date.localeCompare(b.date));
+  return { debtors, receipts };
+}
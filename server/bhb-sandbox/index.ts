@@ -0,0 +1,305 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import {
+  formatAmount,
+  formatBhbDate,
+  formatBhbDateTime,
+  generateSandboxData,
+  getGrossAmount,
+  type SandboxData,
+  type SandboxReceipt,
+} from "./fixtures";
+import { renderReceiptPdf } from "./pdf";
+
+/**
+ * Local stand-in for the BHB API for demos, trainings and acceptance tests.
+ * Serves the endpoints the portal uses from seeded in-memory data and can
+ * inject latency and errors. Start with `npm run bhb-sandbox` and enter the
+ * printed base URL and credentials in the portal's BHB settings.
+ */
+
+interface SandboxConfig {
+  latencyMinMs: number;
+  latencyMaxMs: number;
+  errorRate: number; // 0..1, share of API requests answered with errorStatus
+  errorStatus: number;
+  errorPaths: string[]; // Path prefixes errors are injected for, empty for all
+}
+
+const sandboxConfigSchema = z.object({
+  latencyMinMs: z.number().int().min(0),
+  latencyMaxMs: z.number().int().min(0),
+  errorRate: z.number().min(0).max(1),
+  errorStatus: z.number().int().min(400).max(599),
+  errorPaths: z.array(z.string()),
+}).partial();
+
+const port = parseInt(process.env.BHB_SANDBOX_PORT || "5100", 10);
+const seed = parseInt(process.env.BHB_SANDBOX_SEED || "1", 10);
+const credentials = {
+  apiKey: process.env.BHB_SANDBOX_API_KEY || "sandbox-key",
+  apiClient: process.env.BHB_SANDBOX_API_CLIENT || "sandbox",
+  apiSecret: process.env.BHB_SANDBOX_API_SECRET || "sandbox",
+};
+
+// "300" for a fixed delay, "100-1500" for a random delay in that range
+function parseLatency(value: string | undefined): [number, number] {
+  const [min, max] = (value || "0").split("-").map((part) => parseInt(part, 10) || 0);
+  return [min, max ?? min];
+}
+
+const [latencyMinMs, latencyMaxMs] = parseLatency(process.env.BHB_SANDBOX_LATENCY_MS);
+let config: SandboxConfig = {
+  latencyMinMs,
+  latencyMaxMs: Math.max(latencyMinMs, latencyMaxMs),
+  errorRate: parseFloat(process.env.BHB_SANDBOX_ERROR_RATE || "0") || 0,
+  errorStatus: parseInt(process.env.BHB_SANDBOX_ERROR_STATUS || "503", 10),
+  errorPaths: (process.env.BHB_SANDBOX_ERROR_PATHS || "").split(",").map((path) => path.trim()).filter(Boolean),
+};
+
+let data: SandboxData = generateSandboxData(seed);
+
+function log(message: string) {
+  console.log(`${new Date().toLocaleTimeString("de-DE")} [bhb-sandbox] ${message}`);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isPaid(receipt: SandboxReceipt): boolean {
+  const paid = parseFloat(receipt.amount_paid) + parseFloat(receipt.amount_paid_fixed);
+  return paid >= Math.abs(parseFloat(receipt.amount)) - 0.005;
+}
+
+// Internal fixture fields are not part of BHB's receipt format
+function toBhbReceipt({ positions, hasFile, ...receipt }: SandboxReceipt) {
+  return receipt;
+}
+
+function getPaging(body: any, maxLimit: number) {
+  const limit = Math.min(Math.max(parseInt(body?.limit, 10) || maxLimit, 1), maxLimit);
+  const offset = Math.max(parseInt(body?.offset, 10) || 0, 0);
+  return { limit, offset };
+}
+
+const app = express();
+app.use(express.json({ limit: "1mb" }));
+
+const api = express.Router();
+
+// Same checks as BHB: Basic auth with client and secret, api_key in the body
+api.use((req: Request, res: Response, next: NextFunction) => {
+  const expected = "Basic " + Buffer.from(`${credentials.apiClient}:${credentials.apiSecret}`).toString("base64");
+  if (req.headers.authorization !== expected || req.body?.api_key !== credentials.apiKey) {
+    return res.status(401).json({ success: false, error_code: 401, message: "Authentication failed" });
+  }
+  next();
+});
+
+api.use(async (req: Request, res: Response, next: NextFunction) => {
+  const delay = config.latencyMinMs + Math.random() * (config.latencyMaxMs - config.latencyMinMs);
+  if (delay > 0) await sleep(delay);
+
+  const affected = !config.errorPaths.length || config.errorPaths.some((path) => req.path.startsWith(path));
+  if (affected && Math.random() < config.errorRate) {
+    log(`Injected HTTP ${config.errorStatus} for ${req.path}`);
+    if (config.errorStatus === 429) {
+      res.setHeader("Retry-After", "2");
+    }
+    return res.status(config.errorStatus).json({
+      success: false,
+      error_code: config.errorStatus,
+      message: "Simulated error (BHB sandbox)",
+    });
+  }
+  next();
+});
+
+api.post("/receipts/get", (req, res) => {
+  const { limit, offset } = getPaging(req.body, 500);
+  // All fixtures are outbound invoices
+  if (req.body?.list_direction && req.body.list_direction !== "outbound") {
+    return res.json({ success: true, rows: 0, data: [] });
+  }
+
+  let receipts = data.receipts;
+  if (req.body?.payment_status === "paid") {
+    receipts = receipts.filter(isPaid);
+  } else if (req.body?.payment_status === "unpaid") {
+    receipts = receipts.filter((receipt) => !isPaid(receipt));
+  }
+  const modifiedFrom = req.body?.date_modified_from;
+  if (typeof modifiedFrom === "string" && modifiedFrom) {
+    receipts = receipts.filter((receipt) => receipt.date_modified >= modifiedFrom);
+  }
+
+  res.json({
+    success: true,
+    rows: receipts.length,
+    data: receipts.slice(offset, offset + limit).map(toBhbReceipt),
+  });
+});
+
+api.post("/receipts/get/:idByCustomer", async (req, res) => {
+  const receipt = data.receipts.find((r) => r.id_by_customer === req.params.idByCustomer);
+  if (!receipt) {
+    return res.status(404).json({ success: false, error_code: 404, message: "Receipt not found" });
+  }
+  if (!req.body?.get_file || !receipt.hasFile) {
+    return res.json({ success: true, ...toBhbReceipt(receipt), file_content: "", filename: "" });
+  }
+
+  try {
+    const debtor = data.debtors.find(
+      (d) => d.postingaccount_number.toString() === receipt.counterparty_postingaccount_number
+    );
+    const pdf = await renderReceiptPdf(receipt, debtor);
+    res.json({
+      success: true,
+      ...toBhbReceipt(receipt),
+      file_content: pdf.toString("base64"),
+      filename: `${receipt.invoicenumber}.pdf`,
+    });
+  } catch (error) {
+    log(`PDF generation failed for ${receipt.id_by_customer}: ${error}`);
+    res.status(500).json({ success: false, error_code: 500, message: "File could not be generated" });
+  }
+});
+
+api.post("/settings/get/debtors", (req, res) => {
+  const { limit, offset } = getPaging(req.body, 1000);
+  res.json({
+    success: true,
+    rows: data.debtors.length,
+    data: data.debtors.slice(offset, offset + limit),
+  });
+});
+
+// Request field of settings/update/debtor -> field in the debtor list
+const DEBTOR_UPDATE_FIELDS = {
+  name: "name",
+  contact_person_name: "contact_person",
+  street: "street",
+  additional_addressline: "additional_addressline",
+  zip: "zip",
+  city: "city",
+  country: "country",
+  sales_tax_id_eu: "sales_tax_id_eu",
+  email: "email",
+  uid_ch: "uid_ch",
+  iban: "iban",
+  bic: "bic",
+} as const;
+
+api.post("/settings/update/debtor", (req, res) => {
+  const body = req.body || {};
+  const errors: string[] = [];
+  if (body.type !== "debitor") errors.push("type must be 'debitor'");
+  if (!body.postingaccount_number) errors.push("postingaccount_number is required");
+  if (!body.name) errors.push("name is required");
+  if (errors.length) {
+    return res.status(400).json({ success: false, errors });
+  }
+
+  const debtor = data.debtors.find((d) => d.postingaccount_number.toString() === String(body.postingaccount_number));
+  if (!debtor) {
+    return res.status(404).json({ success: false, error_code: 404, message: "Debtor not found" });
+  }
+
+  // Like BHB, fields missing from the request keep their value
+  for (const [field, target] of Object.entries(DEBTOR_UPDATE_FIELDS)) {
+    if (typeof body[field] === "string") {
+      debtor[target] = body[field];
+    }
+  }
+  debtor.date_modified = formatBhbDateTime(new Date());
+  log(`Debtor ${debtor.postingaccount_number} updated`);
+  res.json({ success: true, message: "Debtor updated" });
+});
+
+app.use("/api/v1", api);
+
+// Controls for trainers and testers, not part of the BHB API and without auth
+app.get("/sandbox", (_req, res) => {
+  res.json({
+    config,
+    seed,
+    debtors: data.debtors.length,
+    receipts: data.receipts.length,
+    openReceipts: data.receipts.filter((receipt) => !isPaid(receipt) && receipt.deleted !== "1").length,
+  });
+});
+
+app.put("/sandbox/config", (req, res) => {
+  const parsed = sandboxConfigSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.issues.map((issue) => issue.message).join(", ") });
+  }
+  const next = { ...config, ...parsed.data };
+  next.latencyMaxMs = Math.max(next.latencyMinMs, next.latencyMaxMs);
+  config = next;
+  log(`Config changed: ${JSON.stringify(config)}`);
+  res.json(config);
+});
+
+app.post("/sandbox/reset", (_req, res) => {
+  data = generateSandboxData(seed);
+  log("Fixture data reset");
+  res.json({ debtors: data.debtors.length, receipts: data.receipts.length });
+});
+
+// Books a payment, the full open amount unless an amount is given
+app.post("/sandbox/receipts/:idByCustomer/payment", (req, res) => {
+  const receipt = data.receipts.find((r) => r.id_by_customer === req.params.idByCustomer);
+  if (!receipt) {
+    return res.status(404).json({ message: "Beleg nicht gefunden" });
+  }
+  const gross = Math.abs(parseFloat(receipt.amount));
+  const paid = parseFloat(receipt.amount_paid);
+  const amount = typeof req.body?.amount === "number" ? req.body.amount : gross - paid;
+  receipt.amount_paid = formatAmount(Math.min(gross, Math.max(0, paid + amount)));
+  receipt.date_modified = formatBhbDateTime(new Date());
+  log(`Payment of ${amount.toFixed(2)} booked on ${receipt.invoicenumber}`);
+  res.json(toBhbReceipt(receipt));
+});
+
+// Adds a new open invoice dated today, e.g. to demonstrate an incremental sync
+app.post("/sandbox/receipts", (req, res) => {
+  const debtor = data.debtors.find(
+    (d) => d.postingaccount_number === Number(req.body?.postingaccountNumber)
+  ) || data.debtors[0];
+  const today = new Date();
+  const dueDate = new Date(today);
+  dueDate.setDate(dueDate.getDate() + (Number(req.body?.paymentTermDays) || 14));
+  const positions = [{ description: "Leistungen laut Vereinbarung", quantity: 1, unitPrice: Number(req.body?.netAmount) || 500 }];
+  const number = Math.max(...data.receipts.map((r) => parseInt(r.id_by_customer, 10) - 100000), 0) + 1;
+
+  const receipt: SandboxReceipt = {
+    id_by_customer: (100000 + number).toString(),
+    invoicenumber: `RE-${today.getFullYear()}-${number.toString().padStart(4, "0")}`,
+    counterparty: debtor.name,
+    counterparty_postingaccount_number: debtor.postingaccount_number.toString(),
+    date: formatBhbDate(today),
+    due_date: formatBhbDate(dueDate),
+    amount: formatAmount(-getGrossAmount(positions)),
+    amount_paid: formatAmount(0),
+    amount_paid_fixed: formatAmount(0),
+    currency: "EUR",
+    deleted: "0",
+    date_modified: formatBhbDateTime(today),
+    positions,
+    hasFile: true,
+  };
+  data.receipts.push(receipt);
+  log(`Receipt ${receipt.invoicenumber} created for ${debtor.name}`);
+  res.status(201).json(toBhbReceipt(receipt));
+});
+
+app.listen(port, "0.0.0.0", () => {
+  log(`BHB sandbox listening on port ${port} (seed ${seed}, ${data.debtors.length} debtors, ${data.receipts.length} receipts)`);
+  log(`Portal settings: Base URL http://localhost:${port}/api/v1, API key "${credentials.apiKey}", client "${credentials.apiClient}", secret "${credentials.apiSecret}"`);
+  if (config.errorRate > 0 || config.latencyMaxMs > 0) {
+    log(`Injecting ${config.latencyMinMs}-${config.latencyMaxMs}ms latency and HTTP ${config.errorStatus} for ${Math.round(config.errorRate * 100)}% of requests`);
+  }
+});
@@ -0,0 +1,82 @@
+import PDFDocument from "pdfkit";
+import { SANDBOX_VAT_RATE, type SandboxDebtor, type SandboxReceipt } from "./fixtures";
+
+const SANDBOX_COMPANY = ["Sandbox Demo GmbH", "Musterweg 1", "12345 Musterstadt"];
+
+function formatEuro(value: number): string {
+  return value.toLocaleString("de-DE", { style: "currency", currency: "EUR" });
+}
+
+function formatGermanDate(value: string): string {
+  const [year, month, day] = value.split("-");
+  return `${day}.${month}.${year}`;
+}
+
+/**
+ * Renders a simple invoice for a sandbox receipt, so the portal's PDF download
+ * and dunning attachments have a real document to work with.
+ */
+export function renderReceiptPdf(receipt: SandboxReceipt, debtor: SandboxDebtor | undefined): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margins: { top: 50, bottom: 50, left: 60, right: 60 } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.fontSize(9).fillColor("#666666").text(SANDBOX_COMPANY.join(" · "));
+    doc.moveDown(2).fillColor("#000000").fontSize(11);
+    doc.text(debtor?.name || receipt.counterparty);
+    if (debtor) {
+      if (debtor.additional_addressline) doc.text(debtor.additional_addressline);
+      doc.text(debtor.street);
+      doc.text(`${debtor.zip} ${debtor.city}`);
+    }
+
+    const isCreditNote = parseFloat(receipt.amount) > 0;
+    doc.moveDown(3).fontSize(18).text(`${isCreditNote ? "Gutschrift" : "Rechnung"} ${receipt.invoicenumber}`);
+    doc.moveDown(0.5).fontSize(10);
+    doc.text(`${isCreditNote ? "Gutschriftsdatum" : "Rechnungsdatum"}: ${formatGermanDate(receipt.date)}`);
+    if (!isCreditNote) doc.text(`Fällig am: ${formatGermanDate(receipt.due_date)}`);
+    if (receipt.counterparty_postingaccount_number) {
+      doc.text(`Kundennummer: ${receipt.counterparty_postingaccount_number}`);
+    }
+
+    doc.moveDown(2);
+    const left = doc.page.margins.left;
+    const columns = { quantity: left + 290, unitPrice: left + 340, total: left + 410 };
+    const headerY = doc.y;
+    doc.font("Helvetica-Bold");
+    doc.text("Leistung", left, headerY);
+    doc.text("Menge", columns.quantity, headerY);
+    doc.text("Einzelpreis", columns.unitPrice, headerY);
+    doc.text("Gesamt", columns.total, headerY);
+    doc.font("Helvetica").moveDown(0.5);
+
+    let net = 0;
+    for (const position of receipt.positions) {
+      const total = position.quantity * position.unitPrice;
+      net += total;
+      const y = doc.y;
+      doc.text(position.description, left, y, { width: 280 });
+      doc.text(position.quantity.toString(), columns.quantity, y);
+      doc.text(formatEuro(position.unitPrice), columns.unitPrice, y);
+      doc.text(formatEuro(total), columns.total, y);
+      doc.moveDown(0.3);
+    }
+
+    const gross = Math.abs(parseFloat(receipt.amount));
+    doc.moveDown(1);
+    doc.text(`Nettobetrag: ${formatEuro(net)}`, columns.unitPrice - 60);
+    doc.text(`USt. ${SANDBOX_VAT_RATE * 100} %: ${formatEuro(gross - net)}`, columns.unitPrice - 60);
+    doc.font("Helvetica-Bold").text(`${isCreditNote ? "Gutschriftsbetrag" : "Rechnungsbetrag"}: ${formatEuro(gross)}`, columns.unitPrice - 60);
+
+    doc.font("Helvetica").fontSize(9).fillColor("#666666");
+    doc.text(
+      "Testdokument aus der BHB-Sandbox. Keine echte Rechnung.",
+      left,
+      doc.page.height - doc.page.margins.bottom - 20
+    );
+    doc.end();
+  });
+}
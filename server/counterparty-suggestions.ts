@@ -0,0 +1,186 @@
+import type { BhbReceiptsCache, PortalCustomer } from "@shared/schema";
+
+export interface DebtorSuggestion {
+  debtorPostingaccountNumber: number;
+  displayName: string;
+  confidence: number; // 0-1
+  reasons: string[];
+}
+
+export interface CounterpartyIdentifiers {
+  ibans: Set<string>;
+  vatIds: Set<string>;
+}
+
+// Suggestions below this confidence are not shown at all
+export const MIN_SUGGESTION_CONFIDENCE = 0.5;
+// Default for one-click bulk application and for name matches during debtor sync
+export const DEFAULT_AUTO_APPLY_CONFIDENCE = 0.9;
+// An auto-applied suggestion must be this far ahead of the runner-up
+const AUTO_APPLY_MARGIN = 0.1;
+const MAX_SUGGESTIONS = 3;
+
+// Compound forms like "GmbH & Co. KG" are covered by their parts
+const LEGAL_FORMS = [
+  "gmbh", "mbh", "ag", "kg", "kgaa", "ohg", "gbr", "ug", "haftungsbeschraenkt", "ek", "ev", "eg", "se", "partg", "co",
+  "ltd", "limited", "inc", "llc", "bv", "sarl", "sas", "srl", "sa",
+];
+const LEGAL_FORM_PATTERN = new RegExp(`\\b(${LEGAL_FORMS.join("|")})\\b`, "g");
+
+const UMLAUTS: Record<string, string> = { "ä": "ae", "ö": "oe", "ü": "ue", "ß": "ss", "é": "e", "è": "e", "á": "a", "à": "a" };
+
+// Raw receipt fields that may carry the counterparty's bank account or VAT ID
+const IBAN_FIELDS = ["iban", "counterparty_iban", "debtor_iban"];
+const VAT_FIELDS = ["vat_id", "ustid", "sales_tax_id_eu", "counterparty_vat_id", "counterparty_sales_tax_id_eu"];
+
+/**
+ * Lowercases, folds umlauts, drops punctuation and legal forms, so
+ * "Müller GmbH & Co. KG" and "Mueller" compare equal.
+ */
+export function normalizeCompanyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[äöüßéèáà]/g, (char) => UMLAUTS[char])
+    // "e.K." / "e. V." become "ek" / "ev" before punctuation is stripped
+    .replace(/\b([a-z])\.\s?([a-z])\.(?=\s|$)/g, "$1$2")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(LEGAL_FORM_PATTERN, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function normalizeIdentifier(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const normalized = value.replace(/\s+/g, "").toUpperCase();
+  return normalized.length >= 8 ? normalized : null;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const result = new Map<string, number>();
+  const compact = text.replace(/\s+/g, " ");
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.substring(i, i + 2);
+    result.set(gram, (result.get(gram) || 0) + 1);
+  }
+  return result;
+}
+
+// Sørensen-Dice coefficient on character bigrams, tolerant to typos
+function diceCoefficient(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let overlap = 0;
+  gramsA.forEach((count, gram) => {
+    overlap += Math.min(count, gramsB.get(gram) || 0);
+  });
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+}
+
+// Share of tokens with a close counterpart in the other name, ignoring word order
+function tokenSimilarity(a: string, b: string): number {
+  const tokensA = a.split(" ").filter(Boolean);
+  const tokensB = b.split(" ").filter(Boolean);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  let matched = 0;
+  for (const tokenA of tokensA) {
+    const best = Math.max(...tokensB.map((tokenB) => diceCoefficient(tokenA, tokenB)));
+    if (best >= 0.8) matched += best;
+  }
+  return matched / Math.max(tokensA.length, tokensB.length);
+}
+
+export function scoreNameSimilarity(name1: string, name2: string): number {
+  const a = normalizeCompanyName(name1);
+  const b = normalizeCompanyName(name2);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  // Slightly below an exact match so normalized equality always ranks first
+  return Math.min(0.99, 0.6 * tokenSimilarity(a, b) + 0.4 * diceCoefficient(a, b));
+}
+
+/**
+ * Collects IBANs and VAT IDs found in the raw BHB payloads of a counterparty's
+ * receipts, keyed by counterparty name.
+ */
+export function collectCounterpartyIdentifiers(receipts: BhbReceiptsCache[]): Map<string, CounterpartyIdentifiers> {
+  const result = new Map<string, CounterpartyIdentifiers>();
+  for (const receipt of receipts) {
+    const raw = (receipt.rawJson || {}) as Record<string, unknown>;
+    const name = typeof raw.counterparty === "string" ? raw.counterparty : null;
+    if (!name) continue;
+
+    let identifiers = result.get(name);
+    if (!identifiers) {
+      identifiers = { ibans: new Set(), vatIds: new Set() };
+      result.set(name, identifiers);
+    }
+    for (const field of IBAN_FIELDS) {
+      const iban = normalizeIdentifier(raw[field]);
+      if (iban) identifiers.ibans.add(iban);
+    }
+    for (const field of VAT_FIELDS) {
+      const vatId = normalizeIdentifier(raw[field]);
+      if (vatId) identifiers.vatIds.add(vatId);
+    }
+  }
+  return result;
+}
+
+export function suggestDebtors(
+  counterpartyName: string,
+  customers: PortalCustomer[],
+  identifiers?: CounterpartyIdentifiers,
+  limit: number = MAX_SUGGESTIONS
+): DebtorSuggestion[] {
+  const suggestions: DebtorSuggestion[] = [];
+
+  for (const customer of customers) {
+    const reasons: string[] = [];
+    let confidence = scoreNameSimilarity(counterpartyName, customer.displayName);
+    if (confidence === 1) {
+      reasons.push("Name identisch");
+    } else if (confidence >= MIN_SUGGESTION_CONFIDENCE) {
+      reasons.push(`Name ähnlich (${Math.round(confidence * 100)} %)`);
+    }
+
+    // Matching bank account or VAT ID is stronger evidence than any name similarity
+    const iban = normalizeIdentifier(customer.iban);
+    if (iban && identifiers?.ibans.has(iban)) {
+      confidence = Math.max(confidence, 0.98);
+      reasons.push("IBAN stimmt überein");
+    }
+    const vatId = normalizeIdentifier(customer.salesTaxIdEu);
+    if (vatId && identifiers?.vatIds.has(vatId)) {
+      confidence = Math.max(confidence, 0.98);
+      reasons.push("USt-IdNr. stimmt überein");
+    }
+
+    if (confidence >= MIN_SUGGESTION_CONFIDENCE) {
+      suggestions.push({
+        debtorPostingaccountNumber: customer.debtorPostingaccountNumber,
+        displayName: customer.displayName,
+        confidence: Math.round(confidence * 100) / 100,
+        reasons,
+      });
+    }
+  }
+
+  return suggestions.sort((a, b) => b.confidence - a.confidence).slice(0, limit);
+}
+
+/**
+ * The suggestion that may be applied without review: above the threshold and
+ * clearly ahead of the next candidate.
+ */
+export function getAutoApplicableSuggestion(
+  suggestions: DebtorSuggestion[],
+  threshold: number = DEFAULT_AUTO_APPLY_CONFIDENCE
+): DebtorSuggestion | null {
+  const [best, second] = suggestions;
+  if (!best || best.confidence < threshold) return null;
+  if (second && best.confidence - second.confidence < AUTO_APPLY_MARGIN) return null;
+  return best;
+}
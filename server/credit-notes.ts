@@ -0,0 +1,30 @@
+import type { BhbReceiptsCache } from "@shared/schema";
+
+/**
+ * Credit notes are cached like invoices with unsigned amounts. Their open
+ * amount is credit the debtor has not yet used, so it is counted against the
+ * debtor's open invoices instead of adding to them.
+ */
+
+type BalanceReceipt = Pick<BhbReceiptsCache, "receiptType" | "amountOpen" | "paymentStatus">;
+
+export function isCreditNote(receipt: Pick<BhbReceiptsCache, "receiptType">): boolean {
+  return receipt.receiptType === "credit_note";
+}
+
+// Open amount from the debtor's point of view: negative for unused credit
+export function getSignedOpenAmount(receipt: BalanceReceipt): number {
+  if (receipt.paymentStatus === "cancelled") return 0;
+  const amountOpen = parseFloat(receipt.amountOpen?.toString() || "0") || 0;
+  return isCreditNote(receipt) ? -amountOpen : amountOpen;
+}
+
+export function getNetBalance(receipts: BalanceReceipt[]): number {
+  return Math.round(receipts.reduce((sum, receipt) => sum + getSignedOpenAmount(receipt), 0) * 100) / 100;
+}
+
+export function getOpenCredit(receipts: BalanceReceipt[]): number {
+  return -receipts
+    .filter(isCreditNote)
+    .reduce((sum, receipt) => sum + getSignedOpenAmount(receipt), 0);
+}
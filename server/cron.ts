@@ -0,0 +1,200 @@
+/**
+ * Minimal parser for standard 5-field cron expressions
+ * (minute hour day-of-month month day-of-week), evaluated in local server time.
+ * Supports "*", lists, ranges, steps and English month/weekday names.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron semantics: if both day fields are restricted, either may match
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "Minute", min: 0, max: 59 },
+  { name: "Stunde", min: 0, max: 23 },
+  { name: "Tag", min: 1, max: 31 },
+  { name: "Monat", min: 1, max: 12, names: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"] },
+  { name: "Wochentag", min: 0, max: 7, names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] },
+];
+
+// Searching further ahead than this means the expression can never match (e.g. 30 February)
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  // Month names start at 1, weekday names at 0
+  const parsed = nameIndex >= 0 ? nameIndex + spec.min : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(parsed) || parsed < spec.min || parsed > spec.max) {
+    throw new Error(`Ungültiger Wert "${value}" für ${spec.name} (${spec.min}-${spec.max})`);
+  }
+  return parsed;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (isNaN(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new Error(`Ungültige Schrittweite "${part}" für ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Ungültiger Bereich "${range}" für ${spec.name}`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron-Ausdruck muss genau 5 Felder haben (Minute Stunde Tag Monat Wochentag)");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+
+  // Sunday may be written as 0 or 7
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: fields.join(" "),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== "*",
+    daysOfWeekRestricted: fields[4] !== "*",
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.has(date.getMinutes()) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.months.has(date.getMonth() + 1) &&
+    matchesDay(schedule, date)
+  );
+}
+
+/**
+ * First minute strictly after `after` that matches the schedule, or null if the
+ * expression cannot match within the next few years.
+ */
+export function getNextCronRun(schedule: CronSchedule, after: Date = new Date()): Date | null {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that cannot match before stepping minutes
+  while (candidate <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
+
+export function getNextCronRuns(schedule: CronSchedule, count: number, after: Date = new Date()): Date[] {
+  const runs: Date[] = [];
+  let from = after;
+  while (runs.length < count) {
+    const next = getNextCronRun(schedule, from);
+    if (!next) break;
+    runs.push(next);
+    from = next;
+  }
+  return runs;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+// Window may wrap around midnight (e.g. 22:00-06:00); equal bounds mean all day
+export function isWithinTimeWindow(start: string, end: string, now: Date = new Date()): boolean {
+  const current = now.getHours() * 60 + now.getMinutes();
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+
+  if (startMinutes === endMinutes) return true;
+  if (startMinutes < endMinutes) return current >= startMinutes && current < endMinutes;
+  return current >= startMinutes || current < endMinutes;
+}
@@ -0,0 +1,64 @@
+import type { CounterpartyMapping, DebtorMatchStrategy, PortalCustomer } from "@shared/schema";
+
+export interface DebtorMatch {
+  debtorNumber: number; // 0 when no strategy matched
+  strategy: DebtorMatchStrategy | null;
+}
+
+export interface DebtorMatchInput {
+  debtorNumber: number; // Posting account number BHB reports on the receipt, 0 if none
+  counterpartyName: string | null;
+}
+
+export type DebtorResolver = (receipt: DebtorMatchInput) => DebtorMatch;
+
+/**
+ * In-memory equivalent of storage.getCustomerByName (exact match, then partial match),
+ * so a sync does not query the customer table once per receipt.
+ */
+function createCustomerNameResolver(customers: PortalCustomer[]) {
+  const cache = new Map<string, PortalCustomer | undefined>();
+  return (name: string): PortalCustomer | undefined => {
+    if (cache.has(name)) return cache.get(name);
+    const lowerName = name.toLowerCase();
+    const match =
+      customers.find(c => c.displayName === name) ||
+      customers.find(c =>
+        c.displayName.toLowerCase().includes(lowerName) ||
+        lowerName.includes(c.displayName.toLowerCase())
+      );
+    cache.set(name, match);
+    return match;
+  };
+}
+
+/**
+ * Resolves the debtor of a receipt. The posting account number from BHB wins,
+ * then an explicit counterparty mapping, and only then the counterparty name,
+ * which is ambiguous for similar names. The strategy is stored on the receipt
+ * so wrong assignments can be traced back.
+ */
+export function createDebtorResolver(customers: PortalCustomer[], mappings: CounterpartyMapping[]): DebtorResolver {
+  const mappingsByName = new Map(mappings.map(m => [m.counterpartyName, m.debtorPostingaccountNumber]));
+  const resolveByName = createCustomerNameResolver(customers);
+
+  return ({ debtorNumber, counterpartyName }) => {
+    if (debtorNumber > 0) {
+      return { debtorNumber, strategy: "postingaccount" };
+    }
+    if (!counterpartyName) {
+      return { debtorNumber: 0, strategy: null };
+    }
+
+    const mapped = mappingsByName.get(counterpartyName);
+    if (mapped) {
+      return { debtorNumber: mapped, strategy: "mapping" };
+    }
+
+    const customer = resolveByName(counterpartyName);
+    if (customer) {
+      return { debtorNumber: customer.debtorPostingaccountNumber, strategy: "name" };
+    }
+    return { debtorNumber: 0, strategy: null };
+  };
+}
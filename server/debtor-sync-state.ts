@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import {
+  DEBTOR_SYNC_FIELDS,
+  type DebtorSyncConflict,
+  type DebtorSyncField,
+  type DebtorSyncValues,
+  type PortalCustomer,
+} from "@shared/schema";
+import type { BhbDebtorUpdate } from "./bhb-api";
+
+export interface DebtorMergeResult {
+  values: DebtorSyncValues;
+  conflicts: DebtorSyncField[];
+}
+
+type DebtorSyncSource = { [K in DebtorSyncField]?: string | null };
+
+// Empty strings and missing values are treated alike, BHB and the portal form differ there
+export function getDebtorSyncValues(source: DebtorSyncSource): DebtorSyncValues {
+  const values = {} as DebtorSyncValues;
+  for (const field of DEBTOR_SYNC_FIELDS) {
+    const value = source[field]?.trim();
+    values[field] = value ? value : null;
+  }
+  return values;
+}
+
+export function computeLocalDataHash(values: DebtorSyncValues): string {
+  const ordered = DEBTOR_SYNC_FIELDS.map((field) => values[field] ?? "");
+  return crypto.createHash("md5").update(JSON.stringify(ordered)).digest("hex");
+}
+
+// State to store after portal and BHB agree on the given values
+export function getSyncedState(values: DebtorSyncValues) {
+  return {
+    syncedData: values,
+    localDataHash: computeLocalDataHash(values),
+    syncConflict: null,
+  };
+}
+
+/**
+ * Whether the portal fields were edited since the last pull or push. Customers
+ * synced before change tracking existed have no hash and count as unchanged.
+ */
+export function hasLocalChanges(customer: PortalCustomer): boolean {
+  if (!customer.localDataHash) return false;
+  return computeLocalDataHash(getDebtorSyncValues(customer)) !== customer.localDataHash;
+}
+
+export function getLocallyChangedFields(customer: PortalCustomer): DebtorSyncField[] {
+  if (!customer.syncedData || !hasLocalChanges(customer)) return [];
+  const current = getDebtorSyncValues(customer);
+  const synced = getDebtorSyncValues(customer.syncedData);
+  return DEBTOR_SYNC_FIELDS.filter((field) => current[field] !== synced[field]);
+}
+
+/**
+ * Three-way merge of portal and BHB values against the last synced state. Fields
+ * changed on one side only take that side's value; fields changed on both sides
+ * to different values are conflicts and keep the portal value. Without a synced
+ * state every difference is a conflict.
+ */
+export function mergeDebtorChanges(
+  portal: DebtorSyncValues,
+  synced: DebtorSyncValues | null,
+  bhb: DebtorSyncValues
+): DebtorMergeResult {
+  const values = { ...portal };
+  const conflicts: DebtorSyncField[] = [];
+
+  for (const field of DEBTOR_SYNC_FIELDS) {
+    if (portal[field] === bhb[field]) continue;
+    if (synced && portal[field] === synced[field]) {
+      values[field] = bhb[field];
+    } else if (!synced || bhb[field] !== synced[field]) {
+      conflicts.push(field);
+    }
+  }
+
+  return { values, conflicts };
+}
+
+export type DebtorConflictResolution = "portal" | "bhb";
+
+/**
+ * Customer update that settles a conflict: each conflicting field takes the chosen
+ * side, BHB-only changes are taken over as in a pull. Fields kept from the portal
+ * stay locally changed and go out with the next push.
+ */
+export function resolveDebtorConflict(
+  customer: PortalCustomer,
+  conflict: DebtorSyncConflict,
+  resolutions: Partial<Record<DebtorSyncField, DebtorConflictResolution>>
+) {
+  const { values } = mergeDebtorChanges(getDebtorSyncValues(customer), customer.syncedData, conflict.bhbValues);
+  for (const field of conflict.fields) {
+    if (resolutions[field] === "bhb") {
+      values[field] = conflict.bhbValues[field];
+    }
+  }
+
+  return {
+    ...values,
+    displayName: values.displayName || customer.displayName,
+    ...getSyncedState(conflict.bhbValues),
+    bhbDataHash: conflict.bhbDataHash,
+  };
+}
+
+export function toDebtorUpdate(customer: PortalCustomer): BhbDebtorUpdate {
+  return {
+    postingaccountNumber: customer.debtorPostingaccountNumber,
+    name: customer.displayName,
+    contactPerson: customer.contactPersonName,
+    street: customer.street,
+    additionalAddressline: customer.additionalAddressline,
+    zip: customer.zip,
+    city: customer.city,
+    country: customer.country,
+    salesTaxIdEu: customer.salesTaxIdEu,
+    email: customer.emailContact,
+    uidCh: customer.uidCh,
+    iban: customer.iban,
+    bic: customer.bic,
+  };
+}
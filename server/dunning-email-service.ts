@@ -1,16 +1,39 @@
 import Handlebars from "handlebars";
-import type { PortalCustomer, BhbReceiptsCache, DunningRules, DunningEmailTemplate } from "@shared/schema";
+import type { PortalCustomer, BhbReceiptsCache, DunningRules, DunningEmailTemplate, DunningEvent, ReceiptPayment } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getGraphConfigFromStorage, sendEmailViaGraph, type SendEmailParams } from "./msgraph-email-service";
+import {
+  getBaseRateHistoryFromStorage,
+  getInterestPolicy,
+  type BaseRateHistory,
+  type InterestPeriod,
+  type PaymentAllocation,
+} from "./interest";
+import { calculateReceiptInterest, EMPTY_RECEIPT_HISTORY, getClaimedCosts, getReceiptHistory, type ReceiptHistory } from "./receipt-payments";
+import { getNetBalance, isCreditNote } from "./credit-notes";
+
+export const DUNNING_STAGES = ["reminder", "dunning1", "dunning2", "dunning3"] as const;
+
+export type DunningStage = typeof DUNNING_STAGES[number];
 
 export interface OverdueInvoice {
+  receiptId: string;
   invoiceNumber: string;
   receiptDate: Date;
   dueDate: Date;
   amount: number;
-  amountOpen: number;
+  amountOpen: number; // Principal still open after allocating payments per §367 BGB
+  payments: ReceiptPayment[];
+  paymentAllocations: PaymentAllocation[];
   daysOverdue: number;
   interestRate: number;
-  interestAmount: number;
-  feeAmount: number;
+  interestAmount: number; // Accrued interest not yet covered by payments
+  interestPaid: number;
+  interestPeriods: InterestPeriod[];
+  costsPaid: number; // Part of payments that went to fees and lump sums of earlier letters
+  costsOpen: number; // Fees and lump sums of earlier letters not yet paid, part of feeAmount
+  feeAmount: number; // This stage's fee plus costsOpen
+  lumpSumAmount: number; // Verzugspauschale, not part of totalWithInterest
   totalWithInterest: number;
 }
 
@@ -30,7 +53,12 @@ export interface DunningEmailContext {
     offenerBetrag: number;
     zinsen: number;
     gebuehren: number;
+    pauschale: number;
     gesamt: number;
+    zahlungen: number;
+    zahlungenAufKosten: number;
+    zahlungenAufZinsen: number;
+    zahlungenAufHauptforderung: number;
   };
   bank: {
     iban: string;
@@ -94,26 +122,109 @@ export function getStageName(stage: string): string {
   return stageNames[stage] || stage;
 }
 
-export function calculateInterest(
-  principal: number,
+// Mahnsperre set on the invoice; it lapses on its own once holdUntil is reached
+export function isOnHold(receipt: Pick<BhbReceiptsCache, "onHold" | "holdUntil">, asOf: Date = new Date()): boolean {
+  return receipt.onHold && (!receipt.holdUntil || new Date(receipt.holdUntil) > asOf);
+}
+
+export function determineDunningLevel(daysOverdue: number, stages: any): string {
+  if (!stages || typeof stages !== "object") return "none";
+  if (daysOverdue <= 0) return "none";
+  
+  if (stages.dunning3?.enabled && typeof stages.dunning3.daysAfterDue === "number" && daysOverdue >= stages.dunning3.daysAfterDue) {
+    return "dunning3";
+  }
+  if (stages.dunning2?.enabled && typeof stages.dunning2.daysAfterDue === "number" && daysOverdue >= stages.dunning2.daysAfterDue) {
+    return "dunning2";
+  }
+  if (stages.dunning1?.enabled && typeof stages.dunning1.daysAfterDue === "number" && daysOverdue >= stages.dunning1.daysAfterDue) {
+    return "dunning1";
+  }
+  if (stages.reminder?.enabled && typeof stages.reminder.daysAfterDue === "number" && daysOverdue >= stages.reminder.daysAfterDue) {
+    return "reminder";
+  }
+  
+  return "none";
+}
+
+// Position of a stage in the escalation order, -1 for "none" or unknown stages
+export function getStageIndex(stage: string | null | undefined): number {
+  return DUNNING_STAGES.indexOf(stage as DunningStage);
+}
+
+// Next enabled stage after the given one, or null if the customer is fully escalated
+export function getNextDunningStage(currentStage: string | null | undefined, stages: any): DunningStage | null {
+  if (!stages || typeof stages !== "object") return null;
+  
+  for (const stage of DUNNING_STAGES.slice(getStageIndex(currentStage) + 1)) {
+    if (stages[stage]?.enabled) {
+      return stage;
+    }
+  }
+  return null;
+}
+
+/**
+ * Stage an invoice reaches when it goes out in a letter of the given stage: the
+ * letter's stage, capped at the stage the invoice is due for. Null if the invoice
+ * already received that stage or is not due yet. Without dunning rules there is no
+ * schedule to check, so the letter's stage applies as is.
+ */
+export function getEscalationStage(
+  sentLevel: string | null | undefined,
   daysOverdue: number,
-  annualRate: number
-): number {
-  if (daysOverdue <= 0 || annualRate <= 0) return 0;
-  return (principal * annualRate * daysOverdue) / (100 * 365);
+  dunningRules: DunningRules | null,
+  letterStage: string
+): DunningStage | null {
+  const dueLevel = dunningRules
+    ? determineDunningLevel(daysOverdue - (dunningRules.graceDays || 0), dunningRules.stages)
+    : letterStage;
+  const stage = getStageIndex(dueLevel) < getStageIndex(letterStage) ? dueLevel : letterStage;
+  return getStageIndex(stage) > getStageIndex(sentLevel) ? (stage as DunningStage) : null;
+}
+
+// Overdue invoices that escalate with a letter of the given stage, so none receives a stage twice
+export function getDueInvoices(
+  overdueInvoices: OverdueInvoice[],
+  receipts: Pick<BhbReceiptsCache, "id" | "dunningLevel">[],
+  dunningRules: DunningRules | null,
+  letterStage: string
+): OverdueInvoice[] {
+  const sentLevelByReceipt = new Map(receipts.map((r) => [r.id, r.dunningLevel]));
+  return overdueInvoices.filter((invoice) =>
+    getEscalationStage(sentLevelByReceipt.get(invoice.receiptId), invoice.daysOverdue, dunningRules, letterStage) !== null
+  );
+}
+
+// Date on which a receipt becomes due for the given stage, taking grace days into account
+export function getStageDueDate(dueDate: Date, stage: string | null, dunningRules: DunningRules | null): Date | null {
+  if (!stage || !dunningRules?.stages) return null;
+  const stageConfig = (dunningRules.stages as Record<string, { daysAfterDue: number } | undefined>)[stage];
+  if (!stageConfig) return null;
+  
+  const stageDueDate = new Date(dueDate);
+  stageDueDate.setDate(stageDueDate.getDate() + (dunningRules.graceDays || 0) + stageConfig.daysAfterDue);
+  return stageDueDate;
 }
 
-export function calculateBgbInterestRate(
-  customerType: string | null,
-  ezbBaseRate: number | null | undefined
+/**
+ * Flat late-payment charge per BGB §288(5): only for business debtors, charged once
+ * per invoice regardless of stage. Reminders stay free of charges.
+ */
+export function getLumpSumAmount(
+  customer: PortalCustomer,
+  dunningRules: DunningRules | null,
+  stage: string
 ): number {
-  const baseRate = ezbBaseRate ?? 2.82;
-  // Default to business rate (base + 9%) if customerType not set
-  // Per BGB §288: business = base + 9%, consumer = base + 5%
-  if (!customerType || customerType === "business") {
-    return baseRate + 9;
+  if (!dunningRules?.lumpSumEnabled || customer.customerType !== "business" || stage === "reminder") {
+    return 0;
   }
-  return baseRate + 5;
+  return parseFloat(dunningRules.lumpSumAmount?.toString() || "0") || 0;
+}
+
+// Whether an earlier letter already charged the lump sum for this receipt
+function hasLumpSumCharged(events: DunningEvent[] | undefined): boolean {
+  return (events || []).some((event) => event.status === "sent" && (parseFloat(event.lumpSumAmount || "0") || 0) > 0);
 }
 
 export function calculateOverdueInvoices(
@@ -121,26 +232,12 @@ export function calculateOverdueInvoices(
   customer: PortalCustomer,
   dunningRules: DunningRules | null,
   stage: string,
-  ezbBaseRate: number = 2.82
+  baseRates: BaseRateHistory,
+  history: ReceiptHistory = EMPTY_RECEIPT_HISTORY
 ): OverdueInvoice[] {
   const today = new Date();
   const paymentTermDays = customer.paymentTermDays || 14;
-  
-  // Determine interest rate: 
-  // - If dunning rules exist and useLegalRate is true, use legal BGB rate
-  // - If dunning rules exist and useLegalRate is false, use custom interestRatePercent
-  // - If no dunning rules exist, default to legal BGB rate
-  let interestRate = 0;
-  if (dunningRules) {
-    if (dunningRules.useLegalRate) {
-      interestRate = calculateBgbInterestRate(customer.customerType || null, ezbBaseRate);
-    } else if (dunningRules.interestRatePercent) {
-      interestRate = parseFloat(dunningRules.interestRatePercent.toString());
-    }
-  } else {
-    // No dunning rules configured - default to legal rate
-    interestRate = calculateBgbInterestRate(customer.customerType || null, ezbBaseRate);
-  }
+  const interestPolicy = getInterestPolicy(customer, dunningRules);
   
   const stageFees: Record<string, number> = {
     reminder: 0,
@@ -150,9 +247,11 @@ export function calculateOverdueInvoices(
   };
   
   const feePerInvoice = stageFees[stage] || 0;
+  const lumpSumPerInvoice = getLumpSumAmount(customer, dunningRules, stage);
   
   return receipts
     .filter(r => {
+      if (r.paymentStatus === "cancelled" || isCreditNote(r) || isOnHold(r, today)) return false;
       const amountOpen = parseFloat(r.amountOpen as string) || 0;
       return amountOpen > 0;
     })
@@ -165,41 +264,79 @@ export function calculateOverdueInvoices(
         dueDate.setDate(dueDate.getDate() + paymentTermDays);
       }
       
-      const daysOverdue = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24)));
-      const amountOpen = parseFloat(r.amountOpen as string) || 0;
-      const interestAmount = calculateInterest(amountOpen, daysOverdue, interestRate);
+      const interest = calculateReceiptInterest(r, history, dueDate, today, interestPolicy, baseRates);
+      const amountOpen = interest.principalOpen;
+      const events = history.dunningEvents.get(r.id);
+      const lumpSumAmount = hasLumpSumCharged(events) ? 0 : lumpSumPerInvoice;
+      // Payments on costs only settle what earlier letters charged; this stage's costs come on top
+      const costsOpen = Math.max(0, Math.round((getClaimedCosts(events)(today) - interest.costsPaid) * 100) / 100);
+      const feeAmount = costsOpen + feePerInvoice;
       
       return {
+        receiptId: r.id,
         invoiceNumber: r.invoiceNumber || r.idByCustomer,
         receiptDate,
         dueDate,
         amount: parseFloat(r.amountTotal as string) || 0,
         amountOpen,
-        daysOverdue,
-        interestRate,
-        interestAmount,
-        feeAmount: feePerInvoice,
-        totalWithInterest: amountOpen + interestAmount + feePerInvoice,
+        payments: history.payments.get(r.id) || [],
+        paymentAllocations: interest.allocations,
+        daysOverdue: interest.days,
+        interestRate: interest.currentRate,
+        interestAmount: interest.interestOpen,
+        interestPaid: interest.interestPaid,
+        interestPeriods: interest.periods,
+        costsPaid: interest.costsPaid,
+        costsOpen,
+        feeAmount,
+        lumpSumAmount,
+        totalWithInterest: amountOpen + interest.interestOpen + feeAmount,
       };
     })
     .filter(inv => inv.daysOverdue > 0)
     .sort((a, b) => b.daysOverdue - a.daysOverdue);
 }
 
+export interface CompanySettings {
+  name?: string;
+  strasse?: string;
+  plz?: string;
+  ort?: string;
+  telefon?: string;
+  email?: string;
+  iban?: string;
+  bic?: string;
+}
+
+export async function getCompanySettingsFromStorage(storage: IStorage): Promise<CompanySettings> {
+  const [name, strasse, plz, ort, telefon, email, iban, bic] = await Promise.all([
+    storage.getSetting("COMPANY_NAME"),
+    storage.getSetting("COMPANY_STREET"),
+    storage.getSetting("COMPANY_ZIP"),
+    storage.getSetting("COMPANY_CITY"),
+    storage.getSetting("COMPANY_PHONE"),
+    storage.getSetting("COMPANY_EMAIL"),
+    storage.getSetting("BANK_IBAN"),
+    storage.getSetting("BANK_BIC"),
+  ]);
+  
+  return {
+    name: name || "",
+    strasse: strasse || "",
+    plz: plz || "",
+    ort: ort || "",
+    telefon: telefon || "",
+    email: email || "",
+    iban: iban || "",
+    bic: bic || "",
+  };
+}
+
 export function buildEmailContext(
   customer: PortalCustomer,
   overdueInvoices: OverdueInvoice[],
   stage: string,
-  companySettings: {
-    name?: string;
-    strasse?: string;
-    plz?: string;
-    ort?: string;
-    telefon?: string;
-    email?: string;
-    iban?: string;
-    bic?: string;
-  }
+  companySettings: CompanySettings
 ): DunningEmailContext {
   const today = new Date();
   const deadline = new Date(today);
@@ -208,6 +345,8 @@ export function buildEmailContext(
   const totalOffenerBetrag = overdueInvoices.reduce((sum, inv) => sum + inv.amountOpen, 0);
   const totalZinsen = overdueInvoices.reduce((sum, inv) => sum + inv.interestAmount, 0);
   const totalGebuehren = overdueInvoices.reduce((sum, inv) => sum + inv.feeAmount, 0);
+  const totalPauschale = overdueInvoices.reduce((sum, inv) => sum + inv.lumpSumAmount, 0);
+  const allocations = overdueInvoices.flatMap((inv) => inv.paymentAllocations);
   
   return {
     kunde: {
@@ -225,7 +364,12 @@ export function buildEmailContext(
       offenerBetrag: totalOffenerBetrag,
       zinsen: totalZinsen,
       gebuehren: totalGebuehren,
-      gesamt: totalOffenerBetrag + totalZinsen + totalGebuehren,
+      pauschale: totalPauschale,
+      gesamt: totalOffenerBetrag + totalZinsen + totalGebuehren + totalPauschale,
+      zahlungen: allocations.reduce((sum, allocation) => sum + allocation.amount, 0),
+      zahlungenAufKosten: allocations.reduce((sum, allocation) => sum + allocation.toCosts, 0),
+      zahlungenAufZinsen: allocations.reduce((sum, allocation) => sum + allocation.toInterest, 0),
+      zahlungenAufHauptforderung: allocations.reduce((sum, allocation) => sum + allocation.toPrincipal, 0),
     },
     bank: {
       iban: companySettings.iban || "",
@@ -265,7 +409,168 @@ export function renderEmailTemplate(
   };
 }
 
-export const defaultTemplates: Omit<DunningEmailTemplate, "id" | "createdAt" | "updatedAt">[] = [
+export async function isEmailConfigured(storage: IStorage): Promise<boolean> {
+  const graphConfig = await getGraphConfigFromStorage(storage);
+  if (graphConfig) return true;
+  
+  const smtpHost = await storage.getSetting("SMTP_HOST");
+  const smtpPort = await storage.getSetting("SMTP_PORT");
+  return !!(smtpHost && smtpPort);
+}
+
+// Send a rendered dunning email using Microsoft Graph (preferred) or SMTP (fallback)
+export async function sendDunningEmail(storage: IStorage, params: SendEmailParams): Promise<void> {
+  const graphConfig = await getGraphConfigFromStorage(storage);
+  if (graphConfig) {
+    await sendEmailViaGraph(graphConfig, params);
+    return;
+  }
+  
+  const smtpHost = await storage.getSetting("SMTP_HOST");
+  const smtpPort = await storage.getSetting("SMTP_PORT");
+  const smtpUser = await storage.getSetting("SMTP_USER");
+  const smtpPass = await storage.getSetting("SMTP_PASSWORD");
+  const smtpFrom = await storage.getSetting("SMTP_FROM");
+  
+  if (!smtpHost || !smtpPort) {
+    throw new Error("E-Mail nicht konfiguriert. Bitte Microsoft Graph oder SMTP in den Einstellungen konfigurieren.");
+  }
+  
+  const nodemailer = await import("nodemailer");
+  const portNum = parseInt(smtpPort) || 587;
+  const transportConfig: any = {
+    host: smtpHost,
+    port: portNum,
+    secure: portNum === 465,
+  };
+  
+  if (smtpUser && smtpPass) {
+    transportConfig.auth = {
+      user: smtpUser,
+      pass: smtpPass,
+    };
+  }
+  
+  const transporter = nodemailer.createTransport(transportConfig);
+  
+  const fromAddress = smtpFrom || smtpUser || "noreply@example.com";
+  await transporter.sendMail({
+    from: fromAddress,
+    to: params.to,
+    subject: params.subject,
+    html: params.htmlBody,
+    text: params.textBody,
+  });
+}
+
+/**
+ * Renders and sends one dunning letter for the overdue invoices of a customer that
+ * are due for the template's stage and records the outcome as a dunning event.
+ * receiptIds limits the letter to those invoices, e.g. the ones of an approved
+ * proposal. Returns null if no invoice is due. Failed deliveries are recorded with
+ * status "failed" and rethrown.
+ */
+export async function sendDunningToCustomer(
+  storage: IStorage,
+  customer: PortalCustomer,
+  template: DunningEmailTemplate,
+  recipientEmail: string,
+  mode: "manual" | "auto",
+  receiptIds?: string[]
+): Promise<{ event: DunningEvent; overdueInvoices: OverdueInvoice[]; context: DunningEmailContext } | null> {
+  const receipts = await storage.getReceipts({ debtorNumber: customer.debtorPostingaccountNumber });
+  // Open credit notes covering everything that is owed leave nothing to dun
+  if (getNetBalance(receipts) <= 0) {
+    return null;
+  }
+  const dunningRulesData = await storage.getDunningRulesForCustomer(customer.id);
+  const baseRates = await getBaseRateHistoryFromStorage(storage);
+  const history = await getReceiptHistory(storage, receipts.map((r) => r.id));
+  const overdueInvoices = getDueInvoices(
+    calculateOverdueInvoices(receipts, customer, dunningRulesData || null, template.stage, baseRates, history),
+    receipts,
+    dunningRulesData || null,
+    template.stage
+  ).filter(inv => !receiptIds || receiptIds.includes(inv.receiptId));
+  
+  if (overdueInvoices.length === 0) {
+    return null;
+  }
+  
+  const companySettings = await getCompanySettingsFromStorage(storage);
+  const context = buildEmailContext(customer, overdueInvoices, template.stage, companySettings);
+  const rendered = renderEmailTemplate(template, context);
+  
+  const eventData = {
+    customerId: customer.id,
+    templateId: template.id,
+    stage: template.stage,
+    recipientEmail,
+    subject: rendered.subject,
+    interestAmount: String(context.summe.zinsen),
+    feeAmount: String(context.summe.gebuehren),
+    lumpSumAmount: String(context.summe.pauschale),
+    totalAmount: String(context.summe.gesamt),
+    invoiceCount: overdueInvoices.length,
+    receiptIds: overdueInvoices.map(inv => inv.receiptId),
+    mode,
+  };
+  
+  try {
+    await sendDunningEmail(storage, {
+      to: recipientEmail,
+      subject: rendered.subject,
+      htmlBody: rendered.html,
+      textBody: rendered.text || undefined,
+    });
+  } catch (error) {
+    await storage.createDunningEventForCustomer({
+      ...eventData,
+      status: "failed",
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+  
+  const sentAt = new Date();
+  const event = await storage.createDunningEventForCustomer({ ...eventData, sentAt, status: "sent" });
+  
+  // Persist the actual dunning state per receipt, linked to the letter event
+  for (const invoice of overdueInvoices) {
+    const receipt = receipts.find(r => r.id === invoice.receiptId);
+    const dunningLevel = getEscalationStage(receipt?.dunningLevel, invoice.daysOverdue, dunningRulesData || null, template.stage)!;
+    const nextDunningStage = getNextDunningStage(dunningLevel, dunningRulesData?.stages);
+    
+    await storage.createDunningEvent({
+      receiptId: invoice.receiptId,
+      customerId: customer.id,
+      parentEventId: event.id,
+      templateId: template.id,
+      stage: dunningLevel,
+      recipientEmail,
+      subject: rendered.subject,
+      interestAmount: String(invoice.interestAmount),
+      // Only the costs this letter adds; earlier ones are on record with their own letters
+      feeAmount: String(invoice.feeAmount - invoice.costsOpen),
+      lumpSumAmount: String(invoice.lumpSumAmount),
+      totalAmount: String(invoice.totalWithInterest + invoice.lumpSumAmount),
+      invoiceCount: 1,
+      mode,
+      sentAt,
+      status: "sent",
+    });
+    await storage.updateReceiptDunningState(invoice.receiptId, {
+      dunningLevel,
+      lastDunningSentAt: sentAt,
+      nextDunningStage,
+      nextDunningDueAt: getStageDueDate(invoice.dueDate, nextDunningStage, dunningRulesData || null),
+    });
+  }
+  
+  return { event, overdueInvoices, context };
+}
+
+export const defaultTemplates: Omit<DunningEmailTemplate, "id" | "mandantId" | "createdAt" | "updatedAt">[] = [
   {
     name: "Standard Zahlungserinnerung",
     stage: "reminder",
@@ -461,6 +766,15 @@ Mit freundlichen Grüßen
           <td>{{formatCurrency this.totalWithInterest}}</td>
         </tr>
         {{/each}}
+        {{#if (gt summe.pauschale 0)}}
+        <tr>
+          <td colspan="3">Verzugspauschale (§ 288 Abs. 5 BGB)</td>
+          <td></td>
+          {{#if (gt summe.zinsen 0)}}<td></td>{{/if}}
+          {{#if (gt summe.gebuehren 0)}}<td></td>{{/if}}
+          <td>{{formatCurrency summe.pauschale}}</td>
+        </tr>
+        {{/if}}
         <tr class="total-row">
           <td colspan="3">Gesamtsumme</td>
           <td>{{formatCurrency summe.offenerBetrag}}</td>
@@ -471,6 +785,10 @@ Mit freundlichen Grüßen
       </tbody>
     </table>
     
+    {{#if (gt summe.zahlungen 0)}}
+    <p>Ihre Teilzahlungen von {{formatCurrency summe.zahlungen}} haben wir gemäß § 367 BGB zunächst auf die Kosten ({{formatCurrency summe.zahlungenAufKosten}}), dann auf die Zinsen ({{formatCurrency summe.zahlungenAufZinsen}}) und zuletzt auf die Hauptforderung ({{formatCurrency summe.zahlungenAufHauptforderung}}) angerechnet.</p>
+    {{/if}}
+    
     <p>Wir fordern Sie hiermit auf, den Gesamtbetrag von <strong>{{formatCurrency summe.gesamt}}</strong> unverzüglich, spätestens bis zum <strong>{{mahnung.frist}}</strong>, auf folgendes Konto zu überweisen:</p>
     
     <p>
@@ -503,8 +821,18 @@ trotz unserer Zahlungserinnerung konnten wir leider noch keinen Zahlungseingang
 {{#each rechnungen}}
 - Rechnung {{this.invoiceNumber}}, fällig am {{formatDate this.dueDate}}: {{formatCurrency this.totalWithInterest}} ({{this.daysOverdue}} Tage überfällig)
 {{/each}}
+{{#if (gt summe.pauschale 0)}}
+Verzugspauschale (§ 288 Abs. 5 BGB): {{formatCurrency summe.pauschale}}
+{{/if}}
 
 Gesamtsumme inkl. Zinsen und Gebühren: {{formatCurrency summe.gesamt}}
+{{#if (gt summe.zahlungen 0)}}
+
+Ihre Teilzahlungen von {{formatCurrency summe.zahlungen}} haben wir gemäß § 367 BGB angerechnet:
+- auf Kosten: {{formatCurrency summe.zahlungenAufKosten}}
+- auf Zinsen: {{formatCurrency summe.zahlungenAufZinsen}}
+- auf die Hauptforderung: {{formatCurrency summe.zahlungenAufHauptforderung}}
+{{/if}}
 
 Bitte überweisen Sie bis zum {{mahnung.frist}} auf:
 IBAN: {{bank.iban}}
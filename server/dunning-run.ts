@@ -0,0 +1,383 @@
+import { storage } from "./storage";
+import { log } from "./index";
+import type { PortalCustomer, DunningEmailTemplate } from "@shared/schema";
+import {
+  calculateOverdueInvoices,
+  buildEmailContext,
+  determineDunningLevel,
+  getDueInvoices,
+  getNextDunningStage,
+  getStageIndex,
+  getCompanySettingsFromStorage,
+  isEmailConfigured,
+  sendDunningToCustomer,
+  type DunningStage,
+  type DunningEmailContext,
+  type OverdueInvoice,
+} from "./dunning-email-service";
+import { getBaseRateHistoryFromStorage } from "./interest";
+import { getReceiptHistory } from "./receipt-payments";
+import { getNetBalance } from "./credit-notes";
+import { isWithinTimeWindow } from "./cron";
+
+export interface DunningRunConfig {
+  enabled: boolean;
+  requireApproval: boolean; // Scheduled runs only create proposals
+  windowStart: string; // HH:MM, local server time
+  windowEnd: string;
+  maxEmailsPerRun: number;
+}
+
+export interface DunningRunResult {
+  startedAt: string;
+  finishedAt?: string;
+  mode: "manual" | "auto";
+  skippedReason?: string;
+  customersEvaluated: number;
+  emailsSent: number;
+  emailsFailed: number;
+  proposalsCreated: number;
+  capReached: boolean;
+  sent: { customerId: string; displayName: string; stage: string; invoiceCount: number }[];
+  skipped: { customerId: string; displayName: string; reason: string }[];
+  errors: string[];
+}
+
+// A customer that is due for its next dunning stage
+interface DunningCandidate {
+  customer: PortalCustomer;
+  recipientEmail: string;
+  stage: DunningStage;
+  template: DunningEmailTemplate;
+  overdueInvoices: OverdueInvoice[];
+  context: DunningEmailContext;
+}
+
+const DEFAULT_CONFIG: DunningRunConfig = {
+  enabled: false,
+  requireApproval: false,
+  windowStart: "08:00",
+  windowEnd: "18:00",
+  maxEmailsPerRun: 50,
+};
+
+export async function getDunningRunConfig(): Promise<DunningRunConfig> {
+  const [enabled, requireApproval, windowStart, windowEnd, maxEmails] = await Promise.all([
+    storage.getSetting("DUNNING_RUN_ENABLED"),
+    storage.getSetting("DUNNING_RUN_REQUIRE_APPROVAL"),
+    storage.getSetting("DUNNING_RUN_WINDOW_START"),
+    storage.getSetting("DUNNING_RUN_WINDOW_END"),
+    storage.getSetting("DUNNING_RUN_MAX_EMAILS"),
+  ]);
+
+  return {
+    enabled: enabled === "true",
+    requireApproval: requireApproval === "true",
+    windowStart: windowStart || DEFAULT_CONFIG.windowStart,
+    windowEnd: windowEnd || DEFAULT_CONFIG.windowEnd,
+    maxEmailsPerRun: maxEmails ? parseInt(maxEmails, 10) : DEFAULT_CONFIG.maxEmailsPerRun,
+  };
+}
+
+// Window may wrap around midnight (e.g. 22:00-06:00)
+export function isWithinDunningWindow(config: DunningRunConfig, now: Date = new Date()): boolean {
+  return isWithinTimeWindow(config.windowStart, config.windowEnd, now);
+}
+
+function createResult(mode: "manual" | "auto"): DunningRunResult {
+  return {
+    startedAt: new Date().toISOString(),
+    mode,
+    customersEvaluated: 0,
+    emailsSent: 0,
+    emailsFailed: 0,
+    proposalsCreated: 0,
+    capReached: false,
+    sent: [],
+    skipped: [],
+    errors: [],
+  };
+}
+
+/**
+ * Determines which customers are due for their next dunning stage.
+ * Each invoice escalates one stage at a time based on the level actually sent
+ * (bhbReceiptsCache.dunningLevel), so the same stage never goes out twice for
+ * the same set of invoices. Skipped customers are reported on the result.
+ */
+async function planDunningRun(result: DunningRunResult): Promise<DunningCandidate[]> {
+  const baseRates = await getBaseRateHistoryFromStorage(storage);
+  const companySettings = await getCompanySettingsFromStorage(storage);
+  const allRules = await storage.getDunningRules();
+  const candidates: DunningCandidate[] = [];
+
+  for (const rules of allRules) {
+    const customer = await storage.getCustomer(rules.customerId);
+    if (!customer) continue;
+
+    result.customersEvaluated++;
+    const skip = (reason: string) => {
+      result.skipped.push({ customerId: customer.id, displayName: customer.displayName, reason });
+    };
+
+    if (!rules.autoDunningEnabled) {
+      skip("Automatischer Mahnlauf für Kunde deaktiviert");
+      continue;
+    }
+    if (!customer.isActive) {
+      skip("Kunde inaktiv");
+      continue;
+    }
+
+    try {
+      const receipts = await storage.getReceipts({ debtorNumber: customer.debtorPostingaccountNumber });
+      const history = await getReceiptHistory(storage, receipts.map((r) => r.id));
+      const overdue = calculateOverdueInvoices(receipts, customer, rules, "reminder", baseRates, history);
+      if (overdue.length === 0) continue;
+
+      // Highest stage already sent per receipt, as persisted when letters go out
+      const sentLevelByReceipt = new Map(receipts.map((r) => [r.id, r.dunningLevel]));
+
+      // The letter goes out at the highest stage any single invoice is due for
+      let stageToSend: DunningStage | null = null;
+      for (const invoice of overdue) {
+        const dueLevel = determineDunningLevel(invoice.daysOverdue - rules.graceDays, rules.stages);
+        const nextStage = getNextDunningStage(sentLevelByReceipt.get(invoice.receiptId), rules.stages);
+        if (!nextStage || getStageIndex(nextStage) > getStageIndex(dueLevel)) continue;
+        if (!stageToSend || getStageIndex(nextStage) > getStageIndex(stageToSend)) {
+          stageToSend = nextStage;
+        }
+      }
+
+      if (!stageToSend) continue;
+
+      if (getNetBalance(receipts) <= 0) {
+        skip("Gutschriften gleichen die offenen Posten aus");
+        continue;
+      }
+
+      if (!customer.emailContact) {
+        skip("Keine E-Mail-Adresse hinterlegt");
+        continue;
+      }
+      if (!customer.customerType) {
+        skip("Kundentyp nicht gesetzt");
+        continue;
+      }
+
+      const [template] = await storage.getDunningEmailTemplatesByStage(stageToSend);
+      if (!template) {
+        skip(`Keine aktive Vorlage für Stufe ${stageToSend}`);
+        continue;
+      }
+
+      const overdueInvoices = getDueInvoices(
+        calculateOverdueInvoices(receipts, customer, rules, stageToSend, baseRates, history),
+        receipts,
+        rules,
+        stageToSend
+      );
+      candidates.push({
+        customer,
+        recipientEmail: customer.emailContact,
+        stage: stageToSend,
+        template,
+        overdueInvoices,
+        context: buildEmailContext(customer, overdueInvoices, stageToSend, companySettings),
+      });
+    } catch (error) {
+      result.errors.push(`${customer.displayName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Sends the next due stage to every eligible customer. Scheduled runs respect
+ * the enabled flag and time window and only create proposals when approval is
+ * required; manual runs only respect the per-run cap.
+ */
+export async function runAutomatedDunning(
+  mode: "manual" | "auto",
+  triggeredBy: string
+): Promise<DunningRunResult> {
+  const config = await getDunningRunConfig();
+  const result = createResult(mode);
+
+  if (mode === "auto" && !config.enabled) {
+    result.skippedReason = "Automatischer Mahnlauf deaktiviert";
+    return result;
+  }
+  if (mode === "auto" && !isWithinDunningWindow(config)) {
+    result.skippedReason = `Außerhalb des Zeitfensters ${config.windowStart}-${config.windowEnd}`;
+    return result;
+  }
+  if (mode === "auto" && config.requireApproval) {
+    return generateDunningProposals(triggeredBy, "auto");
+  }
+  if (!(await isEmailConfigured(storage))) {
+    result.skippedReason = "E-Mail-Versand nicht konfiguriert";
+    return finishRun(result);
+  }
+
+  log(`Starting ${mode} dunning run (triggered by ${triggeredBy})`, "dunning");
+
+  const candidates = await planDunningRun(result);
+  for (const candidate of candidates) {
+    if (result.emailsSent >= config.maxEmailsPerRun) {
+      result.capReached = true;
+      break;
+    }
+
+    try {
+      const sent = await sendDunningToCustomer(storage, candidate.customer, candidate.template, candidate.recipientEmail, "auto");
+      if (!sent) continue;
+      result.emailsSent++;
+      result.sent.push({
+        customerId: candidate.customer.id,
+        displayName: candidate.customer.displayName,
+        stage: candidate.stage,
+        invoiceCount: sent.overdueInvoices.length,
+      });
+    } catch (error) {
+      result.emailsFailed++;
+      result.errors.push(`${candidate.customer.displayName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  log(`Dunning run finished: ${result.emailsSent} sent, ${result.emailsFailed} failed${result.capReached ? " (cap reached)" : ""}`, "dunning");
+  return finishRun(result);
+}
+
+// Decided proposals are matched by customer, stage and the exact set of invoices
+function getProposalKey(customerId: string, stage: string, receiptIds: string[] | null): string {
+  return [customerId, stage, ...[...(receiptIds || [])].sort()].join("|");
+}
+
+/**
+ * Dry run: computes the same letters as a real run and stores them as pending
+ * proposals, replacing earlier pending ones. Approved and rejected proposals are
+ * kept; a letter that matches one of them is not proposed again, so the decision
+ * carries forward.
+ */
+export async function generateDunningProposals(
+  triggeredBy: string,
+  mode: "manual" | "auto" = "manual"
+): Promise<DunningRunResult> {
+  const result = createResult(mode);
+
+  log(`Generating dunning proposals (triggered by ${triggeredBy})`, "dunning");
+
+  const candidates = await planDunningRun(result);
+  await storage.deletePendingDunningProposals();
+
+  const decided = [
+    ...(await storage.getDunningProposals("approved")),
+    ...(await storage.getDunningProposals("rejected")),
+  ];
+  const decidedKeys = new Set(decided.map((p) => getProposalKey(p.customerId, p.stage, p.receiptIds)));
+
+  for (const candidate of candidates) {
+    const receiptIds = candidate.overdueInvoices.map((inv) => inv.receiptId);
+    if (decidedKeys.has(getProposalKey(candidate.customer.id, candidate.stage, receiptIds))) continue;
+
+    await storage.createDunningProposal({
+      customerId: candidate.customer.id,
+      templateId: candidate.template.id,
+      stage: candidate.stage,
+      recipientEmail: candidate.recipientEmail,
+      invoiceCount: candidate.overdueInvoices.length,
+      receiptIds,
+      amountOpen: String(candidate.context.summe.offenerBetrag),
+      interestAmount: String(candidate.context.summe.zinsen),
+      feeAmount: String(candidate.context.summe.gebuehren),
+      totalAmount: String(candidate.context.summe.gesamt),
+      status: "pending",
+      createdBy: triggeredBy,
+    });
+    result.proposalsCreated++;
+  }
+
+  return finishRun(result);
+}
+
+/**
+ * Sends all approved proposals through the regular send path, limited to the
+ * invoices the proposal listed. Amounts are recomputed at send time, so interest
+ * reflects the actual sending date. Proposals whose stage already went out for
+ * one of their invoices in the meantime fail instead of sending it twice.
+ */
+export async function sendApprovedProposals(triggeredBy: string): Promise<DunningRunResult> {
+  const result = createResult("manual");
+
+  if (!(await isEmailConfigured(storage))) {
+    result.skippedReason = "E-Mail-Versand nicht konfiguriert";
+    return result;
+  }
+
+  const proposals = await storage.getDunningProposals("approved");
+  log(`Sending ${proposals.length} approved dunning proposals (triggered by ${triggeredBy})`, "dunning");
+
+  for (const proposal of proposals) {
+    const customer = await storage.getCustomer(proposal.customerId);
+    const template = proposal.templateId
+      ? await storage.getDunningEmailTemplate(proposal.templateId)
+      : (await storage.getDunningEmailTemplatesByStage(proposal.stage))[0];
+    const recipientEmail = proposal.recipientEmail || customer?.emailContact;
+
+    if (!customer || !template || !recipientEmail) {
+      const message = !customer ? "Kunde nicht gefunden" : !template ? "Vorlage nicht gefunden" : "Keine E-Mail-Adresse";
+      await storage.updateDunningProposal(proposal.id, { status: "failed", errorMessage: message });
+      result.emailsFailed++;
+      result.errors.push(`${customer?.displayName || proposal.customerId}: ${message}`);
+      continue;
+    }
+
+    const receiptIds = proposal.receiptIds || [];
+    const alreadySent = (await storage.getReceipts({ debtorNumber: customer.debtorPostingaccountNumber }))
+      .filter((r) => receiptIds.includes(r.id) && getStageIndex(r.dunningLevel) >= getStageIndex(proposal.stage));
+    if (alreadySent.length > 0) {
+      const reason = `Stufe ${proposal.stage} wurde für ${alreadySent.length} Rechnung(en) bereits versendet`;
+      await storage.updateDunningProposal(proposal.id, { status: "failed", errorMessage: reason });
+      result.skipped.push({ customerId: customer.id, displayName: customer.displayName, reason });
+      continue;
+    }
+
+    try {
+      const sent = await sendDunningToCustomer(storage, customer, template, recipientEmail, "manual", receiptIds);
+      if (!sent) {
+        const reason = "Keine überfälligen Rechnungen mehr oder durch Gutschriften ausgeglichen";
+        await storage.updateDunningProposal(proposal.id, { status: "failed", errorMessage: reason });
+        result.skipped.push({ customerId: customer.id, displayName: customer.displayName, reason });
+        continue;
+      }
+      await storage.updateDunningProposal(proposal.id, {
+        status: "sent",
+        sentAt: new Date(),
+        dunningEventId: sent.event.id,
+      });
+      result.emailsSent++;
+      result.sent.push({
+        customerId: customer.id,
+        displayName: customer.displayName,
+        stage: template.stage,
+        invoiceCount: sent.overdueInvoices.length,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await storage.updateDunningProposal(proposal.id, { status: "failed", errorMessage: message });
+      result.emailsFailed++;
+      result.errors.push(`${customer.displayName}: ${message}`);
+    }
+  }
+
+  result.finishedAt = new Date().toISOString();
+  return result;
+}
+
+async function finishRun(result: DunningRunResult): Promise<DunningRunResult> {
+  result.finishedAt = new Date().toISOString();
+  await storage.setSetting("DUNNING_RUN_LAST_RESULT", JSON.stringify(result));
+  return result;
+}
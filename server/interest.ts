@@ -0,0 +1,298 @@
+import type { PortalCustomer, DunningRules, EzbBaseRate } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const DEFAULT_EZB_BASE_RATE = 2.82;
+
+// Surcharge on the base rate per BGB §288: consumers +5, businesses +9 percentage points
+export const LEGAL_RATE_SURCHARGE = {
+  consumer: 5,
+  business: 9,
+} as const;
+
+export interface BaseRateHistory {
+  // Sorted ascending by validFrom (day number since epoch)
+  rates: { validFrom: number; ratePercent: number }[];
+  // Used for days before the first entry, taken from the legacy EZB_BASE_RATE setting
+  fallbackRate: number;
+}
+
+export interface InterestPolicy {
+  useLegalRate: boolean;
+  surcharge: number;
+  fixedRatePercent: number;
+}
+
+export interface InterestPeriod {
+  from: Date;
+  to: Date;
+  days: number;
+  principal: number;
+  annualRate: number;
+  amount: number;
+}
+
+// A payment with a known date, after reversals have been netted out
+export interface DatedPayment {
+  date: Date;
+  amount: number;
+}
+
+export interface InterestCalculation {
+  amount: number;
+  days: number;
+  currentRate: number;
+  periods: InterestPeriod[];
+}
+
+// Day number in local calendar terms, so DST shifts never add or drop a day
+function toDayNumber(date: Date): number {
+  return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY);
+}
+
+function fromDayNumber(day: number): Date {
+  const utc = new Date(day * MS_PER_DAY);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+}
+
+// Start of the half-year period (1 January or 1 July) the date falls into, as YYYY-MM-DD
+export function getHalfYearStart(date: Date = new Date()): string {
+  const month = date.getMonth() < 6 ? "01" : "07";
+  return `${date.getFullYear()}-${month}-01`;
+}
+
+export function isHalfYearStart(validFrom: string): boolean {
+  return /^\d{4}-(01|07)-01$/.test(validFrom);
+}
+
+/**
+ * Parses a CSV export of the Bundesbank base rate series (BBK01.SU0115).
+ * Data rows look like "2024-01;3,62;" - header and comment rows are ignored.
+ * Also accepts full dates (YYYY-MM-DD or DD.MM.YYYY). Rows that do not start
+ * a half-year are counted as skipped, since the rate only changes on 1 Jan/1 Jul.
+ */
+export function parseBundesbankCsv(content: string): { entries: { validFrom: string; ratePercent: number }[]; skipped: number } {
+  const entries = new Map<string, number>();
+  let skipped = 0;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/"/g, "").trim();
+    if (!line) continue;
+
+    const match =
+      line.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?\s*[;\t]\s*(-?\d+(?:[.,]\d+)?)/) ||
+      line.match(/^(\d{2})\.(\d{2})\.(\d{4})\s*[;\t]\s*(-?\d+(?:[.,]\d+)?)/);
+    if (!match) continue;
+
+    const [year, month, day] = match[1].length === 4
+      ? [match[1], match[2], match[3] || "01"]
+      : [match[3], match[2], match[1]];
+    const validFrom = `${year}-${month}-${day}`;
+    const ratePercent = parseFloat(match[4].replace(",", "."));
+
+    if (!isHalfYearStart(validFrom) || isNaN(ratePercent)) {
+      skipped++;
+      continue;
+    }
+    entries.set(validFrom, ratePercent);
+  }
+
+  return {
+    entries: Array.from(entries, ([validFrom, ratePercent]) => ({ validFrom, ratePercent })),
+    skipped,
+  };
+}
+
+export function buildBaseRateHistory(entries: EzbBaseRate[], fallbackRate: number = DEFAULT_EZB_BASE_RATE): BaseRateHistory {
+  const rates = entries
+    .map((entry) => ({
+      validFrom: toDayNumber(new Date(`${entry.validFrom}T00:00:00`)),
+      ratePercent: parseFloat(entry.ratePercent),
+    }))
+    .filter((entry) => !isNaN(entry.validFrom) && !isNaN(entry.ratePercent))
+    .sort((a, b) => a.validFrom - b.validFrom);
+  return { rates, fallbackRate };
+}
+
+export async function getBaseRateHistoryFromStorage(storage: IStorage): Promise<BaseRateHistory> {
+  const [entries, fallbackSetting] = await Promise.all([
+    storage.getEzbBaseRates(),
+    storage.getSetting("EZB_BASE_RATE"),
+  ]);
+  const fallbackRate = fallbackSetting ? parseFloat(fallbackSetting) : DEFAULT_EZB_BASE_RATE;
+  return buildBaseRateHistory(entries, isNaN(fallbackRate) ? DEFAULT_EZB_BASE_RATE : fallbackRate);
+}
+
+export function getBaseRateAt(history: BaseRateHistory, date: Date = new Date()): number {
+  const day = toDayNumber(date);
+  let rate = history.fallbackRate;
+  for (const entry of history.rates) {
+    if (entry.validFrom > day) break;
+    rate = entry.ratePercent;
+  }
+  return rate;
+}
+
+export function getLegalRateSurcharge(customerType: string | null | undefined): number {
+  // Default to the business surcharge if customerType is not set
+  return customerType === "consumer" ? LEGAL_RATE_SURCHARGE.consumer : LEGAL_RATE_SURCHARGE.business;
+}
+
+/**
+ * Determines how interest is charged for a customer:
+ * - dunning rules with useLegalRate: BGB §288 rate (base rate + surcharge)
+ * - dunning rules without useLegalRate: the custom interestRatePercent
+ * - no dunning rules: BGB §288 rate
+ */
+export function getInterestPolicy(
+  customer: Pick<PortalCustomer, "customerType"> | null | undefined,
+  dunningRules: Pick<DunningRules, "useLegalRate" | "interestRatePercent"> | null | undefined
+): InterestPolicy {
+  const surcharge = getLegalRateSurcharge(customer?.customerType);
+  if (!dunningRules || dunningRules.useLegalRate) {
+    return { useLegalRate: true, surcharge, fixedRatePercent: 0 };
+  }
+  const fixedRatePercent = parseFloat(dunningRules.interestRatePercent?.toString() || "0") || 0;
+  return { useLegalRate: false, surcharge, fixedRatePercent };
+}
+
+export function getAnnualRateAt(policy: InterestPolicy, history: BaseRateHistory, date: Date = new Date()): number {
+  if (!policy.useLegalRate) return policy.fixedRatePercent;
+  return getBaseRateAt(history, date) + policy.surcharge;
+}
+
+/**
+ * Interest on a principal from the day after the due date up to and including asOf.
+ * For legal rates the period is split at every base rate change, each part being
+ * charged with the rate valid at that time (act/365).
+ */
+export function calculateInterest(
+  principal: number,
+  dueDate: Date,
+  asOf: Date,
+  policy: InterestPolicy,
+  history: BaseRateHistory
+): InterestCalculation {
+  const currentRate = getAnnualRateAt(policy, history, asOf);
+  const startDay = toDayNumber(dueDate);
+  const endDay = toDayNumber(asOf);
+  const totalDays = Math.max(0, endDay - startDay);
+
+  if (totalDays <= 0 || principal <= 0 || isNaN(principal)) {
+    return { amount: 0, days: totalDays, currentRate, periods: [] };
+  }
+
+  // Rate changes strictly inside the period (first interest day is startDay + 1)
+  const boundaries = policy.useLegalRate
+    ? history.rates.map((entry) => entry.validFrom).filter((day) => day > startDay + 1 && day <= endDay)
+    : [];
+
+  const periods: InterestPeriod[] = [];
+  let segmentStart = startDay + 1;
+  for (const boundary of [...boundaries, endDay + 1]) {
+    const days = boundary - segmentStart;
+    if (days <= 0) continue;
+    const annualRate = getAnnualRateAt(policy, history, fromDayNumber(segmentStart));
+    const amount = annualRate > 0 ? (principal * annualRate * days) / (100 * 365) : 0;
+    periods.push({
+      from: fromDayNumber(segmentStart),
+      to: fromDayNumber(boundary - 1),
+      days,
+      principal,
+      annualRate,
+      amount,
+    });
+    segmentStart = boundary;
+  }
+
+  const amount = periods.reduce((sum, period) => sum + period.amount, 0);
+  return { amount, days: totalDays, currentRate, periods };
+}
+
+export interface PaymentAllocation {
+  date: Date;
+  amount: number;
+  toCosts: number;
+  toInterest: number;
+  toPrincipal: number;
+}
+
+export interface AllocatedInterestCalculation extends InterestCalculation {
+  principalOpen: number;
+  interestOpen: number; // amount minus interest already covered by payments
+  interestPaid: number;
+  costsPaid: number;
+  allocations: PaymentAllocation[];
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Interest on an invoice with partial payments, allocated per BGB §367: a payment
+ * first settles the costs claimed by then, then the interest accrued so far, and
+ * only the rest reduces the principal. Interest accrues on the principal only
+ * (§289 BGB), so the period is split at every payment date. Payments on or before
+ * the due date go to the principal in full. days and currentRate refer to asOf.
+ *
+ * amountOpen is the open amount as booked, i.e. after all payments; costsAt
+ * returns the costs (dunning fees, lump sum) charged by all letters sent by a date.
+ */
+export function calculateAllocatedInterest(
+  amountOpen: number,
+  payments: DatedPayment[],
+  dueDate: Date,
+  asOf: Date,
+  policy: InterestPolicy,
+  history: BaseRateHistory,
+  costsAt: (date: Date) => number = () => 0
+): AllocatedInterestCalculation {
+  const sorted = payments
+    .filter((payment) => payment.date <= asOf)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  let principalOpen = roundCents(sorted.reduce((sum, payment) => sum + payment.amount, Math.max(0, amountOpen)));
+  let accrued = 0;
+  let interestPaid = 0;
+  let costsPaid = 0;
+  let accruedUntil = dueDate;
+  const periods: InterestPeriod[] = [];
+  const allocations: PaymentAllocation[] = [];
+
+  const accrue = (until: Date) => {
+    if (until <= accruedUntil) return;
+    const calculation = calculateInterest(principalOpen, accruedUntil, until, policy, history);
+    accrued += calculation.amount;
+    periods.push(...calculation.periods);
+    accruedUntil = until;
+  };
+
+  for (const payment of sorted) {
+    accrue(payment.date);
+    let remaining = payment.amount;
+    const toCosts = roundCents(Math.min(remaining, Math.max(0, costsAt(payment.date) - costsPaid)));
+    remaining = roundCents(remaining - toCosts);
+    const toInterest = roundCents(Math.min(remaining, Math.max(0, accrued - interestPaid)));
+    remaining = roundCents(remaining - toInterest);
+    const toPrincipal = Math.min(remaining, principalOpen);
+
+    costsPaid = roundCents(costsPaid + toCosts);
+    interestPaid = roundCents(interestPaid + toInterest);
+    principalOpen = roundCents(principalOpen - toPrincipal);
+    allocations.push({ date: payment.date, amount: payment.amount, toCosts, toInterest, toPrincipal });
+  }
+  accrue(asOf);
+
+  return {
+    amount: accrued,
+    days: Math.max(0, toDayNumber(asOf) - toDayNumber(dueDate)),
+    currentRate: getAnnualRateAt(policy, history, asOf),
+    periods,
+    principalOpen,
+    interestOpen: Math.max(0, accrued - interestPaid),
+    interestPaid,
+    costsPaid,
+    allocations,
+  };
+}
@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * The mandant a request or background job works on. Storage reads it to scope
+ * customers, receipts, sync logs and mandant settings, so callers do not have to
+ * pass the mandant through every function.
+ */
+const mandantContext = new AsyncLocalStorage<{ mandantId: string }>();
+
+export function runWithMandant<T>(mandantId: string, fn: () => T): T {
+  return mandantContext.run({ mandantId }, fn);
+}
+
+export function getCurrentMandantId(): string | undefined {
+  return mandantContext.getStore()?.mandantId;
+}
+
+export function requireMandantId(): string {
+  const mandantId = getCurrentMandantId();
+  if (!mandantId) {
+    throw new Error("Kein Mandant ausgewählt");
+  }
+  return mandantId;
+}
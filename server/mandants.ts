@@ -0,0 +1,49 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { log } from "./index";
+import { runWithMandant } from "./mandant-context";
+import type { Mandant } from "@shared/schema";
+
+let defaultMandantId: string | null = null;
+
+// Creates the first mandant if needed and assigns data from before multi-mandant support
+export async function initMandants(): Promise<void> {
+  const mandant = await storage.ensureDefaultMandant();
+  defaultMandantId = mandant.id;
+}
+
+/**
+ * Mandants a user may work in: users pinned to a mandant see only that one,
+ * everyone else sees all active mandants.
+ */
+export async function getAccessibleMandants(userMandantId: string | null | undefined): Promise<Mandant[]> {
+  const mandants = await storage.getMandants();
+  if (userMandantId) {
+    return mandants.filter((mandant) => mandant.id === userMandantId);
+  }
+  return mandants.filter((mandant) => mandant.isActive);
+}
+
+/**
+ * Runs the rest of the request in the mandant chosen in the session, falling back
+ * to the default mandant, so storage scopes all queries without further plumbing.
+ */
+export function mandantMiddleware(req: Request, _res: Response, next: NextFunction) {
+  const mandantId = req.session?.mandantId || defaultMandantId;
+  if (!mandantId) {
+    return next();
+  }
+  runWithMandant(mandantId, () => next());
+}
+
+// Background jobs run once per active mandant; a failing mandant does not stop the others
+export async function forEachMandant(job: string, fn: (mandant: Mandant) => Promise<void>): Promise<void> {
+  const mandants = (await storage.getMandants()).filter((mandant) => mandant.isActive);
+  for (const mandant of mandants) {
+    try {
+      await runWithMandant(mandant.id, () => fn(mandant));
+    } catch (error) {
+      log(`${job} failed for mandant "${mandant.name}": ${error}`, "scheduler");
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import type { IStorage } from "./storage";
+import type { BhbReceiptsCache, DunningEvent, InsertReceiptPayment, ReceiptPayment, ReceiptPaymentSource } from "@shared/schema";
+import type { BhbReceipt } from "./bhb-api";
+import {
+  calculateAllocatedInterest,
+  type AllocatedInterestCalculation,
+  type BaseRateHistory,
+  type DatedPayment,
+  type InterestPolicy,
+} from "./interest";
+
+/**
+ * Payment history per receipt. BHB only reports the total paid, so unless a
+ * receipt carries its own payment list, each change of amount_paid between two
+ * syncs is stored as a payment dated with BHB's modification time.
+ */
+
+export type ReceiptPaymentEvent = Omit<InsertReceiptPayment, "receiptId">;
+
+export interface ReceiptPaymentUpdate {
+  // Replace all recorded payments instead of appending, when BHB delivered its own list
+  replace: boolean;
+  events: ReceiptPaymentEvent[];
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sumPayments(payments: Pick<ReceiptPayment, "amount">[]): number {
+  return roundCents(payments.reduce((sum, payment) => sum + (parseFloat(payment.amount) || 0), 0));
+}
+
+function toEvent(
+  source: ReceiptPaymentSource,
+  amount: number,
+  paymentDate: Date | null,
+  syncLogId: string | null,
+  reference: string | null = null
+): ReceiptPaymentEvent {
+  return { source, amount: amount.toFixed(2), paymentDate, reference, syncLogId };
+}
+
+function getSignature(payments: { reference: string | null; date: Date | null; amount: number }[]): string {
+  return payments
+    .map((payment) => `${payment.reference || ""}|${payment.date?.toISOString().slice(0, 10) || ""}|${payment.amount.toFixed(2)}`)
+    .sort()
+    .join(";");
+}
+
+/**
+ * Payments to store for a synced receipt, or null if nothing changed. Amounts
+ * paid before a receipt was first seen (or before tracking started) are stored
+ * without a date, since BHB does not tell when they were paid.
+ */
+export function derivePaymentUpdate(
+  receipt: BhbReceipt,
+  existing: BhbReceiptsCache | undefined,
+  recorded: ReceiptPayment[],
+  syncLogId: string | null
+): ReceiptPaymentUpdate | null {
+  if (receipt.payments) {
+    const fromBhb = receipt.payments.filter((payment) => Math.abs(payment.amount) >= 0.01);
+    const stored = recorded.every((payment) => payment.source === "bhb")
+      ? getSignature(recorded.map((payment) => ({
+          reference: payment.reference,
+          date: payment.paymentDate,
+          amount: parseFloat(payment.amount),
+        })))
+      : null;
+    if (stored === getSignature(fromBhb)) return null;
+    return {
+      replace: true,
+      events: fromBhb.map((payment) => toEvent("bhb", payment.amount, payment.date, syncLogId, payment.reference)),
+    };
+  }
+
+  const paid = roundCents(receipt.amountPaid);
+  if (!existing) {
+    return paid >= 0.01 ? { replace: false, events: [toEvent("initial", paid, null, syncLogId)] } : null;
+  }
+
+  const previouslyPaid = recorded.length > 0
+    ? sumPayments(recorded)
+    : roundCents((parseFloat(existing.amountTotal || "0") || 0) - (parseFloat(existing.amountOpen || "0") || 0));
+  const difference = roundCents(paid - previouslyPaid);
+  if (Math.abs(difference) < 0.01) return null;
+
+  const events: ReceiptPaymentEvent[] = [];
+  if (recorded.length === 0 && previouslyPaid >= 0.01) {
+    events.push(toEvent("initial", previouslyPaid, null, syncLogId));
+  }
+  // BHB's modification time is the closest we get to the payment date
+  events.push(toEvent("sync", difference, receipt.modifiedAt || new Date(), syncLogId));
+  return { replace: false, events };
+}
+
+export async function saveReceiptPayments(
+  storage: IStorage,
+  updates: { receiptId: string; update: ReceiptPaymentUpdate }[]
+): Promise<void> {
+  const appended: InsertReceiptPayment[] = [];
+  for (const { receiptId, update } of updates) {
+    const payments = update.events.map((event) => ({ ...event, receiptId }));
+    if (update.replace) {
+      await storage.replaceReceiptPayments(receiptId, payments);
+    } else {
+      appended.push(...payments);
+    }
+  }
+  await storage.addReceiptPayments(appended);
+}
+
+export async function getPaymentsByReceipt(storage: IStorage, receiptIds: string[]): Promise<Map<string, ReceiptPayment[]>> {
+  const byReceipt = new Map<string, ReceiptPayment[]>();
+  for (const payment of await storage.getReceiptPayments(receiptIds)) {
+    const list = byReceipt.get(payment.receiptId);
+    if (list) {
+      list.push(payment);
+    } else {
+      byReceipt.set(payment.receiptId, [payment]);
+    }
+  }
+  return byReceipt;
+}
+
+/**
+ * Payments relevant for interest: reversals cancel the latest earlier payments,
+ * and payments without a date are left out (treated as paid on time).
+ */
+export function getDatedPayments(payments: ReceiptPayment[] | undefined): DatedPayment[] {
+  const effective: { date: Date | null; amount: number }[] = [];
+  for (const payment of payments || []) {
+    const amount = parseFloat(payment.amount) || 0;
+    if (amount > 0) {
+      effective.push({ date: payment.paymentDate ? new Date(payment.paymentDate) : null, amount });
+      continue;
+    }
+    let reversed = -amount;
+    while (reversed > 0.001 && effective.length > 0) {
+      const last = effective[effective.length - 1];
+      const taken = Math.min(last.amount, reversed);
+      last.amount = roundCents(last.amount - taken);
+      reversed = roundCents(reversed - taken);
+      if (last.amount < 0.01) effective.pop();
+    }
+  }
+  return effective.filter((payment): payment is DatedPayment => payment.date !== null);
+}
+
+// What interest depends on besides the receipt itself, loaded once for many receipts
+export interface ReceiptHistory {
+  payments: Map<string, ReceiptPayment[]>;
+  dunningEvents: Map<string, DunningEvent[]>;
+}
+
+export const EMPTY_RECEIPT_HISTORY: ReceiptHistory = { payments: new Map(), dunningEvents: new Map() };
+
+export async function getReceiptHistory(storage: IStorage, receiptIds: string[]): Promise<ReceiptHistory> {
+  const [payments, events] = await Promise.all([
+    getPaymentsByReceipt(storage, receiptIds),
+    storage.getDunningEventsForReceipts(receiptIds),
+  ]);
+  const dunningEvents = new Map<string, DunningEvent[]>();
+  for (const event of events) {
+    if (!event.receiptId) continue;
+    const list = dunningEvents.get(event.receiptId);
+    if (list) {
+      list.push(event);
+    } else {
+      dunningEvents.set(event.receiptId, [event]);
+    }
+  }
+  return { payments, dunningEvents };
+}
+
+/**
+ * Costs charged for a receipt up to a given date. Each letter records only the
+ * fee and lump sum it adds, so the costs of all letters sent by then add up.
+ */
+export function getClaimedCosts(events: DunningEvent[] | undefined): (date: Date) => number {
+  const sent = (events || [])
+    .filter((event) => event.status === "sent" && event.sentAt)
+    .map((event) => ({
+      sentAt: new Date(event.sentAt as Date),
+      costs: (parseFloat(event.feeAmount || "0") || 0) + (parseFloat(event.lumpSumAmount || "0") || 0),
+    }));
+
+  return (date) => sent
+    .filter((letter) => letter.sentAt <= date)
+    .reduce((sum, letter) => sum + letter.costs, 0);
+}
+
+export function calculateReceiptInterest(
+  receipt: Pick<BhbReceiptsCache, "id" | "amountOpen">,
+  history: ReceiptHistory,
+  dueDate: Date,
+  asOf: Date,
+  policy: InterestPolicy,
+  baseRates: BaseRateHistory
+): AllocatedInterestCalculation {
+  return calculateAllocatedInterest(
+    parseFloat(receipt.amountOpen || "0") || 0,
+    getDatedPayments(history.payments.get(receipt.id)),
+    dueDate,
+    asOf,
+    policy,
+    baseRates,
+    getClaimedCosts(history.dunningEvents.get(receipt.id))
+  );
+}
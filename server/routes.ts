@@ -5,16 +5,34 @@ import PDFDocument from "pdfkit";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { storage, type IStorage } from "./storage";
+import { storage, type CustomerOpenInvoiceStats } from "./storage";
 import { setupAuth, registerAuthRoutes, isAuthenticated, isInternal, isAdmin, canEditDebtors } from "./auth";
 import {
   insertPortalCustomerSchema,
   updatePortalCustomerSchema,
+  updateInvoiceSchema,
   inputDunningRulesSchema,
+  updateDunningProposalStatusSchema,
+  inputEzbBaseRateSchema,
+  resolveSyncConflictSchema,
+  insertMandantSchema,
   type User,
 } from "@shared/schema";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
+import { determineDunningLevel, getStageIndex, isOnHold } from "./dunning-email-service";
+import { getCurrentMandantId } from "./mandant-context";
+import { getAccessibleMandants, initMandants, mandantMiddleware } from "./mandants";
+import {
+  getAnnualRateAt,
+  getBaseRateAt,
+  getBaseRateHistoryFromStorage,
+  getHalfYearStart,
+  getInterestPolicy,
+  parseBundesbankCsv,
+} from "./interest";
+import { calculateReceiptInterest, getReceiptHistory } from "./receipt-payments";
+import { getOpenCredit, getSignedOpenAmount, isCreditNote } from "./credit-notes";
 
 function getEffectiveDueDate(dueDate: Date | string | null, receiptDate?: Date | string | null, paymentTermDays?: number): Date | null {
   if (dueDate) {
@@ -41,31 +59,6 @@ function calculateDaysOverdue(dueDate: Date | string | null, receiptDate?: Date
   return diffDays;
 }
 
-function calculateInterest(amount: number, daysOverdue: number, ratePercent: number): number {
-  if (daysOverdue <= 0 || amount <= 0 || isNaN(amount) || isNaN(ratePercent)) return 0;
-  return (amount * (ratePercent / 100) * daysOverdue) / 365;
-}
-
-function determineDunningLevel(daysOverdue: number, stages: any): string {
-  if (!stages || typeof stages !== "object") return "none";
-  if (daysOverdue <= 0) return "none";
-  
-  if (stages.dunning3?.enabled && typeof stages.dunning3.daysAfterDue === "number" && daysOverdue >= stages.dunning3.daysAfterDue) {
-    return "dunning3";
-  }
-  if (stages.dunning2?.enabled && typeof stages.dunning2.daysAfterDue === "number" && daysOverdue >= stages.dunning2.daysAfterDue) {
-    return "dunning2";
-  }
-  if (stages.dunning1?.enabled && typeof stages.dunning1.daysAfterDue === "number" && daysOverdue >= stages.dunning1.daysAfterDue) {
-    return "dunning1";
-  }
-  if (stages.reminder?.enabled && typeof stages.reminder.daysAfterDue === "number" && daysOverdue >= stages.reminder.daysAfterDue) {
-    return "reminder";
-  }
-  
-  return "none";
-}
-
 // PDF Layout Configuration and Helpers
 interface PDFLayoutConfig {
   orientation: "portrait" | "landscape";
@@ -115,47 +108,32 @@ function formatDatePDF(date: Date | string | null | undefined): string {
   return d.toLocaleDateString("de-DE");
 }
 
+// Payment timeline of an invoice as one line, e.g. for the statement PDF
+function formatPaymentsPDF(payments: { paymentDate: Date | string | null; amount: string }[]): string {
+  return payments
+    .map((payment) => {
+      const amount = parseFloat(payment.amount) || 0;
+      const label = amount < 0 ? "Rückbuchung" : "Zahlung";
+      const date = payment.paymentDate ? `am ${formatDatePDF(payment.paymentDate)}` : "vor Erfassung";
+      return `${label} ${date}: ${formatCurrencyPDF(Math.abs(amount))}`;
+    })
+    .join(" · ");
+}
+
 function truncateText(text: string, maxLength: number): string {
   if (!text) return "-";
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength - 2) + "..";
 }
 
-function extractDebtorNumber(receipt: any): number {
-  // Try nested counterparty object first (main location for outbound invoices)
-  if (receipt.counterparty?.postingaccount_number) {
-    const num = parseInt(receipt.counterparty.postingaccount_number, 10);
-    if (num > 0) return num;
-  }
-  // Try nested debtor object
-  if (receipt.debtor?.postingaccount_number) {
-    const num = parseInt(receipt.debtor.postingaccount_number, 10);
-    if (num > 0) return num;
-  }
-  // Try counterparty_postingaccount_number (flat field)
-  if (receipt.counterparty_postingaccount_number) {
-    const num = parseInt(receipt.counterparty_postingaccount_number, 10);
-    if (num > 0) return num;
-  }
-  // Try creditor_debtor (for some invoice types)
-  if (receipt.creditor_debtor) {
-    const num = parseInt(receipt.creditor_debtor, 10);
-    if (num > 0) return num;
-  }
-  // Try debtor_number directly
-  if (receipt.debtor_number) {
-    const num = parseInt(receipt.debtor_number, 10);
-    if (num > 0) return num;
-  }
-  return 0;
-}
-
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   await setupAuth(app);
   registerAuthRoutes(app);
+  await initMandants();
+  app.use(mandantMiddleware);
 
   app.get("/api/dashboard/stats", isAuthenticated, async (req, res) => {
     try {
@@ -206,14 +184,14 @@ export async function registerRoutes(
         const rules = allRules.find((r) => r.customerId === customer?.id);
         const effectiveDueDate = getEffectiveDueDate(invoice.dueDate, invoice.receiptDate, customer?.paymentTermDays);
         const daysOverdue = calculateDaysOverdue(invoice.dueDate, invoice.receiptDate, customer?.paymentTermDays);
-        const dunningLevel = determineDunningLevel(daysOverdue, rules?.stages);
+        const dueDunningLevel = determineDunningLevel(daysOverdue - (rules?.graceDays || 0), rules?.stages);
         
         return {
           ...invoice,
           customer,
           effectiveDueDate,
           daysOverdue,
-          dunningLevel,
+          dueDunningLevel,
         };
       });
       
@@ -246,19 +224,26 @@ export async function registerRoutes(
         const amount = parseFloat(receipt.amountOpen?.toString() || receipt.amountTotal?.toString() || "0");
         if (amount <= 0) continue;
         
+        const existing = debtorStats.get(debtorNum) || { openAmount: 0, overdueAmount: 0, invoiceCount: 0 };
+        debtorStats.set(debtorNum, existing);
+        // Open credit notes reduce the debtor's balance
+        if (isCreditNote(receipt)) {
+          existing.openAmount -= amount;
+          continue;
+        }
+        
         const customer = customers.find(c => c.debtorPostingaccountNumber === debtorNum);
         const effectiveDue = getEffectiveDueDate(receipt.dueDate, receipt.receiptDate, customer?.paymentTermDays);
         const isOverdue = effectiveDue && effectiveDue < today;
         
-        const existing = debtorStats.get(debtorNum) || { openAmount: 0, overdueAmount: 0, invoiceCount: 0 };
         existing.openAmount += amount;
         existing.invoiceCount += 1;
         if (isOverdue) existing.overdueAmount += amount;
-        debtorStats.set(debtorNum, existing);
       }
       
       // Convert to array and sort by open amount
       const topDebtors = Array.from(debtorStats.entries())
+        .filter(([, stats]) => stats.openAmount > 0)
         .map(([debtorNum, stats]) => {
           const customer = customers.find(c => c.debtorPostingaccountNumber === debtorNum);
           return {
@@ -309,17 +294,17 @@ export async function registerRoutes(
           const rules = allRules.find((r) => r.customerId === customer?.id);
           const effectiveDueDate = getEffectiveDueDate(invoice.dueDate, invoice.receiptDate, customer?.paymentTermDays);
           const daysOverdue = calculateDaysOverdue(invoice.dueDate, invoice.receiptDate, customer?.paymentTermDays);
-          const dunningLevel = determineDunningLevel(daysOverdue, rules?.stages);
+          const dueDunningLevel = determineDunningLevel(daysOverdue - (rules?.graceDays || 0), rules?.stages);
           
           return {
             ...invoice,
             customer,
             effectiveDueDate,
             daysOverdue,
-            dunningLevel,
+            dueDunningLevel,
           };
         })
-        .filter(inv => inv.daysOverdue > 0)
+        .filter(inv => inv.daysOverdue > 0 && !isCreditNote(inv))
         .sort((a, b) => b.daysOverdue - a.daysOverdue)
         .slice(0, 10);
       
@@ -343,7 +328,7 @@ export async function registerRoutes(
   app.get("/api/customers/open-invoice-stats", isAuthenticated, isInternal, async (req, res) => {
     try {
       const statsMap = await storage.getCustomerOpenInvoiceStats();
-      const stats: Record<number, { count: number; totalOpen: number; overdueCount: number }> = {};
+      const stats: Record<number, CustomerOpenInvoiceStats> = {};
       statsMap.forEach((value, key) => {
         stats[key] = value;
       });
@@ -354,6 +339,34 @@ export async function registerRoutes(
     }
   });
 
+  // Debtors edited in the portal since the last sync, and debtors with a sync conflict
+  app.get("/api/customers/sync-state", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const { getDebtorSyncValues, getLocallyChangedFields } = await import("./debtor-sync-state");
+      const customers = await storage.getCustomers();
+      
+      const locallyChanged = customers
+        .map((c) => ({ id: c.id, fields: getLocallyChangedFields(c) }))
+        .filter((c) => c.fields.length > 0);
+      
+      const conflicts = customers
+        .filter((c) => c.syncConflict)
+        .map((c) => ({
+          id: c.id,
+          debtorPostingaccountNumber: c.debtorPostingaccountNumber,
+          displayName: c.displayName,
+          conflict: c.syncConflict,
+          portalValues: getDebtorSyncValues(c),
+          syncedValues: c.syncedData,
+        }));
+      
+      res.json({ locallyChanged, conflicts });
+    } catch (error) {
+      console.error("Error fetching customer sync state:", error);
+      res.status(500).json({ message: "Failed to fetch sync state" });
+    }
+  });
+
   app.post("/api/customers", isAuthenticated, canEditDebtors, async (req, res) => {
     try {
       const parsed = insertPortalCustomerSchema.parse(req.body);
@@ -380,7 +393,10 @@ export async function registerRoutes(
         });
       }
       
-      const customer = await storage.updateCustomer(id, parsed.data);
+      const customer = await storage.updateCustomer(id, parsed.data, {
+        source: "user",
+        changedBy: req.session?.userId || "unknown",
+      });
       if (!customer) {
         return res.status(404).json({ message: "Customer not found" });
       }
@@ -436,52 +452,22 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Debitor nicht gefunden" });
       }
       
-      const apiKey = await storage.getSetting("BHB_API_KEY");
-      const apiClient = await storage.getSetting("BHB_API_CLIENT");
-      const apiSecret = await storage.getSetting("BHB_API_SECRET");
+      const { getBhbCredentials } = await import("./bhb-client");
+      const { pushDebtor } = await import("./sync-functions");
+      const credentials = await getBhbCredentials();
       
-      if (!apiKey || !apiClient || !apiSecret) {
+      if (!credentials) {
         return res.status(400).json({ message: "BHB API nicht konfiguriert" });
       }
       
-      const baseUrl = await storage.getSetting("BHB_BASE_URL") || "https://webapp.buchhaltungsbutler.de/api/v1";
-      const authHeader = "Basic " + Buffer.from(`${apiClient}:${apiSecret}`).toString("base64");
-      
-      const bhbPayload: Record<string, string> = {
-        api_key: apiKey,
-        type: "debitor",
-        postingaccount_number: customer.debtorPostingaccountNumber.toString(),
-        name: customer.displayName,
-      };
-      
-      if (customer.contactPersonName) bhbPayload.contact_person_name = customer.contactPersonName;
-      if (customer.street) bhbPayload.street = customer.street;
-      if (customer.additionalAddressline) bhbPayload.additional_addressline = customer.additionalAddressline;
-      if (customer.zip) bhbPayload.zip = customer.zip;
-      if (customer.city) bhbPayload.city = customer.city;
-      if (customer.country) bhbPayload.country = customer.country;
-      if (customer.salesTaxIdEu) bhbPayload.sales_tax_id_eu = customer.salesTaxIdEu;
-      if (customer.emailContact) bhbPayload.email = customer.emailContact;
-      if (customer.uidCh) bhbPayload.uid_ch = customer.uidCh;
-      if (customer.iban) bhbPayload.iban = customer.iban;
-      if (customer.bic) bhbPayload.bic = customer.bic;
-      
-      const response = await fetch(`${baseUrl}/settings/update/debtor`, {
-        method: "POST",
-        headers: {
-          "Authorization": authHeader,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(bhbPayload),
-      });
-      
-      const data = await response.json();
+      const response = await pushDebtor(credentials, customer);
+      const data = response.data;
       
       if (!response.ok || !data.success) {
         console.error("BHB update debtor error:", {
           status: response.status,
           response: data,
-          payload: bhbPayload,
+          payload: response.payload,
         });
         
         // Build detailed error message
@@ -506,9 +492,6 @@ export async function registerRoutes(
         });
       }
       
-      // Update last sync timestamp
-      await storage.updateCustomer(id, { lastBhbSync: new Date() } as any);
-      
       res.json({ 
         success: true,
         message: "Debitor erfolgreich zu BHB übertragen",
@@ -516,10 +499,72 @@ export async function registerRoutes(
       });
     } catch (error: any) {
       console.error("BHB sync error:", error);
+      const { BhbApiError } = await import("./bhb-client");
+      if (error instanceof BhbApiError) {
+        return res.status(error.circuitOpen ? 503 : 502).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message || "Synchronisation fehlgeschlagen" });
     }
   });
 
+  app.get("/api/customers/:id/history", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const changes = await storage.getCustomerChanges(req.params.id);
+      
+      // Resolve user names once per distinct user instead of per entry
+      const userNames = new Map<string, string>();
+      for (const changedBy of Array.from(new Set(changes.map((c) => c.changedBy)))) {
+        if (changedBy === "system") {
+          userNames.set(changedBy, "Automatischer Sync");
+          continue;
+        }
+        const user = await storage.getUserById(changedBy);
+        userNames.set(changedBy, user?.displayName || user?.username || changedBy);
+      }
+      
+      res.json(changes.map((c) => ({ ...c, changedByName: userNames.get(c.changedBy) })));
+    } catch (error) {
+      console.error("Error fetching customer history:", error);
+      res.status(500).json({ message: "Failed to fetch customer history" });
+    }
+  });
+
+  app.post("/api/customers/:id/sync-conflict/resolve", isAuthenticated, canEditDebtors, async (req, res) => {
+    try {
+      const parsed = resolveSyncConflictSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join(", ") 
+        });
+      }
+      
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Debitor nicht gefunden" });
+      }
+      const conflict = customer.syncConflict;
+      if (!conflict) {
+        return res.status(409).json({ message: "Für diesen Debitor liegt kein Konflikt vor" });
+      }
+      
+      const { resolutions } = parsed.data;
+      const missing = conflict.fields.filter((field) => !resolutions[field]);
+      if (missing.length > 0) {
+        return res.status(400).json({ message: `Keine Auswahl für: ${missing.join(", ")}` });
+      }
+      
+      const { resolveDebtorConflict } = await import("./debtor-sync-state");
+      const updated = await storage.updateCustomer(customer.id, resolveDebtorConflict(customer, conflict, resolutions), {
+        source: "user",
+        changedBy: req.session?.userId || "unknown",
+      });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error resolving sync conflict:", error);
+      res.status(500).json({ message: error.message || "Konflikt konnte nicht gelöst werden" });
+    }
+  });
+
   app.get("/api/invoices", isAuthenticated, async (req, res) => {
     try {
       const role = req.session?.role;
@@ -544,6 +589,9 @@ export async function registerRoutes(
       }
       
       const allRules = await storage.getDunningRules();
+      const baseRates = await getBaseRateHistoryFromStorage(storage);
+      const history = await getReceiptHistory(storage, invoices.map((invoice) => invoice.id));
+      const today = new Date();
       
       const enrichedInvoices = invoices.map((invoice) => {
         const customer = customers.find(
@@ -551,18 +599,32 @@ export async function registerRoutes(
         );
         const rules = allRules.find((r) => r.customerId === customer?.id);
         const effectiveDueDate = getEffectiveDueDate(invoice.dueDate, invoice.receiptDate, customer?.paymentTermDays);
-        const daysOverdue = calculateDaysOverdue(invoice.dueDate, invoice.receiptDate, customer?.paymentTermDays);
-        const dunningLevel = determineDunningLevel(daysOverdue, rules?.stages);
-        const interestRate = rules?.useLegalRate ? 5.0 : parseFloat(rules?.interestRatePercent?.toString() || "0") || 0;
-        const amount = parseFloat(invoice.amountOpen?.toString() || invoice.amountTotal?.toString() || "0") || 0;
-        const calculatedInterest = calculateInterest(amount, daysOverdue, interestRate) || 0;
+        // Credit notes are never overdue; their open amount is offset against the debtor's invoices
+        const daysOverdue = isCreditNote(invoice)
+          ? 0
+          : calculateDaysOverdue(invoice.dueDate, invoice.receiptDate, customer?.paymentTermDays);
+        const holdActive = isOnHold(invoice, today);
+        const dueDunningLevel = holdActive ? "none" : determineDunningLevel(daysOverdue - (rules?.graceDays || 0), rules?.stages);
+        const payments = history.payments.get(invoice.id) || [];
+        const calculatedInterest = effectiveDueDate && invoice.paymentStatus !== "cancelled" && daysOverdue > 0 && !holdActive
+          ? calculateReceiptInterest(
+              { id: invoice.id, amountOpen: invoice.amountOpen ?? invoice.amountTotal },
+              history,
+              effectiveDueDate,
+              today,
+              getInterestPolicy(customer, rules),
+              baseRates
+            ).interestOpen
+          : 0;
         
         return {
           ...invoice,
+          payments,
           customer,
           effectiveDueDate,
           daysOverdue,
-          dunningLevel,
+          dueDunningLevel,
+          holdActive,
           calculatedInterest,
         };
       });
@@ -706,14 +768,109 @@ export async function registerRoutes(
 
   app.get("/api/counterparty-mappings/unmatched", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const unmatched = await storage.getUnmatchedCounterparties();
-      res.json(unmatched);
+      const { collectCounterpartyIdentifiers, suggestDebtors } = await import("./counterparty-suggestions");
+      const [unmatched, customers, receipts] = await Promise.all([
+        storage.getUnmatchedCounterparties(),
+        storage.getCustomers(),
+        storage.getUnassignedReceipts(),
+      ]);
+      const identifiers = collectCounterpartyIdentifiers(receipts);
+
+      res.json(unmatched.map((u) => ({
+        ...u,
+        suggestions: suggestDebtors(u.counterpartyName, customers, identifiers.get(u.counterpartyName)),
+      })));
     } catch (error) {
       console.error("Error fetching unmatched counterparties:", error);
       res.status(500).json({ message: "Failed to fetch unmatched data" });
     }
   });
 
+  app.get("/api/counterparty-mappings/suggestions", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { counterpartyName } = req.query;
+      if (!counterpartyName || typeof counterpartyName !== "string") {
+        return res.status(400).json({ message: "counterpartyName is required" });
+      }
+
+      const { collectCounterpartyIdentifiers, suggestDebtors } = await import("./counterparty-suggestions");
+      const [customers, receipts] = await Promise.all([
+        storage.getCustomers(),
+        storage.getReceiptsByCounterparty(counterpartyName),
+      ]);
+      const identifiers = collectCounterpartyIdentifiers(receipts).get(counterpartyName);
+
+      res.json(suggestDebtors(counterpartyName, customers, identifiers));
+    } catch (error) {
+      console.error("Error fetching counterparty suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch suggestions" });
+    }
+  });
+
+  // Creates mappings for all unmatched counterparties with an unambiguous suggestion
+  // above the threshold and assigns their open receipts right away
+  app.post("/api/counterparty-mappings/auto-apply", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const {
+        collectCounterpartyIdentifiers,
+        suggestDebtors,
+        getAutoApplicableSuggestion,
+        DEFAULT_AUTO_APPLY_CONFIDENCE,
+        MIN_SUGGESTION_CONFIDENCE,
+      } = await import("./counterparty-suggestions");
+
+      const threshold = req.body.threshold !== undefined ? Number(req.body.threshold) : DEFAULT_AUTO_APPLY_CONFIDENCE;
+      if (isNaN(threshold) || threshold < MIN_SUGGESTION_CONFIDENCE || threshold > 1) {
+        return res.status(400).json({ message: `threshold must be between ${MIN_SUGGESTION_CONFIDENCE} and 1` });
+      }
+
+      const [unmatched, customers, receipts] = await Promise.all([
+        storage.getUnmatchedCounterparties(),
+        storage.getCustomers(),
+        storage.getUnassignedReceipts(),
+      ]);
+      const identifiers = collectCounterpartyIdentifiers(receipts);
+
+      const created: { counterpartyName: string; debtorPostingaccountNumber: number; confidence: number }[] = [];
+      for (const { counterpartyName } of unmatched) {
+        const suggestion = getAutoApplicableSuggestion(
+          suggestDebtors(counterpartyName, customers, identifiers.get(counterpartyName)),
+          threshold
+        );
+        if (!suggestion) continue;
+
+        await storage.createCounterpartyMapping({
+          counterpartyName,
+          debtorPostingaccountNumber: suggestion.debtorPostingaccountNumber,
+        });
+        created.push({
+          counterpartyName,
+          debtorPostingaccountNumber: suggestion.debtorPostingaccountNumber,
+          confidence: suggestion.confidence,
+        });
+      }
+
+      const debtorByName = new Map(created.map((c) => [c.counterpartyName, c.debtorPostingaccountNumber]));
+      let applied = 0;
+      for (const receipt of receipts) {
+        const debtorNumber = debtorByName.get((receipt.rawJson as any)?.counterparty);
+        if (debtorNumber) {
+          await storage.updateReceiptDebtor(receipt.id, debtorNumber, "mapping");
+          applied++;
+        }
+      }
+
+      res.json({
+        message: `${created.length} Zuordnungen übernommen, ${applied} Rechnungen zugeordnet`,
+        mappings: created,
+        applied,
+      });
+    } catch (error) {
+      console.error("Error auto-applying counterparty suggestions:", error);
+      res.status(500).json({ message: "Failed to apply suggestions" });
+    }
+  });
+
   app.get("/api/counterparty-mappings/invoices-by-counterparty", isAuthenticated, isAdmin, async (req, res) => {
     try {
       const { counterpartyName } = req.query;
@@ -756,30 +913,16 @@ export async function registerRoutes(
       
       if (updateBhb) {
         try {
-          const apiKey = await storage.getSetting("BHB_API_KEY");
-          const apiClient = await storage.getSetting("BHB_API_CLIENT");
-          const apiSecret = await storage.getSetting("BHB_API_SECRET");
+          const { getBhbCredentials } = await import("./bhb-client");
+          const { updateDebtor } = await import("./bhb-api");
+          const credentials = await getBhbCredentials();
           
-          if (apiKey && apiClient && apiSecret) {
-            const baseUrl = await storage.getSetting("BHB_BASE_URL") || "https://webapp.buchhaltungsbutler.de/api/v1";
-            const authHeader = "Basic " + Buffer.from(`${apiClient}:${apiSecret}`).toString("base64");
-            
-            const bhbPayload = {
-              api_key: apiKey,
-              postingaccount_number: debtorPostingaccountNumber,
+          if (credentials) {
+            const response = await updateDebtor(credentials, {
+              postingaccountNumber: debtorPostingaccountNumber,
               name: counterpartyName,
-            };
-            
-            const response = await fetch(`${baseUrl}/settings/update/debtor`, {
-              method: "POST",
-              headers: {
-                "Authorization": authHeader,
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify(bhbPayload),
             });
-            
-            const data = await response.json();
+            const data = response.data;
             
             if (response.ok && data.success) {
               bhbUpdateResult = { success: true, message: "Debitorname in BHB aktualisiert" };
@@ -789,13 +932,13 @@ export async function registerRoutes(
                 await storage.updateCustomer(customer.id, { 
                   displayName: counterpartyName,
                   lastBhbSync: new Date() 
-                } as any);
+                } as any, { source: "user", changedBy: req.session?.userId || "unknown" });
               }
             } else {
               console.error("BHB update debtor error (mapping):", {
                 status: response.status,
                 response: data,
-                payload: bhbPayload,
+                payload: response.payload,
               });
               
               let errorDetail = data.message || "Unbekannter Fehler";
@@ -858,7 +1001,7 @@ export async function registerRoutes(
           if (counterpartyName) {
             const mapping = mappings.find((m) => m.counterpartyName === counterpartyName);
             if (mapping) {
-              await storage.updateReceiptDebtor(receipt.id, mapping.debtorPostingaccountNumber);
+              await storage.updateReceiptDebtor(receipt.id, mapping.debtorPostingaccountNumber, "mapping");
               applied++;
             }
           }
@@ -913,14 +1056,28 @@ export async function registerRoutes(
   app.patch("/api/invoices/:id", isAuthenticated, isInternal, async (req, res) => {
     try {
       const { id } = req.params;
-      const { paymentStatus, dunningLevel } = req.body;
+      
+      const parsed = updateInvoiceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join(", ") 
+        });
+      }
+      const { paymentStatus, dunningLevel, onHold, holdReason, holdUntil, holdOwner } = parsed.data;
       
       const invoice = await storage.getReceipt(id);
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
       }
       
-      const updated = await storage.updateReceiptStatus(id, { paymentStatus, dunningLevel });
+      let updated = invoice;
+      if (paymentStatus !== undefined || dunningLevel !== undefined) {
+        updated = (await storage.updateReceiptStatus(id, { paymentStatus, dunningLevel })) || updated;
+      }
+      if (onHold !== undefined) {
+        const hold = onHold ? { reason: holdReason || "", until: holdUntil ?? null, owner: holdOwner || null } : null;
+        updated = (await storage.updateReceiptHold(id, hold, req.session?.userId || "unknown")) || updated;
+      }
       res.json(updated);
     } catch (error) {
       console.error("Error updating invoice:", error);
@@ -928,6 +1085,17 @@ export async function registerRoutes(
     }
   });
 
+  // Dunning letters actually sent for a single invoice
+  app.get("/api/invoices/:id/dunning-history", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const events = await storage.getDunningEvents(req.params.id);
+      res.json(events);
+    } catch (error) {
+      console.error("Error getting invoice dunning history:", error);
+      res.status(500).json({ message: "Failed to get dunning history" });
+    }
+  });
+
   app.get("/api/invoices/:id/pdf", isAuthenticated, async (req, res) => {
     try {
       const { id } = req.params;
@@ -951,17 +1119,14 @@ export async function registerRoutes(
         }
       }
 
-      const apiKey = await storage.getSetting("BHB_API_KEY");
-      const apiClient = await storage.getSetting("BHB_API_CLIENT");
-      const apiSecret = await storage.getSetting("BHB_API_SECRET");
+      const { getBhbCredentials } = await import("./bhb-client");
+      const { getReceiptFile } = await import("./bhb-api");
+      const credentials = await getBhbCredentials();
 
-      if (!apiKey || !apiClient || !apiSecret) {
+      if (!credentials) {
         return res.status(400).json({ message: "BHB API nicht konfiguriert" });
       }
 
-      const baseUrl = await storage.getSetting("BHB_BASE_URL") || "https://webapp.buchhaltungsbutler.de/api/v1";
-      const authHeader = "Basic " + Buffer.from(`${apiClient}:${apiSecret}`).toString("base64");
-
       const invoiceNumber = invoice.invoiceNumber;
       const idByCustomer = invoice.idByCustomer;
       
@@ -972,65 +1137,18 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Keine BHB-ID für diese Rechnung vorhanden" });
       }
       
-      // id_by_customer is a PATH parameter, not a body parameter!
-      // Endpoint pattern: POST /receipts/get/{id_by_customer}
-      const requestBody = {
-        api_key: apiKey,
-        get_file: true,
-      };
-      
-      const endpoint = `${baseUrl}/receipts/get/${idByCustomer}`;
-      console.log("PDF request to endpoint:", endpoint);
-      // SECURITY: Don't log API keys
-      console.log("PDF request - fetching with get_file: true");
-      
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": authHeader,
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      const responseText = await response.text();
-      console.log("BHB API response status:", response.status, "Body length:", responseText.length);
-      
-      let data: any;
-      try {
-        data = JSON.parse(responseText);
-      } catch (e) {
-        console.error("BHB API returned non-JSON response:", responseText.substring(0, 500));
-        return res.status(502).json({ message: "BHB API gab ungültige Antwort zurück" });
-      }
-      
-      console.log("BHB API response keys:", Object.keys(data));
-      console.log("BHB API response success:", data.success);
-      
-      if (!response.ok || data.error || data.success === false) {
-        console.error("BHB API error - Status:", response.status, "Error code:", data.error_code, "Message:", data.message);
-        return res.status(502).json({ message: data.error?.message || data.message || "Fehler beim Abrufen der PDF von BHB" });
-      }
-      
-      // The response should contain the receipt data directly (not in data.data array)
-      const receiptData = data.data || data;
-      console.log("Receipt data keys:", Object.keys(receiptData));
-      console.log("Has file_content:", !!receiptData.file_content);
-      console.log("Has file:", !!receiptData.file);
+      const file = await getReceiptFile(credentials, idByCustomer);
       
-      // Try different possible field names for the file content
-      const fileContent = receiptData.file_content || receiptData.file || receiptData.content || receiptData.document || receiptData.file_base64;
-      
-      if (!fileContent) {
-        console.log("No file content found. Full response:", JSON.stringify(data).substring(0, 1000));
+      if (!file.fileContent) {
+        console.log("No file content found for receipt", idByCustomer);
         return res.status(404).json({ 
           message: "PDF konnte nicht von BHB geladen werden. Die Rechnung hat möglicherweise keine angehängte Datei.",
-          filename: receiptData.filename || invoice.invoiceNumber
+          filename: file.filename || invoice.invoiceNumber
         });
       }
 
-      const pdfBuffer = Buffer.from(fileContent, "base64");
-      const filename = receiptData.filename || invoice.invoiceNumber || `rechnung_${idByCustomer}`;
+      const pdfBuffer = Buffer.from(file.fileContent, "base64");
+      const filename = file.filename || invoice.invoiceNumber || `rechnung_${idByCustomer}`;
 
       res.setHeader("Content-Type", "application/pdf");
       res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
@@ -1038,6 +1156,10 @@ export async function registerRoutes(
       res.send(pdfBuffer);
     } catch (error) {
       console.error("Error downloading PDF:", error);
+      const { BhbApiError } = await import("./bhb-client");
+      if (error instanceof BhbApiError) {
+        return res.status(error.circuitOpen ? 503 : 502).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to download PDF" });
     }
   });
@@ -1069,20 +1191,25 @@ export async function registerRoutes(
       // Get invoices for this customer
       const receipts = await storage.getReceipts({ debtorNumber: customer.debtorPostingaccountNumber });
       
-      // Get dunning rules and EZB base rate for interest/fee calculation
+      // Get dunning rules and EZB base rate history for interest/fee calculation
       const dunningRules = await storage.getDunningRulesForCustomer(id);
-      const ezbBaseRateSetting = await storage.getSetting("EZB_BASE_RATE");
-      const ezbBaseRate = ezbBaseRateSetting ? parseFloat(ezbBaseRateSetting) : 2.82;
+      const baseRates = await getBaseRateHistoryFromStorage(storage);
+      
+      const history = await getReceiptHistory(storage, receipts.map((r) => r.id));
       
       // Use the same calculation function as the overdue invoices API
       const { calculateOverdueInvoices: calcOverdue } = await import("./dunning-email-service");
-      const overdueInvoices = calcOverdue(receipts, customer, dunningRules || null, stage, ezbBaseRate);
+      const overdueInvoices = calcOverdue(receipts, customer, dunningRules || null, stage, baseRates, history);
       
       // Calculate totals including fees
       const totalOpen = overdueInvoices.reduce((sum, inv) => sum + inv.amountOpen, 0);
       const totalInterest = overdueInvoices.reduce((sum, inv) => sum + inv.interestAmount, 0);
       const totalFees = overdueInvoices.reduce((sum, inv) => sum + inv.feeAmount, 0);
+      const totalLumpSum = overdueInvoices.reduce((sum, inv) => sum + inv.lumpSumAmount, 0);
       const totalWithAll = overdueInvoices.reduce((sum, inv) => sum + inv.totalWithInterest, 0);
+      // Open credit notes are offset against the amount due
+      const creditNotes = receipts.filter((r) => isCreditNote(r) && r.paymentStatus !== "cancelled");
+      const openCredit = getOpenCredit(creditNotes);
       
       // Setup layout
       const layout = createPDFLayout(orientation);
@@ -1221,6 +1348,14 @@ export async function registerRoutes(
           doc.text(formatCurrencyPDF(inv.totalWithInterest), x - 8, y, { width: scaledColWidths[7], align: "right" });
           
           y += rowHeight;
+          
+          // Partial payments below the invoice; interest on them stops at the payment date
+          if (inv.payments.length > 0) {
+            doc.fontSize(7.5).fillColor("#718096");
+            doc.text(formatPaymentsPDF(inv.payments), startX + 15, y - 3, { width: tableWidth - 20, lineBreak: false, ellipsis: true });
+            doc.fontSize(9).fillColor("#333333");
+            y += rowHeight - 4;
+          }
         });
         
         // Separator line
@@ -1240,6 +1375,55 @@ export async function registerRoutes(
         doc.text(formatCurrencyPDF(totalFees), x - 8, y, { width: scaledColWidths[6], align: "right" });
         x += scaledColWidths[6];
         doc.text(formatCurrencyPDF(totalWithAll), x - 8, y, { width: scaledColWidths[7], align: "right" });
+        
+        const labelWidth = scaledColWidths.slice(0, 7).reduce((a, b) => a + b, 0);
+        const totalX = startX + 5 + labelWidth;
+        
+        // Verzugspauschale as its own line, charged once per invoice
+        if (totalLumpSum > 0) {
+          y += rowHeight + 2;
+          doc.font("Helvetica").fontSize(9).fillColor("#333333");
+          doc.text(
+            `Verzugspauschale gem. § 288 Abs. 5 BGB (${overdueInvoices.filter(inv => inv.lumpSumAmount > 0).length} Rechnungen)`,
+            startX + 5,
+            y,
+            { width: labelWidth }
+          );
+          doc.text(formatCurrencyPDF(totalLumpSum), totalX - 8, y, { width: scaledColWidths[7], align: "right" });
+          
+          y += rowHeight + 2;
+          doc.font("Helvetica-Bold").fontSize(10).fillColor("#1a1a1a");
+          doc.text("Gesamtbetrag:", startX + 5, y, { width: labelWidth });
+          doc.text(formatCurrencyPDF(totalWithAll + totalLumpSum), totalX - 8, y, { width: scaledColWidths[7], align: "right" });
+        }
+        
+        if (openCredit > 0) {
+          doc.font("Helvetica").fontSize(9).fillColor("#333333");
+          for (const note of creditNotes) {
+            if (y > dims.height - layout.margins.bottom - 80) {
+              doc.addPage();
+              y = layout.margins.top;
+            }
+            y += rowHeight;
+            doc.text(
+              `abzgl. Gutschrift ${note.invoiceNumber || note.idByCustomer} vom ${formatDatePDF(note.receiptDate)}`,
+              startX + 5,
+              y,
+              { width: labelWidth }
+            );
+            doc.text(formatCurrencyPDF(getSignedOpenAmount(note)), totalX - 8, y, { width: scaledColWidths[7], align: "right" });
+          }
+          
+          y += rowHeight + 2;
+          doc.font("Helvetica-Bold").fontSize(10).fillColor("#1a1a1a");
+          doc.text("Verbleibender Betrag:", startX + 5, y, { width: labelWidth });
+          doc.text(formatCurrencyPDF(totalWithAll + totalLumpSum - openCredit), totalX - 8, y, { width: scaledColWidths[7], align: "right" });
+        }
+      }
+      
+      if (overdueInvoices.length === 0 && openCredit > 0) {
+        doc.moveDown(0.5);
+        doc.text(`Guthaben aus offenen Gutschriften: ${formatCurrencyPDF(openCredit)}`);
       }
       
       // Interest rate info
@@ -1277,18 +1461,11 @@ export async function registerRoutes(
       const customers = await storage.getCustomers();
       const allReceipts = await storage.getReceipts();
       
-      // Get all dunning rules for interest calculations
+      // Get all dunning rules and the base rate history for interest calculations
       const allDunningRules = await storage.getDunningRules();
-      
-      // Get minimum days for stage filter
-      const stageMinDays: Record<string, number> = {
-        all: 0,
-        reminder: 0,
-        dunning1: 14,
-        dunning2: 28,
-        dunning3: 42,
-      };
-      const minDays = stageMinDays[stage] || 0;
+      const baseRates = await getBaseRateHistoryFromStorage(storage);
+      const history = await getReceiptHistory(storage, allReceipts.map((r) => r.id));
+      const today = new Date();
       
       // Build debtor report data
       interface DebtorReport {
@@ -1300,6 +1477,8 @@ export async function registerRoutes(
           dueDate: Date;
           amountOpen: number;
           daysOverdue: number;
+          dunningLevel: string;
+          onHold: boolean;
           interestAmount: number;
           totalWithInterest: number;
         }[];
@@ -1313,33 +1492,45 @@ export async function registerRoutes(
       for (const customer of customers) {
         const customerReceipts = allReceipts.filter(
           (r) => r.debtorPostingaccountNumber === customer.debtorPostingaccountNumber && 
-          r.paymentStatus !== "paid"
+          r.paymentStatus !== "paid" &&
+          r.paymentStatus !== "cancelled" &&
+          !isCreditNote(r)
         );
         
         if (customerReceipts.length === 0) continue;
         
         // Get interest rate for this customer
         const dunningRules = allDunningRules.find((r) => r.customerId === customer.id);
-        const interestRate = parseFloat(dunningRules?.interestRatePercent?.toString() || "0");
+        const interestPolicy = getInterestPolicy(customer, dunningRules);
+        const interestRate = getAnnualRateAt(interestPolicy, baseRates, today);
         
         const invoices = customerReceipts
           .map((inv) => {
-            const daysOverdue = calculateDaysOverdue(inv.dueDate, inv.receiptDate, 14);
-            const amountOpen = parseFloat(inv.amountOpen?.toString() || "0");
-            const interestAmount = calculateInterest(amountOpen, daysOverdue, interestRate);
+            const daysOverdue = calculateDaysOverdue(inv.dueDate, inv.receiptDate, customer.paymentTermDays);
+            const effectiveDueDate = getEffectiveDueDate(inv.dueDate, inv.receiptDate, customer.paymentTermDays);
+            const interest = effectiveDueDate
+              ? calculateReceiptInterest(inv, history, effectiveDueDate, today, interestPolicy, baseRates)
+              : null;
+            const amountOpen = interest ? interest.principalOpen : parseFloat(inv.amountOpen?.toString() || "0");
+            // No interest is claimed while a Mahnsperre is in place
+            const onHold = isOnHold(inv, today);
+            const interestAmount = interest && !onHold ? interest.interestOpen : 0;
             return {
               invoiceNumber: inv.invoiceNumber || "-",
               receiptDate: inv.receiptDate ? new Date(inv.receiptDate) : new Date(),
               dueDate: inv.dueDate ? new Date(inv.dueDate) : (inv.receiptDate ? new Date(inv.receiptDate) : new Date()),
               amountOpen,
               daysOverdue,
+              dunningLevel: inv.dunningLevel || "none",
+              onHold,
               interestAmount,
               totalWithInterest: amountOpen + interestAmount,
             };
           })
           .filter((inv) => {
             if (onlyOverdue && inv.daysOverdue <= 0) return false;
-            if (stage !== "all" && inv.daysOverdue < minDays) return false;
+            // Stage filter uses the stage actually sent, not the theoretical one
+            if (stage !== "all" && (inv.onHold || getStageIndex(inv.dunningLevel) < getStageIndex(stage))) return false;
             return true;
           })
           .sort((a, b) => b.daysOverdue - a.daysOverdue);
@@ -1530,7 +1721,7 @@ export async function registerRoutes(
             x += colWidths[1];
             doc.text(formatDatePDF(inv.dueDate), x, y + 1, { width: colWidths[2] });
             x += colWidths[2];
-            doc.text(inv.daysOverdue > 0 ? `${inv.daysOverdue}` : "-", x, y + 1, { width: colWidths[3] });
+            doc.text(inv.onHold ? "Sperre" : inv.daysOverdue > 0 ? `${inv.daysOverdue}` : "-", x, y + 1, { width: colWidths[3] });
             x += colWidths[3];
             doc.text(formatCurrencyPDF(inv.amountOpen), x - 8, y + 1, { width: colWidths[4], align: "right" });
             x += colWidths[4];
@@ -1561,7 +1752,14 @@ export async function registerRoutes(
           if (report.interestRate > 0) {
             y += 12;
             doc.font("Helvetica").fontSize(7).fillColor("#718096");
-            doc.text(`Zinssatz: ${report.interestRate}% p.a.`, startX + 5, y);
+            doc.text(`Zinssatz: ${report.interestRate.toFixed(2)}% p.a.`, startX + 5, y);
+          }
+          
+          const heldCount = report.invoices.filter((inv) => inv.onHold).length;
+          if (heldCount > 0) {
+            y += 10;
+            doc.font("Helvetica").fontSize(7).fillColor("#718096");
+            doc.text(`Sperre: ${heldCount} Rechnung${heldCount !== 1 ? "en" : ""} mit Mahnsperre, ohne Zinsen`, startX + 5, y);
           }
           
           doc.y = y + 18;
@@ -1664,6 +1862,9 @@ export async function registerRoutes(
         graceDays: parsed.data.graceDays,
         interestRatePercent: parsed.data.interestRatePercent,
         useLegalRate: parsed.data.useLegalRate,
+        autoDunningEnabled: parsed.data.autoDunningEnabled,
+        lumpSumEnabled: parsed.data.lumpSumEnabled,
+        lumpSumAmount: parsed.data.lumpSumAmount,
         stages: parsed.data.stages || defaultStages,
       });
       res.json(rules);
@@ -1679,9 +1880,10 @@ export async function registerRoutes(
       const apiClient = await storage.getSetting("BHB_API_CLIENT");
       const apiSecret = await storage.getSetting("BHB_API_SECRET");
       const baseUrl = await storage.getSetting("BHB_BASE_URL") || "https://webapp.buchhaltungsbutler.de/api/v1";
-      const lastSync = await storage.getSetting("BHB_LAST_RECEIPTS_SYNC");
+      const lastSync = await storage.getSetting("LAST_SYNC");
       
       const isConfigured = !!(apiKey && apiClient && apiSecret);
+      const { getBhbCircuitState } = await import("./bhb-client");
       
       res.json({
         baseUrl,
@@ -1690,6 +1892,7 @@ export async function registerRoutes(
         hasApiKey: !!apiKey,
         hasApiClient: !!apiClient,
         hasApiSecret: !!apiSecret,
+        circuit: getBhbCircuitState(),
       });
     } catch (error) {
       console.error("Error fetching BHB settings:", error);
@@ -1707,6 +1910,9 @@ export async function registerRoutes(
       if (apiSecret) await storage.setSetting("BHB_API_SECRET", apiSecret, userId);
       if (baseUrl) await storage.setSetting("BHB_BASE_URL", baseUrl, userId);
       
+      const { resetBhbCircuit } = await import("./bhb-client");
+      resetBhbCircuit();
+      
       res.json({ message: "Einstellungen gespeichert" });
     } catch (error) {
       console.error("Error saving BHB settings:", error);
@@ -1716,43 +1922,31 @@ export async function registerRoutes(
 
   app.post("/api/settings/bhb/test", isAuthenticated, isInternal, async (req, res) => {
     try {
-      const apiKey = await storage.getSetting("BHB_API_KEY");
-      const apiClient = await storage.getSetting("BHB_API_CLIENT");
-      const apiSecret = await storage.getSetting("BHB_API_SECRET");
+      const { bhbPost, getBhbCredentials } = await import("./bhb-client");
+      const credentials = await getBhbCredentials();
       
-      if (!apiKey || !apiClient || !apiSecret) {
+      if (!credentials) {
         return res.json({
           success: false,
           message: "BHB API-Zugangsdaten nicht konfiguriert. Bitte geben Sie die Zugangsdaten in den Einstellungen ein.",
         });
       }
       
-      const baseUrl = await storage.getSetting("BHB_BASE_URL") || "https://webapp.buchhaltungsbutler.de/api/v1";
-      const authHeader = "Basic " + Buffer.from(`${apiClient}:${apiSecret}`).toString("base64");
-      
-      const response = await fetch(`${baseUrl}/receipts/get`, {
-        method: "POST",
-        headers: {
-          "Authorization": authHeader,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          api_key: apiKey,
-          list_direction: "outbound",
-          payment_status: "unpaid",
-          limit: 10,
-        }),
-      });
+      // No retries: the user is waiting for the result
+      const response = await bhbPost(credentials, "/receipts/get", {
+        list_direction: "outbound",
+        payment_status: "unpaid",
+        limit: 10,
+      }, { maxRetries: 0 });
       
       if (!response.ok) {
-        const errorText = await response.text();
         return res.json({
           success: false,
-          message: `BHB API Fehler: ${response.status} - ${errorText}`,
+          message: `BHB API Fehler: ${response.status} - ${JSON.stringify(response.data)}`,
         });
       }
       
-      const data = await response.json();
+      const data = response.data;
       const receipts = data.data || data.receipts || [];
       
       res.json({
@@ -1983,9 +2177,9 @@ export async function registerRoutes(
   // EZB base rate settings
   app.get("/api/settings/interest", isAuthenticated, isInternal, async (req, res) => {
     try {
-      const ezbBaseRate = await storage.getSetting("EZB_BASE_RATE");
+      const baseRates = await getBaseRateHistoryFromStorage(storage);
       res.json({
-        ezbBaseRate: ezbBaseRate ? parseFloat(ezbBaseRate) : 2.82,
+        ezbBaseRate: getBaseRateAt(baseRates),
         lastUpdated: await storage.getSetting("EZB_BASE_RATE_UPDATED"),
       });
     } catch (error) {
@@ -2002,7 +2196,10 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Ungültiger Basiszinssatz" });
       }
       
+      // The single setting remains the fallback for periods without a history entry;
+      // the rate itself applies from the start of the current half-year
       await storage.setSetting("EZB_BASE_RATE", ezbBaseRate.toString());
+      await storage.upsertEzbBaseRate(getHalfYearStart(), ezbBaseRate, req.session?.userId);
       await storage.setSetting("EZB_BASE_RATE_UPDATED", new Date().toISOString());
       
       res.json({ success: true, message: "Basiszinssatz gespeichert" });
@@ -2012,6 +2209,88 @@ export async function registerRoutes(
     }
   });
 
+  // EZB base rate history (one entry per half-year)
+  app.get("/api/settings/base-rates", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const rates = await storage.getEzbBaseRates();
+      const baseRates = await getBaseRateHistoryFromStorage(storage);
+      const currentPeriodStart = getHalfYearStart();
+      res.json({
+        rates,
+        currentPeriodStart,
+        currentPeriodCovered: rates.some((r) => r.validFrom === currentPeriodStart),
+        currentRate: getBaseRateAt(baseRates),
+        fallbackRate: baseRates.fallbackRate,
+      });
+    } catch (error) {
+      console.error("Error fetching base rates:", error);
+      res.status(500).json({ message: "Failed to fetch base rates" });
+    }
+  });
+
+  app.post("/api/settings/base-rates", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = inputEzbBaseRateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const errors = parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join(", ");
+        return res.status(400).json({ message: `Validierungsfehler: ${errors}` });
+      }
+      
+      const rate = await storage.upsertEzbBaseRate(parsed.data.validFrom, parsed.data.ratePercent, req.session?.userId);
+      res.json(rate);
+    } catch (error) {
+      console.error("Error saving base rate:", error);
+      res.status(500).json({ message: "Fehler beim Speichern" });
+    }
+  });
+
+  app.delete("/api/settings/base-rates/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteEzbBaseRate(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Basiszinssatz nicht gefunden" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting base rate:", error);
+      res.status(500).json({ message: "Fehler beim Löschen" });
+    }
+  });
+
+  const baseRateUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 1024 * 1024, // 1MB is plenty for the Bundesbank series
+    },
+  });
+
+  app.post("/api/settings/base-rates/import", isAuthenticated, isAdmin, baseRateUpload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Keine Datei hochgeladen" });
+      }
+      
+      const { entries, skipped } = parseBundesbankCsv(req.file.buffer.toString("utf-8"));
+      if (entries.length === 0) {
+        return res.status(400).json({ message: "Keine gültigen Basiszinssätze in der Datei gefunden" });
+      }
+      
+      for (const entry of entries) {
+        await storage.upsertEzbBaseRate(entry.validFrom, entry.ratePercent, req.session?.userId);
+      }
+      
+      res.json({
+        success: true,
+        imported: entries.length,
+        skipped,
+        message: `${entries.length} Basiszinssätze importiert${skipped > 0 ? `, ${skipped} Zeilen übersprungen` : ""}`,
+      });
+    } catch (error) {
+      console.error("Error importing base rates:", error);
+      res.status(500).json({ message: "Fehler beim Import" });
+    }
+  });
+
   // Company settings
   app.get("/api/settings/company", isAuthenticated, isInternal, async (req, res) => {
     try {
@@ -2189,16 +2468,133 @@ export async function registerRoutes(
       res.status(500).json({ message: "Fehler beim Abrufen des letzten Sync-Logs" });
     }
   });
+
+  // Single sync log with the number of detail records per entity and action
+  app.get("/api/sync-logs/:id", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const log = await storage.getSyncLog(req.params.id);
+      if (!log || log.mandantId !== getCurrentMandantId()) {
+        return res.status(404).json({ message: "Sync-Log nicht gefunden" });
+      }
+      const recordCounts = await storage.getSyncLogRecordCounts(log.id);
+      res.json({ ...log, recordCounts });
+    } catch (error) {
+      console.error("Error fetching sync log:", error);
+      res.status(500).json({ message: "Fehler beim Abrufen des Sync-Logs" });
+    }
+  });
+
+  app.get("/api/sync-logs/:id/records", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const log = await storage.getSyncLog(req.params.id);
+      if (!log || log.mandantId !== getCurrentMandantId()) {
+        return res.status(404).json({ message: "Sync-Log nicht gefunden" });
+      }
+      const entityType = req.query.entityType as string | undefined;
+      const action = req.query.action as string | undefined;
+      const records = await storage.getSyncLogRecords(log.id, { entityType, action });
+      res.json(records);
+    } catch (error) {
+      console.error("Error fetching sync log records:", error);
+      res.status(500).json({ message: "Fehler beim Abrufen der Sync-Details" });
+    }
+  });
+  
+  // Sync locks held in the current mandant, including who started the run
+  app.get("/api/sync/locks", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const { getSyncLockInfos } = await import("./sync-lock");
+      res.json(await getSyncLockInfos());
+    } catch (error) {
+      console.error("Error fetching sync locks:", error);
+      res.status(500).json({ message: "Fehler beim Abrufen der Sync-Sperren" });
+    }
+  });
+
+  // Live progress of a running sync as server-sent events
+  app.get("/api/sync-logs/:id/progress", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const { subscribeSyncProgress } = await import("./sync-progress");
+      const { id } = req.params;
+      const syncLog = await storage.getSyncLog(id);
+      if (!syncLog || syncLog.mandantId !== getCurrentMandantId()) {
+        return res.status(404).json({ message: "Sync-Log nicht gefunden" });
+      }
+
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.flushHeaders();
+
+      const send = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+
+      const unsubscribe = subscribeSyncProgress(id, (progress) => {
+        send(progress);
+        if (progress.phase === "finished" || progress.phase === "cancelled" || progress.phase === "error") {
+          res.end();
+        }
+      });
+
+      if (!unsubscribe) {
+        // Not running in this process (anymore) - report the stored outcome once
+        const log = await storage.getSyncLog(id);
+        const phaseByStatus: Record<string, string> = { success: "finished", partial: "finished", cancelled: "cancelled" };
+        send({
+          syncLogId: id,
+          phase: (log && phaseByStatus[log.status]) || "error",
+          fetched: log?.pulledCount || 0,
+          processed: (log?.createdCount || 0) + (log?.updatedCount || 0) + (log?.unchangedCount || 0),
+          created: log?.createdCount || 0,
+          updated: log?.updatedCount || 0,
+          errors: log?.errorCount || 0,
+          message: !log
+            ? "Sync-Log nicht gefunden"
+            : log.status === "running" ? "Sync wird nicht mehr ausgeführt" : undefined,
+        });
+        res.end();
+        return;
+      }
+
+      req.on("close", unsubscribe);
+    } catch (error) {
+      console.error("Error streaming sync progress:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Fehler beim Abrufen des Sync-Fortschritts" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  app.post("/api/sync-logs/:id/cancel", isAuthenticated, canEditDebtors, async (req, res) => {
+    try {
+      const { cancelSync } = await import("./sync-progress");
+      const syncLog = await storage.getSyncLog(req.params.id);
+      if (!syncLog || syncLog.mandantId !== getCurrentMandantId() || !cancelSync(syncLog.id)) {
+        return res.status(404).json({ message: "Kein laufender Sync mit dieser ID" });
+      }
+      res.json({ success: true, message: "Sync wird abgebrochen" });
+    } catch (error) {
+      console.error("Error cancelling sync:", error);
+      res.status(500).json({ message: "Fehler beim Abbrechen des Syncs" });
+    }
+  });
   
   // Sync scheduler configuration
   app.get("/api/config/sync", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { getSchedulerStatus } = await import("./scheduler");
-      const interval = await storage.getSetting("SYNC_INTERVAL_MINUTES");
+      const { getScheduleConfig, getSchedulerStatus } = await import("./scheduler");
+      const { getRecordRetentionDays } = await import("./sync-records");
+      const config = await getScheduleConfig();
+      const fullSyncHours = await storage.getSetting("INVOICE_FULL_SYNC_HOURS");
       const status = getSchedulerStatus();
       res.json({
-        intervalMinutes: interval ? parseInt(interval, 10) : 0,
+        ...config,
         enabled: status.enabled,
+        nextRuns: status.nextRuns,
+        fullSyncHours: fullSyncHours ? parseInt(fullSyncHours, 10) : 24,
+        recordRetentionDays: await getRecordRetentionDays(),
+        lastFullSync: await storage.getSetting("LAST_FULL_INVOICE_SYNC"),
       });
     } catch (error) {
       console.error("Error fetching sync config:", error);
@@ -2208,326 +2604,348 @@ export async function registerRoutes(
   
   app.post("/api/config/sync", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { enabled, intervalMinutes } = req.body;
+      const { SCHEDULED_JOBS, applyScheduleConfig, saveScheduleConfig } = await import("./scheduler");
+      const { parseCronExpression } = await import("./cron");
+      const { enabled, schedules, quietHoursStart, quietHoursEnd, fullSyncHours, recordRetentionDays } = req.body;
+      const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
       
-      if (typeof intervalMinutes !== "number" || intervalMinutes < 0) {
-        return res.status(400).json({ message: "Ungültiges Intervall" });
+      if (typeof enabled !== "boolean") {
+        return res.status(400).json({ message: "Ungültiger Wert für 'enabled'" });
+      }
+      if (!schedules || typeof schedules !== "object") {
+        return res.status(400).json({ message: "Zeitpläne fehlen" });
+      }
+      for (const job of SCHEDULED_JOBS) {
+        const expression = schedules[job];
+        if (typeof expression !== "string") {
+          return res.status(400).json({ message: `Zeitplan für '${job}' fehlt` });
+        }
+        if (expression.trim()) {
+          try {
+            parseCronExpression(expression);
+          } catch (error) {
+            return res.status(400).json({ message: `Zeitplan für '${job}': ${error instanceof Error ? error.message : error}` });
+          }
+        }
+      }
+      const quietStart = quietHoursStart || "";
+      const quietEnd = quietHoursEnd || "";
+      if ((quietStart || quietEnd) && (!timePattern.test(quietStart) || !timePattern.test(quietEnd))) {
+        return res.status(400).json({ message: "Ruhezeiten müssen im Format HH:MM angegeben werden" });
+      }
+      if (fullSyncHours !== undefined && (typeof fullSyncHours !== "number" || fullSyncHours < 1)) {
+        return res.status(400).json({ message: "Ungültiges Intervall für den Vollabgleich" });
+      }
+      if (recordRetentionDays !== undefined && (!Number.isInteger(recordRetentionDays) || recordRetentionDays < 1)) {
+        return res.status(400).json({ message: "Ungültige Aufbewahrungsdauer für Sync-Details" });
       }
       
-      // Store the configured interval (even when disabled, for later re-enabling)
-      await storage.setSetting("SYNC_INTERVAL_MINUTES", String(intervalMinutes));
-      
-      const { setSchedulerInterval } = await import("./scheduler");
-      // If enabled is false, disable scheduler by passing 0
-      // If enabled is true, use the intervalMinutes value
-      const effectiveInterval = enabled ? intervalMinutes : 0;
-      setSchedulerInterval(effectiveInterval);
+      const userId = req.session?.userId;
+      const config = {
+        enabled,
+        schedules: Object.fromEntries(
+          SCHEDULED_JOBS.map((job) => [job, (schedules[job] as string).trim().replace(/\s+/g, " ")])
+        ) as Record<typeof SCHEDULED_JOBS[number], string>,
+        quietHoursStart: quietStart,
+        quietHoursEnd: quietEnd,
+      };
+      await saveScheduleConfig(config, userId);
+      if (fullSyncHours !== undefined) {
+        await storage.setSetting("INVOICE_FULL_SYNC_HOURS", String(fullSyncHours), userId);
+      }
+      if (recordRetentionDays !== undefined) {
+        await storage.setSetting("SYNC_LOG_RECORD_RETENTION_DAYS", String(recordRetentionDays), userId);
+      }
+      applyScheduleConfig(config);
       
       res.json({ 
         success: true, 
         message: enabled 
-          ? `Automatische Synchronisation alle ${intervalMinutes} Minuten aktiviert` 
-          : "Automatische Synchronisation deaktiviert" 
+          ? "Zeitpläne gespeichert, automatische Ausführung aktiviert" 
+          : "Automatische Ausführung deaktiviert" 
       });
     } catch (error) {
       console.error("Error saving sync config:", error);
       res.status(500).json({ message: "Fehler beim Speichern der Sync-Konfiguration" });
     }
   });
-  
-  // Improved sync with logging - customers/debtors
-  app.post("/api/sync/customers-v2", isAuthenticated, canEditDebtors, async (req, res) => {
+
+  // Next runs of a cron expression, honouring the given quiet hours
+  app.get("/api/config/sync/preview", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { triggerManualSync } = await import("./scheduler");
-      const user = req.user as User;
-      const result = await triggerManualSync("debtors", user?.id || "unknown");
+      const { getUpcomingRuns } = await import("./scheduler");
+      const { parseCronExpression } = await import("./cron");
+      const expression = String(req.query.expression || "");
       
-      const debtorResult = result.debtors;
-      await storage.setSetting("LAST_SYNC_DEBTORS", new Date().toISOString());
+      let schedule;
+      try {
+        schedule = parseCronExpression(expression);
+      } catch (error) {
+        return res.json({ valid: false, message: error instanceof Error ? error.message : String(error), nextRuns: [] });
+      }
       
+      const nextRuns = getUpcomingRuns(schedule, {
+        quietHoursStart: String(req.query.quietHoursStart || ""),
+        quietHoursEnd: String(req.query.quietHoursEnd || ""),
+      }, 5);
+      res.json({ valid: true, nextRuns: nextRuns.map((run) => run.toISOString()) });
+    } catch (error) {
+      console.error("Error previewing schedule:", error);
+      res.status(500).json({ message: "Fehler bei der Zeitplan-Vorschau" });
+    }
+  });
+  
+  // Automated dunning run configuration
+  app.get("/api/config/dunning-run", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { getDunningRunConfig } = await import("./dunning-run");
+      const config = await getDunningRunConfig();
+      const lastResult = await storage.getSetting("DUNNING_RUN_LAST_RESULT");
       res.json({
-        success: true,
-        message: `${debtorResult.pulledCount} Debitoren von BHB abgerufen`,
-        created: debtorResult.createdCount,
-        updated: debtorResult.updatedCount,
-        unchanged: debtorResult.unchangedCount,
-        syncLogId: result.syncLogId,
+        ...config,
+        lastResult: lastResult ? JSON.parse(lastResult) : null,
       });
     } catch (error) {
-      console.error("Customer sync error:", error);
-      res.status(500).json({ message: `Sync-Fehler: ${error instanceof Error ? error.message : String(error)}` });
+      console.error("Error fetching dunning run config:", error);
+      res.status(500).json({ message: "Fehler beim Abrufen der Mahnlauf-Konfiguration" });
     }
   });
-  
-  // Improved sync with logging - invoices
-  app.post("/api/sync/invoices-v2", isAuthenticated, canEditDebtors, async (req, res) => {
+
+  app.post("/api/config/dunning-run", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { triggerManualSync } = await import("./scheduler");
-      const user = req.user as User;
-      const result = await triggerManualSync("invoices", user?.id || "unknown");
-      
-      const invoiceResult = result.invoices;
-      await storage.setSetting("LAST_SYNC", new Date().toISOString());
-      
+      const { enabled, requireApproval, windowStart, windowEnd, maxEmailsPerRun } = req.body;
+      const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+      if (typeof enabled !== "boolean" || typeof requireApproval !== "boolean") {
+        return res.status(400).json({ message: "Ungültiger Wert für 'enabled' oder 'requireApproval'" });
+      }
+      if (!timePattern.test(windowStart) || !timePattern.test(windowEnd)) {
+        return res.status(400).json({ message: "Zeitfenster muss im Format HH:MM angegeben werden" });
+      }
+      if (!Number.isInteger(maxEmailsPerRun) || maxEmailsPerRun < 1) {
+        return res.status(400).json({ message: "Maximale Anzahl E-Mails muss mindestens 1 sein" });
+      }
+
+      const userId = req.session?.userId;
+      await storage.setSetting("DUNNING_RUN_ENABLED", String(enabled), userId);
+      await storage.setSetting("DUNNING_RUN_REQUIRE_APPROVAL", String(requireApproval), userId);
+      await storage.setSetting("DUNNING_RUN_WINDOW_START", windowStart, userId);
+      await storage.setSetting("DUNNING_RUN_WINDOW_END", windowEnd, userId);
+      await storage.setSetting("DUNNING_RUN_MAX_EMAILS", String(maxEmailsPerRun), userId);
+
       res.json({
         success: true,
-        message: `${invoiceResult.pulledCount} Rechnungen von BHB abgerufen`,
-        created: invoiceResult.createdCount,
-        updated: invoiceResult.updatedCount,
-        unchanged: invoiceResult.unchangedCount,
-        syncLogId: result.syncLogId,
+        message: enabled ? "Automatischer Mahnlauf aktiviert" : "Automatischer Mahnlauf deaktiviert",
       });
     } catch (error) {
-      console.error("Invoice sync error:", error);
-      res.status(500).json({ message: `Sync-Fehler: ${error instanceof Error ? error.message : String(error)}` });
+      console.error("Error saving dunning run config:", error);
+      res.status(500).json({ message: "Fehler beim Speichern der Mahnlauf-Konfiguration" });
     }
   });
 
-  // Sync customers from BHB using /settings/get/debtors endpoint (legacy)
-  app.post("/api/sync/customers", isAuthenticated, canEditDebtors, async (req, res) => {
+  // Start a dunning run immediately (ignores enabled flag and time window)
+  app.post("/api/dunning/run", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const apiKey = await storage.getSetting("BHB_API_KEY");
-      const apiClient = await storage.getSetting("BHB_API_CLIENT");
-      const apiSecret = await storage.getSetting("BHB_API_SECRET");
-      
-      if (!apiKey || !apiClient || !apiSecret) {
-        return res.status(400).json({ message: "BHB API nicht konfiguriert. Bitte geben Sie die Zugangsdaten in den Einstellungen ein." });
+      const { runAutomatedDunning } = await import("./dunning-run");
+      const result = await runAutomatedDunning("manual", req.session?.userId || "unknown");
+
+      if (result.skippedReason) {
+        return res.status(400).json({ message: result.skippedReason, result });
       }
-      
-      const baseUrl = await storage.getSetting("BHB_BASE_URL") || "https://webapp.buchhaltungsbutler.de/api/v1";
-      const authHeader = "Basic " + Buffer.from(`${apiClient}:${apiSecret}`).toString("base64");
-      
-      // Use the correct endpoint for debtor master data
-      const response = await fetch(`${baseUrl}/settings/get/debtors`, {
-        method: "POST",
-        headers: {
-          "Authorization": authHeader,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          api_key: apiKey,
-          limit: 1000,
-        }),
+
+      res.json({
+        success: true,
+        message: `Mahnlauf abgeschlossen: ${result.emailsSent} gesendet, ${result.emailsFailed} fehlgeschlagen`,
+        result,
       });
+    } catch (error) {
+      console.error("Error running dunning run:", error);
+      res.status(500).json({ message: "Fehler beim Mahnlauf: " + (error as Error).message });
+    }
+  });
+
+  // Dunning proposals: dry run with approval queue
+  app.get("/api/dunning-proposals", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const proposals = await storage.getDunningProposals(status);
+      const customers = await storage.getCustomers();
       
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("BHB debtors API error:", response.status, errorText);
-        throw new Error(`BHB API Fehler: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const enrichedProposals = proposals.map((proposal) => {
+        const customer = customers.find((c) => c.id === proposal.customerId);
+        return { ...proposal, customer };
+      });
       
-      if (!data.success) {
-        throw new Error(data.message || "BHB API Fehler beim Abrufen der Debitoren");
-      }
+      res.json(enrichedProposals);
+    } catch (error) {
+      console.error("Error fetching dunning proposals:", error);
+      res.status(500).json({ message: "Fehler beim Abrufen der Mahnvorschläge" });
+    }
+  });
+
+  app.post("/api/dunning-proposals/generate", isAuthenticated, canEditDebtors, async (req, res) => {
+    try {
+      const { generateDunningProposals } = await import("./dunning-run");
+      const result = await generateDunningProposals(req.session?.userId || "unknown");
       
-      const debtors = data.data || [];
-      console.log(`BHB returned ${debtors.length} debtors from /settings/get/debtors`);
-      if (debtors.length > 0) {
-        console.log("Sample debtor:", JSON.stringify(debtors[0], null, 2));
+      res.json({
+        success: true,
+        message: `${result.proposalsCreated} Mahnvorschläge erstellt`,
+        result,
+      });
+    } catch (error) {
+      console.error("Error generating dunning proposals:", error);
+      res.status(500).json({ message: "Fehler beim Erstellen der Mahnvorschläge" });
+    }
+  });
+
+  app.post("/api/dunning-proposals/status", isAuthenticated, canEditDebtors, async (req, res) => {
+    try {
+      const parsed = updateDunningProposalStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join(", ") 
+        });
       }
       
-      let created = 0;
       let updated = 0;
-      
-      // Get all existing customers to enable matching
-      const existingCustomers = await storage.getCustomers();
-      const processedCustomerIds = new Set<string>();
-      
-      for (const debtor of debtors) {
-        const debtorNumber = parseInt(debtor.postingaccount_number || "0", 10);
-        const debtorName = debtor.name || `Debitor ${debtorNumber}`;
-        const debtorEmail = debtor.email || "";
-        
-        // Extract all BHB debtor fields + store complete raw JSON
-        const bhbData = {
-          displayName: debtorName,
-          emailContact: debtorEmail || null,
-          contactPersonName: debtor.contact_person || debtor.contactperson || null,
-          street: debtor.street || null,
-          additionalAddressline: debtor.additional_addressline || debtor.addressline2 || null,
-          zip: debtor.zip || debtor.postcode || null,
-          city: debtor.city || null,
-          country: debtor.country || null,
-          salesTaxIdEu: debtor.sales_tax_id_eu || debtor.vat_id || debtor.ustid || null,
-          uidCh: debtor.uid_ch || null,
-          iban: debtor.iban || null,
-          bic: debtor.bic || null,
-          bhbRawJson: debtor,
-          lastBhbSync: new Date(),
-        };
+      for (const id of parsed.data.ids) {
+        const proposal = await storage.getDunningProposal(id);
+        // Sent or failed proposals are final
+        if (!proposal || proposal.status === "sent" || proposal.status === "failed") continue;
         
-        if (debtorNumber > 0) {
-          // First check if we already have a customer with this debtor number
-          const existingByNumber = await storage.getCustomerByDebtorNumber(debtorNumber);
-          
-          if (existingByNumber) {
-            processedCustomerIds.add(existingByNumber.id);
-            // Always update with full BHB data
-            await storage.updateCustomer(existingByNumber.id, bhbData);
-            updated++;
-            console.log(`Updated debtor ${debtorNumber}: ${debtorName} with full BHB data`);
-          } else {
-            // Look for existing customer with 80xxx number by name match
-            const normalizedDebtorName = debtorName.toLowerCase().trim();
-            let matchedCustomer = existingCustomers.find(c => 
-              !processedCustomerIds.has(c.id) &&
-              c.debtorPostingaccountNumber >= 80000 &&
-              c.displayName.toLowerCase().trim() === normalizedDebtorName
-            );
-            
-            // Try partial match if no exact match
-            if (!matchedCustomer) {
-              matchedCustomer = existingCustomers.find(c => {
-                if (processedCustomerIds.has(c.id) || c.debtorPostingaccountNumber < 80000) {
-                  return false;
-                }
-                const portalName = c.displayName.toLowerCase().trim();
-                return portalName.includes(normalizedDebtorName) || 
-                       normalizedDebtorName.includes(portalName);
-              });
-            }
-            
-            if (matchedCustomer) {
-              // Found a customer with auto-generated number - update to real BHB number
-              const oldDebtorNumber = matchedCustomer.debtorPostingaccountNumber;
-              const customerId = matchedCustomer.id;
-              console.log(`Updating customer "${matchedCustomer.displayName}" from ${oldDebtorNumber} to ${debtorNumber}`);
-              
-              processedCustomerIds.add(customerId);
-              
-              // Atomically update receipts AND customer in a single transaction with full BHB data
-              const result = await storage.updateCustomerDebtorNumberAtomic(
-                customerId,
-                oldDebtorNumber,
-                debtorNumber,
-                {
-                  debtorPostingaccountNumber: debtorNumber,
-                  ...bhbData,
-                }
-              );
-              console.log(`Updated ${result.receiptsUpdated} receipts from debtor ${oldDebtorNumber} to ${debtorNumber}`);
-              updated++;
-              
-              // Update in-place to prevent stale data
-              matchedCustomer.debtorPostingaccountNumber = debtorNumber;
-              matchedCustomer.displayName = debtorName;
-            } else {
-              // No matching customer found - create new one with full BHB data
-              console.log(`Creating new debtor ${debtorNumber}: ${debtorName}`);
-              await storage.createCustomer({
-                debtorPostingaccountNumber: debtorNumber,
-                ...bhbData,
-                isActive: true,
-              });
-              created++;
-            }
-          }
-        }
+        await storage.updateDunningProposal(id, {
+          status: parsed.data.status,
+          decidedBy: req.session?.userId || null,
+          decidedAt: new Date(),
+        });
+        updated++;
       }
       
-      res.json({ 
-        message: `${created} neue Debitoren erstellt, ${updated} aktualisiert`,
-        created,
-        updated,
-        total: debtors.length,
-      });
-    } catch (error: any) {
-      console.error("Customer sync error:", error);
-      res.status(500).json({ message: error.message || "Synchronisation fehlgeschlagen" });
+      res.json({ success: true, updated });
+    } catch (error) {
+      console.error("Error updating dunning proposals:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren der Mahnvorschläge" });
     }
   });
 
-  app.post("/api/sync/receipts", isAuthenticated, isInternal, async (req, res) => {
+  app.post("/api/dunning-proposals/send-approved", isAuthenticated, canEditDebtors, async (req, res) => {
     try {
-      const apiKey = await storage.getSetting("BHB_API_KEY");
-      const apiClient = await storage.getSetting("BHB_API_CLIENT");
-      const apiSecret = await storage.getSetting("BHB_API_SECRET");
+      const { sendApprovedProposals } = await import("./dunning-run");
+      const result = await sendApprovedProposals(req.session?.userId || "unknown");
       
-      if (!apiKey || !apiClient || !apiSecret) {
-        return res.status(400).json({ message: "BHB API nicht konfiguriert. Bitte geben Sie die Zugangsdaten in den Einstellungen ein." });
+      if (result.skippedReason) {
+        return res.status(400).json({ message: result.skippedReason, result });
       }
       
-      const baseUrl = await storage.getSetting("BHB_BASE_URL") || "https://webapp.buchhaltungsbutler.de/api/v1";
-      const authHeader = "Basic " + Buffer.from(`${apiClient}:${apiSecret}`).toString("base64");
+      res.json({
+        success: true,
+        message: `${result.emailsSent} Mahnungen gesendet, ${result.emailsFailed} fehlgeschlagen`,
+        result,
+      });
+    } catch (error) {
+      console.error("Error sending approved dunning proposals:", error);
+      res.status(500).json({ message: "Fehler beim Versand der genehmigten Mahnvorschläge" });
+    }
+  });
+
+  // Improved sync with logging - customers/debtors
+  app.post("/api/sync/customers-v2", isAuthenticated, canEditDebtors, async (req, res) => {
+    try {
+      const { triggerManualSync } = await import("./scheduler");
+      const result = await triggerManualSync("debtors", req.session?.userId || "unknown");
       
-      let offset = 0;
-      const limit = 500;
-      let hasMore = true;
-      let totalSynced = 0;
+      const debtorResult = result.debtors;
+      await storage.setSetting("LAST_SYNC_DEBTORS", new Date().toISOString());
       
-      while (hasMore) {
-        const response = await fetch(`${baseUrl}/receipts/get`, {
-          method: "POST",
-          headers: {
-            "Authorization": authHeader,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            api_key: apiKey,
-            list_direction: "outbound",
-            limit,
-            offset,
-          }),
-        });
-        
-        if (!response.ok) {
-          throw new Error(`BHB API error: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        const receipts = data.data || data.receipts || [];
-        
-        for (const receipt of receipts) {
-          const idByCustomer = receipt.id_by_customer || receipt.id?.toString() || "";
-          
-          const amountTotal = parseFloat(receipt.amount?.toString() || "0");
-          const amountPaid = parseFloat(receipt.amount_paid?.toString() || "0");
-          // For outbound invoices (Ausgangsbelege), amount is negative, amount_paid is positive
-          // Use absolute values for correct open amount calculation
-          const absTotal = Math.abs(amountTotal);
-          const amountOpen = Math.max(0, absTotal - amountPaid);
-          // Invoice is paid if amount_paid covers the absolute total
-          const paymentStatus = amountPaid >= absTotal && absTotal > 0 ? "paid" : "unpaid";
-          
-          // Extract debtor number from nested counterparty/debtor object (for outbound invoices)
-          const debtorNumber = extractDebtorNumber(receipt);
-          
-          await storage.upsertReceipt({
-            idByCustomer,
-            debtorPostingaccountNumber: debtorNumber,
-            invoiceNumber: receipt.invoicenumber || receipt.invoice_number || null,
-            receiptDate: receipt.date ? new Date(receipt.date) : null,
-            dueDate: receipt.due_date ? new Date(receipt.due_date) : null,
-            amountTotal: absTotal.toFixed(2), // Store absolute value for display
-            amountOpen: amountOpen.toFixed(2),
-            paymentStatus,
-            rawJson: receipt,
-          });
-          
-          totalSynced++;
-        }
-        
-        if (receipts.length < limit) {
-          hasMore = false;
-        } else {
-          offset += limit;
-        }
+      res.json({
+        success: true,
+        message: `${debtorResult.pulledCount} Debitoren von BHB abgerufen (${debtorResult.pages?.length || 1} Seiten)`,
+        created: debtorResult.createdCount,
+        updated: debtorResult.updatedCount,
+        unchanged: debtorResult.unchangedCount,
+        pageLimitReached: debtorResult.pageLimitReached || false,
+        syncLogId: result.syncLogId,
+      });
+    } catch (error) {
+      const { isSyncCancelledError } = await import("./sync-progress");
+      const { isSyncLockedError } = await import("./sync-lock");
+      if (isSyncCancelledError(error)) {
+        return res.status(409).json({ message: "Sync wurde abgebrochen" });
+      }
+      if (isSyncLockedError(error)) {
+        return res.status(409).json({ message: (error as Error).message });
       }
+      console.error("Customer sync error:", error);
+      res.status(500).json({ message: `Sync-Fehler: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Push all debtors edited in the portal to BHB
+  app.post("/api/sync/debtors/push", isAuthenticated, canEditDebtors, async (req, res) => {
+    try {
+      const { triggerDebtorPush } = await import("./scheduler");
+      const result = await triggerDebtorPush(req.session?.userId || "unknown");
       
-      const linkedCount = await linkReceiptsToDebtors(storage);
+      const debtorResult = result.debtors;
+      const failed = debtorResult.errors?.length || 0;
+      let message = `${debtorResult.updatedCount} Debitoren zu BHB übertragen`;
+      if (failed > 0) message += `, ${failed} fehlgeschlagen`;
+      if (debtorResult.conflictCount) message += `, ${debtorResult.conflictCount} mit ungelöstem Konflikt übersprungen`;
       
-      await storage.setSetting("BHB_LAST_RECEIPTS_SYNC", new Date().toISOString());
+      res.json({
+        success: true,
+        message,
+        pushed: debtorResult.updatedCount,
+        failed,
+        conflicts: debtorResult.conflictCount || 0,
+        errors: debtorResult.errors,
+        syncLogId: result.syncLogId,
+      });
+    } catch (error) {
+      const { isSyncCancelledError } = await import("./sync-progress");
+      const { isSyncLockedError } = await import("./sync-lock");
+      if (isSyncCancelledError(error)) {
+        return res.status(409).json({ message: "Sync wurde abgebrochen" });
+      }
+      if (isSyncLockedError(error)) {
+        return res.status(409).json({ message: (error as Error).message });
+      }
+      console.error("Debtor push error:", error);
+      res.status(500).json({ message: `Sync-Fehler: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Improved sync with logging - invoices
+  app.post("/api/sync/invoices-v2", isAuthenticated, canEditDebtors, async (req, res) => {
+    try {
+      const { triggerManualSync } = await import("./scheduler");
+      const full = req.body?.full === true;
+      const result = await triggerManualSync("invoices", req.session?.userId || "unknown", { full });
       
-      res.json({ 
-        message: `${totalSynced} Rechnungen synchronisiert, ${linkedCount} mit Debitoren verknüpft`, 
-        count: totalSynced,
-        linked: linkedCount,
+      const invoiceResult = result.invoices;
+      await storage.setSetting("LAST_SYNC", new Date().toISOString());
+      
+      res.json({
+        success: true,
+        message: `${invoiceResult.pulledCount} Rechnungen von BHB abgerufen${invoiceResult.syncMode === "incremental" ? " (inkrementell)" : ""}`,
+        created: invoiceResult.createdCount,
+        updated: invoiceResult.updatedCount,
+        unchanged: invoiceResult.unchangedCount,
+        cancelled: invoiceResult.cancelledCount || 0,
+        syncLogId: result.syncLogId,
       });
-    } catch (error: any) {
-      console.error("Sync error:", error);
-      res.status(500).json({ message: error.message || "Synchronisation fehlgeschlagen" });
+    } catch (error) {
+      const { isSyncCancelledError } = await import("./sync-progress");
+      const { isSyncLockedError } = await import("./sync-lock");
+      if (isSyncCancelledError(error)) {
+        return res.status(409).json({ message: "Sync wurde abgebrochen" });
+      }
+      if (isSyncLockedError(error)) {
+        return res.status(409).json({ message: (error as Error).message });
+      }
+      console.error("Invoice sync error:", error);
+      res.status(500).json({ message: `Sync-Fehler: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
 
@@ -2560,7 +2978,7 @@ export async function registerRoutes(
 
   app.post("/api/dunning-templates", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { name, stage, subject, htmlBody, textBody, isDefault, isActive } = req.body;
+      const { name, stage, subject, htmlBody, textBody, isDefault, isActive, shared } = req.body;
       if (!name || !stage || !subject || !htmlBody) {
         return res.status(400).json({ message: "Missing required fields" });
       }
@@ -2572,6 +2990,8 @@ export async function registerRoutes(
         textBody: textBody || null,
         isDefault: isDefault || false,
         isActive: isActive !== false,
+        // Shared templates are available to every mandant
+        mandantId: shared ? null : getCurrentMandantId() || null,
       });
       res.json(template);
     } catch (error) {
@@ -2582,7 +3002,15 @@ export async function registerRoutes(
 
   app.patch("/api/dunning-templates/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const template = await storage.updateDunningEmailTemplate(req.params.id, req.body);
+      const { shared, mandantId: _mandantId, ...data } = req.body;
+      const existing = await storage.getDunningEmailTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const template = await storage.updateDunningEmailTemplate(req.params.id, {
+        ...data,
+        ...(shared === undefined ? {} : { mandantId: shared ? null : getCurrentMandantId() || null }),
+      });
       if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
@@ -2595,6 +3023,10 @@ export async function registerRoutes(
 
   app.delete("/api/dunning-templates/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
+      const existing = await storage.getDunningEmailTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Template not found" });
+      }
       const deleted = await storage.deleteDunningEmailTemplate(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Template not found" });
@@ -2639,31 +3071,15 @@ export async function registerRoutes(
         calculateOverdueInvoices,
         buildEmailContext,
         renderEmailTemplate,
+        getCompanySettingsFromStorage,
       } = await import("./dunning-email-service");
       
-      const ezbBaseRateSetting = await storage.getSetting("EZB_BASE_RATE");
-      const ezbBaseRate = ezbBaseRateSetting ? parseFloat(ezbBaseRateSetting) : 2.82;
-      const overdueInvoices = calculateOverdueInvoices(receipts, customer, dunningRulesData || null, template.stage, ezbBaseRate);
-      
-      const companyName = await storage.getSetting("COMPANY_NAME") || "";
-      const companyStreet = await storage.getSetting("COMPANY_STREET") || "";
-      const companyZip = await storage.getSetting("COMPANY_ZIP") || "";
-      const companyCity = await storage.getSetting("COMPANY_CITY") || "";
-      const companyPhone = await storage.getSetting("COMPANY_PHONE") || "";
-      const companyEmail = await storage.getSetting("COMPANY_EMAIL") || "";
-      const bankIban = await storage.getSetting("BANK_IBAN") || "";
-      const bankBic = await storage.getSetting("BANK_BIC") || "";
-      
-      const context = buildEmailContext(customer, overdueInvoices, template.stage, {
-        name: companyName,
-        strasse: companyStreet,
-        plz: companyZip,
-        ort: companyCity,
-        telefon: companyPhone,
-        email: companyEmail,
-        iban: bankIban,
-        bic: bankBic,
-      });
+      const baseRates = await getBaseRateHistoryFromStorage(storage);
+      const history = await getReceiptHistory(storage, receipts.map((r) => r.id));
+      const overdueInvoices = calculateOverdueInvoices(receipts, customer, dunningRulesData || null, template.stage, baseRates, history);
+      
+      const companySettings = await getCompanySettingsFromStorage(storage);
+      const context = buildEmailContext(customer, overdueInvoices, template.stage, companySettings);
       
       const rendered = renderEmailTemplate(template, context);
       
@@ -2710,122 +3126,24 @@ export async function registerRoutes(
         return res.status(400).json({ message: "No recipient email address available" });
       }
       
-      // Check for Microsoft Graph configuration first
-      const { getGraphConfigFromStorage, sendEmailViaGraph } = await import("./msgraph-email-service");
-      const graphConfig = await getGraphConfigFromStorage(storage);
-      
-      const receipts = await storage.getReceipts({ debtorNumber: customer.debtorPostingaccountNumber });
-      const dunningRulesData = await storage.getDunningRulesForCustomer(customerId);
-      
-      const {
-        calculateOverdueInvoices,
-        buildEmailContext,
-        renderEmailTemplate,
-      } = await import("./dunning-email-service");
-      
-      const ezbBaseRateSetting = await storage.getSetting("EZB_BASE_RATE");
-      const ezbBaseRate = ezbBaseRateSetting ? parseFloat(ezbBaseRateSetting) : 2.82;
-      const overdueInvoices = calculateOverdueInvoices(receipts, customer, dunningRulesData || null, template.stage, ezbBaseRate);
-      
-      if (overdueInvoices.length === 0) {
-        return res.status(400).json({ message: "No overdue invoices found for this customer" });
-      }
-      
-      const companyName = await storage.getSetting("COMPANY_NAME") || "";
-      const companyStreet = await storage.getSetting("COMPANY_STREET") || "";
-      const companyZip = await storage.getSetting("COMPANY_ZIP") || "";
-      const companyCity = await storage.getSetting("COMPANY_CITY") || "";
-      const companyPhone = await storage.getSetting("COMPANY_PHONE") || "";
-      const companyEmail = await storage.getSetting("COMPANY_EMAIL") || "";
-      const bankIban = await storage.getSetting("BANK_IBAN") || "";
-      const bankBic = await storage.getSetting("BANK_BIC") || "";
-      
-      const context = buildEmailContext(customer, overdueInvoices, template.stage, {
-        name: companyName,
-        strasse: companyStreet,
-        plz: companyZip,
-        ort: companyCity,
-        telefon: companyPhone,
-        email: companyEmail,
-        iban: bankIban,
-        bic: bankBic,
-      });
+      const { isEmailConfigured, sendDunningToCustomer } = await import("./dunning-email-service");
       
-      const rendered = renderEmailTemplate(template, context);
-      
-      // Send email using Microsoft Graph (preferred) or SMTP (fallback)
-      if (graphConfig) {
-        await sendEmailViaGraph(graphConfig, {
-          to: email,
-          subject: rendered.subject,
-          htmlBody: rendered.html,
-          textBody: rendered.text || undefined,
-        });
-      } else {
-        // Fallback to SMTP
-        const smtpHost = await storage.getSetting("SMTP_HOST");
-        const smtpPort = await storage.getSetting("SMTP_PORT");
-        const smtpUser = await storage.getSetting("SMTP_USER");
-        const smtpPass = await storage.getSetting("SMTP_PASSWORD");
-        const smtpFrom = await storage.getSetting("SMTP_FROM");
-        
-        if (!smtpHost || !smtpPort) {
-          return res.status(400).json({ 
-            message: "E-Mail nicht konfiguriert. Bitte Microsoft Graph oder SMTP in den Einstellungen konfigurieren." 
-          });
-        }
-        
-        const nodemailer = await import("nodemailer");
-        const portNum = parseInt(smtpPort) || 587;
-        const transportConfig: any = {
-          host: smtpHost,
-          port: portNum,
-          secure: portNum === 465,
-        };
-        
-        if (smtpUser && smtpPass) {
-          transportConfig.auth = {
-            user: smtpUser,
-            pass: smtpPass,
-          };
-        }
-        
-        const transporter = nodemailer.createTransport(transportConfig);
-        
-        const fromAddress = smtpFrom || smtpUser || "noreply@example.com";
-        await transporter.sendMail({
-          from: fromAddress,
-          to: email,
-          subject: rendered.subject,
-          html: rendered.html,
-          text: rendered.text || undefined,
+      if (!(await isEmailConfigured(storage))) {
+        return res.status(400).json({ 
+          message: "E-Mail nicht konfiguriert. Bitte Microsoft Graph oder SMTP in den Einstellungen konfigurieren." 
         });
       }
       
-      // Log the dunning event
-      const totalAmount = context.summe.gesamt;
-      const totalInterest = context.summe.zinsen;
-      const totalFees = context.summe.gebuehren;
-      
-      await storage.createDunningEventForCustomer({
-        customerId,
-        templateId: template.id,
-        stage: template.stage,
-        recipientEmail: email,
-        subject: rendered.subject,
-        interestAmount: String(totalInterest),
-        feeAmount: String(totalFees),
-        totalAmount: String(totalAmount),
-        invoiceCount: overdueInvoices.length,
-        sentAt: new Date(),
-        status: "sent",
-      });
+      const result = await sendDunningToCustomer(storage, customer, template, email, "manual");
+      if (!result) {
+        return res.status(400).json({ message: "No overdue invoices due for this stage found for this customer, or credit notes cover the open balance" });
+      }
       
       res.json({
         success: true,
         message: `Mahnung erfolgreich an ${email} gesendet`,
-        invoiceCount: overdueInvoices.length,
-        totalAmount,
+        invoiceCount: result.overdueInvoices.length,
+        totalAmount: result.context.summe.gesamt,
       });
     } catch (error) {
       console.error("Error sending dunning email:", error);
@@ -2881,10 +3199,10 @@ export async function registerRoutes(
       
       const { calculateOverdueInvoices } = await import("./dunning-email-service");
       
-      const ezbBaseRateSetting = await storage.getSetting("EZB_BASE_RATE");
-      const ezbBaseRate = ezbBaseRateSetting ? parseFloat(ezbBaseRateSetting) : 2.82;
+      const baseRates = await getBaseRateHistoryFromStorage(storage);
+      const history = await getReceiptHistory(storage, receipts.map((r) => r.id));
       const stage = (req.query.stage as string) || "reminder";
-      const overdueInvoices = calculateOverdueInvoices(receipts, customer, dunningRulesData || null, stage, ezbBaseRate);
+      const overdueInvoices = calculateOverdueInvoices(receipts, customer, dunningRulesData || null, stage, baseRates, history);
       
       res.json(overdueInvoices);
     } catch (error) {
@@ -2925,6 +3243,84 @@ export async function registerRoutes(
     }
   });
 
+  // ==================== Mandants ====================
+
+  app.get("/api/mandants", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const user = await storage.getUserById(req.session.userId as string);
+      const mandants = await getAccessibleMandants(user?.mandantId);
+      res.json({
+        mandants,
+        currentMandantId: getCurrentMandantId() || null,
+        canSwitch: !user?.mandantId && mandants.length > 1,
+      });
+    } catch (error) {
+      console.error("Error fetching mandants:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Mandanten" });
+    }
+  });
+
+  // All mandants including inactive ones, for the management page
+  app.get("/api/admin/mandants", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getMandants());
+    } catch (error) {
+      console.error("Error fetching mandants:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Mandanten" });
+    }
+  });
+
+  app.post("/api/mandants/current", isAuthenticated, isInternal, async (req, res) => {
+    try {
+      const { mandantId } = req.body;
+      const user = await storage.getUserById(req.session.userId as string);
+      const mandants = await getAccessibleMandants(user?.mandantId);
+      const mandant = mandants.find((m) => m.id === mandantId);
+      if (!mandant) {
+        return res.status(403).json({ message: "Kein Zugriff auf diesen Mandanten" });
+      }
+      req.session.mandantId = mandant.id;
+      res.json({ currentMandantId: mandant.id });
+    } catch (error) {
+      console.error("Error switching mandant:", error);
+      res.status(500).json({ message: "Fehler beim Wechseln des Mandanten" });
+    }
+  });
+
+  app.post("/api/mandants", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertMandantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors.map((e) => e.message).join(", ") });
+      }
+      const mandant = await storage.createMandant(parsed.data);
+      res.status(201).json(mandant);
+    } catch (error) {
+      console.error("Error creating mandant:", error);
+      res.status(500).json({ message: "Fehler beim Anlegen des Mandanten" });
+    }
+  });
+
+  app.patch("/api/mandants/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const parsed = insertMandantSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors.map((e) => e.message).join(", ") });
+      }
+      if (parsed.data.isActive === false && req.params.id === getCurrentMandantId()) {
+        return res.status(400).json({ message: "Der aktuell gewählte Mandant kann nicht deaktiviert werden" });
+      }
+      const mandant = await storage.updateMandant(req.params.id, parsed.data);
+      if (!mandant) {
+        return res.status(404).json({ message: "Mandant nicht gefunden" });
+      }
+      res.json(mandant);
+    } catch (error) {
+      console.error("Error updating mandant:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren des Mandanten" });
+    }
+  });
+
   // ==================== Admin User Management ====================
 
   // Get all internal users (admin, user, viewer - excludes customer accounts)
@@ -2943,7 +3339,7 @@ export async function registerRoutes(
   // Create a new internal user
   app.post("/api/admin/users", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { username, password, displayName, role } = req.body;
+      const { username, password, displayName, role, mandantId } = req.body;
 
       // Validate required fields
       if (!username || !password) {
@@ -2961,13 +3357,17 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Passwort muss mindestens 10 Zeichen lang sein" });
       }
 
+      if (mandantId && !(await storage.getMandant(mandantId))) {
+        return res.status(400).json({ message: "Mandant nicht gefunden" });
+      }
+
       // Check for existing username
       const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
         return res.status(409).json({ message: "Benutzername bereits vergeben" });
       }
 
-      const user = await storage.createUser(username, password, displayName || username, role || "user");
+      const user = await storage.createUser(username, password, displayName || username, role || "user", mandantId || null);
       const { passwordHash, ...safeUser } = user;
       res.status(201).json(safeUser);
     } catch (error) {
@@ -2980,7 +3380,7 @@ export async function registerRoutes(
   app.patch("/api/admin/users/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
       const { id } = req.params;
-      const { displayName, role, password } = req.body;
+      const { displayName, role, password, mandantId } = req.body;
       const currentUser = req.user as User;
 
       // Validate role if provided
@@ -2994,6 +3394,10 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Passwort muss mindestens 10 Zeichen lang sein" });
       }
 
+      if (mandantId && !(await storage.getMandant(mandantId))) {
+        return res.status(400).json({ message: "Mandant nicht gefunden" });
+      }
+
       // Get the user being updated
       const targetUser = await storage.getUserById(id);
       if (!targetUser) {
@@ -3016,7 +3420,12 @@ export async function registerRoutes(
         }
       }
 
-      const updated = await storage.updateUser(id, { displayName, role, password });
+      const updated = await storage.updateUser(id, {
+        displayName,
+        role,
+        password,
+        mandantId: mandantId === undefined ? undefined : mandantId || null,
+      });
       if (!updated) {
         return res.status(404).json({ message: "Benutzer nicht gefunden" });
       }
@@ -3217,84 +3626,3 @@ export async function registerRoutes(
 
   return httpServer;
 }
-
-function normalizeNameForMatching(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[,\-–\.]/g, " ")
-    .replace(/\s+/g, " ")
-    .replace(/gmbh|mbh|kg|ag|eg|co\.|& co|ug|ohg/gi, "")
-    .trim();
-}
-
-function getNormalizedWords(name: string): string[] {
-  return normalizeNameForMatching(name).split(" ").filter(w => w.length > 2);
-}
-
-function matchScore(name1: string, name2: string): number {
-  const words1 = getNormalizedWords(name1);
-  const words2 = getNormalizedWords(name2);
-  if (words1.length === 0 || words2.length === 0) return 0;
-  
-  let matches = 0;
-  for (const w1 of words1) {
-    for (const w2 of words2) {
-      if (w1 === w2 || w1.includes(w2) || w2.includes(w1)) {
-        matches++;
-        break;
-      }
-    }
-  }
-  return matches / Math.max(words1.length, words2.length);
-}
-
-async function linkReceiptsToDebtors(storage: IStorage): Promise<number> {
-  const customers = await storage.getCustomers();
-  const receipts = await storage.getReceipts();
-  const mappings = await storage.getCounterpartyMappings();
-  
-  let linkedCount = 0;
-  
-  for (const receipt of receipts) {
-    if (receipt.debtorPostingaccountNumber === 0) {
-      const rawJson = receipt.rawJson as any;
-      
-      // First try to extract debtor number from rawJson
-      const extractedNumber = extractDebtorNumber(rawJson || {});
-      if (extractedNumber > 0) {
-        await storage.updateReceiptDebtor(receipt.id, extractedNumber);
-        linkedCount++;
-        continue;
-      }
-      
-      const counterparty = rawJson?.counterparty;
-      
-      if (counterparty) {
-        // Second, try manual counterparty mappings (exact match)
-        const mapping = mappings.find((m) => m.counterpartyName === counterparty);
-        if (mapping) {
-          await storage.updateReceiptDebtor(receipt.id, mapping.debtorPostingaccountNumber);
-          linkedCount++;
-          continue;
-        }
-        
-        // Fall back to fuzzy counterparty name matching
-        let bestMatch: { customer: typeof customers[0]; score: number } | null = null;
-        
-        for (const customer of customers) {
-          const score = matchScore(counterparty, customer.displayName);
-          if (score > 0.5 && (!bestMatch || score > bestMatch.score)) {
-            bestMatch = { customer, score };
-          }
-        }
-        
-        if (bestMatch) {
-          await storage.updateReceiptDebtor(receipt.id, bestMatch.customer.debtorPostingaccountNumber);
-          linkedCount++;
-        }
-      }
-    }
-  }
-  
-  return linkedCount;
-}
@@ -1,100 +1,398 @@
 import { storage } from "./storage";
 import { log } from "./index";
+import type { InvoiceSyncOptions, SyncResult } from "./sync-functions";
+import {
+  createSyncProgress,
+  finishSyncProgress,
+  getSyncProgress,
+  SYNC_CANCELLED_MESSAGE,
+  type SyncProgressTracker,
+} from "./sync-progress";
+import { acquireSyncLocks, describeSyncLock, recoverStaleSyncs, SYNC_LOCKED_MESSAGE } from "./sync-lock";
+import { getRecordRetentionDays } from "./sync-records";
+import { forEachMandant } from "./mandants";
+import type { Mandant, SyncLock } from "@shared/schema";
+import { BhbApiError, getBhbCircuitState } from "./bhb-client";
+import {
+  getNextCronRun,
+  isWithinTimeWindow,
+  matchesCron,
+  parseCronExpression,
+  type CronSchedule,
+} from "./cron";
 
-let syncIntervalId: NodeJS.Timeout | null = null;
-let currentIntervalMinutes: number = 0;
+export const SCHEDULED_JOBS = ["invoiceSync", "debtorSync", "dunningRun", "cleanup"] as const;
+export type ScheduledJob = typeof SCHEDULED_JOBS[number];
 
-async function performAutoSync() {
+export interface ScheduleConfig {
+  enabled: boolean;
+  schedules: Record<ScheduledJob, string>; // Cron expressions, empty = job disabled
+  quietHoursStart: string; // HH:MM, local server time, empty = no quiet hours
+  quietHoursEnd: string;
+}
+
+export const DEFAULT_SCHEDULES: Record<ScheduledJob, string> = {
+  invoiceSync: "0 * * * *",
+  debtorSync: "30 6 * * *",
+  dunningRun: "0 9 * * 1-5",
+  cleanup: "0 3 * * *",
+};
+
+// Closest cron equivalent of the former fixed SYNC_INTERVAL_MINUTES setting
+function intervalToCron(minutes: number): string {
+  if (minutes < 60) return `*/${minutes} * * * *`;
+  if (minutes < 1440) return `0 */${Math.round(minutes / 60)} * * *`;
+  return "0 6 * * *";
+}
+
+export async function getScheduleConfig(): Promise<ScheduleConfig> {
+  const [enabled, schedules, quietHoursStart, quietHoursEnd, legacyInterval] = await Promise.all([
+    storage.getSetting("SCHEDULER_ENABLED"),
+    storage.getSetting("SYNC_SCHEDULES"),
+    storage.getSetting("QUIET_HOURS_START"),
+    storage.getSetting("QUIET_HOURS_END"),
+    storage.getSetting("SYNC_INTERVAL_MINUTES"),
+  ]);
+
+  const config: ScheduleConfig = {
+    enabled: enabled === "true",
+    // Stored as JSON so an empty expression (job disabled) survives
+    schedules: { ...DEFAULT_SCHEDULES, ...(schedules ? JSON.parse(schedules) : {}) },
+    quietHoursStart: quietHoursStart || "",
+    quietHoursEnd: quietHoursEnd || "",
+  };
+
+  // Installations that still run on the old interval: sync and dunning follow it as before
+  if (enabled === null) {
+    const interval = legacyInterval ? parseInt(legacyInterval, 10) : 0;
+    config.enabled = interval > 0;
+    if (interval > 0) {
+      config.schedules.invoiceSync = intervalToCron(interval);
+      config.schedules.debtorSync = intervalToCron(interval);
+      config.schedules.dunningRun = intervalToCron(interval);
+    }
+  }
+
+  return config;
+}
+
+export async function saveScheduleConfig(config: ScheduleConfig, userId?: string): Promise<void> {
+  await storage.setSetting("SCHEDULER_ENABLED", String(config.enabled), userId);
+  await storage.setSetting("SYNC_SCHEDULES", JSON.stringify(config.schedules), userId);
+  await storage.setSetting("QUIET_HOURS_START", config.quietHoursStart, userId);
+  await storage.setSetting("QUIET_HOURS_END", config.quietHoursEnd, userId);
+}
+
+let tickTimer: NodeJS.Timeout | null = null;
+let activeConfig: ScheduleConfig | null = null;
+let activeSchedules: Partial<Record<ScheduledJob, CronSchedule>> = {};
+const runningJobs = new Set<ScheduledJob>();
+
+const SYNC_LOG_RETENTION_DAYS = 90;
+// Upper bound of cron matches inspected when previewing runs around quiet hours
+const MAX_PREVIEW_CANDIDATES = 500;
+
+/**
+ * Closes a sync log that ended with an exception. Runs stopped via cancelSync are
+ * stored as "cancelled" together with the counts reached so far.
+ */
+async function failSyncLog(syncLogId: string, progress: SyncProgressTracker, error: unknown) {
+  if (progress.signal.aborted) {
+    const snapshot = getSyncProgress(syncLogId);
+    await storage.updateSyncLog(syncLogId, {
+      status: "cancelled",
+      finishedAt: new Date(),
+      pulledCount: snapshot?.fetched || 0,
+      createdCount: snapshot?.created || 0,
+      updatedCount: snapshot?.updated || 0,
+      errors: { message: SYNC_CANCELLED_MESSAGE },
+    });
+    finishSyncProgress(syncLogId, "cancelled", SYNC_CANCELLED_MESSAGE);
+    return;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  // Keep the breaker state with the log so repeated failures can be told apart from BHB outages
+  const errors = error instanceof BhbApiError
+    ? { message, bhbStatus: error.status ?? null, circuitOpen: error.circuitOpen, circuit: getBhbCircuitState() }
+    : { message };
+  await storage.updateSyncLog(syncLogId, {
+    status: "error",
+    finishedAt: new Date(),
+    errors,
+  });
+  finishSyncProgress(syncLogId, "error", message);
+}
+
+/**
+ * BHB records rejected by validation do not fail the run, but are stored per
+ * record in the errors column so they show up next to the successful log.
+ */
+function getInvalidRecordErrors(results: Partial<Record<"invoices" | "debtors", SyncResult>>) {
+  const invalidRecords = (Object.keys(results) as ("invoices" | "debtors")[]).flatMap((entityType) =>
+    (results[entityType]?.invalidRecords || []).map((record) => ({ entityType, ...record }))
+  );
+  if (invalidRecords.length === 0) return null;
+  const invalidCount = (results.invoices?.invalidCount || 0) + (results.debtors?.invalidCount || 0);
+  return { message: `${invalidCount} ungültige BHB-Datensätze übersprungen`, invalidCount, invalidRecords };
+}
+
+// Runs with errors are "partial": incremental syncs do not start from them, so nothing that failed is skipped
+function getSyncOutcome(...results: SyncResult[]) {
+  const hasErrors = results.some((result) => (result.errors?.length || 0) > 0);
+  return {
+    status: hasErrors ? "partial" : "success",
+    errorCount: results.reduce((sum, result) => sum + (result.errorCount || 0), 0),
+  };
+}
+
+// Records a run that did not start because another sync holds the lock
+async function skipSyncLog(syncLogId: string, heldBy: SyncLock): Promise<string> {
+  const holder = await describeSyncLock(heldBy);
+  await storage.updateSyncLog(syncLogId, {
+    status: "skipped",
+    finishedAt: new Date(),
+    details: {
+      skippedReason: "already running",
+      lockedBy: holder.lockedBy,
+      lockedByName: holder.holderName,
+      lockedSyncLogId: holder.syncLogId,
+      lockedSince: holder.acquiredAt,
+    },
+  });
+  return `${SYNC_LOCKED_MESSAGE} (${holder.entityType === "invoices" ? "Rechnungen" : "Debitoren"}, gestartet von ${holder.holderName})`;
+}
+
+// Runs inside the mandant context set by forEachMandant
+async function performAutoSync(entityType: "invoices" | "debtors", mandant: Mandant) {
   try {
     const apiKey = await storage.getSetting("BHB_API_KEY");
     const apiClient = await storage.getSetting("BHB_API_CLIENT");
     const apiSecret = await storage.getSetting("BHB_API_SECRET");
     
     if (!apiKey || !apiClient || !apiSecret) {
-      log("Auto-sync skipped: BHB API credentials not configured", "scheduler");
+      log(`Auto-sync skipped for "${mandant.name}": BHB API credentials not configured`, "scheduler");
       return;
     }
 
-    log("Starting automatic BHB sync...", "scheduler");
+    log(`Starting automatic BHB ${entityType} sync for "${mandant.name}"...`, "scheduler");
     
-    // Sync both invoices and debtors
     const syncLog = await storage.createSyncLog({
-      entityType: "both",
+      entityType,
       mode: "auto",
       direction: "pull",
       status: "running",
       triggeredBy: "system",
     });
 
+    const lock = await acquireSyncLocks(entityType, syncLog.id, "system");
+    if (!lock.handle) {
+      log(`Auto-sync skipped for "${mandant.name}": ${await skipSyncLog(syncLog.id, lock.heldBy)}`, "scheduler");
+      return;
+    }
+    const progress = createSyncProgress(syncLog.id);
+
     try {
       // Import sync functions dynamically to avoid circular dependencies
       const { syncInvoices, syncDebtors } = await import("./sync-functions");
       
-      const invoiceResult = await syncInvoices("auto", "system");
-      const debtorResult = await syncDebtors("auto", "system");
+      const result = entityType === "invoices"
+        ? await syncInvoices("auto", "system", {}, progress)
+        : await syncDebtors("auto", "system", progress);
       
       await storage.updateSyncLog(syncLog.id, {
-        status: "success",
+        ...getSyncOutcome(result),
         finishedAt: new Date(),
-        pulledCount: (invoiceResult.pulledCount || 0) + (debtorResult.pulledCount || 0),
-        createdCount: (invoiceResult.createdCount || 0) + (debtorResult.createdCount || 0),
-        updatedCount: (invoiceResult.updatedCount || 0) + (debtorResult.updatedCount || 0),
-        unchangedCount: (invoiceResult.unchangedCount || 0) + (debtorResult.unchangedCount || 0),
-        details: { invoices: invoiceResult, debtors: debtorResult },
+        pulledCount: result.pulledCount || 0,
+        createdCount: result.createdCount || 0,
+        updatedCount: result.updatedCount || 0,
+        unchangedCount: result.unchangedCount || 0,
+        errors: getInvalidRecordErrors({ [entityType]: result }),
+        details: { [entityType]: result },
       });
+      finishSyncProgress(syncLog.id, "finished");
       
-      log(`Auto-sync completed: ${invoiceResult.createdCount + invoiceResult.updatedCount} invoices, ${debtorResult.createdCount + debtorResult.updatedCount} debtors changed`, "scheduler");
+      log(`Auto-sync completed for "${mandant.name}": ${result.createdCount + result.updatedCount} ${entityType} changed`, "scheduler");
     } catch (error) {
-      await storage.updateSyncLog(syncLog.id, {
-        status: "error",
-        finishedAt: new Date(),
-        errors: { message: error instanceof Error ? error.message : String(error) },
-      });
-      log(`Auto-sync failed: ${error}`, "scheduler");
+      await failSyncLog(syncLog.id, progress, error);
+      log(`Auto-sync failed for "${mandant.name}": ${error}`, "scheduler");
+    } finally {
+      await lock.handle.release();
     }
   } catch (error) {
     log(`Auto-sync error: ${error}`, "scheduler");
   }
 }
 
-export async function startScheduler() {
-  const intervalSetting = await storage.getSetting("SYNC_INTERVAL_MINUTES");
-  const intervalMinutes = intervalSetting ? parseInt(intervalSetting, 10) : 0;
-  
-  if (intervalMinutes > 0) {
-    setSchedulerInterval(intervalMinutes);
-    log(`Sync scheduler started with ${intervalMinutes} minute interval`, "scheduler");
-  } else {
-    log("Sync scheduler disabled (interval = 0)", "scheduler");
+async function performDunningRun(mandant: Mandant) {
+  try {
+    const { runAutomatedDunning } = await import("./dunning-run");
+    const dunningResult = await runAutomatedDunning("auto", "system");
+    if (dunningResult.skippedReason) {
+      log(`Dunning run skipped for "${mandant.name}": ${dunningResult.skippedReason}`, "scheduler");
+    }
+  } catch (error) {
+    log(`Dunning run failed for "${mandant.name}": ${error}`, "scheduler");
   }
 }
 
-export function setSchedulerInterval(minutes: number) {
-  // Clear existing interval if any
-  if (syncIntervalId) {
-    clearInterval(syncIntervalId);
-    syncIntervalId = null;
+// Housekeeping: fail crashed syncs, drop old sync logs and their per-record details
+async function performCleanup() {
+  try {
+    await recoverStaleSyncs();
+    const cutoff = new Date(Date.now() - SYNC_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const deleted = await storage.deleteSyncLogsBefore(cutoff);
+    const recordRetentionDays = await getRecordRetentionDays();
+    const recordCutoff = new Date(Date.now() - recordRetentionDays * 24 * 60 * 60 * 1000);
+    const deletedRecords = await storage.deleteSyncLogRecordsBefore(recordCutoff);
+    log(
+      `Cleanup finished: ${deleted} sync logs older than ${SYNC_LOG_RETENTION_DAYS} days and ` +
+        `${deletedRecords} sync log records older than ${recordRetentionDays} days removed`,
+      "scheduler"
+    );
+  } catch (error) {
+    log(`Cleanup failed: ${error}`, "scheduler");
   }
-  
-  currentIntervalMinutes = minutes;
-  
-  if (minutes > 0) {
-    const intervalMs = minutes * 60 * 1000;
-    syncIntervalId = setInterval(performAutoSync, intervalMs);
-    log(`Sync interval set to ${minutes} minutes`, "scheduler");
+}
+
+// Sync and dunning run per mandant; sync locks are per mandant, so one mandant's sync never blocks another's
+const JOB_RUNNERS: Record<ScheduledJob, () => Promise<void>> = {
+  invoiceSync: () => forEachMandant("invoiceSync", (mandant) => performAutoSync("invoices", mandant)),
+  debtorSync: () => forEachMandant("debtorSync", (mandant) => performAutoSync("debtors", mandant)),
+  dunningRun: () => forEachMandant("dunningRun", performDunningRun),
+  cleanup: performCleanup,
+};
+
+function parseSchedules(config: ScheduleConfig): Partial<Record<ScheduledJob, CronSchedule>> {
+  const schedules: Partial<Record<ScheduledJob, CronSchedule>> = {};
+  for (const job of SCHEDULED_JOBS) {
+    const expression = config.schedules[job];
+    if (!expression) continue;
+    try {
+      schedules[job] = parseCronExpression(expression);
+    } catch (error) {
+      log(`Ignoring invalid schedule for ${job} "${expression}": ${error}`, "scheduler");
+    }
+  }
+  return schedules;
+}
+
+export function isQuietTime(config: Pick<ScheduleConfig, "quietHoursStart" | "quietHoursEnd">, date: Date = new Date()): boolean {
+  if (!config.quietHoursStart || !config.quietHoursEnd || config.quietHoursStart === config.quietHoursEnd) {
+    return false;
+  }
+  return isWithinTimeWindow(config.quietHoursStart, config.quietHoursEnd, date);
+}
+
+/**
+ * Upcoming runs of a schedule, leaving out those that fall into quiet hours.
+ * Scans a bounded number of candidates so a schedule that only fires during
+ * quiet hours yields an empty list instead of looping.
+ */
+export function getUpcomingRuns(
+  schedule: CronSchedule,
+  config: Pick<ScheduleConfig, "quietHoursStart" | "quietHoursEnd">,
+  count: number,
+  after: Date = new Date()
+): Date[] {
+  const runs: Date[] = [];
+  let from = after;
+  for (let scanned = 0; runs.length < count && scanned < MAX_PREVIEW_CANDIDATES; scanned++) {
+    const next = getNextCronRun(schedule, from);
+    if (!next) break;
+    if (!isQuietTime(config, next)) runs.push(next);
+    from = next;
+  }
+  return runs;
+}
+
+// Jobs due in the same minute run one after another in SCHEDULED_JOBS order,
+// so a dunning run scheduled together with the invoice sync sees fresh data
+async function runDueJobs(now: Date) {
+  if (!activeConfig?.enabled) return;
+
+  const dueJobs = SCHEDULED_JOBS.filter((job) => activeSchedules[job] && matchesCron(activeSchedules[job]!, now));
+  if (dueJobs.length === 0) return;
+
+  if (isQuietTime(activeConfig, now)) {
+    log(`Quiet hours (${activeConfig.quietHoursStart}-${activeConfig.quietHoursEnd}): skipping ${dueJobs.join(", ")}`, "scheduler");
+    return;
+  }
+
+  for (const job of dueJobs) {
+    if (runningJobs.has(job)) {
+      log(`Skipping ${job}: previous run still in progress`, "scheduler");
+      continue;
+    }
+    runningJobs.add(job);
+    try {
+      await JOB_RUNNERS[job]();
+    } finally {
+      runningJobs.delete(job);
+    }
+  }
+}
+
+// Fires shortly after each full minute; re-aligns every tick so drift never accumulates
+function scheduleNextTick() {
+  const now = new Date();
+  const delay = 60 * 1000 - (now.getSeconds() * 1000 + now.getMilliseconds()) + 500;
+  tickTimer = setTimeout(() => {
+    const tickTime = new Date();
+    tickTime.setSeconds(0, 0);
+    scheduleNextTick();
+    runDueJobs(tickTime).catch((error) => log(`Scheduler tick failed: ${error}`, "scheduler"));
+  }, delay);
+}
+
+export function applyScheduleConfig(config: ScheduleConfig) {
+  activeConfig = config;
+  activeSchedules = parseSchedules(config);
+
+  if (tickTimer) {
+    clearTimeout(tickTimer);
+    tickTimer = null;
+  }
+
+  if (config.enabled) {
+    scheduleNextTick();
+    const jobs = Object.keys(activeSchedules).join(", ") || "none";
+    log(`Sync scheduler enabled (jobs: ${jobs})`, "scheduler");
   } else {
     log("Sync scheduler disabled", "scheduler");
   }
 }
 
+export async function startScheduler() {
+  try {
+    await recoverStaleSyncs();
+  } catch (error) {
+    log(`Recovering stale syncs failed: ${error}`, "scheduler");
+  }
+
+  applyScheduleConfig(await getScheduleConfig());
+}
+
 export function getSchedulerStatus() {
+  const nextRuns: Partial<Record<ScheduledJob, string | null>> = {};
+  if (activeConfig?.enabled) {
+    for (const job of SCHEDULED_JOBS) {
+      const schedule = activeSchedules[job];
+      const [next] = schedule ? getUpcomingRuns(schedule, activeConfig, 1) : [];
+      nextRuns[job] = next ? next.toISOString() : null;
+    }
+  }
   return {
-    enabled: syncIntervalId !== null,
-    intervalMinutes: currentIntervalMinutes,
+    enabled: tickTimer !== null,
+    nextRuns,
   };
 }
 
-export async function triggerManualSync(entityType: "invoices" | "debtors" | "both", userId: string) {
+export async function triggerManualSync(
+  entityType: "invoices" | "debtors" | "both",
+  userId: string,
+  options: InvoiceSyncOptions = {}
+) {
   const { syncInvoices, syncDebtors } = await import("./sync-functions");
   
   const syncLog = await storage.createSyncLog({
@@ -105,26 +403,34 @@ export async function triggerManualSync(entityType: "invoices" | "debtors" | "bo
     triggeredBy: userId,
   });
 
+  const lock = await acquireSyncLocks(entityType, syncLog.id, userId);
+  if (!lock.handle) {
+    throw new Error(await skipSyncLog(syncLog.id, lock.heldBy));
+  }
+  const progress = createSyncProgress(syncLog.id);
+
   try {
-    let invoiceResult = { pulledCount: 0, createdCount: 0, updatedCount: 0, unchangedCount: 0 };
-    let debtorResult = { pulledCount: 0, createdCount: 0, updatedCount: 0, unchangedCount: 0 };
+    let invoiceResult: SyncResult = { pulledCount: 0, createdCount: 0, updatedCount: 0, unchangedCount: 0 };
+    let debtorResult: SyncResult = { pulledCount: 0, createdCount: 0, updatedCount: 0, unchangedCount: 0 };
     
     if (entityType === "invoices" || entityType === "both") {
-      invoiceResult = await syncInvoices("manual", userId);
+      invoiceResult = await syncInvoices("manual", userId, options, progress);
     }
     if (entityType === "debtors" || entityType === "both") {
-      debtorResult = await syncDebtors("manual", userId);
+      debtorResult = await syncDebtors("manual", userId, progress);
     }
     
     await storage.updateSyncLog(syncLog.id, {
-      status: "success",
+      ...getSyncOutcome(invoiceResult, debtorResult),
       finishedAt: new Date(),
       pulledCount: invoiceResult.pulledCount + debtorResult.pulledCount,
       createdCount: invoiceResult.createdCount + debtorResult.createdCount,
       updatedCount: invoiceResult.updatedCount + debtorResult.updatedCount,
       unchangedCount: invoiceResult.unchangedCount + debtorResult.unchangedCount,
+      errors: getInvalidRecordErrors({ invoices: invoiceResult, debtors: debtorResult }),
       details: { invoices: invoiceResult, debtors: debtorResult },
     });
+    finishSyncProgress(syncLog.id, "finished");
     
     return {
       success: true,
@@ -133,11 +439,55 @@ export async function triggerManualSync(entityType: "invoices" | "debtors" | "bo
       debtors: debtorResult,
     };
   } catch (error) {
+    await failSyncLog(syncLog.id, progress, error);
+    throw progress.signal.aborted ? new Error(SYNC_CANCELLED_MESSAGE) : error;
+  } finally {
+    await lock.handle.release();
+  }
+}
+
+/**
+ * Pushes all locally changed debtors to BHB. Runs under the debtor lock so it
+ * cannot interleave with a pull, and is logged with direction "push".
+ */
+export async function triggerDebtorPush(userId: string) {
+  const { pushDebtors } = await import("./sync-functions");
+
+  const syncLog = await storage.createSyncLog({
+    entityType: "debtors",
+    mode: "manual",
+    direction: "push",
+    status: "running",
+    triggeredBy: userId,
+  });
+
+  const lock = await acquireSyncLocks("debtors", syncLog.id, userId);
+  if (!lock.handle) {
+    throw new Error(await skipSyncLog(syncLog.id, lock.heldBy));
+  }
+  const progress = createSyncProgress(syncLog.id);
+
+  try {
+    const result = await pushDebtors(progress);
+    const failedCount = result.errors?.length || 0;
+
     await storage.updateSyncLog(syncLog.id, {
-      status: "error",
+      status: "success",
       finishedAt: new Date(),
-      errors: { message: error instanceof Error ? error.message : String(error) },
+      pulledCount: result.pulledCount,
+      updatedCount: result.updatedCount,
+      unchangedCount: result.unchangedCount,
+      errorCount: failedCount,
+      errors: failedCount > 0 ? { message: `${failedCount} Debitoren nicht übertragen`, records: result.errors } : null,
+      details: { debtors: result },
     });
-    throw error;
+    finishSyncProgress(syncLog.id, "finished");
+
+    return { success: true, syncLogId: syncLog.id, debtors: result };
+  } catch (error) {
+    await failSyncLog(syncLog.id, progress, error);
+    throw progress.signal.aborted ? new Error(SYNC_CANCELLED_MESSAGE) : error;
+  } finally {
+    await lock.handle.release();
   }
 }
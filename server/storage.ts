@@ -5,24 +5,37 @@ import {
   dunningRules,
   dunningEvents,
   dunningEmailTemplates,
+  dunningProposals,
   users,
   portalSettings,
   counterpartyMappings,
   counterpartyExceptions,
   brandingConfig,
   syncLogs,
+  syncLogRecords,
+  syncLocks,
+  ezbBaseRates,
+  mandants,
+  receiptPayments,
+  type Mandant,
+  type InsertMandant,
   type PortalCustomer,
   type InsertPortalCustomer,
   type PortalUserCustomer,
   type InsertPortalUserCustomer,
   type BhbReceiptsCache,
   type InsertBhbReceiptsCache,
+  type DebtorMatchStrategy,
+  type ReceiptPayment,
+  type InsertReceiptPayment,
   type DunningRules,
   type InsertDunningRules,
   type DunningEvent,
   type InsertDunningEvent,
   type DunningEmailTemplate,
   type InsertDunningEmailTemplate,
+  type DunningProposal,
+  type InsertDunningProposal,
   type User,
   type InsertUser,
   type PortalSetting,
@@ -30,23 +43,139 @@ import {
   type InsertCounterpartyMapping,
   type BrandingConfig,
   type BrandingConfigRow,
+  type DebtorSyncConflict,
+  type DebtorSyncValues,
+  DEBTOR_SYNC_FIELDS,
+  customerChanges,
+  type CustomerChange,
+  type CustomerChangeSource,
+  type InsertCustomerChange,
   type SyncLog,
   type InsertSyncLog,
+  type SyncLogRecord,
+  type InsertSyncLogRecord,
+  type SyncLock,
+  type InsertSyncLock,
+  type EzbBaseRate,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, lte, isNull, or } from "drizzle-orm";
+import { eq, and, desc, asc, sql, lt, lte, isNull, or, inArray, ne, type Column } from "drizzle-orm";
 import bcrypt from "bcryptjs";
 import { encrypt, decrypt, isEncrypted } from "./crypto";
+import { getCurrentMandantId, requireMandantId } from "./mandant-context";
+import { getSignedOpenAmount, isCreditNote } from "./credit-notes";
 
 const SENSITIVE_SETTINGS = ["BHB_API_KEY", "BHB_API_SECRET", "BHB_API_CLIENT", "SMTP_PASSWORD", "GRAPH_CLIENT_SECRET"];
 
+// Settings stored once per mandant under "<key>:<mandantId>"; everything else is portal-wide
+const MANDANT_SETTINGS = [
+  "BHB_API_KEY",
+  "BHB_API_CLIENT",
+  "BHB_API_SECRET",
+  "BHB_BASE_URL",
+  "BHB_LAST_RECEIPTS_SYNC",
+  "COMPANY_NAME",
+  "COMPANY_STREET",
+  "COMPANY_ZIP",
+  "COMPANY_CITY",
+  "COMPANY_PHONE",
+  "COMPANY_EMAIL",
+  "BANK_IBAN",
+  "BANK_BIC",
+  "LAST_SYNC",
+  "LAST_SYNC_DEBTORS",
+  "LAST_FULL_INVOICE_SYNC",
+  "DUNNING_RUN_LAST_RESULT",
+];
+
+function mandantSettingKey(key: string): string {
+  return MANDANT_SETTINGS.includes(key) ? `${key}:${requireMandantId()}` : key;
+}
+
+// Rows belonging to the mandant of the current request or job
+function inCurrentMandant(column: Column) {
+  return eq(column, requireMandantId());
+}
+
+// For tables that only reference a customer, e.g. dunning rules and proposals
+function customerInCurrentMandant(customerIdColumn: Column) {
+  return inArray(
+    customerIdColumn,
+    db.select({ id: portalCustomers.id }).from(portalCustomers).where(inCurrentMandant(portalCustomers.mandantId))
+  );
+}
+
+// Customer columns only written by the BHB sync, not part of the insert schema
+type CustomerSyncFields = {
+  lastBhbSync?: Date | null;
+  bhbRawJson?: unknown;
+  bhbDataHash?: string;
+  syncedData?: DebtorSyncValues | null;
+  localDataHash?: string | null;
+  syncConflict?: DebtorSyncConflict | null;
+};
+
+// Templates without a mandant are shared by all mandants
+type TemplateMandant = { mandantId?: string | null };
+
+export interface CustomerChangeContext {
+  source: CustomerChangeSource;
+  changedBy: string; // User ID or 'system'
+  syncLogId?: string | null;
+}
+
+export interface ReceiptHold {
+  reason: string;
+  until: Date | null;
+  owner: string | null;
+}
+
+export interface CustomerOpenInvoiceStats {
+  count: number; // Open invoices, credit notes not included
+  totalOpen: number; // Net of open credit notes, may be negative
+  openCredit: number;
+  overdueCount: number;
+}
+
+// Customer fields whose changes are kept in customer_changes
+const TRACKED_CUSTOMER_FIELDS = [
+  ...DEBTOR_SYNC_FIELDS,
+  "debtorPostingaccountNumber",
+  "isActive",
+  "customerType",
+  "paymentTermDays",
+] as const;
+
+function toHistoryValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  return String(value);
+}
+
+function getCustomerChanges(before: PortalCustomer, after: PortalCustomer, change: CustomerChangeContext): InsertCustomerChange[] {
+  return TRACKED_CUSTOMER_FIELDS
+    .map((field) => ({ field, oldValue: toHistoryValue(before[field]), newValue: toHistoryValue(after[field]) }))
+    .filter(({ oldValue, newValue }) => oldValue !== newValue)
+    .map((entry) => ({
+      ...entry,
+      customerId: after.id,
+      source: change.source,
+      changedBy: change.changedBy,
+      syncLogId: change.syncLogId ?? null,
+    }));
+}
+
 export interface IStorage {
   getCustomers(): Promise<PortalCustomer[]>;
   getCustomer(id: string): Promise<PortalCustomer | undefined>;
   getCustomerByDebtorNumber(debtorNumber: number): Promise<PortalCustomer | undefined>;
   getCustomerByName(name: string): Promise<PortalCustomer | undefined>;
-  createCustomer(customer: InsertPortalCustomer & { lastBhbSync?: Date | null; bhbRawJson?: unknown; bhbDataHash?: string }): Promise<PortalCustomer>;
-  updateCustomer(id: string, customer: Partial<InsertPortalCustomer> & { lastBhbSync?: Date | null; bhbRawJson?: unknown; bhbDataHash?: string }): Promise<PortalCustomer | undefined>;
+  createCustomer(customer: InsertPortalCustomer & CustomerSyncFields): Promise<PortalCustomer>;
+  updateCustomer(
+    id: string,
+    customer: Partial<InsertPortalCustomer> & CustomerSyncFields,
+    change?: CustomerChangeContext
+  ): Promise<PortalCustomer | undefined>;
+  getCustomerChanges(customerId: string): Promise<CustomerChange[]>;
   deleteCustomer(id: string): Promise<boolean>;
   
   getUserCustomers(userId: string): Promise<PortalUserCustomer[]>;
@@ -57,14 +186,25 @@ export interface IStorage {
   getReceipt(id: string): Promise<BhbReceiptsCache | undefined>;
   getReceiptByIdByCustomer(idByCustomer: string): Promise<BhbReceiptsCache | undefined>;
   upsertReceipt(receipt: InsertBhbReceiptsCache): Promise<BhbReceiptsCache>;
-  updateReceiptDebtor(receiptId: string, debtorNumber: number): Promise<void>;
+  getReceiptsByIdByCustomer(idsByCustomer: string[]): Promise<BhbReceiptsCache[]>;
+  upsertReceipts(receipts: InsertBhbReceiptsCache[]): Promise<number>;
+  getActiveReceiptRefs(): Promise<Pick<BhbReceiptsCache, "idByCustomer" | "invoiceNumber">[]>;
+  markReceiptsCancelled(idsByCustomer: string[]): Promise<BhbReceiptsCache[]>;
+  updateReceiptDebtor(receiptId: string, debtorNumber: number, strategy: DebtorMatchStrategy): Promise<void>;
   updateReceiptStatus(receiptId: string, data: { paymentStatus?: string; dunningLevel?: string }): Promise<BhbReceiptsCache | undefined>;
+  // Null lifts the hold
+  updateReceiptHold(receiptId: string, hold: ReceiptHold | null, userId: string): Promise<BhbReceiptsCache | undefined>;
+  updateReceiptDunningState(receiptId: string, data: { dunningLevel: string; lastDunningSentAt: Date; nextDunningStage: string | null; nextDunningDueAt: Date | null }): Promise<void>;
   updateReceiptsDebtorNumber(oldDebtorNumber: number, newDebtorNumber: number): Promise<number>;
+  getReceiptPayments(receiptIds: string[]): Promise<ReceiptPayment[]>;
+  addReceiptPayments(payments: InsertReceiptPayment[]): Promise<void>;
+  replaceReceiptPayments(receiptId: string, payments: InsertReceiptPayment[]): Promise<void>;
   updateCustomerDebtorNumberAtomic(
     customerId: string,
     oldDebtorNumber: number,
     newDebtorNumber: number,
-    customerUpdate: Partial<InsertPortalCustomer> & { lastBhbSync?: Date | null; bhbRawJson?: unknown; bhbDataHash?: string }
+    customerUpdate: Partial<InsertPortalCustomer> & CustomerSyncFields,
+    change?: CustomerChangeContext
   ): Promise<{ receiptsUpdated: number }>;
   
   getDunningRules(customerId?: string): Promise<DunningRules[]>;
@@ -72,11 +212,13 @@ export interface IStorage {
   upsertDunningRules(rules: InsertDunningRules): Promise<DunningRules>;
   
   getDunningEvents(receiptId: string): Promise<DunningEvent[]>;
+  getDunningEventsForReceipts(receiptIds: string[]): Promise<DunningEvent[]>;
   createDunningEvent(event: InsertDunningEvent): Promise<DunningEvent>;
   updateDunningEvent(id: string, data: Partial<InsertDunningEvent>): Promise<DunningEvent | undefined>;
   
   getDashboardStats(): Promise<{
-    totalOpenAmount: number;
+    totalOpenAmount: number; // Net of open credit notes
+    openCreditAmount: number;
     overdueAmount: number;
     overdueCount: number;
     totalInvoices: number;
@@ -96,8 +238,8 @@ export interface IStorage {
   
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserById(id: string): Promise<User | undefined>;
-  createUser(username: string, password: string, displayName?: string, role?: string): Promise<User>;
-  updateUser(id: string, data: { displayName?: string; role?: string; password?: string }): Promise<User | undefined>;
+  createUser(username: string, password: string, displayName?: string, role?: string, mandantId?: string | null): Promise<User>;
+  updateUser(id: string, data: { displayName?: string; role?: string; password?: string; mandantId?: string | null }): Promise<User | undefined>;
   deleteUser(id: string): Promise<boolean>;
   validateUserPassword(username: string, password: string): Promise<User | null>;
   getAllUsers(): Promise<User[]>;
@@ -109,6 +251,18 @@ export interface IStorage {
   setSetting(key: string, value: string, userId?: string): Promise<PortalSetting>;
   getAllSettings(): Promise<PortalSetting[]>;
   
+  // Mandants (legal entities with their own BHB account)
+  getMandants(): Promise<Mandant[]>;
+  getMandant(id: string): Promise<Mandant | undefined>;
+  createMandant(mandant: InsertMandant): Promise<Mandant>;
+  updateMandant(id: string, data: Partial<InsertMandant>): Promise<Mandant | undefined>;
+  ensureDefaultMandant(): Promise<Mandant>;
+  
+  // EZB base rate history
+  getEzbBaseRates(): Promise<EzbBaseRate[]>;
+  upsertEzbBaseRate(validFrom: string, ratePercent: number, userId?: string): Promise<EzbBaseRate>;
+  deleteEzbBaseRate(id: string): Promise<boolean>;
+  
   deleteAutoGeneratedCustomers(): Promise<{ deleted: number; skipped: number; skippedNames: string[] }>;
   
   // Counterparty mappings
@@ -117,6 +271,7 @@ export interface IStorage {
   createCounterpartyMapping(mapping: InsertCounterpartyMapping): Promise<CounterpartyMapping>;
   deleteCounterpartyMapping(id: string): Promise<boolean>;
   getUnmatchedCounterparties(): Promise<{ counterpartyName: string; count: number }[]>;
+  getUnassignedReceipts(): Promise<BhbReceiptsCache[]>;
   getReceiptsByCounterparty(counterpartyName: string): Promise<BhbReceiptsCache[]>;
   
   getCounterpartyExceptions(): Promise<{ id: string; counterpartyName: string; status: string; note: string | null }[]>;
@@ -127,16 +282,23 @@ export interface IStorage {
   getDunningEmailTemplates(): Promise<DunningEmailTemplate[]>;
   getDunningEmailTemplate(id: string): Promise<DunningEmailTemplate | undefined>;
   getDunningEmailTemplatesByStage(stage: string): Promise<DunningEmailTemplate[]>;
-  createDunningEmailTemplate(template: InsertDunningEmailTemplate): Promise<DunningEmailTemplate>;
-  updateDunningEmailTemplate(id: string, template: Partial<InsertDunningEmailTemplate>): Promise<DunningEmailTemplate | undefined>;
+  createDunningEmailTemplate(template: InsertDunningEmailTemplate & TemplateMandant): Promise<DunningEmailTemplate>;
+  updateDunningEmailTemplate(id: string, template: Partial<InsertDunningEmailTemplate> & TemplateMandant): Promise<DunningEmailTemplate | undefined>;
   deleteDunningEmailTemplate(id: string): Promise<boolean>;
   
   // Dunning events for customer
   getDunningEventsForCustomer(customerId: string): Promise<DunningEvent[]>;
   createDunningEventForCustomer(event: Omit<InsertDunningEvent, "receiptId"> & { customerId: string }): Promise<DunningEvent>;
   
+  // Dunning proposals (dry-run approval queue)
+  getDunningProposals(status?: string): Promise<DunningProposal[]>;
+  getDunningProposal(id: string): Promise<DunningProposal | undefined>;
+  createDunningProposal(proposal: InsertDunningProposal): Promise<DunningProposal>;
+  updateDunningProposal(id: string, data: Partial<InsertDunningProposal>): Promise<DunningProposal | undefined>;
+  deletePendingDunningProposals(): Promise<number>;
+  
   // Customer open invoice statistics
-  getCustomerOpenInvoiceStats(): Promise<Map<number, { count: number; totalOpen: number; overdueCount: number }>>;
+  getCustomerOpenInvoiceStats(): Promise<Map<number, CustomerOpenInvoiceStats>>;
   
   // Branding configuration
   getBrandingConfig(): Promise<BrandingConfig>;
@@ -149,16 +311,39 @@ export interface IStorage {
   getSyncLog(id: string): Promise<SyncLog | undefined>;
   createSyncLog(log: InsertSyncLog): Promise<SyncLog>;
   updateSyncLog(id: string, data: Partial<InsertSyncLog>): Promise<SyncLog | undefined>;
+  getLastSuccessfulSyncLog(entityTypes: string[]): Promise<SyncLog | undefined>;
   getLastSyncLog(entityType?: string): Promise<SyncLog | undefined>;
+  getRunningSyncLogs(): Promise<SyncLog[]>;
+  deleteSyncLogsBefore(date: Date): Promise<number>;
+  createSyncLogRecords(records: InsertSyncLogRecord[]): Promise<void>;
+  getSyncLogRecords(syncLogId: string, filter?: { entityType?: string; action?: string }): Promise<SyncLogRecord[]>;
+  getSyncLogRecordCounts(syncLogId: string): Promise<{ entityType: string; action: string; count: number }[]>;
+  deleteSyncLogRecordsBefore(date: Date): Promise<number>;
+
+  // Sync locks
+  getSyncLocks(): Promise<SyncLock[]>;
+  // Across all mandants, for crash recovery outside a mandant context
+  getAllSyncLocks(): Promise<SyncLock[]>;
+  insertSyncLock(lock: InsertSyncLock): Promise<SyncLock | undefined>;
+  takeOverStaleSyncLock(lock: InsertSyncLock, staleBefore: Date): Promise<SyncLock | undefined>;
+  touchSyncLocks(syncLogId: string): Promise<void>;
+  releaseSyncLocks(syncLogId: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
   async getCustomers(): Promise<PortalCustomer[]> {
-    return db.select().from(portalCustomers).orderBy(portalCustomers.displayName);
+    return db
+      .select()
+      .from(portalCustomers)
+      .where(inCurrentMandant(portalCustomers.mandantId))
+      .orderBy(portalCustomers.displayName);
   }
 
   async getCustomer(id: string): Promise<PortalCustomer | undefined> {
-    const [customer] = await db.select().from(portalCustomers).where(eq(portalCustomers.id, id));
+    const [customer] = await db
+      .select()
+      .from(portalCustomers)
+      .where(and(eq(portalCustomers.id, id), inCurrentMandant(portalCustomers.mandantId)));
     return customer;
   }
 
@@ -166,7 +351,10 @@ export class DatabaseStorage implements IStorage {
     const [customer] = await db
       .select()
       .from(portalCustomers)
-      .where(eq(portalCustomers.debtorPostingaccountNumber, debtorNumber));
+      .where(and(
+        eq(portalCustomers.debtorPostingaccountNumber, debtorNumber),
+        inCurrentMandant(portalCustomers.mandantId)
+      ));
     return customer;
   }
 
@@ -175,33 +363,62 @@ export class DatabaseStorage implements IStorage {
     const [exactMatch] = await db
       .select()
       .from(portalCustomers)
-      .where(eq(portalCustomers.displayName, name));
+      .where(and(eq(portalCustomers.displayName, name), inCurrentMandant(portalCustomers.mandantId)));
     if (exactMatch) return exactMatch;
 
     // Try partial match (counterparty name might be truncated in BHB)
-    const allCustomers = await db.select().from(portalCustomers);
+    const allCustomers = await this.getCustomers();
     return allCustomers.find(c => 
       c.displayName.toLowerCase().includes(name.toLowerCase()) ||
       name.toLowerCase().includes(c.displayName.toLowerCase())
     );
   }
 
-  async createCustomer(customer: InsertPortalCustomer & { lastBhbSync?: Date | null; bhbRawJson?: unknown; bhbDataHash?: string }): Promise<PortalCustomer> {
-    const [created] = await db.insert(portalCustomers).values(customer).returning();
+  async createCustomer(customer: InsertPortalCustomer & CustomerSyncFields): Promise<PortalCustomer> {
+    const [created] = await db
+      .insert(portalCustomers)
+      .values({ ...customer, mandantId: requireMandantId() })
+      .returning();
     return created;
   }
 
-  async updateCustomer(id: string, customer: Partial<InsertPortalCustomer> & { lastBhbSync?: Date | null; bhbRawJson?: unknown; bhbDataHash?: string }): Promise<PortalCustomer | undefined> {
+  /**
+   * With a change context, the changed master data fields are written to the
+   * customer history in the same transaction.
+   */
+  async updateCustomer(
+    id: string,
+    customer: Partial<InsertPortalCustomer> & CustomerSyncFields,
+    change?: CustomerChangeContext
+  ): Promise<PortalCustomer | undefined> {
     console.log(`[storage] updateCustomer ${id}, bhbDataHash in input: ${customer.bhbDataHash}`);
-    const [updated] = await db
-      .update(portalCustomers)
-      .set({ ...customer, updatedAt: new Date() })
-      .where(eq(portalCustomers.id, id))
-      .returning();
+    const updated = await db.transaction(async (tx) => {
+      const [before] = change
+        ? await tx.select().from(portalCustomers).where(eq(portalCustomers.id, id)).for("update")
+        : [];
+      const [after] = await tx
+        .update(portalCustomers)
+        .set({ ...customer, updatedAt: new Date() })
+        .where(and(eq(portalCustomers.id, id), inCurrentMandant(portalCustomers.mandantId)))
+        .returning();
+      if (change && before && after) {
+        const changes = getCustomerChanges(before, after, change);
+        if (changes.length > 0) await tx.insert(customerChanges).values(changes);
+      }
+      return after;
+    });
     console.log(`[storage] updateCustomer result, bhbDataHash: ${updated?.bhbDataHash}`);
     return updated;
   }
 
+  async getCustomerChanges(customerId: string): Promise<CustomerChange[]> {
+    return db
+      .select()
+      .from(customerChanges)
+      .where(eq(customerChanges.customerId, customerId))
+      .orderBy(desc(customerChanges.changedAt));
+  }
+
   async deleteCustomer(id: string): Promise<boolean> {
     const existing = await this.getCustomer(id);
     if (!existing) {
@@ -250,16 +467,18 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(bhbReceiptsCache.paymentStatus, filters.status));
     }
     
-    let query = db.select().from(bhbReceiptsCache);
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions)) as any;
-    }
-    
-    return query.orderBy(desc(bhbReceiptsCache.dueDate));
+    return db
+      .select()
+      .from(bhbReceiptsCache)
+      .where(and(inCurrentMandant(bhbReceiptsCache.mandantId), ...conditions))
+      .orderBy(desc(bhbReceiptsCache.dueDate));
   }
 
   async getReceipt(id: string): Promise<BhbReceiptsCache | undefined> {
-    const [receipt] = await db.select().from(bhbReceiptsCache).where(eq(bhbReceiptsCache.id, id));
+    const [receipt] = await db
+      .select()
+      .from(bhbReceiptsCache)
+      .where(and(eq(bhbReceiptsCache.id, id), inCurrentMandant(bhbReceiptsCache.mandantId)));
     return receipt;
   }
 
@@ -267,19 +486,21 @@ export class DatabaseStorage implements IStorage {
     const [receipt] = await db
       .select()
       .from(bhbReceiptsCache)
-      .where(eq(bhbReceiptsCache.idByCustomer, idByCustomer));
+      .where(and(eq(bhbReceiptsCache.idByCustomer, idByCustomer), inCurrentMandant(bhbReceiptsCache.mandantId)));
     return receipt;
   }
 
   async upsertReceipt(receipt: InsertBhbReceiptsCache): Promise<BhbReceiptsCache> {
     const [upserted] = await db
       .insert(bhbReceiptsCache)
-      .values({ ...receipt, lastSyncedAt: new Date() })
+      .values({ ...receipt, mandantId: requireMandantId(), lastSyncedAt: new Date() })
       .onConflictDoUpdate({
-        target: bhbReceiptsCache.idByCustomer,
+        target: [bhbReceiptsCache.mandantId, bhbReceiptsCache.idByCustomer],
         set: {
           debtorPostingaccountNumber: receipt.debtorPostingaccountNumber,
+          debtorMatchStrategy: receipt.debtorMatchStrategy,
           invoiceNumber: receipt.invoiceNumber,
+          receiptType: receipt.receiptType,
           receiptDate: receipt.receiptDate,
           dueDate: receipt.dueDate,
           amountTotal: receipt.amountTotal,
@@ -293,48 +514,165 @@ export class DatabaseStorage implements IStorage {
     return upserted;
   }
 
-  async updateReceiptDebtor(receiptId: string, debtorNumber: number): Promise<void> {
+  async getReceiptsByIdByCustomer(idsByCustomer: string[]): Promise<BhbReceiptsCache[]> {
+    if (idsByCustomer.length === 0) return [];
+    return db
+      .select()
+      .from(bhbReceiptsCache)
+      .where(and(inArray(bhbReceiptsCache.idByCustomer, idsByCustomer), inCurrentMandant(bhbReceiptsCache.mandantId)));
+  }
+
+  async upsertReceipts(receipts: InsertBhbReceiptsCache[]): Promise<number> {
+    if (receipts.length === 0) return 0;
+    const now = new Date();
+    const mandantId = requireMandantId();
+    const result = await db
+      .insert(bhbReceiptsCache)
+      .values(receipts.map((receipt) => ({ ...receipt, mandantId, lastSyncedAt: now })))
+      .onConflictDoUpdate({
+        target: [bhbReceiptsCache.mandantId, bhbReceiptsCache.idByCustomer],
+        set: {
+          debtorPostingaccountNumber: sql`excluded.debtor_postingaccount_number`,
+          debtorMatchStrategy: sql`excluded.debtor_match_strategy`,
+          invoiceNumber: sql`excluded.invoice_number`,
+          receiptType: sql`excluded.receipt_type`,
+          receiptDate: sql`excluded.receipt_date`,
+          dueDate: sql`excluded.due_date`,
+          amountTotal: sql`excluded.amount_total`,
+          amountOpen: sql`excluded.amount_open`,
+          paymentStatus: sql`excluded.payment_status`,
+          rawJson: sql`excluded.raw_json`,
+          lastSyncedAt: now,
+        },
+      });
+    return result.rowCount ?? receipts.length;
+  }
+
+  async getActiveReceiptRefs(): Promise<Pick<BhbReceiptsCache, "idByCustomer" | "invoiceNumber">[]> {
+    return db
+      .select({ idByCustomer: bhbReceiptsCache.idByCustomer, invoiceNumber: bhbReceiptsCache.invoiceNumber })
+      .from(bhbReceiptsCache)
+      .where(and(ne(bhbReceiptsCache.paymentStatus, "cancelled"), inCurrentMandant(bhbReceiptsCache.mandantId)));
+  }
+
+  async markReceiptsCancelled(idsByCustomer: string[]): Promise<BhbReceiptsCache[]> {
+    if (idsByCustomer.length === 0) return [];
+    return db
+      .update(bhbReceiptsCache)
+      .set({ paymentStatus: "cancelled", lastSyncedAt: new Date() })
+      .where(and(
+        inArray(bhbReceiptsCache.idByCustomer, idsByCustomer),
+        ne(bhbReceiptsCache.paymentStatus, "cancelled"),
+        inCurrentMandant(bhbReceiptsCache.mandantId)
+      ))
+      .returning();
+  }
+
+  async updateReceiptDebtor(receiptId: string, debtorNumber: number, strategy: DebtorMatchStrategy): Promise<void> {
     await db
       .update(bhbReceiptsCache)
-      .set({ debtorPostingaccountNumber: debtorNumber })
-      .where(eq(bhbReceiptsCache.id, receiptId));
+      .set({ debtorPostingaccountNumber: debtorNumber, debtorMatchStrategy: strategy })
+      .where(and(eq(bhbReceiptsCache.id, receiptId), inCurrentMandant(bhbReceiptsCache.mandantId)));
   }
 
   async updateReceiptStatus(receiptId: string, data: { paymentStatus?: string; dunningLevel?: string }): Promise<BhbReceiptsCache | undefined> {
     const [updated] = await db
       .update(bhbReceiptsCache)
       .set(data)
-      .where(eq(bhbReceiptsCache.id, receiptId))
+      .where(and(eq(bhbReceiptsCache.id, receiptId), inCurrentMandant(bhbReceiptsCache.mandantId)))
       .returning();
     return updated;
   }
 
+  async updateReceiptHold(receiptId: string, hold: ReceiptHold | null, userId: string): Promise<BhbReceiptsCache | undefined> {
+    const [updated] = await db
+      .update(bhbReceiptsCache)
+      .set({
+        onHold: hold !== null,
+        holdReason: hold?.reason ?? null,
+        holdUntil: hold?.until ?? null,
+        holdOwner: hold?.owner ?? null,
+        holdSetBy: hold ? userId : null,
+        holdSetAt: hold ? new Date() : null,
+      })
+      .where(and(eq(bhbReceiptsCache.id, receiptId), inCurrentMandant(bhbReceiptsCache.mandantId)))
+      .returning();
+    return updated;
+  }
+
+  async updateReceiptDunningState(receiptId: string, data: { dunningLevel: string; lastDunningSentAt: Date; nextDunningStage: string | null; nextDunningDueAt: Date | null }): Promise<void> {
+    await db
+      .update(bhbReceiptsCache)
+      .set(data)
+      .where(and(eq(bhbReceiptsCache.id, receiptId), inCurrentMandant(bhbReceiptsCache.mandantId)));
+  }
+
   async updateReceiptsDebtorNumber(oldDebtorNumber: number, newDebtorNumber: number): Promise<number> {
     const updated = await db
       .update(bhbReceiptsCache)
       .set({ debtorPostingaccountNumber: newDebtorNumber })
-      .where(eq(bhbReceiptsCache.debtorPostingaccountNumber, oldDebtorNumber))
+      .where(and(
+        eq(bhbReceiptsCache.debtorPostingaccountNumber, oldDebtorNumber),
+        inCurrentMandant(bhbReceiptsCache.mandantId)
+      ))
       .returning();
     return updated.length;
   }
 
+  // Oldest first; payments without a date were made before tracking started and come first
+  async getReceiptPayments(receiptIds: string[]): Promise<ReceiptPayment[]> {
+    if (receiptIds.length === 0) return [];
+    return db
+      .select()
+      .from(receiptPayments)
+      .where(inArray(receiptPayments.receiptId, receiptIds))
+      .orderBy(sql`${receiptPayments.paymentDate} ASC NULLS FIRST`, asc(receiptPayments.createdAt));
+  }
+
+  async addReceiptPayments(payments: InsertReceiptPayment[]): Promise<void> {
+    if (payments.length === 0) return;
+    await db.insert(receiptPayments).values(payments);
+  }
+
+  // Payment details from BHB are authoritative and replace everything recorded so far
+  async replaceReceiptPayments(receiptId: string, payments: InsertReceiptPayment[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(receiptPayments).where(eq(receiptPayments.receiptId, receiptId));
+      if (payments.length > 0) {
+        await tx.insert(receiptPayments).values(payments);
+      }
+    });
+  }
+
   async updateCustomerDebtorNumberAtomic(
     customerId: string,
     oldDebtorNumber: number,
     newDebtorNumber: number,
-    customerUpdate: Partial<InsertPortalCustomer> & { lastBhbSync?: Date | null; bhbRawJson?: unknown; bhbDataHash?: string }
+    customerUpdate: Partial<InsertPortalCustomer> & CustomerSyncFields,
+    change?: CustomerChangeContext
   ): Promise<{ receiptsUpdated: number }> {
     return await db.transaction(async (tx) => {
       const receiptsUpdated = await tx
         .update(bhbReceiptsCache)
         .set({ debtorPostingaccountNumber: newDebtorNumber })
-        .where(eq(bhbReceiptsCache.debtorPostingaccountNumber, oldDebtorNumber))
+        .where(and(
+          eq(bhbReceiptsCache.debtorPostingaccountNumber, oldDebtorNumber),
+          inCurrentMandant(bhbReceiptsCache.mandantId)
+        ))
         .returning();
       
-      await tx
+      const [before] = change
+        ? await tx.select().from(portalCustomers).where(eq(portalCustomers.id, customerId)).for("update")
+        : [];
+      const [after] = await tx
         .update(portalCustomers)
         .set({ ...customerUpdate, updatedAt: new Date() })
-        .where(eq(portalCustomers.id, customerId));
+        .where(and(eq(portalCustomers.id, customerId), inCurrentMandant(portalCustomers.mandantId)))
+        .returning();
+      if (change && before && after) {
+        const changes = getCustomerChanges(before, after, change);
+        if (changes.length > 0) await tx.insert(customerChanges).values(changes);
+      }
       
       return { receiptsUpdated: receiptsUpdated.length };
     });
@@ -344,7 +682,7 @@ export class DatabaseStorage implements IStorage {
     if (customerId) {
       return db.select().from(dunningRules).where(eq(dunningRules.customerId, customerId));
     }
-    return db.select().from(dunningRules);
+    return db.select().from(dunningRules).where(customerInCurrentMandant(dunningRules.customerId));
   }
 
   async getDunningRulesForCustomer(customerId: string): Promise<DunningRules | undefined> {
@@ -376,6 +714,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(dunningEvents.createdAt));
   }
 
+  async getDunningEventsForReceipts(receiptIds: string[]): Promise<DunningEvent[]> {
+    if (receiptIds.length === 0) return [];
+    return db
+      .select()
+      .from(dunningEvents)
+      .where(inArray(dunningEvents.receiptId, receiptIds))
+      .orderBy(asc(dunningEvents.createdAt));
+  }
+
   async createDunningEvent(event: InsertDunningEvent): Promise<DunningEvent> {
     const [created] = await db.insert(dunningEvents).values(event).returning();
     return created;
@@ -394,8 +741,11 @@ export class DatabaseStorage implements IStorage {
     const today = new Date();
     const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
     
-    const receipts = await db.select().from(bhbReceiptsCache).where(eq(bhbReceiptsCache.paymentStatus, "unpaid"));
-    const allCustomers = await db.select().from(portalCustomers);
+    const receipts = await db
+      .select()
+      .from(bhbReceiptsCache)
+      .where(and(eq(bhbReceiptsCache.paymentStatus, "unpaid"), inCurrentMandant(bhbReceiptsCache.mandantId)));
+    const allCustomers = await this.getCustomers();
     const activeCustomers = allCustomers.filter(c => c.isActive);
     const monthlyEvents = await db
       .select()
@@ -403,7 +753,9 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(dunningEvents.status, "sent"),
-          sql`${dunningEvents.sentAt} >= ${startOfMonth}`
+          isNull(dunningEvents.parentEventId),
+          sql`${dunningEvents.sentAt} >= ${startOfMonth}`,
+          customerInCurrentMandant(dunningEvents.customerId)
         )
       );
 
@@ -435,11 +787,23 @@ export class DatabaseStorage implements IStorage {
     };
 
     let totalOpenAmount = 0;
+    let openCreditAmount = 0;
     let overdueAmount = 0;
     let overdueCount = 0;
+    const netByDebtor = new Map<number, number>();
 
     for (const receipt of receipts) {
       const amount = parseFloat(receipt.amountOpen?.toString() || receipt.amountTotal?.toString() || "0");
+      if (receipt.debtorPostingaccountNumber) {
+        const net = netByDebtor.get(receipt.debtorPostingaccountNumber) || 0;
+        netByDebtor.set(receipt.debtorPostingaccountNumber, net + (isCreditNote(receipt) ? -amount : amount));
+      }
+      // Unused credit reduces what debtors owe but is never due
+      if (isCreditNote(receipt)) {
+        totalOpenAmount -= amount;
+        openCreditAmount += amount;
+        continue;
+      }
       totalOpenAmount += amount;
       
       const effectiveDueDate = getEffectiveDueDate(receipt);
@@ -460,9 +824,10 @@ export class DatabaseStorage implements IStorage {
 
     for (const receipt of receipts) {
       const amount = parseFloat(receipt.amountOpen?.toString() || receipt.amountTotal?.toString() || "0");
-      if (amount <= 0) continue;
+      if (amount <= 0 || isCreditNote(receipt)) continue;
       
-      if (receipt.debtorPostingaccountNumber) {
+      // Debtors whose credit notes cover their invoices owe nothing
+      if (receipt.debtorPostingaccountNumber && (netByDebtor.get(receipt.debtorPostingaccountNumber) || 0) > 0) {
         debtorsWithOpenInvoices.add(receipt.debtorPostingaccountNumber);
       }
       
@@ -488,9 +853,10 @@ export class DatabaseStorage implements IStorage {
 
     return {
       totalOpenAmount,
+      openCreditAmount,
       overdueAmount,
       overdueCount,
-      totalInvoices: receipts.length,
+      totalInvoices: receipts.filter((receipt) => !isCreditNote(receipt)).length,
       dunningEmailsSent: monthlyEvents.length,
       customersCount: activeCustomers.length,
       activeDebtorsCount: debtorsWithOpenInvoices.size,
@@ -507,7 +873,7 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(bhbReceiptsCache)
-      .where(eq(bhbReceiptsCache.paymentStatus, "unpaid"))
+      .where(and(eq(bhbReceiptsCache.paymentStatus, "unpaid"), inCurrentMandant(bhbReceiptsCache.mandantId)))
       .orderBy(desc(bhbReceiptsCache.dueDate))
       .limit(limit);
   }
@@ -535,17 +901,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getReceiptsForUser(userId: string): Promise<BhbReceiptsCache[]> {
+    // Customer users see their linked customers' receipts regardless of the selected mandant
     const customers = await this.getCustomersForUser(userId);
     if (customers.length === 0) return [];
     
-    const debtorNumbers = customers.map(c => c.debtorPostingaccountNumber);
     const receipts: BhbReceiptsCache[] = [];
     
-    for (const debtorNumber of debtorNumbers) {
+    for (const customer of customers) {
       const customerReceipts = await db
         .select()
         .from(bhbReceiptsCache)
-        .where(eq(bhbReceiptsCache.debtorPostingaccountNumber, debtorNumber));
+        .where(and(
+          eq(bhbReceiptsCache.debtorPostingaccountNumber, customer.debtorPostingaccountNumber),
+          customer.mandantId ? eq(bhbReceiptsCache.mandantId, customer.mandantId) : isNull(bhbReceiptsCache.mandantId)
+        ));
       receipts.push(...customerReceipts);
     }
     
@@ -572,6 +941,10 @@ export class DatabaseStorage implements IStorage {
 
     for (const receipt of unpaidReceipts) {
       const amount = parseFloat(receipt.amountOpen?.toString() || receipt.amountTotal?.toString() || "0");
+      if (isCreditNote(receipt)) {
+        totalOpenAmount -= amount;
+        continue;
+      }
       totalOpenAmount += amount;
       
       if (receipt.dueDate && new Date(receipt.dueDate) < today) {
@@ -584,7 +957,7 @@ export class DatabaseStorage implements IStorage {
       totalOpenAmount,
       overdueAmount,
       overdueCount,
-      totalInvoices: unpaidReceipts.length,
+      totalInvoices: unpaidReceipts.filter((receipt) => !isCreditNote(receipt)).length,
     };
   }
 
@@ -598,13 +971,20 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(username: string, password: string, displayName?: string, role: string = "user"): Promise<User> {
+  async createUser(
+    username: string,
+    password: string,
+    displayName?: string,
+    role: string = "user",
+    mandantId: string | null = null
+  ): Promise<User> {
     const passwordHash = await bcrypt.hash(password, 10);
     const [user] = await db.insert(users).values({
       username,
       passwordHash,
       displayName: displayName || username,
       role,
+      mandantId,
     }).returning();
     return user;
   }
@@ -647,7 +1027,7 @@ export class DatabaseStorage implements IStorage {
       INSERT INTO users (username, password_hash, display_name, role)
       SELECT ${username}, ${passwordHash}, ${displayName || username}, 'admin'
       WHERE (SELECT admin_count FROM admin_check) = 0
-      RETURNING id, username, password_hash, display_name, role, created_at
+      RETURNING id, username, password_hash, display_name, role, mandant_id, created_at
     `);
     
     const rows = result.rows as any[];
@@ -661,12 +1041,13 @@ export class DatabaseStorage implements IStorage {
       passwordHash: rows[0].password_hash,
       displayName: rows[0].display_name,
       role: rows[0].role,
+      mandantId: rows[0].mandant_id,
       createdAt: rows[0].created_at,
       updatedAt: rows[0].updated_at || rows[0].created_at,
     };
   }
 
-  async updateUser(id: string, data: { displayName?: string; role?: string; password?: string }): Promise<User | undefined> {
+  async updateUser(id: string, data: { displayName?: string; role?: string; password?: string; mandantId?: string | null }): Promise<User | undefined> {
     const updateData: Record<string, unknown> = {};
     
     if (data.displayName !== undefined) {
@@ -675,6 +1056,9 @@ export class DatabaseStorage implements IStorage {
     if (data.role !== undefined) {
       updateData.role = data.role;
     }
+    if (data.mandantId !== undefined) {
+      updateData.mandantId = data.mandantId;
+    }
     if (data.password !== undefined && data.password.length > 0) {
       updateData.passwordHash = await bcrypt.hash(data.password, 10);
     }
@@ -696,7 +1080,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getSetting(key: string): Promise<string | null> {
-    const [setting] = await db.select().from(portalSettings).where(eq(portalSettings.settingKey, key));
+    const [setting] = await db.select().from(portalSettings).where(eq(portalSettings.settingKey, mandantSettingKey(key)));
     if (!setting?.settingValue) return null;
     
     if (SENSITIVE_SETTINGS.includes(key) && isEncrypted(setting.settingValue)) {
@@ -714,20 +1098,21 @@ export class DatabaseStorage implements IStorage {
   async setSetting(key: string, value: string, userId?: string): Promise<PortalSetting> {
     const storedValue = SENSITIVE_SETTINGS.includes(key) ? encrypt(value) : value;
     const isEncryptedFlag = SENSITIVE_SETTINGS.includes(key) ? "true" : "false";
+    const settingKey = mandantSettingKey(key);
     
-    const [existing] = await db.select().from(portalSettings).where(eq(portalSettings.settingKey, key));
+    const [existing] = await db.select().from(portalSettings).where(eq(portalSettings.settingKey, settingKey));
     
     if (existing) {
       const [updated] = await db
         .update(portalSettings)
         .set({ settingValue: storedValue, isEncrypted: isEncryptedFlag, updatedBy: userId, updatedAt: new Date() })
-        .where(eq(portalSettings.settingKey, key))
+        .where(eq(portalSettings.settingKey, settingKey))
         .returning();
       return updated;
     }
     
     const [created] = await db.insert(portalSettings).values({
-      settingKey: key,
+      settingKey,
       settingValue: storedValue,
       isEncrypted: isEncryptedFlag,
       updatedBy: userId,
@@ -739,6 +1124,99 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(portalSettings);
   }
 
+  async getMandants(): Promise<Mandant[]> {
+    return db.select().from(mandants).orderBy(mandants.name);
+  }
+
+  async getMandant(id: string): Promise<Mandant | undefined> {
+    const [mandant] = await db.select().from(mandants).where(eq(mandants.id, id));
+    return mandant;
+  }
+
+  async createMandant(mandant: InsertMandant): Promise<Mandant> {
+    const [created] = await db.insert(mandants).values(mandant).returning();
+    return created;
+  }
+
+  async updateMandant(id: string, data: Partial<InsertMandant>): Promise<Mandant | undefined> {
+    const [updated] = await db
+      .update(mandants)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(mandants.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Makes sure at least one mandant exists and that no data is left without one.
+   * On the first start after the upgrade the single-account settings are copied
+   * to the new mandant, and rows from before the upgrade are assigned to the
+   * oldest mandant.
+   */
+  async ensureDefaultMandant(): Promise<Mandant> {
+    return await db.transaction(async (tx) => {
+      let [mandant] = await tx.select().from(mandants).orderBy(asc(mandants.createdAt)).limit(1);
+
+      if (!mandant) {
+        const [companyName] = await tx
+          .select()
+          .from(portalSettings)
+          .where(eq(portalSettings.settingKey, "COMPANY_NAME"));
+        [mandant] = await tx
+          .insert(mandants)
+          .values({ name: companyName?.settingValue || "Hauptmandant" })
+          .returning();
+
+        const globalSettings = await tx
+          .select()
+          .from(portalSettings)
+          .where(inArray(portalSettings.settingKey, MANDANT_SETTINGS));
+        for (const setting of globalSettings) {
+          await tx
+            .insert(portalSettings)
+            .values({
+              settingKey: `${setting.settingKey}:${mandant.id}`,
+              settingValue: setting.settingValue,
+              isEncrypted: setting.isEncrypted,
+              updatedBy: setting.updatedBy,
+            })
+            .onConflictDoNothing({ target: portalSettings.settingKey });
+        }
+        console.log(`[mandants] Created default mandant "${mandant.name}" with ${globalSettings.length} settings`);
+      }
+
+      const mandantId = mandant.id;
+      await tx.update(portalCustomers).set({ mandantId }).where(isNull(portalCustomers.mandantId));
+      await tx.update(bhbReceiptsCache).set({ mandantId }).where(isNull(bhbReceiptsCache.mandantId));
+      await tx.update(counterpartyMappings).set({ mandantId }).where(isNull(counterpartyMappings.mandantId));
+      await tx.update(counterpartyExceptions).set({ mandantId }).where(isNull(counterpartyExceptions.mandantId));
+      await tx.update(syncLogs).set({ mandantId }).where(isNull(syncLogs.mandantId));
+
+      return mandant;
+    });
+  }
+
+  async getEzbBaseRates(): Promise<EzbBaseRate[]> {
+    return db.select().from(ezbBaseRates).orderBy(ezbBaseRates.validFrom);
+  }
+
+  async upsertEzbBaseRate(validFrom: string, ratePercent: number, userId?: string): Promise<EzbBaseRate> {
+    const [result] = await db
+      .insert(ezbBaseRates)
+      .values({ validFrom, ratePercent: ratePercent.toFixed(2), updatedBy: userId })
+      .onConflictDoUpdate({
+        target: ezbBaseRates.validFrom,
+        set: { ratePercent: ratePercent.toFixed(2), updatedBy: userId },
+      })
+      .returning();
+    return result;
+  }
+
+  async deleteEzbBaseRate(id: string): Promise<boolean> {
+    const result = await db.delete(ezbBaseRates).where(eq(ezbBaseRates.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   async deleteAutoGeneratedCustomers(): Promise<{ deleted: number; skipped: number; skippedNames: string[] }> {
     return await db.transaction(async (tx) => {
       const autoGeneratedCustomers = await tx
@@ -747,7 +1225,8 @@ export class DatabaseStorage implements IStorage {
         .where(
           and(
             sql`${portalCustomers.debtorPostingaccountNumber} >= 80000`,
-            sql`${portalCustomers.debtorPostingaccountNumber} < 90000`
+            sql`${portalCustomers.debtorPostingaccountNumber} < 90000`,
+            inCurrentMandant(portalCustomers.mandantId)
           )
         );
       
@@ -759,7 +1238,10 @@ export class DatabaseStorage implements IStorage {
         const receiptsWithThisDebtor = await tx
           .select()
           .from(bhbReceiptsCache)
-          .where(eq(bhbReceiptsCache.debtorPostingaccountNumber, customer.debtorPostingaccountNumber));
+          .where(and(
+            eq(bhbReceiptsCache.debtorPostingaccountNumber, customer.debtorPostingaccountNumber),
+            inCurrentMandant(bhbReceiptsCache.mandantId)
+          ));
         
         if (receiptsWithThisDebtor.length > 0) {
           skipped++;
@@ -779,23 +1261,30 @@ export class DatabaseStorage implements IStorage {
 
   // Counterparty mappings
   async getCounterpartyMappings(): Promise<CounterpartyMapping[]> {
-    return db.select().from(counterpartyMappings).orderBy(counterpartyMappings.counterpartyName);
+    return db
+      .select()
+      .from(counterpartyMappings)
+      .where(inCurrentMandant(counterpartyMappings.mandantId))
+      .orderBy(counterpartyMappings.counterpartyName);
   }
 
   async getCounterpartyMapping(counterpartyName: string): Promise<CounterpartyMapping | undefined> {
     const [mapping] = await db
       .select()
       .from(counterpartyMappings)
-      .where(eq(counterpartyMappings.counterpartyName, counterpartyName));
+      .where(and(
+        eq(counterpartyMappings.counterpartyName, counterpartyName),
+        inCurrentMandant(counterpartyMappings.mandantId)
+      ));
     return mapping;
   }
 
   async createCounterpartyMapping(mapping: InsertCounterpartyMapping): Promise<CounterpartyMapping> {
     const [created] = await db
       .insert(counterpartyMappings)
-      .values(mapping)
+      .values({ ...mapping, mandantId: requireMandantId() })
       .onConflictDoUpdate({
-        target: counterpartyMappings.counterpartyName,
+        target: [counterpartyMappings.mandantId, counterpartyMappings.counterpartyName],
         set: { debtorPostingaccountNumber: mapping.debtorPostingaccountNumber },
       })
       .returning();
@@ -803,21 +1292,28 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCounterpartyMapping(id: string): Promise<boolean> {
-    const result = await db.delete(counterpartyMappings).where(eq(counterpartyMappings.id, id)).returning();
+    const result = await db
+      .delete(counterpartyMappings)
+      .where(and(eq(counterpartyMappings.id, id), inCurrentMandant(counterpartyMappings.mandantId)))
+      .returning();
     return result.length > 0;
   }
 
-  async getUnmatchedCounterparties(): Promise<{ counterpartyName: string; count: number }[]> {
-    const receipts = await db
+  async getUnassignedReceipts(): Promise<BhbReceiptsCache[]> {
+    return db
       .select()
       .from(bhbReceiptsCache)
-      .where(eq(bhbReceiptsCache.debtorPostingaccountNumber, 0));
+      .where(and(eq(bhbReceiptsCache.debtorPostingaccountNumber, 0), inCurrentMandant(bhbReceiptsCache.mandantId)));
+  }
+
+  async getUnmatchedCounterparties(): Promise<{ counterpartyName: string; count: number }[]> {
+    const receipts = await this.getUnassignedReceipts();
     
-    const exceptions = await db.select().from(counterpartyExceptions);
+    const exceptions = await this.getCounterpartyExceptions();
     const ignoredNames = new Set(exceptions.map((e) => e.counterpartyName));
     
     // Also filter out counterparties that already have mappings
-    const existingMappings = await db.select().from(counterpartyMappings);
+    const existingMappings = await this.getCounterpartyMappings();
     const mappedNames = new Set(existingMappings.map((m) => m.counterpartyName));
     
     const countMap = new Map<string, number>();
@@ -836,7 +1332,7 @@ export class DatabaseStorage implements IStorage {
   async getReceiptsByCounterparty(counterpartyName: string): Promise<BhbReceiptsCache[]> {
     // Get ALL receipts (including those with debtorPostingaccountNumber=0) 
     // and filter by counterparty name from rawJson
-    const allReceipts = await db.select().from(bhbReceiptsCache);
+    const allReceipts = await db.select().from(bhbReceiptsCache).where(inCurrentMandant(bhbReceiptsCache.mandantId));
     return allReceipts.filter((r) => {
       const rawCounterparty = (r.rawJson as any)?.counterparty;
       return rawCounterparty === counterpartyName;
@@ -844,29 +1340,45 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getCounterpartyExceptions(): Promise<{ id: string; counterpartyName: string; status: string; note: string | null }[]> {
-    return db.select().from(counterpartyExceptions).orderBy(counterpartyExceptions.counterpartyName);
+    return db
+      .select()
+      .from(counterpartyExceptions)
+      .where(inCurrentMandant(counterpartyExceptions.mandantId))
+      .orderBy(counterpartyExceptions.counterpartyName);
   }
   
   async createCounterpartyException(counterpartyName: string, status: string = "ignored", note?: string): Promise<{ id: string; counterpartyName: string; status: string }> {
     const [created] = await db
       .insert(counterpartyExceptions)
-      .values({ counterpartyName, status, note })
+      .values({ counterpartyName, status, note, mandantId: requireMandantId() })
       .returning();
     return created;
   }
   
   async deleteCounterpartyException(id: string): Promise<boolean> {
-    const result = await db.delete(counterpartyExceptions).where(eq(counterpartyExceptions.id, id));
+    const result = await db
+      .delete(counterpartyExceptions)
+      .where(and(eq(counterpartyExceptions.id, id), inCurrentMandant(counterpartyExceptions.mandantId)));
     return (result.rowCount ?? 0) > 0;
   }
   
-  // Dunning email templates
+  // Dunning email templates: the mandant's own plus the shared ones (no mandant)
   async getDunningEmailTemplates(): Promise<DunningEmailTemplate[]> {
-    return db.select().from(dunningEmailTemplates).orderBy(dunningEmailTemplates.stage, dunningEmailTemplates.name);
+    return db
+      .select()
+      .from(dunningEmailTemplates)
+      .where(or(isNull(dunningEmailTemplates.mandantId), inCurrentMandant(dunningEmailTemplates.mandantId)))
+      .orderBy(dunningEmailTemplates.stage, dunningEmailTemplates.name);
   }
   
   async getDunningEmailTemplate(id: string): Promise<DunningEmailTemplate | undefined> {
-    const [template] = await db.select().from(dunningEmailTemplates).where(eq(dunningEmailTemplates.id, id));
+    const [template] = await db
+      .select()
+      .from(dunningEmailTemplates)
+      .where(and(
+        eq(dunningEmailTemplates.id, id),
+        or(isNull(dunningEmailTemplates.mandantId), inCurrentMandant(dunningEmailTemplates.mandantId))
+      ));
     return template;
   }
   
@@ -874,16 +1386,21 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(dunningEmailTemplates)
-      .where(and(eq(dunningEmailTemplates.stage, stage), eq(dunningEmailTemplates.isActive, true)))
-      .orderBy(desc(dunningEmailTemplates.isDefault), dunningEmailTemplates.name);
+      .where(and(
+        eq(dunningEmailTemplates.stage, stage),
+        eq(dunningEmailTemplates.isActive, true),
+        or(isNull(dunningEmailTemplates.mandantId), inCurrentMandant(dunningEmailTemplates.mandantId))
+      ))
+      // A mandant's own template wins over a shared one of the same stage
+      .orderBy(sql`${dunningEmailTemplates.mandantId} IS NULL`, desc(dunningEmailTemplates.isDefault), dunningEmailTemplates.name);
   }
   
-  async createDunningEmailTemplate(template: InsertDunningEmailTemplate): Promise<DunningEmailTemplate> {
+  async createDunningEmailTemplate(template: InsertDunningEmailTemplate & TemplateMandant): Promise<DunningEmailTemplate> {
     const [created] = await db.insert(dunningEmailTemplates).values(template).returning();
     return created;
   }
   
-  async updateDunningEmailTemplate(id: string, template: Partial<InsertDunningEmailTemplate>): Promise<DunningEmailTemplate | undefined> {
+  async updateDunningEmailTemplate(id: string, template: Partial<InsertDunningEmailTemplate> & TemplateMandant): Promise<DunningEmailTemplate | undefined> {
     const [updated] = await db
       .update(dunningEmailTemplates)
       .set({ ...template, updatedAt: new Date() })
@@ -902,7 +1419,7 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(dunningEvents)
-      .where(eq(dunningEvents.customerId, customerId))
+      .where(and(eq(dunningEvents.customerId, customerId), isNull(dunningEvents.parentEventId)))
       .orderBy(desc(dunningEvents.createdAt));
   }
   
@@ -911,25 +1428,76 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
   
-  async getCustomerOpenInvoiceStats(): Promise<Map<number, { count: number; totalOpen: number; overdueCount: number }>> {
+  // Dunning proposals (dry-run approval queue)
+  async getDunningProposals(status?: string): Promise<DunningProposal[]> {
+    if (status) {
+      return db
+        .select()
+        .from(dunningProposals)
+        .where(and(eq(dunningProposals.status, status), customerInCurrentMandant(dunningProposals.customerId)))
+        .orderBy(desc(dunningProposals.createdAt));
+    }
+    return db
+      .select()
+      .from(dunningProposals)
+      .where(customerInCurrentMandant(dunningProposals.customerId))
+      .orderBy(desc(dunningProposals.createdAt));
+  }
+  
+  async getDunningProposal(id: string): Promise<DunningProposal | undefined> {
+    const [proposal] = await db
+      .select()
+      .from(dunningProposals)
+      .where(and(eq(dunningProposals.id, id), customerInCurrentMandant(dunningProposals.customerId)));
+    return proposal;
+  }
+  
+  async createDunningProposal(proposal: InsertDunningProposal): Promise<DunningProposal> {
+    const [created] = await db.insert(dunningProposals).values(proposal).returning();
+    return created;
+  }
+  
+  async updateDunningProposal(id: string, data: Partial<InsertDunningProposal>): Promise<DunningProposal | undefined> {
+    const [updated] = await db
+      .update(dunningProposals)
+      .set(data)
+      .where(and(eq(dunningProposals.id, id), customerInCurrentMandant(dunningProposals.customerId)))
+      .returning();
+    return updated;
+  }
+  
+  // Removes proposals nobody has decided on yet, so a new dry run replaces them
+  async deletePendingDunningProposals(): Promise<number> {
+    const result = await db
+      .delete(dunningProposals)
+      .where(and(eq(dunningProposals.status, "pending"), customerInCurrentMandant(dunningProposals.customerId)));
+    return result.rowCount ?? 0;
+  }
+  
+  async getCustomerOpenInvoiceStats(): Promise<Map<number, CustomerOpenInvoiceStats>> {
     const today = new Date();
     const defaultPaymentTermDays = 14;
     
     const receipts = await db
       .select()
       .from(bhbReceiptsCache)
-      .where(eq(bhbReceiptsCache.paymentStatus, "unpaid"));
+      .where(and(eq(bhbReceiptsCache.paymentStatus, "unpaid"), inCurrentMandant(bhbReceiptsCache.mandantId)));
     
-    const statsMap = new Map<number, { count: number; totalOpen: number; overdueCount: number }>();
+    const statsMap = new Map<number, CustomerOpenInvoiceStats>();
     
     for (const receipt of receipts) {
       if (!receipt.debtorPostingaccountNumber) continue;
       
-      const existing = statsMap.get(receipt.debtorPostingaccountNumber) || { count: 0, totalOpen: 0, overdueCount: 0 };
+      const existing = statsMap.get(receipt.debtorPostingaccountNumber) || { count: 0, totalOpen: 0, openCredit: 0, overdueCount: 0 };
+      statsMap.set(receipt.debtorPostingaccountNumber, existing);
       const amountOpen = parseFloat(receipt.amountOpen?.toString() || "0");
       
+      existing.totalOpen += getSignedOpenAmount(receipt);
+      if (isCreditNote(receipt)) {
+        existing.openCredit += amountOpen;
+        continue;
+      }
       existing.count++;
-      existing.totalOpen += amountOpen;
       
       let effectiveDueDate: Date;
       if (receipt.dueDate) {
@@ -945,8 +1513,6 @@ export class DatabaseStorage implements IStorage {
       if (effectiveDueDate < today && amountOpen > 0) {
         existing.overdueCount++;
       }
-      
-      statsMap.set(receipt.debtorPostingaccountNumber, existing);
     }
     
     return statsMap;
@@ -1014,17 +1580,22 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(syncLogs)
+      .where(inCurrentMandant(syncLogs.mandantId))
       .orderBy(desc(syncLogs.startedAt))
       .limit(limit);
   }
   
+  // Not scoped: sync locks resolve their owning log regardless of the mandant
   async getSyncLog(id: string): Promise<SyncLog | undefined> {
     const [log] = await db.select().from(syncLogs).where(eq(syncLogs.id, id));
     return log;
   }
   
   async createSyncLog(log: InsertSyncLog): Promise<SyncLog> {
-    const [created] = await db.insert(syncLogs).values(log).returning();
+    const [created] = await db
+      .insert(syncLogs)
+      .values({ ...log, mandantId: getCurrentMandantId() ?? null })
+      .returning();
     return created;
   }
   
@@ -1037,20 +1608,119 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
   
+  async getLastSuccessfulSyncLog(entityTypes: string[]): Promise<SyncLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(syncLogs)
+      .where(and(
+        eq(syncLogs.status, "success"),
+        inArray(syncLogs.entityType, entityTypes),
+        inCurrentMandant(syncLogs.mandantId)
+      ))
+      .orderBy(desc(syncLogs.startedAt))
+      .limit(1);
+    return log;
+  }
+  
   async getLastSyncLog(entityType?: string): Promise<SyncLog | undefined> {
-    let query = db.select().from(syncLogs).orderBy(desc(syncLogs.startedAt)).limit(1);
-    if (entityType) {
-      const [log] = await db
-        .select()
-        .from(syncLogs)
-        .where(eq(syncLogs.entityType, entityType))
-        .orderBy(desc(syncLogs.startedAt))
-        .limit(1);
-      return log;
-    }
-    const [log] = await query;
+    const [log] = await db
+      .select()
+      .from(syncLogs)
+      .where(and(
+        inCurrentMandant(syncLogs.mandantId),
+        entityType ? eq(syncLogs.entityType, entityType) : undefined
+      ))
+      .orderBy(desc(syncLogs.startedAt))
+      .limit(1);
     return log;
   }
+
+  async getRunningSyncLogs(): Promise<SyncLog[]> {
+    return db.select().from(syncLogs).where(eq(syncLogs.status, "running"));
+  }
+
+  async deleteSyncLogsBefore(date: Date): Promise<number> {
+    const result = await db
+      .delete(syncLogs)
+      .where(and(lt(syncLogs.startedAt, date), ne(syncLogs.status, "running")));
+    return result.rowCount ?? 0;
+  }
+
+  async createSyncLogRecords(records: InsertSyncLogRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await db.insert(syncLogRecords).values(records);
+  }
+
+  async getSyncLogRecords(syncLogId: string, filter: { entityType?: string; action?: string } = {}): Promise<SyncLogRecord[]> {
+    const conditions = [eq(syncLogRecords.syncLogId, syncLogId)];
+    if (filter.entityType) conditions.push(eq(syncLogRecords.entityType, filter.entityType));
+    if (filter.action) conditions.push(eq(syncLogRecords.action, filter.action));
+    return db
+      .select()
+      .from(syncLogRecords)
+      .where(and(...conditions))
+      .orderBy(syncLogRecords.createdAt);
+  }
+
+  async getSyncLogRecordCounts(syncLogId: string): Promise<{ entityType: string; action: string; count: number }[]> {
+    return db
+      .select({
+        entityType: syncLogRecords.entityType,
+        action: syncLogRecords.action,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(syncLogRecords)
+      .where(eq(syncLogRecords.syncLogId, syncLogId))
+      .groupBy(syncLogRecords.entityType, syncLogRecords.action);
+  }
+
+  // Detail records age out sooner than the sync logs they belong to
+  async deleteSyncLogRecordsBefore(date: Date): Promise<number> {
+    const result = await db.delete(syncLogRecords).where(lt(syncLogRecords.createdAt, date));
+    return result.rowCount ?? 0;
+  }
+
+  async getSyncLocks(): Promise<SyncLock[]> {
+    return db.select().from(syncLocks).where(inCurrentMandant(syncLocks.mandantId));
+  }
+
+  async getAllSyncLocks(): Promise<SyncLock[]> {
+    return db.select().from(syncLocks);
+  }
+
+  async insertSyncLock(lock: InsertSyncLock): Promise<SyncLock | undefined> {
+    const [inserted] = await db
+      .insert(syncLocks)
+      .values({ ...lock, mandantId: requireMandantId() })
+      .onConflictDoNothing({ target: [syncLocks.mandantId, syncLocks.entityType] })
+      .returning();
+    return inserted;
+  }
+
+  async takeOverStaleSyncLock(lock: InsertSyncLock, staleBefore: Date): Promise<SyncLock | undefined> {
+    const now = new Date();
+    const [updated] = await db
+      .update(syncLocks)
+      .set({ ...lock, acquiredAt: now, heartbeatAt: now })
+      .where(and(
+        eq(syncLocks.entityType, lock.entityType),
+        inCurrentMandant(syncLocks.mandantId),
+        lt(syncLocks.heartbeatAt, staleBefore)
+      ))
+      .returning();
+    return updated;
+  }
+
+  async touchSyncLocks(syncLogId: string): Promise<void> {
+    await db
+      .update(syncLocks)
+      .set({ heartbeatAt: new Date() })
+      .where(eq(syncLocks.syncLogId, syncLogId));
+  }
+
+  async releaseSyncLocks(syncLogId: string): Promise<void> {
+    await db.delete(syncLocks).where(eq(syncLocks.syncLogId, syncLogId));
+  }
 }
 
 export const storage = new DatabaseStorage();
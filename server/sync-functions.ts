@@ -1,33 +1,113 @@
-import { storage } from "./storage";
+import { storage, type CustomerChangeContext } from "./storage";
 import crypto from "crypto";
-
-interface SyncResult {
+import {
+  DEBTOR_SYNC_FIELDS,
+  type InsertBhbReceiptsCache,
+  type DebtorMatchStrategy,
+  type DebtorSyncValues,
+  type PortalCustomer,
+  type ReceiptType,
+} from "@shared/schema";
+import type { SyncProgressTracker } from "./sync-progress";
+import { BhbApiError, getBhbCredentials, type BhbCredentials, type BhbRequestOptions } from "./bhb-client";
+import {
+  getDebtors,
+  getDebtorUpdateError,
+  getReceipt,
+  getReceipts,
+  toCustomerFields,
+  updateDebtor,
+  type BhbDebtor,
+  type BhbInvalidRecord,
+  type BhbReceipt,
+} from "./bhb-api";
+import { createDebtorResolver, type DebtorResolver } from "./debtor-matching";
+import { getAutoApplicableSuggestion, suggestDebtors } from "./counterparty-suggestions";
+import { createSyncRecorder, diffRecordFields, type SyncRecordEntry, type SyncRecorder } from "./sync-records";
+import { derivePaymentUpdate, getPaymentsByReceipt, saveReceiptPayments, type ReceiptPaymentUpdate } from "./receipt-payments";
+import {
+  getDebtorSyncValues,
+  getSyncedState,
+  hasLocalChanges,
+  mergeDebtorChanges,
+  toDebtorUpdate,
+} from "./debtor-sync-state";
+
+export interface SyncResult {
   pulledCount: number;
   createdCount: number;
   updatedCount: number;
   unchangedCount: number;
   errors?: string[];
+  syncMode?: "full" | "incremental";
+  modifiedSince?: string;
+  pageCount?: number;
+  cancelledCount?: number;
+  cancelledInvoices?: string[];
+  pages?: { offset: number; count: number }[];
+  pageLimitReached?: boolean;
+  invalidCount?: number;
+  invalidRecords?: BhbInvalidRecord[];
+  // Records that could not be processed or stored, not part of created/updated
+  errorCount?: number;
+  // Receipts per debtor match strategy, to spot runs that fell back to name matching
+  matchStrategies?: Partial<Record<DebtorMatchStrategy | "unmatched", number>>;
+  // Debtors changed in the portal and in BHB, left for review instead of being overwritten
+  conflictCount?: number;
+}
+
+// Debtors are processed one by one, so progress is only pushed every few records
+const DEBTOR_PROGRESS_INTERVAL = 25;
+// Upper bound of rejected BHB records kept in the sync log
+const MAX_LOGGED_INVALID_RECORDS = 100;
+
+function reportProgress(progress: SyncProgressTracker | undefined, result: SyncResult) {
+  progress?.update({
+    fetched: result.pulledCount,
+    processed: result.createdCount + result.updatedCount + result.unchangedCount,
+    created: result.createdCount,
+    updated: result.updatedCount,
+    errors: result.errors?.length || 0,
+  });
 }
 
-function computeDebtorHash(debtor: any): string {
+/**
+ * Records BHB records that failed validation. They are skipped, and like any other
+ * record error they prevent a full invoice sync from cancelling unseen receipts.
+ */
+function recordInvalid(result: SyncResult, label: string, invalid: BhbInvalidRecord[], recorder: SyncRecorder) {
+  if (invalid.length === 0) return;
+  result.invalidCount = (result.invalidCount || 0) + invalid.length;
+  result.invalidRecords = result.invalidRecords || [];
+  for (const record of invalid) {
+    result.errors?.push(`${label} ${record.record}: ${record.issues.join("; ")}`);
+    recorder.add({ action: "invalid", recordKey: record.record, message: record.issues.join("; ") });
+    if (result.invalidRecords.length < MAX_LOGGED_INVALID_RECORDS) {
+      result.invalidRecords.push(record);
+    }
+  }
+  console.warn(`[sync] Skipped ${invalid.length} invalid BHB records`);
+}
+
+function computeDebtorHash(debtor: Omit<BhbDebtor, "postingaccountNumber" | "raw">): string {
   const normalized = {
     name: debtor.name || "",
     email: debtor.email || "",
-    contact_person: debtor.contact_person || debtor.contactperson || "",
+    contact_person: debtor.contactPerson || "",
     street: debtor.street || "",
-    additional_addressline: debtor.additional_addressline || debtor.addressline2 || "",
-    zip: debtor.zip || debtor.postcode || "",
+    additional_addressline: debtor.additionalAddressline || "",
+    zip: debtor.zip || "",
     city: debtor.city || "",
     country: debtor.country || "",
-    sales_tax_id_eu: debtor.sales_tax_id_eu || debtor.vat_id || debtor.ustid || "",
-    uid_ch: debtor.uid_ch || "",
+    sales_tax_id_eu: debtor.salesTaxIdEu || "",
+    uid_ch: debtor.uidCh || "",
     iban: debtor.iban || "",
     bic: debtor.bic || "",
   };
   return crypto.createHash("md5").update(JSON.stringify(normalized)).digest("hex");
 }
 
-export async function syncDebtors(mode: "manual" | "auto", triggeredBy: string): Promise<SyncResult> {
+export async function syncDebtors(mode: "manual" | "auto", triggeredBy: string, progress?: SyncProgressTracker): Promise<SyncResult> {
   const result: SyncResult = {
     pulledCount: 0,
     createdCount: 0,
@@ -36,65 +116,54 @@ export async function syncDebtors(mode: "manual" | "auto", triggeredBy: string):
     errors: [],
   };
 
-  const apiKey = await storage.getSetting("BHB_API_KEY");
-  const apiClient = await storage.getSetting("BHB_API_CLIENT");
-  const apiSecret = await storage.getSetting("BHB_API_SECRET");
-
-  if (!apiKey || !apiClient || !apiSecret) {
+  const credentials = await getBhbCredentials();
+  if (!credentials) {
     throw new Error("BHB API nicht konfiguriert");
   }
 
-  const baseUrl = await storage.getSetting("BHB_BASE_URL") || "https://webapp.buchhaltungsbutler.de/api/v1";
-  const authHeader = "Basic " + Buffer.from(`${apiClient}:${apiSecret}`).toString("base64");
-
-  const response = await fetch(`${baseUrl}/settings/get/debtors`, {
-    method: "POST",
-    headers: {
-      "Authorization": authHeader,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      api_key: apiKey,
-      limit: 1000,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`BHB API Fehler: ${response.status}`);
+  const recorder = createSyncRecorder("debtors", progress?.syncLogId);
+  try {
+    await applyDebtors(credentials, triggeredBy, result, recorder, progress);
+  } finally {
+    await recorder.flush();
   }
 
-  const data = await response.json();
-  if (!data.success) {
-    throw new Error(data.message || "BHB API Fehler beim Abrufen der Debitoren");
-  }
+  reportProgress(progress, result);
+  return result;
+}
 
-  const debtors = data.data || [];
+async function applyDebtors(
+  credentials: BhbCredentials,
+  triggeredBy: string,
+  result: SyncResult,
+  recorder: SyncRecorder,
+  progress?: SyncProgressTracker
+): Promise<void> {
+  progress?.update({ phase: "debtors" });
+  const debtors = await fetchAllDebtors(credentials, result, recorder, progress);
   result.pulledCount = debtors.length;
+  reportProgress(progress, result);
 
   const existingCustomers = await storage.getCustomers();
+  const change: CustomerChangeContext = { source: "bhb_sync", changedBy: triggeredBy, syncLogId: progress?.syncLogId };
   const processedCustomerIds = new Set<string>();
 
-  for (const debtor of debtors) {
+  for (let index = 0; index < debtors.length; index++) {
+    const debtor = debtors[index];
+    if (index % DEBTOR_PROGRESS_INTERVAL === 0) {
+      progress?.throwIfCancelled();
+      reportProgress(progress, result);
+    }
     try {
-      const debtorNumber = parseInt(debtor.postingaccount_number || "0", 10);
-      const debtorName = debtor.name || `Debitor ${debtorNumber}`;
-      const debtorEmail = debtor.email || "";
+      const debtorNumber = debtor.postingaccountNumber;
       const newHash = computeDebtorHash(debtor);
 
+      const customerFields = toCustomerFields(debtor);
+      const bhbValues = getDebtorSyncValues(customerFields);
+
       const bhbData = {
-        displayName: debtorName,
-        emailContact: debtorEmail || null,
-        contactPersonName: debtor.contact_person || debtor.contactperson || null,
-        street: debtor.street || null,
-        additionalAddressline: debtor.additional_addressline || debtor.addressline2 || null,
-        zip: debtor.zip || debtor.postcode || null,
-        city: debtor.city || null,
-        country: debtor.country || null,
-        salesTaxIdEu: debtor.sales_tax_id_eu || debtor.vat_id || debtor.ustid || null,
-        uidCh: debtor.uid_ch || null,
-        iban: debtor.iban || null,
-        bic: debtor.bic || null,
-        bhbRawJson: debtor,
+        ...customerFields,
+        ...getSyncedState(bhbValues),
         bhbDataHash: newHash,
         lastBhbSync: new Date(),
       };
@@ -107,21 +176,79 @@ export async function syncDebtors(mode: "manual" | "auto", triggeredBy: string):
           
           // Check if data actually changed using hash
           if (existingByNumber.bhbDataHash === newHash) {
+            // Start change tracking for customers synced before it existed,
+            // and drop conflicts that BHB has reverted in the meantime
+            if (!existingByNumber.localDataHash) {
+              await storage.updateCustomer(existingByNumber.id, getSyncedState(bhbValues));
+            } else if (existingByNumber.syncConflict) {
+              await storage.updateCustomer(existingByNumber.id, { syncConflict: null });
+            }
             result.unchangedCount++;
           } else if (existingByNumber.bhbDataHash === null || existingByNumber.bhbDataHash === "") {
             // First sync - just set the hash without counting as "updated"
             // This fixes the issue where all debtors were reported as "updated" on first sync
-            await storage.updateCustomer(existingByNumber.id, { bhbDataHash: newHash, lastBhbSync: new Date() });
+            await storage.updateCustomer(existingByNumber.id, {
+              bhbDataHash: newHash,
+              lastBhbSync: new Date(),
+              ...getSyncedState(bhbValues),
+            });
             result.unchangedCount++;
-          } else {
+          } else if (!hasLocalChanges(existingByNumber)) {
             // Data actually changed
             console.log(`[sync] Updating customer ${existingByNumber.id}, old hash: ${existingByNumber.bhbDataHash}, new hash: ${newHash}`);
-            await storage.updateCustomer(existingByNumber.id, bhbData);
+            await storage.updateCustomer(existingByNumber.id, bhbData, change);
             result.updatedCount++;
+            recorder.add({
+              action: "updated",
+              recordKey: String(debtorNumber),
+              label: bhbData.displayName,
+              changes: diffRecordFields(getDebtorSyncValues(existingByNumber), bhbValues, DEBTOR_SYNC_FIELDS),
+            });
+          } else {
+            // Changed on both sides. If a field changed on both sides, only the conflict is
+            // recorded and all local values stay until it is resolved; otherwise fields only
+            // BHB changed are taken over and local edits are kept for the next push
+            const { values, conflicts } = mergeDebtorChanges(
+              getDebtorSyncValues(existingByNumber),
+              existingByNumber.syncedData,
+              bhbValues
+            );
+            if (conflicts.length > 0) {
+              console.log(`[sync] Conflict for customer ${existingByNumber.id}: ${conflicts.join(", ")}`);
+              await storage.updateCustomer(existingByNumber.id, {
+                syncConflict: { detectedAt: new Date().toISOString(), bhbDataHash: newHash, bhbValues, fields: conflicts },
+              });
+              result.conflictCount = (result.conflictCount || 0) + 1;
+              result.unchangedCount++;
+              recorder.add({
+                action: "conflict",
+                recordKey: String(debtorNumber),
+                label: existingByNumber.displayName,
+                changes: diffRecordFields(getDebtorSyncValues(existingByNumber), bhbValues, conflicts),
+                message: "Im Portal und in BHB geändert, wartet auf Klärung",
+              });
+            } else {
+              await storage.updateCustomer(existingByNumber.id, {
+                ...values,
+                displayName: values.displayName || bhbData.displayName,
+                ...getSyncedState(bhbValues),
+                bhbRawJson: debtor.raw,
+                bhbDataHash: newHash,
+                lastBhbSync: new Date(),
+              }, change);
+              result.updatedCount++;
+              recorder.add({
+                action: "updated",
+                recordKey: String(debtorNumber),
+                label: values.displayName || bhbData.displayName,
+                changes: diffRecordFields(getDebtorSyncValues(existingByNumber), values, DEBTOR_SYNC_FIELDS),
+                message: "Lokale Änderungen beibehalten",
+              });
+            }
           }
         } else {
           // Look for existing customer with 80xxx number by name match
-          const normalizedDebtorName = debtorName.toLowerCase().trim();
+          const normalizedDebtorName = bhbData.displayName.toLowerCase().trim();
           let matchedCustomer = existingCustomers.find(c =>
             !processedCustomerIds.has(c.id) &&
             c.debtorPostingaccountNumber >= 80000 &&
@@ -129,14 +256,14 @@ export async function syncDebtors(mode: "manual" | "auto", triggeredBy: string):
           );
 
           if (!matchedCustomer) {
-            matchedCustomer = existingCustomers.find(c => {
-              if (processedCustomerIds.has(c.id) || c.debtorPostingaccountNumber < 80000) {
-                return false;
-              }
-              const portalName = c.displayName.toLowerCase().trim();
-              return portalName.includes(normalizedDebtorName) ||
-                normalizedDebtorName.includes(portalName);
-            });
+            // Only take a similar name when it is unambiguous, a wrong merge is worse than a duplicate
+            const candidates = existingCustomers.filter(c =>
+              !processedCustomerIds.has(c.id) && c.debtorPostingaccountNumber >= 80000
+            );
+            const suggestion = getAutoApplicableSuggestion(suggestDebtors(bhbData.displayName, candidates));
+            matchedCustomer = suggestion
+              ? candidates.find(c => c.debtorPostingaccountNumber === suggestion.debtorPostingaccountNumber)
+              : undefined;
           }
 
           if (matchedCustomer) {
@@ -146,9 +273,19 @@ export async function syncDebtors(mode: "manual" | "auto", triggeredBy: string):
               matchedCustomer.id,
               oldDebtorNumber,
               debtorNumber,
-              bhbData
+              bhbData,
+              change
             );
             result.updatedCount++;
+            recorder.add({
+              action: "updated",
+              recordKey: String(debtorNumber),
+              label: bhbData.displayName,
+              changes: [
+                { field: "debtorPostingaccountNumber", oldValue: String(oldDebtorNumber), newValue: String(debtorNumber) },
+                ...diffRecordFields(getDebtorSyncValues(matchedCustomer), bhbValues, DEBTOR_SYNC_FIELDS),
+              ],
+            });
           } else {
             await storage.createCustomer({
               debtorPostingaccountNumber: debtorNumber,
@@ -156,136 +293,473 @@ export async function syncDebtors(mode: "manual" | "auto", triggeredBy: string):
               ...bhbData,
             });
             result.createdCount++;
+            recorder.add({ action: "created", recordKey: String(debtorNumber), label: bhbData.displayName });
           }
         }
       }
     } catch (error) {
-      result.errors?.push(`Fehler bei Debitor ${debtor.postingaccount_number}: ${error}`);
+      result.errors?.push(`Fehler bei Debitor ${debtor.postingaccountNumber}: ${error}`);
+      recorder.add({
+        action: "error",
+        recordKey: String(debtor.postingaccountNumber),
+        label: debtor.name,
+        message: String(error),
+      });
     }
   }
+}
 
-  return result;
+function toDebtorHashFields(values: DebtorSyncValues): Omit<BhbDebtor, "postingaccountNumber" | "raw"> {
+  return {
+    name: values.displayName,
+    email: values.emailContact,
+    contactPerson: values.contactPersonName,
+    street: values.street,
+    additionalAddressline: values.additionalAddressline,
+    zip: values.zip,
+    city: values.city,
+    country: values.country,
+    salesTaxIdEu: values.salesTaxIdEu,
+    uidCh: values.uidCh,
+    iban: values.iban,
+    bic: values.bic,
+  };
 }
 
-export async function syncInvoices(mode: "manual" | "auto", triggeredBy: string): Promise<SyncResult> {
+/**
+ * Sends a customer's master data to BHB. After a successful update portal and BHB
+ * agree, so the synced state and the BHB hash move to the pushed values and the
+ * next pull does not report the customer as changed. Pushing also settles an
+ * open conflict in favour of the portal.
+ */
+export async function pushDebtor(credentials: BhbCredentials, customer: PortalCustomer, options: BhbRequestOptions = {}) {
+  const response = await updateDebtor(credentials, toDebtorUpdate(customer), options);
+  if (response.ok && response.data.success) {
+    const values = getDebtorSyncValues(customer);
+    await storage.updateCustomer(customer.id, {
+      ...getSyncedState(values),
+      bhbDataHash: computeDebtorHash(toDebtorHashFields(values)),
+      lastBhbSync: new Date(),
+    });
+  }
+  return response;
+}
+
+/**
+ * Pushes every customer edited in the portal since the last sync. Customers with
+ * an unresolved conflict are skipped, pushing them would discard the BHB changes.
+ */
+export async function pushDebtors(progress?: SyncProgressTracker): Promise<SyncResult> {
   const result: SyncResult = {
     pulledCount: 0,
     createdCount: 0,
     updatedCount: 0,
     unchangedCount: 0,
     errors: [],
+    conflictCount: 0,
   };
 
-  const apiKey = await storage.getSetting("BHB_API_KEY");
-  const apiClient = await storage.getSetting("BHB_API_CLIENT");
-  const apiSecret = await storage.getSetting("BHB_API_SECRET");
-
-  if (!apiKey || !apiClient || !apiSecret) {
+  const credentials = await getBhbCredentials();
+  if (!credentials) {
     throw new Error("BHB API nicht konfiguriert");
   }
 
-  const baseUrl = await storage.getSetting("BHB_BASE_URL") || "https://webapp.buchhaltungsbutler.de/api/v1";
-  const authHeader = "Basic " + Buffer.from(`${apiClient}:${apiSecret}`).toString("base64");
+  progress?.update({ phase: "debtors" });
+  const changed = (await storage.getCustomers()).filter(hasLocalChanges);
+  // For pushes the "pulled" count is the number of locally changed debtors
+  result.pulledCount = changed.length;
+  reportProgress(progress, result);
+
+  const recorder = createSyncRecorder("debtors", progress?.syncLogId);
+  try {
+    for (const customer of changed) {
+      progress?.throwIfCancelled();
+      const recordKey = String(customer.debtorPostingaccountNumber);
+      if (customer.syncConflict) {
+        result.conflictCount = (result.conflictCount || 0) + 1;
+        result.unchangedCount++;
+        recorder.add({
+          action: "conflict",
+          recordKey,
+          label: customer.displayName,
+          message: "Offener Konflikt, nicht übertragen",
+        });
+        continue;
+      }
+      // Taken before the push, which moves the synced state to the current values
+      const changes = customer.syncedData
+        ? diffRecordFields(getDebtorSyncValues(customer.syncedData), getDebtorSyncValues(customer), DEBTOR_SYNC_FIELDS)
+        : [];
+      try {
+        const response = await pushDebtor(credentials, customer, { signal: progress?.signal });
+        if (response.ok && response.data.success) {
+          result.updatedCount++;
+          recorder.add({ action: "updated", recordKey, label: customer.displayName, changes });
+        } else {
+          console.error("BHB update debtor error (push):", { status: response.status, response: response.data, payload: response.payload });
+          const message = getDebtorUpdateError(response);
+          result.errors?.push(`Debitor ${customer.debtorPostingaccountNumber}: ${message}`);
+          recorder.add({ action: "error", recordKey, label: customer.displayName, changes, message });
+        }
+      } catch (error) {
+        // An open circuit fails every remaining debtor the same way
+        if (error instanceof BhbApiError && error.circuitOpen) throw error;
+        if (progress?.signal.aborted) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        result.errors?.push(`Debitor ${customer.debtorPostingaccountNumber}: ${message}`);
+        recorder.add({ action: "error", recordKey, label: customer.displayName, changes, message });
+      }
+      reportProgress(progress, result);
+    }
+  } finally {
+    await recorder.flush();
+  }
+
+  return result;
+}
+
+const DEBTOR_PAGE_SIZE = 1000;
+// Safety net against endless paging if BHB keeps returning full pages
+const MAX_DEBTOR_PAGES = 100;
+
+/**
+ * Pages through /settings/get/debtors until a page comes back short. BHB silently
+ * ignores an unsupported offset and returns the first page again, so pages without
+ * any new debtor end the loop and set pageLimitReached - the portal then cannot be
+ * sure it has seen every debtor.
+ */
+async function fetchAllDebtors(
+  credentials: BhbCredentials,
+  result: SyncResult,
+  recorder: SyncRecorder,
+  progress?: SyncProgressTracker
+): Promise<BhbDebtor[]> {
+  const debtorsByNumber = new Map<string, BhbDebtor>();
+  result.pages = [];
+  result.pageLimitReached = false;
+
+  let offset = 0;
+  while (true) {
+    progress?.throwIfCancelled();
+    const page = await getDebtors(credentials, { limit: DEBTOR_PAGE_SIZE, offset }, { signal: progress?.signal });
+    recordInvalid(result, "Ungültiger Debitor", page.invalid, recorder);
+
+    let newCount = 0;
+    page.records.forEach((debtor, index) => {
+      // Debtors without posting account are ignored later but still counted as pulled
+      const key = debtor.postingaccountNumber > 0 ? String(debtor.postingaccountNumber) : `#${offset + index}`;
+      if (!debtorsByNumber.has(key)) {
+        debtorsByNumber.set(key, debtor);
+        newCount++;
+      }
+    });
+    result.pages.push({ offset, count: page.received });
+    progress?.update({ fetched: debtorsByNumber.size });
+    console.log(`[sync] Debtor page at offset ${offset}: ${page.received} received, ${newCount} new`);
+
+    if (page.received < DEBTOR_PAGE_SIZE) break;
+
+    if (newCount === 0 || result.pages.length >= MAX_DEBTOR_PAGES) {
+      result.pageLimitReached = true;
+      console.warn(`[sync] Debtor paging stopped at offset ${offset} - BHB returned a full page without further debtors`);
+      break;
+    }
+    offset += page.received;
+  }
+
+  return Array.from(debtorsByNumber.values());
+}
+
+export interface InvoiceSyncOptions {
+  full?: boolean; // Force a full reconciliation instead of an incremental sync
+}
+
+const INVOICE_PAGE_SIZE = 500;
+// Overlap with the previous run so receipts modified while it was running are not missed
+const INCREMENTAL_OVERLAP_MS = 5 * 60 * 1000;
+const DEFAULT_FULL_SYNC_HOURS = 24;
+// Upper bound of invoice numbers kept in the sync log details
+const MAX_LOGGED_CANCELLATIONS = 50;
+// Receipt fields whose changes make a receipt count as updated
+const RECORDED_RECEIPT_FIELDS = ["invoiceNumber", "receiptType", "amountOpen", "paymentStatus", "debtorPostingaccountNumber"] as const;
+
+// BHB expects "YYYY-MM-DD HH:MM:SS"
+function formatBhbDateTime(date: Date): string {
+  return date.toISOString().replace("T", " ").substring(0, 19);
+}
+
+/**
+ * Decides between an incremental sync (receipts changed since the last successful
+ * invoice sync) and a full reconciliation, which runs on first sync, on request and
+ * whenever the last full run is older than INVOICE_FULL_SYNC_HOURS.
+ */
+async function resolveInvoiceSyncMode(options: InvoiceSyncOptions): Promise<{ syncMode: "full" | "incremental"; modifiedSince: Date | null }> {
+  if (options.full) {
+    return { syncMode: "full", modifiedSince: null };
+  }
 
-  // Request ALL outbound invoices (not just unpaid) to detect payment status changes
-  const requestBody = {
-    api_key: apiKey,
-    list_direction: "outbound",
-    // Note: Removed payment_status filter to get both paid and unpaid invoices
-    // This allows us to update payment status when invoices are paid in BHB
+  const lastFullSync = await storage.getSetting("LAST_FULL_INVOICE_SYNC");
+  const fullSyncHoursSetting = await storage.getSetting("INVOICE_FULL_SYNC_HOURS");
+  const fullSyncHours = fullSyncHoursSetting ? parseInt(fullSyncHoursSetting, 10) : DEFAULT_FULL_SYNC_HOURS;
+  if (!lastFullSync || Date.now() - new Date(lastFullSync).getTime() > fullSyncHours * 60 * 60 * 1000) {
+    return { syncMode: "full", modifiedSince: null };
+  }
+
+  const lastSuccess = await storage.getLastSuccessfulSyncLog(["invoices", "both"]);
+  if (!lastSuccess) {
+    return { syncMode: "full", modifiedSince: null };
+  }
+
+  return {
+    syncMode: "incremental",
+    modifiedSince: new Date(new Date(lastSuccess.startedAt).getTime() - INCREMENTAL_OVERLAP_MS),
   };
-  
-  console.log(`[sync] Invoice sync request to ${baseUrl}/receipts/get (all invoices)`);
-  
-  const response = await fetch(`${baseUrl}/receipts/get`, {
-    method: "POST",
-    headers: {
-      "Authorization": authHeader,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(requestBody),
-  });
+}
+
+export async function syncInvoices(
+  mode: "manual" | "auto",
+  triggeredBy: string,
+  options: InvoiceSyncOptions = {},
+  progress?: SyncProgressTracker
+): Promise<SyncResult> {
+  const result: SyncResult = {
+    pulledCount: 0,
+    createdCount: 0,
+    updatedCount: 0,
+    unchangedCount: 0,
+    errors: [],
+  };
+
+  const credentials = await getBhbCredentials();
+  if (!credentials) {
+    throw new Error("BHB API nicht konfiguriert");
+  }
+
+  const { syncMode, modifiedSince } = await resolveInvoiceSyncMode(options);
+  result.syncMode = syncMode;
+  result.modifiedSince = modifiedSince?.toISOString();
+  result.pageCount = 0;
+
+  const resolveDebtor = createDebtorResolver(await storage.getCustomers(), await storage.getCounterpartyMappings());
+  const seenIds = new Set<string>();
+  const deletedIds: string[] = [];
+
+  console.log(`[sync] Invoice sync (${syncMode}) from ${credentials.baseUrl}/receipts/get${modifiedSince ? ` since ${modifiedSince.toISOString()}` : ""}`);
+
+  let offset = 0;
+  let hasMore = true;
+
+  progress?.update({ phase: "invoices" });
+  const recorder = createSyncRecorder("invoices", progress?.syncLogId);
 
-  const responseText = await response.text();
-  let data: any;
   try {
-    data = JSON.parse(responseText);
-  } catch {
-    console.error(`[sync] BHB response not JSON: ${responseText.substring(0, 500)}`);
-    throw new Error(`BHB API Fehler: ${response.status} - Invalid response`);
+    while (hasMore) {
+      progress?.throwIfCancelled();
+      // Request ALL outbound invoices (not just unpaid) to detect payment status changes.
+      // If BHB ignores the modification filter we simply process every receipt again.
+      const page = await getReceipts(
+        credentials,
+        {
+          limit: INVOICE_PAGE_SIZE,
+          offset,
+          modifiedSince: modifiedSince ? formatBhbDateTime(modifiedSince) : undefined,
+        },
+        { signal: progress?.signal }
+      );
+      recordInvalid(result, "Ungültige Rechnung", page.invalid, recorder);
+      result.pulledCount += page.received;
+      result.pageCount++;
+
+      await processInvoicePage(page.records, resolveDebtor, result, seenIds, deletedIds, recorder, progress?.syncLogId);
+      await recorder.flush();
+      reportProgress(progress, result);
+
+      hasMore = page.received >= INVOICE_PAGE_SIZE;
+      offset += page.received;
+    }
+
+    await cancelRemovedReceipts(credentials, syncMode, seenIds, deletedIds, result, recorder, progress);
+  } finally {
+    await recorder.flush();
+  }
+
+  // A full sync with errors did not see everything, so the next run stays full
+  if (syncMode === "full" && !result.errors?.length) {
+    await storage.setSetting("LAST_FULL_INVOICE_SYNC", new Date().toISOString());
   }
 
-  if (!response.ok) {
-    console.error(`[sync] BHB API error ${response.status}:`, data);
-    throw new Error(`BHB API Fehler: ${response.status} - ${data.message || data.error || 'Unknown error'}`);
+  return result;
+}
+
+/**
+ * Marks cached receipts as cancelled when BHB reports them as deleted or, after a
+ * full sync, when they no longer appear in BHB at all. Cancelled receipts are
+ * excluded from dunning, statistics and PDFs but kept for the audit trail.
+ */
+async function cancelRemovedReceipts(
+  credentials: BhbCredentials,
+  syncMode: "full" | "incremental",
+  seenIds: Set<string>,
+  deletedIds: string[],
+  result: SyncResult,
+  recorder: SyncRecorder,
+  progress?: SyncProgressTracker
+): Promise<void> {
+  const toCancel = new Set(deletedIds);
+
+  // An empty full listing is far more likely an API problem than a cleared ledger
+  if (syncMode === "full" && seenIds.size > 0 && result.errors?.length === 0) {
+    const activeReceipts = await storage.getActiveReceiptRefs();
+    for (const receipt of activeReceipts) {
+      if (seenIds.has(receipt.idByCustomer)) continue;
+      progress?.throwIfCancelled();
+      // Deletions between page requests shift the offset listing and skip receipts
+      // that still exist, so each missing receipt is checked on its own first
+      try {
+        const current = await getReceipt(credentials, receipt.idByCustomer, { signal: progress?.signal });
+        if (!current || current.deleted) {
+          toCancel.add(receipt.idByCustomer);
+        }
+      } catch (error) {
+        if (progress?.signal.aborted) throw error;
+        result.errors?.push(`Fehler beim Prüfen der Rechnung ${receipt.idByCustomer}: ${error}`);
+      }
+    }
   }
 
-  if (!data.success) {
-    console.error(`[sync] BHB API returned success=false:`, data);
-    throw new Error(data.message || "BHB API Fehler beim Abrufen der Rechnungen");
+  try {
+    const cancelled = await storage.markReceiptsCancelled(Array.from(toCancel));
+    result.cancelledCount = cancelled.length;
+    result.cancelledInvoices = cancelled
+      .slice(0, MAX_LOGGED_CANCELLATIONS)
+      .map(r => r.invoiceNumber || r.idByCustomer);
+    const deleted = new Set(deletedIds);
+    for (const receipt of cancelled) {
+      recorder.add({
+        action: "cancelled",
+        recordKey: receipt.idByCustomer,
+        label: receipt.invoiceNumber,
+        message: deleted.has(receipt.idByCustomer) ? "In BHB gelöscht" : "Nicht mehr in BHB vorhanden",
+      });
+    }
+    if (cancelled.length > 0) {
+      console.log(`[sync] Marked ${cancelled.length} receipts as cancelled`);
+    }
+  } catch (error) {
+    result.errors?.push(`Fehler beim Stornieren entfernter Rechnungen: ${error}`);
   }
+}
 
-  const receipts = data.data || [];
-  result.pulledCount = receipts.length;
+async function processInvoicePage(
+  receipts: BhbReceipt[],
+  resolveDebtor: DebtorResolver,
+  result: SyncResult,
+  seenIds: Set<string>,
+  deletedIds: string[],
+  recorder: SyncRecorder,
+  syncLogId?: string
+): Promise<void> {
+  const existingReceipts = await storage.getReceiptsByIdByCustomer(
+    receipts.map(r => r.idByCustomer)
+  );
+  const existingById = new Map(existingReceipts.map(r => [r.idByCustomer, r]));
+  const recordedPayments = await getPaymentsByReceipt(storage, existingReceipts.map(r => r.id));
+  const paymentUpdates = new Map<string, ReceiptPaymentUpdate>();
+  const batch: InsertBhbReceiptsCache[] = [];
+  // Recorded only once the page is stored, a failed upsert turns them into errors
+  const pageRecords: SyncRecordEntry[] = [];
+  const matchStrategies = result.matchStrategies || (result.matchStrategies = {});
 
   for (const receipt of receipts) {
     try {
-      const idByCustomer = receipt.id_by_customer;
-      if (!idByCustomer) continue;
+      const idByCustomer = receipt.idByCustomer;
 
-      // Skip deleted receipts
-      if (receipt.deleted === "1" || receipt.deleted === 1) {
-        console.log(`[sync] Skipping deleted receipt ${idByCustomer}`);
+      // Deleted receipts are not imported; cached copies get cancelled after the run
+      if (receipt.deleted) {
+        if (existingById.has(idByCustomer)) {
+          deletedIds.push(idByCustomer);
+        }
         continue;
       }
+      seenIds.add(idByCustomer);
 
       // Calculate open amount from BHB fields
-      // For outbound invoices, amount is negative (e.g., -1000), amount_paid is positive
-      const amountTotal = parseFloat(receipt.amount || "0");
-      const absTotal = Math.abs(amountTotal);
-      const amountPaid = parseFloat(receipt.amount_paid || "0");
-      const amountPaidFixed = parseFloat(receipt.amount_paid_fixed || "0");
-      const totalPaid = amountPaid + amountPaidFixed;
-      const amountOpen = Math.max(0, absTotal - totalPaid);
+      // For outbound invoices, amount is negative (e.g., -1000), amount_paid is positive.
+      // Credit notes carry a positive amount; their open amount is the credit not yet settled.
+      const receiptType: ReceiptType = receipt.isCreditNote ? "credit_note" : "invoice";
+      const absTotal = Math.abs(receipt.amount);
+      const amountOpen = Math.max(0, absTotal - receipt.amountPaid);
       
       // Determine payment status
       const isPaid = amountOpen <= 0.01;
       const paymentStatus = isPaid ? "paid" : "unpaid";
 
-      // Find customer by counterparty name to get postingaccount_number
-      let debtorPostingaccountNumber = 0;
-      const counterpartyName = receipt.counterparty;
-      if (counterpartyName) {
-        const customer = await storage.getCustomerByName(counterpartyName);
-        if (customer) {
-          debtorPostingaccountNumber = customer.debtorPostingaccountNumber;
-        }
+      const existingReceipt = existingById.get(idByCustomer);
+      // Settling a credit note is no payment by the debtor and carries no interest
+      const paymentUpdate = receipt.isCreditNote ? null : derivePaymentUpdate(
+        receipt,
+        existingReceipt,
+        (existingReceipt && recordedPayments.get(existingReceipt.id)) || [],
+        syncLogId || null
+      );
+      if (paymentUpdate) paymentUpdates.set(idByCustomer, paymentUpdate);
+
+      let match = resolveDebtor(receipt);
+      // Keep an earlier assignment (e.g. made by hand) when nothing matches this time
+      if (!match.strategy && existingReceipt && existingReceipt.debtorPostingaccountNumber !== 0) {
+        match = {
+          debtorNumber: existingReceipt.debtorPostingaccountNumber,
+          strategy: existingReceipt.debtorMatchStrategy as DebtorMatchStrategy | null,
+        };
       }
+      const strategyKey = match.strategy || "unmatched";
+      matchStrategies[strategyKey] = (matchStrategies[strategyKey] || 0) + 1;
 
-      const existingReceipt = await storage.getReceiptByIdByCustomer(idByCustomer);
       const receiptData = {
         idByCustomer,
-        debtorPostingaccountNumber,
-        invoiceNumber: receipt.invoicenumber || idByCustomer,
-        receiptDate: receipt.date ? new Date(receipt.date) : null,
-        dueDate: receipt.due_date ? new Date(receipt.due_date) : null,
+        debtorPostingaccountNumber: match.debtorNumber,
+        debtorMatchStrategy: match.strategy,
+        invoiceNumber: receipt.invoiceNumber || idByCustomer,
+        receiptType,
+        receiptDate: receipt.date,
+        dueDate: receipt.dueDate,
         amountTotal: absTotal.toString(),
         amountOpen: amountOpen.toFixed(2),
         paymentStatus,
-        rawJson: receipt,
-        lastSyncedAt: new Date(),
+        rawJson: receipt.raw,
       };
 
       if (existingReceipt) {
         const existingOpen = parseFloat(existingReceipt.amountOpen?.toString() || "0");
         const invoiceNumberChanged = existingReceipt.invoiceNumber !== receiptData.invoiceNumber;
+        const typeChanged = existingReceipt.receiptType !== receiptType;
         const amountChanged = Math.abs(existingOpen - amountOpen) >= 0.01;
         const paymentStatusChanged = existingReceipt.paymentStatus !== paymentStatus;
         const debtorChanged = existingReceipt.debtorPostingaccountNumber !== receiptData.debtorPostingaccountNumber && receiptData.debtorPostingaccountNumber !== 0;
+        const strategyChanged = existingReceipt.debtorMatchStrategy !== receiptData.debtorMatchStrategy;
         
-        if (amountChanged || invoiceNumberChanged || debtorChanged || paymentStatusChanged) {
-          await storage.upsertReceipt(receiptData);
+        if (amountChanged || invoiceNumberChanged || typeChanged || debtorChanged || paymentStatusChanged) {
+          batch.push(receiptData);
           result.updatedCount++;
+          pageRecords.push({
+            action: "updated",
+            recordKey: idByCustomer,
+            label: receiptData.invoiceNumber,
+            changes: diffRecordFields(
+              {
+                invoiceNumber: existingReceipt.invoiceNumber,
+                receiptType: existingReceipt.receiptType,
+                amountOpen: existingOpen.toFixed(2),
+                paymentStatus: existingReceipt.paymentStatus,
+                debtorPostingaccountNumber: existingReceipt.debtorPostingaccountNumber,
+              },
+              receiptData,
+              RECORDED_RECEIPT_FIELDS
+            ),
+          });
+          if (debtorChanged) {
+            console.log(`[sync] Debtor of ${idByCustomer} changed: ${existingReceipt.debtorPostingaccountNumber} -> ${match.debtorNumber} (${match.strategy})`);
+          }
           if (paymentStatusChanged) {
             console.log(`[sync] Payment status changed for ${idByCustomer}: ${existingReceipt.paymentStatus} -> ${paymentStatus}`);
           }
@@ -293,16 +767,46 @@ export async function syncInvoices(mode: "manual" | "auto", triggeredBy: string)
             console.log(`[sync] Updated invoice number: ${existingReceipt.invoiceNumber} -> ${receiptData.invoiceNumber}`);
           }
         } else {
+          // Only the recorded strategy differs (e.g. receipts synced before it was stored)
+          if (strategyChanged) batch.push(receiptData);
           result.unchangedCount++;
         }
       } else {
-        await storage.upsertReceipt(receiptData);
+        batch.push(receiptData);
         result.createdCount++;
+        pageRecords.push({ action: "created", recordKey: idByCustomer, label: receiptData.invoiceNumber });
       }
     } catch (error) {
       result.errors?.push(`Fehler bei Rechnung: ${error}`);
+      result.errorCount = (result.errorCount || 0) + 1;
+      recorder.add({ action: "error", recordKey: receipt.idByCustomer, label: receipt.invoiceNumber, message: String(error) });
     }
   }
 
-  return result;
+  try {
+    await storage.upsertReceipts(batch);
+    pageRecords.forEach((record) => recorder.add(record));
+  } catch (error) {
+    result.errors?.push(`Fehler beim Speichern von ${batch.length} Rechnungen: ${error}`);
+    // Nothing of this page was stored, so none of it counts as created or updated
+    const created = pageRecords.filter((record) => record.action === "created").length;
+    const updated = pageRecords.length - created;
+    result.createdCount -= created;
+    result.updatedCount -= updated;
+    result.unchangedCount -= batch.length - pageRecords.length;
+    result.errorCount = (result.errorCount || 0) + batch.length;
+    pageRecords.forEach((record) => recorder.add({ ...record, action: "error", message: `Speichern fehlgeschlagen: ${error}` }));
+    return;
+  }
+
+  // New receipts only have an id once stored
+  try {
+    const stored = await storage.getReceiptsByIdByCustomer(Array.from(paymentUpdates.keys()));
+    await saveReceiptPayments(storage, stored.flatMap((receipt) => {
+      const update = paymentUpdates.get(receipt.idByCustomer);
+      return update ? [{ receiptId: receipt.id, update }] : [];
+    }));
+  } catch (error) {
+    result.errors?.push(`Fehler beim Speichern der Zahlungen: ${error}`);
+  }
 }
@@ -0,0 +1,143 @@
+import { storage } from "./storage";
+import { log } from "./index";
+import type { SyncLock } from "@shared/schema";
+
+export type SyncLockEntity = "invoices" | "debtors";
+
+export interface SyncLockHandle {
+  release(): Promise<void>;
+}
+
+export interface SyncLockInfo extends SyncLock {
+  holderName: string;
+  stale: boolean;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Holders without a heartbeat for this long are assumed to have crashed
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+export const SYNC_LOCKED_MESSAGE = "Sync läuft bereits";
+
+export function isSyncLockedError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith(SYNC_LOCKED_MESSAGE);
+}
+
+export function getLockEntities(entityType: "invoices" | "debtors" | "both"): SyncLockEntity[] {
+  return entityType === "both" ? ["invoices", "debtors"] : [entityType];
+}
+
+function isStale(lock: SyncLock): boolean {
+  return new Date(lock.heartbeatAt).getTime() < Date.now() - STALE_LOCK_MS;
+}
+
+async function markSyncLogAbandoned(syncLogId: string) {
+  const syncLog = await storage.getSyncLog(syncLogId);
+  if (syncLog?.status !== "running") return;
+  await storage.updateSyncLog(syncLogId, {
+    status: "error",
+    finishedAt: new Date(),
+    errors: { message: "Sync wurde nicht beendet (Prozess abgestürzt oder neu gestartet)" },
+  });
+  log(`Marked abandoned sync ${syncLogId} as failed`, "sync-lock");
+}
+
+// Returns the lock of the current mandant blocking this run, or undefined once the lock is ours
+async function acquireEntityLock(entityType: SyncLockEntity, syncLogId: string, lockedBy: string): Promise<SyncLock | undefined> {
+  const inserted = await storage.insertSyncLock({ entityType, syncLogId, lockedBy });
+  if (inserted) return undefined;
+
+  const existing = (await storage.getSyncLocks()).find((lock) => lock.entityType === entityType);
+  if (!existing) {
+    // Released between our insert and the lookup
+    const retried = await storage.insertSyncLock({ entityType, syncLogId, lockedBy });
+    return retried ? undefined : (await storage.getSyncLocks()).find((lock) => lock.entityType === entityType);
+  }
+
+  if (isStale(existing)) {
+    const takenOver = await storage.takeOverStaleSyncLock(
+      { entityType, syncLogId, lockedBy },
+      new Date(Date.now() - STALE_LOCK_MS)
+    );
+    if (takenOver) {
+      log(`Took over stale ${entityType} lock from sync ${existing.syncLogId}`, "sync-lock");
+      await markSyncLogAbandoned(existing.syncLogId);
+      return undefined;
+    }
+  }
+
+  return existing;
+}
+
+/**
+ * Acquires the locks for all entity types of a sync run. Returns the lock that
+ * blocked the run if any of them is held by another sync; locks taken so far
+ * are released again in that case.
+ */
+export async function acquireSyncLocks(
+  entityType: "invoices" | "debtors" | "both",
+  syncLogId: string,
+  lockedBy: string
+): Promise<{ handle: SyncLockHandle; heldBy?: undefined } | { handle?: undefined; heldBy: SyncLock }> {
+  for (const entity of getLockEntities(entityType)) {
+    const heldBy = await acquireEntityLock(entity, syncLogId, lockedBy);
+    if (heldBy) {
+      await storage.releaseSyncLocks(syncLogId);
+      return { heldBy };
+    }
+  }
+
+  const heartbeat = setInterval(() => {
+    storage.touchSyncLocks(syncLogId).catch((error) => log(`Heartbeat failed for sync ${syncLogId}: ${error}`, "sync-lock"));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return {
+    handle: {
+      async release() {
+        clearInterval(heartbeat);
+        await storage.releaseSyncLocks(syncLogId);
+      },
+    },
+  };
+}
+
+async function getHolderName(lockedBy: string): Promise<string> {
+  if (lockedBy === "system") return "Automatischer Sync";
+  const user = await storage.getUserById(lockedBy);
+  return user?.displayName || user?.username || lockedBy;
+}
+
+export async function describeSyncLock(lock: SyncLock): Promise<SyncLockInfo> {
+  return { ...lock, holderName: await getHolderName(lock.lockedBy), stale: isStale(lock) };
+}
+
+export async function getSyncLockInfos(): Promise<SyncLockInfo[]> {
+  const locks = await storage.getSyncLocks();
+  return Promise.all(locks.map(describeSyncLock));
+}
+
+/**
+ * Cleans up after crashes: drops locks whose holder stopped sending heartbeats and
+ * fails sync logs that are still "running" without a live lock.
+ */
+export async function recoverStaleSyncs(): Promise<void> {
+  const locks = await storage.getAllSyncLocks();
+  const liveSyncLogIds = new Set<string>();
+
+  for (const lock of locks) {
+    if (isStale(lock)) {
+      await storage.releaseSyncLocks(lock.syncLogId);
+      await markSyncLogAbandoned(lock.syncLogId);
+    } else {
+      liveSyncLogIds.add(lock.syncLogId);
+    }
+  }
+
+  // Young entries may belong to a run that is just acquiring its lock
+  const staleBefore = Date.now() - STALE_LOCK_MS;
+  for (const syncLog of await storage.getRunningSyncLogs()) {
+    if (!liveSyncLogIds.has(syncLog.id) && new Date(syncLog.startedAt).getTime() < staleBefore) {
+      await markSyncLogAbandoned(syncLog.id);
+    }
+  }
+}
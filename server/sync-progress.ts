@@ -0,0 +1,101 @@
+import { EventEmitter } from "events";
+
+export interface SyncProgress {
+  syncLogId: string;
+  phase: "invoices" | "debtors" | "finished" | "cancelled" | "error";
+  fetched: number;
+  processed: number;
+  created: number;
+  updated: number;
+  errors: number;
+  message?: string;
+}
+
+export interface SyncProgressTracker {
+  readonly syncLogId: string;
+  readonly signal: AbortSignal;
+  update(data: Partial<Omit<SyncProgress, "syncLogId">>): void;
+  throwIfCancelled(): void;
+}
+
+interface TrackerEntry {
+  progress: SyncProgress;
+  controller: AbortController;
+  emitter: EventEmitter;
+}
+
+export const SYNC_CANCELLED_MESSAGE = "Sync abgebrochen";
+
+// Finished runs stay visible briefly so a late subscriber still gets the final state
+const FINISHED_RETENTION_MS = 60 * 1000;
+
+const trackers = new Map<string, TrackerEntry>();
+
+export function isSyncCancelledError(error: unknown): boolean {
+  return error instanceof Error && error.message === SYNC_CANCELLED_MESSAGE;
+}
+
+export function createSyncProgress(syncLogId: string): SyncProgressTracker {
+  const entry: TrackerEntry = {
+    progress: { syncLogId, phase: "invoices", fetched: 0, processed: 0, created: 0, updated: 0, errors: 0 },
+    controller: new AbortController(),
+    emitter: new EventEmitter(),
+  };
+  trackers.set(syncLogId, entry);
+
+  return {
+    syncLogId,
+    signal: entry.controller.signal,
+    update(data) {
+      entry.progress = { ...entry.progress, ...data };
+      entry.emitter.emit("progress", entry.progress);
+    },
+    throwIfCancelled() {
+      if (entry.controller.signal.aborted) {
+        throw new Error(SYNC_CANCELLED_MESSAGE);
+      }
+    },
+  };
+}
+
+export function finishSyncProgress(syncLogId: string, phase: "finished" | "cancelled" | "error", message?: string) {
+  const entry = trackers.get(syncLogId);
+  if (!entry) return;
+
+  entry.progress = { ...entry.progress, phase, message };
+  entry.emitter.emit("progress", entry.progress);
+  entry.emitter.removeAllListeners();
+  setTimeout(() => {
+    if (trackers.get(syncLogId) === entry) {
+      trackers.delete(syncLogId);
+    }
+  }, FINISHED_RETENTION_MS);
+}
+
+export function getSyncProgress(syncLogId: string): SyncProgress | undefined {
+  return trackers.get(syncLogId)?.progress;
+}
+
+/**
+ * Calls the listener with the current state and then on every change until the
+ * run finishes. Returns an unsubscribe function, or undefined if the run is unknown.
+ */
+export function subscribeSyncProgress(syncLogId: string, listener: (progress: SyncProgress) => void): (() => void) | undefined {
+  const entry = trackers.get(syncLogId);
+  if (!entry) return undefined;
+
+  listener(entry.progress);
+  entry.emitter.on("progress", listener);
+  return () => {
+    entry.emitter.off("progress", listener);
+  };
+}
+
+export function cancelSync(syncLogId: string): boolean {
+  const entry = trackers.get(syncLogId);
+  if (!entry || entry.controller.signal.aborted || ["finished", "cancelled", "error"].includes(entry.progress.phase)) {
+    return false;
+  }
+  entry.controller.abort();
+  return true;
+}
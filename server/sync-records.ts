@@ -0,0 +1,87 @@
+import { storage } from "./storage";
+import type { InsertSyncLogRecord, SyncRecordAction, SyncRecordChange } from "@shared/schema";
+
+export interface SyncRecordEntry {
+  action: SyncRecordAction;
+  recordKey?: string | null;
+  label?: string | null;
+  changes?: SyncRecordChange[];
+  message?: string;
+}
+
+export interface SyncRecorder {
+  add(entry: SyncRecordEntry): void;
+  flush(): Promise<void>;
+}
+
+// Rows per insert statement, well below the PostgreSQL parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+export const DEFAULT_RECORD_RETENTION_DAYS = 30;
+
+// Detail records grow with every run, so they are pruned independently of the sync logs
+export async function getRecordRetentionDays(): Promise<number> {
+  const setting = await storage.getSetting("SYNC_LOG_RECORD_RETENTION_DAYS");
+  const days = setting ? parseInt(setting, 10) : NaN;
+  return days > 0 ? days : DEFAULT_RECORD_RETENTION_DAYS;
+}
+
+function toRecordValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+// Field-level differences for the sync log; values are compared as strings, so callers normalize numbers first
+export function diffRecordFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[]
+): SyncRecordChange[] {
+  const changes: SyncRecordChange[] = [];
+  for (const field of fields) {
+    const oldValue = toRecordValue(before[field]);
+    const newValue = toRecordValue(after[field]);
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Collects the per-record outcome of a sync run and writes it to the sync log in
+ * batches. Without a sync log (e.g. legacy routes) entries are dropped. A failed
+ * write only loses the detail records, never the sync itself.
+ */
+export function createSyncRecorder(entityType: "invoices" | "debtors", syncLogId?: string): SyncRecorder {
+  let buffer: InsertSyncLogRecord[] = [];
+
+  return {
+    add(entry) {
+      if (!syncLogId) return;
+      buffer.push({
+        syncLogId,
+        entityType,
+        action: entry.action,
+        recordKey: entry.recordKey ?? null,
+        label: entry.label ?? null,
+        changes: entry.changes && entry.changes.length > 0 ? entry.changes : null,
+        message: entry.message ?? null,
+      });
+    },
+
+    async flush() {
+      const pending = buffer;
+      buffer = [];
+      for (let i = 0; i < pending.length; i += INSERT_BATCH_SIZE) {
+        try {
+          await storage.createSyncLogRecords(pending.slice(i, i + INSERT_BATCH_SIZE));
+        } catch (error) {
+          console.error(`[sync] Failed to store ${pending.length - i} sync log records:`, error);
+          return;
+        }
+      }
+    },
+  };
+}
@@ -19,6 +19,7 @@ export const users = pgTable("users", {
   passwordHash: text("password_hash").notNull(),
   displayName: varchar("display_name", { length: 255 }),
   role: varchar("role", { length: 50 }).default("user").notNull(),
+  mandantId: varchar("mandant_id"), // Restricts internal users to one mandant; null = all mandants
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
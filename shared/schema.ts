@@ -1,13 +1,62 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, decimal, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, decimal, jsonb, index, date, unique, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export * from "./models/auth";
 
+// Portal master data fields that are kept in sync with the BHB debtor
+export const DEBTOR_SYNC_FIELDS = [
+  "displayName",
+  "emailContact",
+  "contactPersonName",
+  "street",
+  "additionalAddressline",
+  "zip",
+  "city",
+  "country",
+  "salesTaxIdEu",
+  "uidCh",
+  "iban",
+  "bic",
+] as const;
+
+export type DebtorSyncField = typeof DEBTOR_SYNC_FIELDS[number];
+export type DebtorSyncValues = Record<DebtorSyncField, string | null>;
+
+// BHB changes held back because the same fields were also edited in the portal
+export interface DebtorSyncConflict {
+  detectedAt: string;
+  bhbDataHash: string;
+  bhbValues: DebtorSyncValues;
+  fields: DebtorSyncField[];
+}
+
+// A legal entity with its own BHB account; credentials, company data and bank account are
+// kept as mandant-scoped portal settings (see storage.getSetting)
+export const mandants = pgTable("mandants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertMandantSchema = createInsertSchema(mandants, {
+  name: z.string().trim().min(1, "Name ist erforderlich"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertMandant = z.infer<typeof insertMandantSchema>;
+export type Mandant = typeof mandants.$inferSelect;
+
 export const portalCustomers = pgTable("portal_customers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  debtorPostingaccountNumber: integer("debtor_postingaccount_number").notNull().unique(),
+  mandantId: varchar("mandant_id").references(() => mandants.id),
+  debtorPostingaccountNumber: integer("debtor_postingaccount_number").notNull(),
   displayName: text("display_name").notNull(),
   emailContact: text("email_contact"),
   isActive: boolean("is_active").default(true).notNull(),
@@ -25,10 +74,16 @@ export const portalCustomers = pgTable("portal_customers", {
   bic: text("bic"),
   bhbRawJson: jsonb("bhb_raw_json"),
   bhbDataHash: text("bhb_data_hash"), // Hash for detecting actual changes from BHB
+  syncedData: jsonb("synced_data").$type<DebtorSyncValues>(), // Master data as of the last pull or push
+  localDataHash: text("local_data_hash"), // Hash of syncedData, differs from the current fields after local edits
+  syncConflict: jsonb("sync_conflict").$type<DebtorSyncConflict>(),
   lastBhbSync: timestamp("last_bhb_sync"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Debtor numbers are only unique within one BHB account
+  unique("uq_customers_mandant_debtor").on(table.mandantId, table.debtorPostingaccountNumber),
+]);
 
 export const portalCustomersRelations = relations(portalCustomers, ({ many }) => ({
   userCustomers: many(portalUserCustomers),
@@ -53,23 +108,53 @@ export const portalUserCustomersRelations = relations(portalUserCustomers, ({ on
   }),
 }));
 
+// Field-level history of customer master data, e.g. to prove which address a letter went to
+export const customerChanges = pgTable("customer_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull().references(() => portalCustomers.id, { onDelete: "cascade" }),
+  field: text("field").notNull(),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  source: text("source").notNull(), // user, bhb_sync
+  changedBy: varchar("changed_by").notNull(), // User ID or 'system' for auto sync
+  syncLogId: varchar("sync_log_id"),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_customer_changes_customer").on(table.customerId, table.changedAt),
+]);
+
 export const bhbReceiptsCache = pgTable("bhb_receipts_cache", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  idByCustomer: text("id_by_customer").notNull().unique(),
+  mandantId: varchar("mandant_id").references(() => mandants.id),
+  idByCustomer: text("id_by_customer").notNull(),
   debtorPostingaccountNumber: integer("debtor_postingaccount_number").notNull(),
   invoiceNumber: text("invoice_number"),
+  receiptType: text("receipt_type").notNull().default("invoice"), // invoice, credit_note
   receiptDate: timestamp("receipt_date"),
   dueDate: timestamp("due_date"),
   amountTotal: decimal("amount_total", { precision: 12, scale: 2 }),
   amountOpen: decimal("amount_open", { precision: 12, scale: 2 }),
   paymentStatus: text("payment_status").default("unpaid"),
-  dunningLevel: text("dunning_level").default("none"),
+  dunningLevel: text("dunning_level").default("none"), // Highest stage actually sent
+  lastDunningSentAt: timestamp("last_dunning_sent_at"),
+  nextDunningStage: text("next_dunning_stage"),
+  nextDunningDueAt: timestamp("next_dunning_due_at"),
+  // Mahnsperre: disputed or otherwise held invoices are not dunned until lifted or expired
+  onHold: boolean("on_hold").notNull().default(false),
+  holdReason: text("hold_reason"),
+  holdUntil: timestamp("hold_until"), // Null: until lifted by hand
+  holdOwner: text("hold_owner"), // Who takes care of resolving it
+  holdSetBy: varchar("hold_set_by"), // User ID
+  holdSetAt: timestamp("hold_set_at"),
+  // How the debtor was resolved: postingaccount | mapping | name; null while unassigned
+  debtorMatchStrategy: text("debtor_match_strategy"),
   rawJson: jsonb("raw_json"),
   lastSyncedAt: timestamp("last_synced_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_receipts_debtor").on(table.debtorPostingaccountNumber),
   index("idx_receipts_status").on(table.paymentStatus),
   index("idx_receipts_due_date").on(table.dueDate),
+  unique("uq_receipts_mandant_id_by_customer").on(table.mandantId, table.idByCustomer),
 ]);
 
 export const bhbReceiptsCacheRelations = relations(bhbReceiptsCache, ({ one, many }) => ({
@@ -78,16 +163,40 @@ export const bhbReceiptsCacheRelations = relations(bhbReceiptsCache, ({ one, man
     references: [portalCustomers.debtorPostingaccountNumber],
   }),
   dunningEvents: many(dunningEvents),
+  payments: many(receiptPayments),
+}));
+
+// Individual payments on a receipt, read from BHB's payment details or derived from amount_paid between syncs
+export const receiptPayments = pgTable("receipt_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  receiptId: varchar("receipt_id").notNull().references(() => bhbReceiptsCache.id, { onDelete: "cascade" }),
+  paymentDate: timestamp("payment_date"), // Null when paid before payments were tracked
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // Negative for reversals
+  source: text("source").notNull(), // bhb, sync, initial
+  reference: text("reference"), // BHB transaction id, if delivered
+  syncLogId: varchar("sync_log_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_receipt_payments_receipt").on(table.receiptId, table.paymentDate),
+]);
+
+export const receiptPaymentsRelations = relations(receiptPayments, ({ one }) => ({
+  receipt: one(bhbReceiptsCache, {
+    fields: [receiptPayments.receiptId],
+    references: [bhbReceiptsCache.id],
+  }),
 }));
 
 // Mapping table for counterparty names to debtor numbers
 export const counterpartyMappings = pgTable("counterparty_mappings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  counterpartyName: text("counterparty_name").notNull().unique(),
-  debtorPostingaccountNumber: integer("debtor_postingaccount_number").notNull().references(() => portalCustomers.debtorPostingaccountNumber),
+  mandantId: varchar("mandant_id").references(() => mandants.id),
+  counterpartyName: text("counterparty_name").notNull(),
+  debtorPostingaccountNumber: integer("debtor_postingaccount_number").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_counterparty_name").on(table.counterpartyName),
+  unique("uq_counterparty_mappings_mandant_name").on(table.mandantId, table.counterpartyName),
 ]);
 
 export const counterpartyMappingsRelations = relations(counterpartyMappings, ({ one }) => ({
@@ -99,12 +208,14 @@ export const counterpartyMappingsRelations = relations(counterpartyMappings, ({
 
 export const counterpartyExceptions = pgTable("counterparty_exceptions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  counterpartyName: text("counterparty_name").notNull().unique(),
+  mandantId: varchar("mandant_id").references(() => mandants.id),
+  counterpartyName: text("counterparty_name").notNull(),
   status: text("status").notNull().default("ignored"),
   note: text("note"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_counterparty_exception_name").on(table.counterpartyName),
+  unique("uq_counterparty_exceptions_mandant_name").on(table.mandantId, table.counterpartyName),
 ]);
 
 export const dunningStagesSchema = z.object({
@@ -138,6 +249,9 @@ export const dunningRules = pgTable("dunning_rules", {
   graceDays: integer("grace_days").default(0).notNull(),
   interestRatePercent: decimal("interest_rate_percent", { precision: 5, scale: 2 }).default("0").notNull(),
   useLegalRate: boolean("use_legal_rate").default(false).notNull(),
+  autoDunningEnabled: boolean("auto_dunning_enabled").default(true).notNull(), // Per-customer opt-out from the automated dunning run
+  lumpSumEnabled: boolean("lump_sum_enabled").default(false).notNull(), // BGB §288(5) Verzugspauschale, business debtors only
+  lumpSumAmount: decimal("lump_sum_amount", { precision: 8, scale: 2 }).default("40.00").notNull(),
   stages: jsonb("stages").$type<DunningStages>().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -153,6 +267,7 @@ export const dunningRulesRelations = relations(dunningRules, ({ one }) => ({
 // Email templates for dunning letters (must be defined before dunningEvents)
 export const dunningEmailTemplates = pgTable("dunning_email_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mandantId: varchar("mandant_id").references(() => mandants.id), // null = shared by all mandants
   name: text("name").notNull(),
   stage: text("stage").notNull(), // 'reminder', 'dunning1', 'dunning2', 'dunning3'
   subject: text("subject").notNull(),
@@ -176,8 +291,12 @@ export const dunningEvents = pgTable("dunning_events", {
   subject: text("subject"),
   interestAmount: decimal("interest_amount", { precision: 12, scale: 2 }),
   feeAmount: decimal("fee_amount", { precision: 12, scale: 2 }),
+  lumpSumAmount: decimal("lump_sum_amount", { precision: 12, scale: 2 }), // Verzugspauschale, kept apart from stage fees
   totalAmount: decimal("total_amount", { precision: 12, scale: 2 }),
   invoiceCount: integer("invoice_count"),
+  receiptIds: jsonb("receipt_ids").$type<string[]>(), // Receipts included in this letter
+  parentEventId: varchar("parent_event_id"), // Set on per-receipt rows, points to the letter event
+  mode: text("mode").default("manual").notNull(), // manual, auto
   sentAt: timestamp("sent_at"),
   status: text("status").default("pending").notNull(),
   errorMessage: text("error_message"),
@@ -197,6 +316,7 @@ export const dunningEventsRelations = relations(dunningEvents, ({ one }) => ({
 
 export const insertDunningEmailTemplateSchema = createInsertSchema(dunningEmailTemplates).omit({
   id: true,
+  mandantId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -204,11 +324,16 @@ export const insertDunningEmailTemplateSchema = createInsertSchema(dunningEmailT
 export type InsertDunningEmailTemplate = z.infer<typeof insertDunningEmailTemplateSchema>;
 export type DunningEmailTemplate = typeof dunningEmailTemplates.$inferSelect;
 
+// The mandant is set by storage from the request context, never from client input
 export const insertPortalCustomerSchema = createInsertSchema(portalCustomers).omit({
   id: true,
+  mandantId: true,
   createdAt: true,
   updatedAt: true,
   lastBhbSync: true,
+  syncedData: true,
+  localDataHash: true,
+  syncConflict: true,
 }).extend({
   emailContact: z.union([z.string().email(), z.literal(""), z.null()]).optional().transform(val => val === "" ? null : val),
   isActive: z.boolean().optional().default(true),
@@ -233,13 +358,38 @@ export const updatePortalCustomerSchema = z.object({
   bic: z.string().nullable().optional(),
 });
 
+// Body of PATCH /api/invoices/:id; onHold: false lifts a Mahnsperre
+export const updateInvoiceSchema = z.object({
+  paymentStatus: z.string().optional(),
+  dunningLevel: z.string().optional(),
+  onHold: z.boolean().optional(),
+  holdReason: z.string().trim().max(500).nullable().optional(),
+  holdUntil: z.coerce.date().nullable().optional(),
+  holdOwner: z.string().trim().max(200).nullable().optional(),
+}).refine((data) => data.onHold !== true || !!data.holdReason, {
+  message: "Bitte einen Grund für die Mahnsperre angeben",
+  path: ["holdReason"],
+});
+
+export const resolveSyncConflictSchema = z.object({
+  resolutions: z.record(z.enum(DEBTOR_SYNC_FIELDS), z.enum(["portal", "bhb"])),
+});
+
 export const inputDunningRulesSchema = z.object({
   graceDays: z.number().int().min(0).optional().default(0),
   interestRatePercent: z.union([z.string(), z.number()]).optional().transform(val => String(val ?? "0")),
   useLegalRate: z.boolean().optional().default(false),
+  autoDunningEnabled: z.boolean().optional().default(true),
+  lumpSumEnabled: z.boolean().optional().default(false),
+  lumpSumAmount: z.union([z.string(), z.number()]).optional().transform(val => String(val ?? "40")),
   stages: dunningStagesSchema.optional(),
 }).strict();
 
+export const insertCustomerChangeSchema = createInsertSchema(customerChanges).omit({
+  id: true,
+  changedAt: true,
+});
+
 export const insertPortalUserCustomerSchema = createInsertSchema(portalUserCustomers).omit({
   id: true,
   createdAt: true,
@@ -247,16 +397,24 @@ export const insertPortalUserCustomerSchema = createInsertSchema(portalUserCusto
 
 export const insertBhbReceiptsCacheSchema = createInsertSchema(bhbReceiptsCache).omit({
   id: true,
+  mandantId: true,
   lastSyncedAt: true,
 });
 
+export const insertReceiptPaymentSchema = createInsertSchema(receiptPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertDunningRulesSchema = createInsertSchema(dunningRules).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertDunningEventSchema = createInsertSchema(dunningEvents).omit({
+export const insertDunningEventSchema = createInsertSchema(dunningEvents, {
+  receiptIds: z.array(z.string()).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -264,11 +422,24 @@ export const insertDunningEventSchema = createInsertSchema(dunningEvents).omit({
 export type InsertPortalCustomer = z.infer<typeof insertPortalCustomerSchema>;
 export type PortalCustomer = typeof portalCustomers.$inferSelect;
 
+export type InsertCustomerChange = z.infer<typeof insertCustomerChangeSchema>;
+export type CustomerChange = typeof customerChanges.$inferSelect;
+export type CustomerChangeSource = "user" | "bhb_sync";
+
 export type InsertPortalUserCustomer = z.infer<typeof insertPortalUserCustomerSchema>;
 export type PortalUserCustomer = typeof portalUserCustomers.$inferSelect;
 
 export type InsertBhbReceiptsCache = z.infer<typeof insertBhbReceiptsCacheSchema>;
 export type BhbReceiptsCache = typeof bhbReceiptsCache.$inferSelect;
+export type DebtorMatchStrategy = "postingaccount" | "mapping" | "name";
+// Amounts are stored unsigned; for credit notes amountOpen is the credit not yet settled
+export type ReceiptType = "invoice" | "credit_note";
+
+export type InsertReceiptPayment = z.infer<typeof insertReceiptPaymentSchema>;
+export type ReceiptPayment = typeof receiptPayments.$inferSelect;
+// bhb: payment details from BHB, sync: increase of amount_paid between two syncs,
+// initial: amount already paid when first seen, date unknown
+export type ReceiptPaymentSource = "bhb" | "sync" | "initial";
 
 export type InsertDunningRules = z.infer<typeof insertDunningRulesSchema>;
 export type DunningRules = typeof dunningRules.$inferSelect;
@@ -276,8 +447,81 @@ export type DunningRules = typeof dunningRules.$inferSelect;
 export type InsertDunningEvent = z.infer<typeof insertDunningEventSchema>;
 export type DunningEvent = typeof dunningEvents.$inferSelect;
 
+// Dunning proposals from a dry run, reviewed before anything is sent
+export const dunningProposals = pgTable("dunning_proposals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull().references(() => portalCustomers.id, { onDelete: "cascade" }),
+  templateId: varchar("template_id").references(() => dunningEmailTemplates.id, { onDelete: "set null" }),
+  stage: text("stage").notNull(),
+  recipientEmail: text("recipient_email"),
+  invoiceCount: integer("invoice_count").default(0).notNull(),
+  receiptIds: jsonb("receipt_ids").$type<string[]>(),
+  amountOpen: decimal("amount_open", { precision: 12, scale: 2 }),
+  interestAmount: decimal("interest_amount", { precision: 12, scale: 2 }),
+  feeAmount: decimal("fee_amount", { precision: 12, scale: 2 }),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }),
+  status: text("status").default("pending").notNull(), // pending, approved, rejected, sent, failed
+  createdBy: varchar("created_by"), // User ID or 'system' for automated runs
+  decidedBy: varchar("decided_by"),
+  decidedAt: timestamp("decided_at"),
+  dunningEventId: varchar("dunning_event_id").references(() => dunningEvents.id, { onDelete: "set null" }),
+  sentAt: timestamp("sent_at"),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_dunning_proposals_status").on(table.status),
+  index("idx_dunning_proposals_customer").on(table.customerId),
+]);
+
+export const dunningProposalsRelations = relations(dunningProposals, ({ one }) => ({
+  customer: one(portalCustomers, {
+    fields: [dunningProposals.customerId],
+    references: [portalCustomers.id],
+  }),
+}));
+
+export const insertDunningProposalSchema = createInsertSchema(dunningProposals, {
+  receiptIds: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const dunningProposalStatusSchema = z.enum(["pending", "approved", "rejected", "sent", "failed"]);
+
+export const updateDunningProposalStatusSchema = z.object({
+  ids: z.array(z.string()).min(1),
+  status: z.enum(["pending", "approved", "rejected"]),
+}).strict();
+
+export type InsertDunningProposal = z.infer<typeof insertDunningProposalSchema>;
+export type DunningProposal = typeof dunningProposals.$inferSelect;
+
+// EZB base rate history (Basiszinssatz, adjusted every 1 January and 1 July)
+export const ezbBaseRates = pgTable("ezb_base_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  validFrom: date("valid_from").notNull().unique(),
+  ratePercent: decimal("rate_percent", { precision: 5, scale: 2 }).notNull(),
+  updatedBy: varchar("updated_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEzbBaseRateSchema = createInsertSchema(ezbBaseRates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const inputEzbBaseRateSchema = z.object({
+  validFrom: z.string().regex(/^\d{4}-(01|07)-01$/, "Gültig ab muss der 1. Januar oder 1. Juli sein (JJJJ-MM-TT)"),
+  ratePercent: z.number().min(-10).max(20),
+}).strict();
+
+export type InsertEzbBaseRate = z.infer<typeof insertEzbBaseRateSchema>;
+export type EzbBaseRate = typeof ezbBaseRates.$inferSelect;
+
 export const insertCounterpartyMappingSchema = createInsertSchema(counterpartyMappings).omit({
   id: true,
+  mandantId: true,
   createdAt: true,
 });
 
@@ -338,7 +582,7 @@ export const syncLogs = pgTable("sync_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   startedAt: timestamp("started_at").defaultNow().notNull(),
   finishedAt: timestamp("finished_at"),
-  status: text("status").notNull().default("running"), // running, success, error
+  status: text("status").notNull().default("running"), // running, success, partial, error, cancelled, skipped
   mode: text("mode").notNull().default("manual"), // manual, auto
   entityType: text("entity_type").notNull(), // invoices, debtors, both
   direction: text("direction").notNull().default("pull"), // pull (from BHB), push (to BHB)
@@ -350,6 +594,7 @@ export const syncLogs = pgTable("sync_logs", {
   errors: jsonb("errors"),
   details: jsonb("details"), // Additional sync details/summary
   triggeredBy: varchar("triggered_by"), // User ID or 'system' for auto sync
+  mandantId: varchar("mandant_id").references(() => mandants.id),
 }, (table) => [
   index("idx_sync_logs_started").on(table.startedAt),
   index("idx_sync_logs_status").on(table.status),
@@ -358,7 +603,68 @@ export const syncLogs = pgTable("sync_logs", {
 
 export const insertSyncLogSchema = createInsertSchema(syncLogs).omit({
   id: true,
+  mandantId: true,
 });
 
 export type InsertSyncLog = z.infer<typeof insertSyncLogSchema>;
 export type SyncLog = typeof syncLogs.$inferSelect;
+
+export const SYNC_RECORD_ACTIONS = ["created", "updated", "cancelled", "conflict", "invalid", "error"] as const;
+export type SyncRecordAction = typeof SYNC_RECORD_ACTIONS[number];
+
+export interface SyncRecordChange {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+// Per-record outcome of a sync run; unchanged records are not stored
+export const syncLogRecords = pgTable("sync_log_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  syncLogId: varchar("sync_log_id").notNull().references(() => syncLogs.id, { onDelete: "cascade" }),
+  entityType: text("entity_type").notNull(), // invoices, debtors
+  action: text("action").notNull(), // created, updated, cancelled, conflict, invalid, error
+  recordKey: text("record_key"), // idByCustomer for receipts, posting account number for debtors
+  label: text("label"), // Invoice number or debtor name for display
+  changes: jsonb("changes").$type<SyncRecordChange[]>(),
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_sync_log_records_log").on(table.syncLogId, table.entityType),
+  index("idx_sync_log_records_created").on(table.createdAt),
+]);
+
+export const insertSyncLogRecordSchema = createInsertSchema(syncLogRecords, {
+  changes: z.array(z.object({
+    field: z.string(),
+    oldValue: z.string().nullable(),
+    newValue: z.string().nullable(),
+  })).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertSyncLogRecord = z.infer<typeof insertSyncLogRecordSchema>;
+export type SyncLogRecord = typeof syncLogRecords.$inferSelect;
+
+// One lock per mandant and entity type while a sync holds it; heartbeatAt lets other runs detect crashed holders
+export const syncLocks = pgTable("sync_locks", {
+  mandantId: varchar("mandant_id").notNull().references(() => mandants.id, { onDelete: "cascade" }),
+  entityType: text("entity_type").notNull(), // invoices, debtors
+  syncLogId: varchar("sync_log_id").notNull().references(() => syncLogs.id, { onDelete: "cascade" }),
+  lockedBy: varchar("locked_by").notNull(), // User ID or 'system' for auto sync
+  acquiredAt: timestamp("acquired_at").defaultNow().notNull(),
+  heartbeatAt: timestamp("heartbeat_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.mandantId, table.entityType] }),
+]);
+
+export const insertSyncLockSchema = createInsertSchema(syncLocks).omit({
+  mandantId: true,
+  acquiredAt: true,
+  heartbeatAt: true,
+});
+
+export type InsertSyncLock = z.infer<typeof insertSyncLockSchema>;
+export type SyncLock = typeof syncLocks.$inferSelect;